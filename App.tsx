@@ -10,23 +10,30 @@ import EditScreen from './ui/screens/EditScreen';
 import TagsScreen from './ui/screens/TagsScreen';
 import TagDetailScreen from './ui/screens/TagDetailScreen';
 import SettingsScreen from './ui/screens/SettingsScreen';
+import DuplicatesScreen from './ui/screens/DuplicatesScreen';
+import CollectionScreen from './ui/screens/CollectionScreen';
+import ClipboardClearToast from './ui/components/ClipboardClearToast';
+import AppLockGate from './ui/components/AppLockGate';
 import { ScreenName, ClipboardItem, ClipboardType } from './types';
+import { SmartCollection } from './data/collections/SmartCollection';
 import { clipboardRepository } from './data/repository/ClipboardRepository';
 import { Clipboard } from '@capacitor/clipboard';
 import { App as CapApp } from '@capacitor/app';
-import { detectSmartItems } from './util/SmartRecognition';
+import { ingestionPipeline } from './data/ingestion/IngestionPipeline';
+import { clipboardAutoClear } from './data/clipboard/ClipboardAutoClear';
 import { Preferences } from '@capacitor/preferences';
 
-const AppContent: React.FC = () => {
-  const [currentScreen, setCurrentScreen] = useState<ScreenName>('SPLASH');
+const AppContent: React.FC<{ initialScreen?: ScreenName }> = ({ initialScreen = 'SPLASH' }) => {
+  const [currentScreen, setCurrentScreen] = useState<ScreenName>(initialScreen);
   const [historyStack, setHistoryStack] = useState<ScreenName[]>([]);
   
   const [activeHomeTab, setActiveHomeTab] = useState<'clipboard' | 'notes'>('clipboard');
 
   const [selectedItem, setSelectedItem] = useState<ClipboardItem | null>(null);
   const [selectedTag, setSelectedTag] = useState<string>('');
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string>('');
   const [isNewItem, setIsNewItem] = useState(false);
-  const { isDarkTheme } = useSettings();
+  const { isDarkTheme, trashRetentionDays, revisionHistoryDepth, clipboardRetention, duplicateDetection, autoTagRules, vaultAutoLockMinutes, skipSensitiveCaptures, clipboardClearSeconds, accentColor } = useSettings();
 
   useEffect(() => {
     const performStartupSync = async () => {
@@ -36,48 +43,8 @@ const AppContent: React.FC = () => {
       try {
         if (!document.hasFocus()) return;
         const { value: text } = await Clipboard.read();
-        if (text && text.trim()) {
-           const latestItems = await clipboardRepository.getAllItems('DATE', 'DESC');
-           const latest = latestItems.find(i => i.category === 'clipboard' && !i.isDeleted);
-           
-           if (latest && latest.content === text) return;
-           
-           const trashedItems = latestItems.filter(i => i.isDeleted);
-           if (trashedItems.some(i => i.content === text)) return;
-           
-           let detectedType = ClipboardType.TEXT;
-           const smartItems = detectSmartItems(text);
-           if (smartItems.length > 0) {
-             const firstDetectedType = smartItems[0].type;
-             switch (firstDetectedType) {
-               case 'PHONE':
-                 detectedType = ClipboardType.PHONE;
-                 break;
-               case 'EMAIL':
-                 detectedType = ClipboardType.EMAIL;
-                 break;
-               case 'LINK':
-                 detectedType = ClipboardType.LINK;
-                 break;
-               case 'LOCATION':
-                 detectedType = ClipboardType.LOCATION;
-                 break;
-               default:
-                 detectedType = ClipboardType.TEXT;
-             }
-           }
-           
-           await clipboardRepository.addItem({
-               id: Date.now().toString(),
-               content: text,
-               type: detectedType,
-               category: 'clipboard',
-               timestamp: new Date().toLocaleString(),
-               tags: ['#synced'],
-               isPinned: false,
-               isFavorite: false,
-               isDeleted: false
-           });
+        if (text) {
+          await ingestionPipeline.ingest({ text, category: 'clipboard', source: 'sync' });
         }
       } catch (e) {
         console.warn("Startup sync skipped", e);
@@ -88,6 +55,61 @@ const AppContent: React.FC = () => {
     return () => clearTimeout(t);
   }, []);
 
+  // Purge expired trash on startup, whenever the retention changes and when the app resumes
+  useEffect(() => {
+    const purgeTrash = () => {
+      clipboardRepository.purgeExpiredTrash(trashRetentionDays).catch(e => {
+        console.warn("Trash purge failed", e);
+      });
+    };
+    purgeTrash();
+
+    const resumeListener = CapApp.addListener('resume', purgeTrash);
+    return () => {
+      resumeListener.then(listener => listener.remove());
+    };
+  }, [trashRetentionDays]);
+
+  useEffect(() => {
+    clipboardRepository.setRevisionDepth(revisionHistoryDepth);
+  }, [revisionHistoryDepth]);
+
+  useEffect(() => {
+    clipboardRepository.setDuplicateDetection(duplicateDetection);
+  }, [duplicateDetection]);
+
+  useEffect(() => {
+    ingestionPipeline.setAutoTagRules(autoTagRules);
+  }, [autoTagRules]);
+
+  useEffect(() => {
+    ingestionPipeline.setSkipSensitive(skipSensitiveCaptures);
+  }, [skipSensitiveCaptures]);
+
+  useEffect(() => {
+    clipboardRepository.vault.setAutoLock(vaultAutoLockMinutes * 60 * 1000);
+  }, [vaultAutoLockMinutes]);
+
+  useEffect(() => {
+    clipboardAutoClear.setClearAfter(clipboardClearSeconds * 1000);
+  }, [clipboardClearSeconds]);
+
+  // New clipboard items are checked as they arrive; the age limit also needs checking on resume
+  useEffect(() => {
+    clipboardRepository.setClipboardRetention(clipboardRetention);
+    const enforceRetention = () => {
+      clipboardRepository.enforceClipboardRetention().catch(e => {
+        console.warn("Clipboard retention failed", e);
+      });
+    };
+    enforceRetention();
+
+    const resumeListener = CapApp.addListener('resume', enforceRetention);
+    return () => {
+      resumeListener.then(listener => listener.remove());
+    };
+  }, [clipboardRetention]);
+
   useEffect(() => {
     const handleBackButton = CapApp.addListener('backButton', () => {
       if (historyStack.length > 0) {
@@ -132,13 +154,18 @@ const AppContent: React.FC = () => {
     setCurrentScreen('READ');
   };
 
+  // Related items replace the one being read, so Back still leads to the list it was opened from
+  const handleReadRelated = (item: ClipboardItem) => {
+    setSelectedItem(item);
+  };
+
   const handleCreateNew = () => {
     const newItem: ClipboardItem = {
       id: Date.now().toString(),
       content: '',
       type: ClipboardType.TEXT,
       category: activeHomeTab,
-      timestamp: new Date().toLocaleString(),
+      timestamp: new Date().toISOString(),
       tags: activeHomeTab === 'notes' ? ['#notes'] : [],
       isPinned: false,
       isFavorite: false,
@@ -163,6 +190,12 @@ const AppContent: React.FC = () => {
       setCurrentScreen('TAG_DETAILS');
   };
 
+  const handleOpenCollection = (collection: SmartCollection) => {
+      setSelectedCollectionId(collection.id);
+      setHistoryStack(prev => [...prev, currentScreen]);
+      setCurrentScreen('COLLECTION');
+  };
+
   const handleSaveEdit = (savedItem?: ClipboardItem) => {
     if (savedItem) {
         setSelectedItem(savedItem);
@@ -176,16 +209,18 @@ const AppContent: React.FC = () => {
   const renderScreen = () => {
     switch (currentScreen) {
       case 'SPLASH': return <SplashScreen />;
-      case 'HOME': return <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} />;
+      case 'HOME': return <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} onOpenCollection={handleOpenCollection} />;
       case 'TRASH': return <TrashScreen onBack={goBack} />;
       case 'FAVORITE': return <FavoriteScreen onBack={goBack} onRead={handleReadItem} />;
       case 'TAGS': return <TagsScreen onBack={goBack} onSelectTag={handleSelectTag} />;
       case 'TAG_DETAILS': return <TagDetailScreen tag={selectedTag} onBack={goBack} onRead={handleReadItem} />;
       case 'SETTINGS': return <SettingsScreen onBack={goBack} />;
-      case 'READ': return selectedItem ? <ReadScreen item={selectedItem} onBack={goBack} onEdit={handleEditItem} /> : <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} />;
-      case 'EDIT': return selectedItem ? <EditScreen item={selectedItem} isNew={isNewItem} onBack={goBack} onSave={handleSaveEdit} /> : <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} />;
-      case 'NOTES': return <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} />;
-      default: return <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} />;
+      case 'DUPLICATES': return <DuplicatesScreen onBack={goBack} onRead={handleReadItem} />;
+      case 'COLLECTION': return <CollectionScreen collectionId={selectedCollectionId} onBack={goBack} onRead={handleReadItem} />;
+      case 'READ': return selectedItem ? <ReadScreen item={selectedItem} onBack={goBack} onEdit={handleEditItem} onRead={handleReadRelated} /> : <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} onOpenCollection={handleOpenCollection} />;
+      case 'EDIT': return selectedItem ? <EditScreen item={selectedItem} isNew={isNewItem} onBack={goBack} onSave={handleSaveEdit} /> : <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} onOpenCollection={handleOpenCollection} />;
+      case 'NOTES': return <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} onOpenCollection={handleOpenCollection} />;
+      default: return <HomeScreen onNavigate={navigateTo} onRead={handleReadItem} onCreateNew={handleCreateNew} activeTab={activeHomeTab} onTabChange={setActiveHomeTab} onOpenCollection={handleOpenCollection} />;
     }
   };
 
@@ -194,15 +229,21 @@ const AppContent: React.FC = () => {
       <div key={currentScreen} className="w-full h-full animate-fade-in">
           {renderScreen()}
       </div>
+      <ClipboardClearToast accentColor={accentColor} />
     </div>
   );
 };
 
 const App: React.FC = () => {
+  // Bumped after a wipe: screens start over on an empty Home instead of showing what was erased
+  const [wipeCount, setWipeCount] = useState(0);
+
   return (
     <SettingsProvider>
       <AuthProvider>
-        <AppContent />
+        <AppLockGate onWipe={() => setWipeCount(count => count + 1)}>
+          <AppContent key={wipeCount} initialScreen={wipeCount > 0 ? 'HOME' : 'SPLASH'} />
+        </AppLockGate>
       </AuthProvider>
     </SettingsProvider>
   );
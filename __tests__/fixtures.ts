@@ -0,0 +1,15 @@
+import { ClipboardItem, ClipboardType } from '../types';
+
+/** A live, untagged clipboard text item captured now; override whatever a test cares about */
+export const makeItem = (id: string, overrides: Partial<ClipboardItem> = {}): ClipboardItem => ({
+  id,
+  content: `Item ${id}`,
+  type: ClipboardType.TEXT,
+  category: 'clipboard',
+  timestamp: new Date().toISOString(),
+  tags: [],
+  isPinned: false,
+  isFavorite: false,
+  isDeleted: false,
+  ...overrides
+});
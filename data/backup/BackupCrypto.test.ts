@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { BackupFormatError, BackupPassphraseError, decryptBackup, encryptBackup, isEncryptedBackup, openBackup } from './BackupCrypto';
+
+const ITERATIONS = 1000;
+const BACKUP = JSON.stringify({ version: 5, items: [{ id: '1', content: 'my secret note' }] });
+
+describe('BackupCrypto', () => {
+  it('should write a versioned header around the ciphertext', async () => {
+    const file = JSON.parse(await encryptBackup(BACKUP, 'correct horse', ITERATIONS));
+
+    expect(isEncryptedBackup(file)).toBe(true);
+    expect(file).toMatchObject({ version: 1, kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS }, cipher: { name: 'AES-GCM' } });
+    expect(JSON.stringify(file)).not.toContain('my secret note');
+    expect(await decryptBackup(file, 'correct horse')).toBe(BACKUP);
+  });
+
+  it('should reject a wrong passphrase or a tampered file', async () => {
+    const file = JSON.parse(await encryptBackup(BACKUP, 'correct horse', ITERATIONS));
+    await expect(decryptBackup(file, 'wrong horse')).rejects.toBeInstanceOf(BackupPassphraseError);
+
+    const tampered = { ...file, data: file.data.slice(0, -4) + (file.data.endsWith('AAAA') ? 'BBBB' : 'AAAA') };
+    await expect(decryptBackup(tampered, 'correct horse')).rejects.toBeInstanceOf(BackupPassphraseError);
+  });
+
+  it('should report a header that is not valid Base64 as a damaged file', async () => {
+    const file = JSON.parse(await encryptBackup(BACKUP, 'correct horse', ITERATIONS));
+
+    await expect(decryptBackup({ ...file, kdf: { ...file.kdf, salt: 'not base64!' } }, 'correct horse')).rejects.toBeInstanceOf(BackupFormatError);
+    await expect(decryptBackup({ ...file, cipher: { ...file.cipher, iv: '%%' } }, 'correct horse')).rejects.toBeInstanceOf(BackupFormatError);
+    await expect(openBackup(JSON.stringify({ ...file, data: '@@@' }), 'correct horse')).rejects.toBeInstanceOf(BackupFormatError);
+  });
+
+  it('should pass plain backups through and ask for the passphrase of encrypted ones', async () => {
+    expect(await openBackup(BACKUP)).toBe(BACKUP);
+    expect(await openBackup('not json')).toBe('not json');
+
+    const encrypted = await encryptBackup(BACKUP, 'correct horse', ITERATIONS);
+    await expect(openBackup(encrypted)).rejects.toBeInstanceOf(BackupPassphraseError);
+    expect(await openBackup(encrypted, 'correct horse')).toBe(BACKUP);
+  });
+
+  it('should not accept headers with unknown or excessive parameters', async () => {
+    const file = JSON.parse(await encryptBackup(BACKUP, 'correct horse', ITERATIONS));
+
+    expect(isEncryptedBackup({ ...file, version: 2 })).toBe(false);
+    expect(isEncryptedBackup({ ...file, kdf: { ...file.kdf, iterations: 1e9 } })).toBe(false);
+    expect(isEncryptedBackup({ ...file, cipher: { name: 'AES-CBC', iv: file.cipher.iv } })).toBe(false);
+  });
+});
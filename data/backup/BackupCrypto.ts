@@ -0,0 +1,127 @@
+import { DEFAULT_PBKDF2_ITERATIONS, fromBase64, toBase64 } from '../vault/VaultCrypto';
+
+/**
+ * Backup Crypto
+ * Passphrase-encrypted backup files. The file is a small JSON header naming
+ * the format version and the key derivation parameters, around the AES-GCM
+ * encrypted plain backup. Anything that is not such a header is treated as
+ * a plain backup, so older files keep restoring.
+ */
+
+export const ENCRYPTED_BACKUP_FORMAT = 'clipboard-max-encrypted-backup';
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }; // Base64 salt
+  cipher: { name: 'AES-GCM'; iv: string }; // Base64 IV
+  data: string; // Base64 ciphertext of the plain backup
+}
+
+export class BackupPassphraseError extends Error {
+  constructor(message = 'Wrong backup passphrase') {
+    super(message);
+    this.name = 'BackupPassphraseError';
+  }
+}
+
+/** The file claims to be an encrypted backup, but its header cannot be read */
+export class BackupFormatError extends Error {
+  constructor(message = 'This backup file is damaged or not a valid backup') {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+// Well above our own setting; rejects headers crafted to stall the device
+const MAX_ITERATIONS = 10000000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const deriveBackupKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackup = (raw: unknown): raw is EncryptedBackup => {
+  if (!raw || typeof raw !== 'object') return false;
+  const r = raw as Partial<EncryptedBackup>;
+  return r.format === ENCRYPTED_BACKUP_FORMAT
+    && r.version === 1
+    && r.kdf?.name === 'PBKDF2' && r.kdf.hash === 'SHA-256'
+    && Number.isInteger(r.kdf.iterations) && r.kdf.iterations > 0 && r.kdf.iterations <= MAX_ITERATIONS
+    && typeof r.kdf.salt === 'string'
+    && r.cipher?.name === 'AES-GCM' && typeof r.cipher.iv === 'string'
+    && typeof r.data === 'string';
+};
+
+/** Wrap a plain backup in an encrypted backup file */
+export const encryptBackup = async (
+  backup: string,
+  passphrase: string,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveBackupKey(passphrase, salt, iterations);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(backup));
+  const file: EncryptedBackup = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(data)
+  };
+  return JSON.stringify(file);
+};
+
+/** @throws BackupFormatError if a Base64 field of the header does not decode */
+const decodeBinaryFields = (file: EncryptedBackup) => {
+  try {
+    return { salt: fromBase64(file.kdf.salt), iv: fromBase64(file.cipher.iv), data: fromBase64(file.data) };
+  } catch (e) {
+    throw new BackupFormatError();
+  }
+};
+
+/**
+ * The plain backup inside an encrypted backup file.
+ * @throws BackupFormatError if the header is corrupted
+ * @throws BackupPassphraseError if the passphrase is wrong
+ */
+export const decryptBackup = async (file: EncryptedBackup, passphrase: string): Promise<string> => {
+  const { salt, iv, data: ciphertext } = decodeBinaryFields(file);
+  const key = await deriveBackupKey(passphrase, salt, file.kdf.iterations);
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+    return decoder.decode(data);
+  } catch (e) {
+    // AES-GCM authentication fails for any other key, and for a tampered file
+    throw new BackupPassphraseError();
+  }
+};
+
+/**
+ * The plain backup in a backup file of either kind. Plain files, and
+ * anything that is not JSON at all, come back unchanged.
+ * @throws BackupPassphraseError if the file is encrypted and the passphrase is missing or wrong
+ * @throws BackupFormatError if the file is encrypted but its header is corrupted
+ */
+export const openBackup = async (contents: string, passphrase?: string): Promise<string> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (e) {
+    return contents;
+  }
+  if (!isEncryptedBackup(parsed)) return contents;
+  if (!passphrase) throw new BackupPassphraseError('This backup needs its passphrase');
+  return decryptBackup(parsed, passphrase);
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ClipboardAccess, ClipboardAutoClear } from './ClipboardAutoClear';
+
+const fakeClipboard = () => {
+  const clipboard = {
+    value: '',
+    read: vi.fn(async () => clipboard.value),
+    write: vi.fn(async (text: string) => {
+      clipboard.value = text;
+    })
+  };
+  return clipboard satisfies ClipboardAccess;
+};
+
+describe('ClipboardAutoClear', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should wipe a copied secret after the delay', async () => {
+    const clipboard = fakeClipboard();
+    const autoClear = new ClipboardAutoClear(clipboard);
+    autoClear.setClearAfter(30000);
+    const changes: (number | null)[] = [];
+    autoClear.subscribe(clearsAt => changes.push(clearsAt));
+
+    await autoClear.copy('4111 1111 1111 1111', true);
+    expect(clipboard.value).toBe('4111 1111 1111 1111');
+    expect(autoClear.getClearsAt()).toBe(Date.now() + 30000);
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(clipboard.value).toBe('');
+    expect(changes).toEqual([expect.any(Number), null]);
+  });
+
+  it('should leave the clipboard alone once something else was copied', async () => {
+    const clipboard = fakeClipboard();
+    const autoClear = new ClipboardAutoClear(clipboard);
+
+    await autoClear.copy('hunter22', true);
+    clipboard.value = 'copied in another app';
+    await autoClear.clearNow();
+    expect(clipboard.value).toBe('copied in another app');
+
+    await autoClear.copy('hunter22', true);
+    await autoClear.copy('plain text', false);
+    expect(autoClear.getClearsAt()).toBeNull();
+    await vi.runAllTimersAsync();
+    expect(clipboard.value).toBe('plain text');
+  });
+
+  it('should wipe when the clipboard cannot be read', async () => {
+    const clipboard = fakeClipboard();
+    clipboard.read.mockRejectedValue(new Error('Document is not focused'));
+    const autoClear = new ClipboardAutoClear(clipboard);
+
+    await autoClear.copy('hunter22', true);
+    await autoClear.clearNow();
+    expect(clipboard.value).toBe('');
+  });
+
+  it('should not schedule anything when clearing is off', async () => {
+    const clipboard = fakeClipboard();
+    const autoClear = new ClipboardAutoClear(clipboard);
+    autoClear.setClearAfter(0);
+
+    await autoClear.copy('hunter22', true);
+    expect(autoClear.getClearsAt()).toBeNull();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
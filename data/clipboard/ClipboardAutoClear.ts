@@ -0,0 +1,99 @@
+import { Clipboard } from '@capacitor/clipboard';
+
+/**
+ * Clipboard Auto-Clear
+ * Writes copied text to the system clipboard and, for secure items, wipes
+ * it again after a delay. The clipboard is only wiped while it still holds
+ * what was copied, so anything the user copied since is left alone.
+ */
+
+/** Seconds a copied secret stays in the system clipboard; 0 never clears it */
+export const CLIPBOARD_CLEAR_OPTIONS = [15, 30, 60, 120, 0];
+export const DEFAULT_CLIPBOARD_CLEAR_SECONDS = 30;
+
+export interface ClipboardAccess {
+  read(): Promise<string>;
+  write(text: string): Promise<void>;
+}
+
+const systemClipboard: ClipboardAccess = {
+  read: async () => (await Clipboard.read()).value,
+  write: text => Clipboard.write({ string: text })
+};
+
+interface PendingClear {
+  text: string;
+  clearsAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class ClipboardAutoClear {
+  private clearAfterMs = DEFAULT_CLIPBOARD_CLEAR_SECONDS * 1000;
+  private pending: PendingClear | null = null;
+  private listeners: Set<(clearsAt: number | null) => void> = new Set();
+
+  constructor(private clipboard: ClipboardAccess = systemClipboard) {}
+
+  /** Delay for secrets copied from now on; 0 leaves them in the clipboard */
+  setClearAfter(ms: number) {
+    this.clearAfterMs = Math.max(0, ms);
+  }
+
+  /** When the clipboard is due to be wiped, or null if nothing is pending */
+  getClearsAt(): number | null {
+    return this.pending?.clearsAt ?? null;
+  }
+
+  /**
+   * Copy text to the system clipboard. A secure copy schedules the wipe;
+   * any copy replaces the wipe scheduled for an earlier one.
+   */
+  async copy(text: string, isSecure: boolean): Promise<void> {
+    await this.clipboard.write(text);
+    this.cancel();
+    if (!isSecure || this.clearAfterMs === 0) return;
+
+    const clearsAt = Date.now() + this.clearAfterMs;
+    const timer = setTimeout(() => {
+      this.clearNow().catch(e => console.warn('Clipboard auto-clear failed', e));
+    }, this.clearAfterMs);
+    this.pending = { text, clearsAt, timer };
+    this.notify();
+  }
+
+  /** Wipe the pending secret right away, if the clipboard still holds it */
+  async clearNow(): Promise<void> {
+    const pending = this.pending;
+    if (!pending) return;
+    this.cancel();
+
+    try {
+      if ((await this.clipboard.read()) !== pending.text) return;
+    } catch (e) {
+      // Unreadable without focus or permission: wiping beats leaving the secret behind
+    }
+    await this.clipboard.write('');
+  }
+
+  /** Forget the pending wipe and leave the clipboard as it is */
+  cancel() {
+    if (!this.pending) return;
+    clearTimeout(this.pending.timer);
+    this.pending = null;
+    this.notify();
+  }
+
+  subscribe(listener: (clearsAt: number | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const clearsAt = this.getClearsAt();
+    this.listeners.forEach(listener => listener(clearsAt));
+  }
+}
+
+export const clipboardAutoClear = new ClipboardAutoClear();
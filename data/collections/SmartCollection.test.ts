@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardType } from '../../types';
+import { EMPTY_LIST_FILTER } from '../search/ListFilter';
+import { SmartCollection, collectionFilter, describeCollection, parseCollections } from './SmartCollection';
+
+const makeCollection = (overrides: Partial<SmartCollection> = {}): SmartCollection => ({
+  id: 'c1',
+  name: 'Saved',
+  query: '',
+  filter: EMPTY_LIST_FILTER,
+  sortOption: 'CUSTOM',
+  sortDirection: 'DESC',
+  ...overrides
+});
+
+describe('SmartCollection', () => {
+  it('should combine filters and query into one search filter', () => {
+    expect(collectionFilter(makeCollection())).toBeNull();
+    expect(collectionFilter(makeCollection({ filter: { ...EMPTY_LIST_FILTER, tags: ['#work'] } }))).toEqual({ kind: 'tag', tag: '#work' });
+    expect(collectionFilter(makeCollection({
+      query: 'docs',
+      filter: { ...EMPTY_LIST_FILTER, category: 'notes', types: [ClipboardType.LINK] }
+    }))).toEqual({
+      kind: 'and',
+      nodes: [
+        { kind: 'in', category: 'notes' },
+        { kind: 'type', type: ClipboardType.LINK },
+        { kind: 'text', text: 'docs' }
+      ]
+    });
+  });
+
+  it('should describe what a collection matches', () => {
+    expect(describeCollection(makeCollection())).toBe('All items');
+    expect(describeCollection(makeCollection({
+      query: ' is:pinned ',
+      filter: { ...EMPTY_LIST_FILTER, category: 'notes', tags: ['#work', '#home'], tagMode: 'all' }
+    }))).toBe('notes · #work + #home · is:pinned');
+  });
+
+  it('should drop malformed stored collections', () => {
+    const valid = makeCollection();
+    expect(parseCollections(null)).toEqual([]);
+    expect(parseCollections([valid, { ...valid, name: ' ' }, { ...valid, sortOption: 'RANDOM' }, 'junk'])).toEqual([valid]);
+  });
+
+  it('should upgrade collections saved with a single type and tag', () => {
+    const legacy = { id: 'c1', name: 'Old', query: '', category: 'clipboard', type: ClipboardType.LINK, tag: '#work', sortOption: 'DATE', sortDirection: 'ASC' };
+    expect(parseCollections([legacy])[0].filter).toEqual({
+      ...EMPTY_LIST_FILTER,
+      category: 'clipboard',
+      types: [ClipboardType.LINK],
+      tags: ['#work']
+    });
+  });
+});
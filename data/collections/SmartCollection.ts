@@ -0,0 +1,75 @@
+import { SortDirection, SortOption } from '../../types';
+import { SearchNode, allOf, parseSearchQuery } from '../search/SearchQuery';
+import { ListFilter, describeListFilter, listFilterNode, parseListFilter } from '../search/ListFilter';
+
+/**
+ * Smart Collections
+ * Named, saved search/filter/sort combinations. A collection stores the
+ * criteria, not the items, so it always shows whatever matches right now.
+ */
+
+export interface SmartCollection {
+  id: string;
+  name: string;
+  /** Search box text, in the search query language */
+  query: string;
+  filter: ListFilter;
+  sortOption: SortOption;
+  sortDirection: SortDirection;
+}
+
+const SORT_OPTIONS: SortOption[] = ['CUSTOM', 'DATE', 'LENGTH', 'ALPHABETICAL'];
+const SORT_DIRECTIONS: SortDirection[] = ['ASC', 'DESC'];
+
+export const createCollectionId = () => `collection-${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`;
+
+/** The search filter a collection stands for; date presets are relative to `now` */
+export const collectionFilter = (collection: SmartCollection, now: number = Date.now()): SearchNode | null =>
+  allOf(listFilterNode(collection.filter, now), parseSearchQuery(collection.query));
+
+/** Short description of what a collection matches, e.g. "notes · LINK · #work" */
+export const describeCollection = (collection: SmartCollection): string =>
+  [...describeListFilter(collection.filter), collection.query.trim()]
+    .filter(Boolean)
+    .join(' · ') || 'All items';
+
+/** A collection as stored, by this version or an older one */
+type StoredCollection = Omit<SmartCollection, 'filter'> & {
+  filter?: unknown;
+  category?: unknown;
+  type?: unknown;
+  tag?: unknown;
+};
+
+const isCollection = (value: unknown): value is StoredCollection => {
+  if (!value || typeof value !== 'object') return false;
+  const stored = value as Record<string, unknown>;
+  return typeof stored.id === 'string' &&
+    typeof stored.name === 'string' && stored.name.trim() !== '' &&
+    typeof stored.query === 'string' &&
+    (SORT_OPTIONS as unknown[]).includes(stored.sortOption) &&
+    (SORT_DIRECTIONS as unknown[]).includes(stored.sortDirection);
+};
+
+/** Collections saved before multi-select filters kept a single category, type and tag */
+const filterOf = (value: StoredCollection): ListFilter =>
+  'filter' in value
+    ? parseListFilter(value.filter)
+    : parseListFilter({
+        category: value.category,
+        types: value.type ? [value.type] : [],
+        tags: value.tag ? [value.tag] : []
+      });
+
+/** Validate stored collections, dropping any that are malformed */
+export const parseCollections = (raw: unknown): SmartCollection[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isCollection).map(value => ({
+    id: value.id,
+    name: value.name,
+    query: value.query,
+    filter: filterOf(value),
+    sortOption: value.sortOption,
+    sortDirection: value.sortDirection
+  }));
+};
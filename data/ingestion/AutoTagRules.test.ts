@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardItem, ClipboardType } from '../../types';
+import {
+  AutoTagRule,
+  EMPTY_RULE_ACTIONS,
+  EMPTY_RULE_CONDITIONS,
+  applyAutoTagRules,
+  cleanDomain,
+  createAutoTagRule,
+  describeRule,
+  matchesRule,
+  parseAutoTagRules
+} from './AutoTagRules';
+import { makeItem } from '../../__tests__/fixtures';
+
+/** A synced capture, as the rules see it during ingestion */
+const captured = (content: string, overrides: Partial<ClipboardItem> = {}) =>
+  makeItem('1', { content, tags: ['#synced'], ...overrides });
+
+const rule = (
+  conditions: Partial<AutoTagRule['conditions']>,
+  actions: Partial<AutoTagRule['actions']> = {}
+): AutoTagRule => ({
+  ...createAutoTagRule('test'),
+  conditions: { ...EMPTY_RULE_CONDITIONS, ...conditions },
+  actions: { ...EMPTY_RULE_ACTIONS, ...actions }
+});
+
+describe('AutoTagRules', () => {
+  it('should require every condition the rule sets', () => {
+    const link = captured('docs at https://docs.github.com/en', { type: ClipboardType.LINK });
+    expect(matchesRule(link, rule({}))).toBe(true);
+    expect(matchesRule(link, rule({ types: [ClipboardType.LINK, ClipboardType.EMAIL], domain: 'GitHub.com' }))).toBe(true);
+    expect(matchesRule(link, rule({ domain: 'hub.com' }))).toBe(false);
+    expect(matchesRule(link, rule({ types: [ClipboardType.LINK], category: 'notes' }))).toBe(false);
+    expect(matchesRule(link, rule({ pattern: '^DOCS' }))).toBe(true);
+    expect(matchesRule(link, rule({ minLength: 10, maxLength: 20 }))).toBe(false);
+    expect(matchesRule(link, { ...rule({}), enabled: false })).toBe(false);
+  });
+
+  it('should never match an invalid pattern', () => {
+    expect(matchesRule(captured('(('), rule({ pattern: '((' }))).toBe(false);
+  });
+
+  it('should combine the actions of all matching rules', () => {
+    const item = captured('password: hunter2');
+    const result = applyAutoTagRules(item, [
+      rule({ pattern: 'password' }, { tags: ['Secret', '#synced'], markSecure: true }),
+      rule({ maxLength: 100 }, { pin: true, moveToNotes: true }),
+      rule({ pattern: 'nope' }, { favorite: true })
+    ]);
+    expect(result).toMatchObject({
+      tags: ['#synced', '#secret'],
+      type: ClipboardType.SECURE,
+      isPinned: true,
+      category: 'notes',
+      isFavorite: false
+    });
+  });
+
+  it('should return the item itself when nothing changes', () => {
+    const item = captured('hello', { isPinned: true });
+    expect(applyAutoTagRules(item, [rule({}, { pin: true, tags: ['#synced'] })])).toBe(item);
+  });
+
+  it('should describe and parse rules', () => {
+    expect(cleanDomain('https://www.GitHub.com/x')).toBe('github.com');
+    expect(describeRule(rule({ types: [ClipboardType.LINK], domain: 'github.com' }, { tags: ['#dev'], pin: true })))
+      .toBe('LINK · github.com → #dev, pin');
+
+    const raw = JSON.stringify([
+      { id: 'a', name: 'A', conditions: { types: ['LINK', 'BOGUS'], minLength: -1 }, actions: { tags: ['Dev'], pin: 1 } },
+      { name: 'no id' }
+    ]);
+    expect(parseAutoTagRules(raw)).toEqual([{
+      id: 'a',
+      name: 'A',
+      enabled: true,
+      conditions: { ...EMPTY_RULE_CONDITIONS, types: [ClipboardType.LINK] },
+      actions: { ...EMPTY_RULE_ACTIONS, tags: ['#dev'], pin: true }
+    }]);
+    expect(parseAutoTagRules('not json')).toEqual([]);
+  });
+});
@@ -0,0 +1,206 @@
+import { ClipboardItem, ClipboardType } from '../../types';
+import { normalizeTags } from '../tags/TagNormalization';
+import { maskSensitiveContent } from '../../util/SensitiveContent';
+
+/**
+ * Auto-Tag Rules
+ * User-defined rules applied to new captures (and, on demand, to existing
+ * items). A rule matches when every condition it sets holds; unset
+ * conditions match anything. Matching rules add tags and flags, they never
+ * take anything away.
+ */
+
+export interface AutoTagRuleConditions {
+  /** Detected type is one of these; empty matches any type */
+  types: ClipboardType[];
+  category: ClipboardItem['category'] | null;
+  /** Regular expression tested against the content, case-insensitive */
+  pattern: string;
+  /** A link in the content points to this domain or one of its subdomains */
+  domain: string;
+  minLength: number | null;
+  maxLength: number | null;
+}
+
+export interface AutoTagRuleActions {
+  tags: string[];
+  favorite: boolean;
+  pin: boolean;
+  moveToNotes: boolean;
+  markSecure: boolean;
+}
+
+export interface AutoTagRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: AutoTagRuleConditions;
+  actions: AutoTagRuleActions;
+}
+
+export const EMPTY_RULE_CONDITIONS: AutoTagRuleConditions = {
+  types: [],
+  category: null,
+  pattern: '',
+  domain: '',
+  minLength: null,
+  maxLength: null
+};
+
+export const EMPTY_RULE_ACTIONS: AutoTagRuleActions = {
+  tags: [],
+  favorite: false,
+  pin: false,
+  moveToNotes: false,
+  markSecure: false
+};
+
+export const createRuleId = () => `rule-${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`;
+
+export const createAutoTagRule = (name: string): AutoTagRule => ({
+  id: createRuleId(),
+  name,
+  enabled: true,
+  conditions: EMPTY_RULE_CONDITIONS,
+  actions: EMPTY_RULE_ACTIONS
+});
+
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (e) {
+    return null;
+  }
+};
+
+export const isValidPattern = (pattern: string): boolean => !pattern || compilePattern(pattern) !== null;
+
+/** `https://www.GitHub.com/x` and `github.com/` both become `github.com` */
+export const cleanDomain = (domain: string): string =>
+  domain.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').replace(/[/:?#].*$/, '');
+
+/** Hosts of the links in a text, without a leading `www.` */
+export const linkDomains = (text: string): string[] =>
+  (text.match(/https?:\/\/[^\s]+/g) || []).flatMap(link => {
+    try {
+      return [cleanDomain(new URL(link).hostname)];
+    } catch (e) {
+      return [];
+    }
+  });
+
+export const matchesRule = (item: ClipboardItem, rule: AutoTagRule): boolean => {
+  if (!rule.enabled) return false;
+  const { types, category, pattern, domain, minLength, maxLength } = rule.conditions;
+
+  if (types.length > 0 && !types.includes(item.type)) return false;
+  if (category && item.category !== category) return false;
+  if (minLength !== null && item.content.length < minLength) return false;
+  if (maxLength !== null && item.content.length > maxLength) return false;
+  if (pattern) {
+    // An invalid pattern can't be saved from Settings; one that slipped in matches nothing
+    const regex = compilePattern(pattern);
+    if (!regex || !regex.test(item.content)) return false;
+  }
+  if (domain) {
+    const wanted = cleanDomain(domain);
+    if (!linkDomains(item.content).some(host => host === wanted || host.endsWith('.' + wanted))) return false;
+  }
+  return true;
+};
+
+/**
+ * Apply the actions of every rule that matches the item as given, in rule
+ * order. Returns the item itself when the rules change nothing.
+ */
+export const applyAutoTagRules = (item: ClipboardItem, rules: AutoTagRule[]): ClipboardItem => {
+  const matched = rules.filter(rule => matchesRule(item, rule));
+  if (matched.length === 0) return item;
+
+  const has = (action: keyof Omit<AutoTagRuleActions, 'tags'>) => matched.some(rule => rule.actions[action]);
+  const next: ClipboardItem = {
+    ...item,
+    tags: Array.from(new Set([...item.tags, ...normalizeTags(matched.flatMap(rule => rule.actions.tags))])),
+    isFavorite: item.isFavorite || has('favorite'),
+    isPinned: item.isPinned || has('pin'),
+    category: has('moveToNotes') ? 'notes' : item.category,
+    type: has('markSecure') ? ClipboardType.SECURE : item.type
+  };
+  if (next.type !== item.type) next.displayContent = maskSensitiveContent(item.content);
+
+  const unchanged =
+    next.tags.length === item.tags.length &&
+    next.isFavorite === item.isFavorite &&
+    next.isPinned === item.isPinned &&
+    next.category === item.category &&
+    next.type === item.type;
+  return unchanged ? item : next;
+};
+
+/** Short description of a rule, e.g. "LINK · github.com → #dev, pin" */
+export const describeRule = (rule: AutoTagRule): string => {
+  const { types, category, pattern, domain, minLength, maxLength } = rule.conditions;
+  const when = [
+    category,
+    ...types,
+    domain && cleanDomain(domain),
+    pattern && `/${pattern}/`,
+    minLength !== null && `≥ ${minLength} chars`,
+    maxLength !== null && `≤ ${maxLength} chars`
+  ].filter(Boolean);
+
+  const { tags, favorite, pin, moveToNotes, markSecure } = rule.actions;
+  const then = [
+    ...tags,
+    favorite && 'favorite',
+    pin && 'pin',
+    moveToNotes && 'move to notes',
+    markSecure && 'secure'
+  ].filter(Boolean);
+
+  return `${when.join(' · ') || 'Everything'} → ${then.join(', ') || 'nothing'}`;
+};
+
+const TYPES = Object.values(ClipboardType);
+
+const lengthOf = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : null;
+
+const parseRule = (value: any): AutoTagRule | null => {
+  if (!value || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+  const conditions = value.conditions ?? {};
+  const actions = value.actions ?? {};
+  return {
+    id: value.id,
+    name: value.name,
+    enabled: value.enabled !== false,
+    conditions: {
+      types: Array.isArray(conditions.types) ? conditions.types.filter((t: any) => TYPES.includes(t)) : [],
+      category: conditions.category === 'clipboard' || conditions.category === 'notes' ? conditions.category : null,
+      pattern: typeof conditions.pattern === 'string' ? conditions.pattern : '',
+      domain: typeof conditions.domain === 'string' ? conditions.domain : '',
+      minLength: lengthOf(conditions.minLength),
+      maxLength: lengthOf(conditions.maxLength)
+    },
+    actions: {
+      tags: Array.isArray(actions.tags) ? normalizeTags(actions.tags) : [],
+      favorite: !!actions.favorite,
+      pin: !!actions.pin,
+      moveToNotes: !!actions.moveToNotes,
+      markSecure: !!actions.markSecure
+    }
+  };
+};
+
+/** Validate stored rules, dropping any that are malformed */
+export const parseAutoTagRules = (raw: string | null): AutoTagRule[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(parseRule).filter((rule): rule is AutoTagRule => rule !== null);
+  } catch (e) {
+    console.warn("Invalid auto-tag rules setting", e);
+    return [];
+  }
+};
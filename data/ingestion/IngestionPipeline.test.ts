@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ClipboardItem } from '../../types';
+import { DuplicateMatch } from '../repository/ClipboardRepository';
+import { IngestionPipeline } from './IngestionPipeline';
+import { IngestionStage, IngestionStore, createDraft } from './IngestionStages';
+import { EMPTY_RULE_ACTIONS, EMPTY_RULE_CONDITIONS, createAutoTagRule } from './AutoTagRules';
+
+const createStore = (match?: DuplicateMatch) => {
+  const added: ClipboardItem[] = [];
+  const store: IngestionStore = {
+    addItem: vi.fn(async (item: ClipboardItem) => { added.push(item); }),
+    findDuplicate: vi.fn(async () => match)
+  };
+  return { store, added };
+};
+
+describe('IngestionPipeline', () => {
+  it('should normalize, type, tag and store new clipboard text', async () => {
+    const { store, added } = createStore();
+    const result = await new IngestionPipeline(store).ingest({ text: 'call +1 555 123 4567\r\n', category: 'clipboard', source: 'sync' });
+
+    expect(result.status).toBe('added');
+    expect(added).toHaveLength(1);
+    expect(added[0]).toMatchObject({ content: 'call +1 555 123 4567\n', type: 'PHONE', tags: ['#synced'], category: 'clipboard' });
+    expect(result.item).toBe(added[0]);
+  });
+
+  it('should stop at the first skipping stage without storing', async () => {
+    const existing = createDraft({ text: 'same', category: 'clipboard', source: 'sync' }).item;
+    const { store } = createStore({ item: existing, isNewest: true });
+    const result = await new IngestionPipeline(store).ingest({ text: 'same', category: 'clipboard', source: 'sync' });
+
+    expect(result).toEqual({ status: 'skipped', item: existing, reason: 'unchanged' });
+    expect(store.addItem).not.toHaveBeenCalled();
+  });
+
+  it('should report a bump when the content duplicates an older item', async () => {
+    const existing = createDraft({ text: 'older', category: 'notes', source: 'editor' }).item;
+    const { store } = createStore({ item: existing, isNewest: false });
+    const result = await new IngestionPipeline(store).ingest({ text: 'older', category: 'notes', source: 'copy' });
+
+    expect(result).toEqual({ status: 'bumped', item: existing });
+    expect(store.addItem).toHaveBeenCalledOnce();
+  });
+
+  it('should mask items that an auto-tag rule marks secure', async () => {
+    const { store, added } = createStore();
+    const pipeline = new IngestionPipeline(store);
+    pipeline.setAutoTagRules([{
+      ...createAutoTagRule('Boat'),
+      conditions: { ...EMPTY_RULE_CONDITIONS, pattern: 'pier' },
+      actions: { ...EMPTY_RULE_ACTIONS, markSecure: true }
+    }]);
+    await pipeline.ingest({ text: 'the boat is at pier 4', category: 'clipboard', source: 'sync' });
+
+    expect(added[0]).toMatchObject({ type: 'SECURE', displayContent: '••••••••' });
+  });
+
+  it('should run custom stages in order', async () => {
+    const { store, added } = createStore();
+    const calls: string[] = [];
+    const stage = (name: string): IngestionStage => ({
+      name,
+      run: async draft => {
+        calls.push(name);
+        return { ...draft, item: { ...draft.item, content: draft.item.content + name } };
+      }
+    });
+    const result = await new IngestionPipeline(store, [stage('a'), stage('b')]).ingest({ text: 'x', category: 'clipboard', source: 'sync' });
+
+    expect(calls).toEqual(['a', 'b']);
+    expect(result).toMatchObject({ status: 'added', item: { content: 'xab' } });
+    expect(added).toHaveLength(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { ClipboardItem } from '../../types';
+import { clipboardRepository } from '../repository/ClipboardRepository';
+import { AutoTagRule } from './AutoTagRules';
+import {
+  DEFAULT_INGESTION_STAGES,
+  IngestionInput,
+  IngestionSkipReason,
+  IngestionStage,
+  IngestionStore,
+  createDraft,
+  isSkip
+} from './IngestionStages';
+
+/**
+ * Ingestion Pipeline
+ * Single entry point for creating items from raw text or HTML, whether they
+ * come from clipboard sync, the editor or a copy between categories.
+ */
+
+export interface IngestionResult {
+  status: 'added' | 'bumped' | 'skipped';
+  /** The stored item, the bumped duplicate, or the existing item a skip refers to */
+  item?: ClipboardItem;
+  reason?: IngestionSkipReason;
+}
+
+export class IngestionPipeline {
+  private rules: AutoTagRule[] = [];
+  private skipSensitive = false;
+
+  constructor(
+    private store: IngestionStore,
+    private stages: IngestionStage[] = DEFAULT_INGESTION_STAGES
+  ) {}
+
+  /** Auto-tag rules applied to every capture from now on */
+  setAutoTagRules(rules: AutoTagRule[]) {
+    this.rules = rules;
+  }
+
+  /** Whether synced captures containing secrets are dropped rather than stored masked */
+  setSkipSensitive(skip: boolean) {
+    this.skipSensitive = skip;
+  }
+
+  async ingest(input: IngestionInput): Promise<IngestionResult> {
+    const context = { input, store: this.store, rules: this.rules, skipSensitive: this.skipSensitive };
+    let draft = createDraft(input);
+
+    for (const stage of this.stages) {
+      const result = await stage.run(draft, context);
+      if (isSkip(result)) {
+        return { status: 'skipped', item: result.existing, reason: result.skipped };
+      }
+      draft = result;
+    }
+
+    return draft.duplicateOf
+      ? { status: 'bumped', item: draft.duplicateOf }
+      : { status: 'added', item: draft.item };
+  }
+}
+
+export const ingestionPipeline = new IngestionPipeline(clipboardRepository);
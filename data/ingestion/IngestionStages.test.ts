@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ClipboardItem, ClipboardType } from '../../types';
+import { DuplicateMatch } from '../repository/ClipboardRepository';
+import {
+  IngestionContext,
+  IngestionDraft,
+  IngestionInput,
+  autoTagStage,
+  createDraft,
+  dedupeStage,
+  detectTypeStage,
+  htmlToText,
+  normalizeStage,
+  sensitiveStage
+} from './IngestionStages';
+import { EMPTY_RULE_ACTIONS, EMPTY_RULE_CONDITIONS, createAutoTagRule } from './AutoTagRules';
+
+const input = (overrides: Partial<IngestionInput> = {}): IngestionInput => ({
+  text: 'hello',
+  category: 'clipboard',
+  source: 'sync',
+  ...overrides
+});
+
+const contextFor = (ingestion: IngestionInput, match?: DuplicateMatch): IngestionContext => ({
+  input: ingestion,
+  store: {
+    addItem: vi.fn(async () => {}),
+    findDuplicate: vi.fn(async () => match)
+  }
+});
+
+const existing = (overrides: Partial<ClipboardItem> = {}): ClipboardItem => ({
+  ...createDraft(input()).item,
+  id: 'existing',
+  ...overrides
+});
+
+describe('IngestionStages', () => {
+  describe('createDraft', () => {
+    it('should carry over the base item but not its identity', () => {
+      const base = existing({ isPinned: true, tags: ['#work'], type: ClipboardType.SECURE, isDeleted: true });
+      const { item } = createDraft(input({ text: 'copy', category: 'notes', base }), new Date('2025-01-01T00:00:00.000Z'));
+      expect(item).toMatchObject({ content: 'copy', category: 'notes', isPinned: true, tags: ['#work'], type: ClipboardType.SECURE, isDeleted: false });
+      expect(item.id).not.toBe('existing');
+      expect(item.timestamp).toBe('2025-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('normalizeStage', () => {
+    it('should unify line endings and strip invisible characters', async () => {
+      const ingestion = input({ text: '\uFEFFone\r\ntwo\u200B\rthree' });
+      const result = await normalizeStage.run(createDraft(ingestion), contextFor(ingestion));
+      expect(result).toMatchObject({ item: { content: 'one\ntwo\nthree' } });
+    });
+
+    it('should fall back to the text of HTML-only input and reject empty content', async () => {
+      const html = input({ text: undefined, html: '<p>Hi <b>there</b></p>' });
+      expect(await normalizeStage.run(createDraft(html), contextFor(html))).toMatchObject({ item: { content: 'Hi there' } });
+
+      const blank = input({ text: ' \u200B\n' });
+      expect(await normalizeStage.run(createDraft(blank), contextFor(blank))).toEqual({ skipped: 'empty' });
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should drop markup', () => {
+      expect(htmlToText('<ul><li>a</li><li>b</li></ul>')).toBe('ab');
+    });
+  });
+
+  describe('detectTypeStage', () => {
+    it('should detect smart types and otherwise keep the current type', async () => {
+      const link = input({ text: 'see https://example.com' });
+      expect(await detectTypeStage.run(createDraft(link), contextFor(link))).toMatchObject({ item: { type: ClipboardType.LINK } });
+
+      const secure = input({ text: 'plain words', base: existing({ type: ClipboardType.SECURE }) });
+      expect(await detectTypeStage.run(createDraft(secure), contextFor(secure))).toMatchObject({ item: { type: ClipboardType.SECURE } });
+    });
+  });
+
+  describe('sensitiveStage', () => {
+    it('should mask secure items', async () => {
+      const card = input({ text: 'Card 4111 1111 1111 1111' });
+      const draft = await detectTypeStage.run(createDraft(card), contextFor(card));
+      expect(await sensitiveStage.run(draft as IngestionDraft, contextFor(card))).toMatchObject({
+        item: { type: ClipboardType.SECURE, displayContent: 'Card •••• •••• •••• 1111' }
+      });
+
+      const plain = input({ text: 'hello there' });
+      const result = await sensitiveStage.run(createDraft(plain), contextFor(plain)) as IngestionDraft;
+      expect(result.item.displayContent).toBeUndefined();
+    });
+
+    it('should only drop synced secrets when asked to', async () => {
+      const synced = input({ text: 'password: hunter22' });
+      const draft = await detectTypeStage.run(createDraft(synced), contextFor(synced)) as IngestionDraft;
+      expect(await sensitiveStage.run(draft, { ...contextFor(synced), skipSensitive: true })).toEqual({ skipped: 'sensitive' });
+      expect(await sensitiveStage.run(draft, contextFor(synced))).toHaveProperty('item');
+
+      const edited = input({ text: 'password: hunter22', source: 'editor' });
+      expect(await sensitiveStage.run(draft, { ...contextFor(edited), skipSensitive: true })).toHaveProperty('item');
+    });
+  });
+
+  describe('dedupeStage', () => {
+    it('should skip content already held by the newest item', async () => {
+      const ingestion = input();
+      const match = { item: existing(), isNewest: true };
+      expect(await dedupeStage.run(createDraft(ingestion), contextFor(ingestion, match)))
+        .toEqual({ skipped: 'unchanged', existing: match.item });
+    });
+
+    it('should only skip trashed content when syncing', async () => {
+      const match = { item: existing({ isDeleted: true }), isNewest: false };
+      const sync = input();
+      expect(await dedupeStage.run(createDraft(sync), contextFor(sync, match))).toMatchObject({ skipped: 'trashed' });
+
+      const copy = input({ source: 'copy' });
+      const draft = createDraft(copy);
+      expect(await dedupeStage.run(draft, contextFor(copy, match))).toBe(draft);
+    });
+
+    it('should mark older duplicates to be bumped', async () => {
+      const ingestion = input();
+      const match = { item: existing(), isNewest: false };
+      expect(await dedupeStage.run(createDraft(ingestion), contextFor(ingestion, match))).toMatchObject({ duplicateOf: match.item });
+    });
+  });
+
+  describe('autoTagStage', () => {
+    it('should tag items by where they came from', async () => {
+      const tagsFor = async (ingestion: IngestionInput) => {
+        const result = await autoTagStage.run(createDraft(ingestion), contextFor(ingestion));
+        return 'item' in result ? result.item.tags : [];
+      };
+      expect(await tagsFor(input())).toEqual(['#synced']);
+      expect(await tagsFor(input({ source: 'editor', category: 'notes' }))).toEqual(['#notes']);
+      expect(await tagsFor(input({ source: 'editor' }))).toEqual([]);
+      expect(await tagsFor(input({ source: 'copy', base: existing({ tags: ['#work', '#copy'] }) }))).toEqual(['#work', '#copy']);
+    });
+
+    it('should apply auto-tag rules after the source tags', async () => {
+      const ingestion = input({ text: 'see https://github.com/x' });
+      const rules = [{
+        ...createAutoTagRule('Code'),
+        conditions: { ...EMPTY_RULE_CONDITIONS, domain: 'github.com' },
+        actions: { ...EMPTY_RULE_ACTIONS, tags: ['#dev'], pin: true }
+      }];
+      const result = await autoTagStage.run(createDraft(ingestion), { ...contextFor(ingestion), rules });
+      expect(result).toMatchObject({ item: { tags: ['#synced', '#dev'], isPinned: true } });
+    });
+  });
+});
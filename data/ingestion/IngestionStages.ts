@@ -0,0 +1,180 @@
+import { ClipboardItem, ClipboardType } from '../../types';
+import { detectPrimaryType } from '../../util/SmartRecognition';
+import { containsSensitiveContent, maskSensitiveContent } from '../../util/SensitiveContent';
+import { DuplicateMatch } from '../repository/ClipboardRepository';
+import { AutoTagRule, applyAutoTagRules } from './AutoTagRules';
+
+/**
+ * Ingestion Stages
+ * The steps every new item goes through before it is stored. Each stage
+ * gets the draft built so far and either returns the next draft or a reason
+ * to drop the capture.
+ */
+
+/** Where new content comes from; stages use it to decide on tags and dedupe rules */
+export type IngestionSource = 'sync' | 'editor' | 'copy';
+
+export type IngestionSkipReason = 'empty' | 'trashed' | 'unchanged' | 'sensitive';
+
+export interface IngestionInput {
+  text?: string;
+  html?: string;
+  category: ClipboardItem['category'];
+  source: IngestionSource;
+  title?: string;
+  /** Item the new one is derived from (e.g. the original of a copy); its flags, type and tags carry over */
+  base?: ClipboardItem;
+}
+
+export interface IngestionDraft {
+  item: ClipboardItem;
+  /** Existing item the content duplicates; storing it bumps that item instead */
+  duplicateOf?: ClipboardItem;
+}
+
+export interface IngestionSkip {
+  skipped: IngestionSkipReason;
+  /** The existing item that made the capture redundant, if any */
+  existing?: ClipboardItem;
+}
+
+/** What the stages need from the repository */
+export interface IngestionStore {
+  addItem(item: ClipboardItem): Promise<void>;
+  findDuplicate(content: string, category: ClipboardItem['category']): Promise<DuplicateMatch | undefined>;
+}
+
+export interface IngestionContext {
+  input: IngestionInput;
+  store: IngestionStore;
+  /** User-defined rules the autoTag stage applies after the source tags */
+  rules?: AutoTagRule[];
+  /** Drop synced captures that contain secrets instead of storing them masked */
+  skipSensitive?: boolean;
+}
+
+export interface IngestionStage {
+  name: string;
+  run(draft: IngestionDraft, context: IngestionContext): Promise<IngestionDraft | IngestionSkip>;
+}
+
+export const isSkip = (result: IngestionDraft | IngestionSkip): result is IngestionSkip => 'skipped' in result;
+
+// Invisible characters that sneak in through copy & paste; joiners are kept since emoji rely on them
+const INVISIBLE_CHARS = /[\u200B\u2060\uFEFF]/g;
+
+/** Plain text of an HTML fragment, for captures that only come with markup */
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return doc.body.textContent || '';
+};
+
+/** Unify line endings, drop invisible characters and derive text from HTML-only input */
+export const normalizeStage: IngestionStage = {
+  name: 'normalize',
+  run: async ({ item, ...rest }) => {
+    const raw = item.content || (item.htmlContent ? htmlToText(item.htmlContent) : '');
+    const content = raw.replace(/\r\n?/g, '\n').replace(INVISIBLE_CHARS, '');
+    if (!content.trim()) return { skipped: 'empty' };
+    return { ...rest, item: { ...item, content } };
+  }
+};
+
+/** Pick the item type from the first smart item found, keeping the current type otherwise */
+export const detectTypeStage: IngestionStage = {
+  name: 'detectType',
+  run: async draft => ({
+    ...draft,
+    item: { ...draft.item, type: detectPrimaryType(draft.item.content, draft.item.type) }
+  })
+};
+
+/**
+ * Give SECURE items a masked display text. Synced captures holding secrets
+ * are dropped instead when the user chose not to keep them. Runs after the
+ * auto-tag rules, which can mark an item secure.
+ */
+export const sensitiveStage: IngestionStage = {
+  name: 'sensitive',
+  run: async (draft, { input, skipSensitive }) => {
+    if (draft.item.type !== ClipboardType.SECURE) return draft;
+    if (skipSensitive && input.source === 'sync' && containsSensitiveContent(draft.item.content)) {
+      return { skipped: 'sensitive' };
+    }
+    return { ...draft, item: { ...draft.item, displayContent: maskSensitiveContent(draft.item.content) } };
+  }
+};
+
+/**
+ * Drop content that would change nothing: the newest item of its category
+ * already holds it, or (for clipboard sync) the user has trashed it. Other
+ * duplicates are marked so storing them bumps the existing item.
+ */
+export const dedupeStage: IngestionStage = {
+  name: 'dedupe',
+  run: async (draft, { input, store }) => {
+    const match = await store.findDuplicate(draft.item.content, draft.item.category);
+    if (!match) return draft;
+    if (match.item.isDeleted) {
+      return input.source === 'sync' ? { skipped: 'trashed', existing: match.item } : draft;
+    }
+    if (match.isNewest) return { skipped: 'unchanged', existing: match.item };
+    return { ...draft, duplicateOf: match.item };
+  }
+};
+
+const SOURCE_TAGS: Record<IngestionSource, string[]> = {
+  sync: ['#synced'],
+  editor: [],
+  copy: ['#copy']
+};
+
+/** Add the tags that mark where an item came from, then apply the user's auto-tag rules */
+export const autoTagStage: IngestionStage = {
+  name: 'autoTag',
+  run: async (draft, { input, rules = [] }) => {
+    const tags = [...draft.item.tags, ...SOURCE_TAGS[input.source]];
+    if (input.source === 'editor' && draft.item.category === 'notes') tags.push('#notes');
+    const item = { ...draft.item, tags: Array.from(new Set(tags)) };
+    return { ...draft, item: applyAutoTagRules(item, rules) };
+  }
+};
+
+export const storeStage: IngestionStage = {
+  name: 'store',
+  run: async (draft, { store }) => {
+    await store.addItem(draft.item);
+    return draft;
+  }
+};
+
+export const DEFAULT_INGESTION_STAGES: IngestionStage[] = [
+  normalizeStage,
+  detectTypeStage,
+  dedupeStage,
+  autoTagStage,
+  sensitiveStage,
+  storeStage
+];
+
+const createId = () => Date.now().toString() + Math.random().toString(36).substr(2, 5);
+
+/** The draft the first stage starts from */
+export const createDraft = (input: IngestionInput, now: Date = new Date()): IngestionDraft => ({
+  item: {
+    isPinned: false,
+    isFavorite: false,
+    type: ClipboardType.TEXT,
+    tags: [],
+    ...input.base,
+    id: createId(),
+    title: input.title ?? input.base?.title,
+    content: input.text ?? '',
+    htmlContent: input.html ?? input.base?.htmlContent,
+    // The base's sealed text is not what is being ingested
+    secret: undefined,
+    category: input.category,
+    timestamp: now.toISOString(),
+    isDeleted: false
+  }
+});
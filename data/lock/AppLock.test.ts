@@ -0,0 +1,113 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AppLock, AppLockPinError, AppLockStore, StoredAppLock, lockoutAfter, parseStoredAppLock } from './AppLock';
+
+const ITERATIONS = 1000;
+
+const memoryStore = (): AppLockStore & { saved: StoredAppLock | null } => {
+  const store = {
+    saved: null as StoredAppLock | null,
+    load: () => store.saved,
+    save: (state: StoredAppLock) => {
+      store.saved = state;
+    }
+  };
+  return store;
+};
+
+describe('AppLock', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep only a salted hash and start locked on the next launch', async () => {
+    const store = memoryStore();
+    const lock = new AppLock(store, undefined, ITERATIONS);
+    await lock.enable('correct horse');
+
+    expect(lock.getState()).toEqual({ isEnabled: true, isLocked: false, failedAttempts: 0, lockedOutUntil: null });
+    expect(JSON.stringify(store.saved)).not.toContain('correct horse');
+
+    const relaunched = new AppLock(store, undefined, ITERATIONS);
+    expect(relaunched.isLocked()).toBe(true);
+    expect(await relaunched.unlock('wrong')).toMatchObject({ status: 'wrong' });
+    expect(await relaunched.unlock('correct horse')).toEqual({ status: 'unlocked' });
+    expect(relaunched.getState().failedAttempts).toBe(0);
+  });
+
+  it('should back off after repeated failures, across restarts', async () => {
+    vi.useFakeTimers();
+    const store = memoryStore();
+    const lock = new AppLock(store, undefined, ITERATIONS);
+    await lock.enable('1234');
+    lock.lock();
+
+    for (let i = 0; i < 3; i++) expect(await lock.unlock('0000')).toMatchObject({ status: 'wrong', lockedOutUntil: null });
+    expect(await lock.unlock('0000')).toMatchObject({ status: 'wrong', lockedOutUntil: Date.now() + 30000 });
+
+    const relaunched = new AppLock(store, undefined, ITERATIONS);
+    expect(await relaunched.unlock('1234')).toMatchObject({ status: 'locked-out' });
+    vi.advanceTimersByTime(30000);
+    expect(await relaunched.unlock('1234')).toEqual({ status: 'unlocked' });
+
+    expect([3, 4, 5, 6, 20].map(lockoutAfter)).toEqual([0, 30000, 60000, 120000, 60 * 60 * 1000]);
+  });
+
+  it('should wipe all data and drop the lock after too many failures', async () => {
+    const onWipe = vi.fn(async () => {});
+    const store = memoryStore();
+    const lock = new AppLock(store, onWipe, ITERATIONS);
+    lock.setWipeAfter(2);
+    await lock.enable('1234');
+    lock.lock();
+
+    expect(await lock.unlock('0000')).toMatchObject({ status: 'wrong', attemptsBeforeWipe: 1 });
+    expect(onWipe).not.toHaveBeenCalled();
+    expect(await lock.unlock('0000')).toEqual({ status: 'wiped' });
+    expect(onWipe).toHaveBeenCalledTimes(1);
+    expect(lock.getState()).toMatchObject({ isEnabled: false, isLocked: false });
+    expect(store.saved?.record).toBeNull();
+  });
+
+  it('should lock once the app was in the background for the delay', async () => {
+    vi.useFakeTimers();
+    const lock = new AppLock(memoryStore(), undefined, ITERATIONS);
+    await lock.enable('1234');
+    lock.setAutoLockDelay(60000);
+
+    lock.handleBackground();
+    vi.advanceTimersByTime(59000);
+    lock.handleForeground();
+    expect(lock.isLocked()).toBe(false);
+
+    lock.handleBackground();
+    vi.advanceTimersByTime(60000);
+    lock.handleForeground();
+    expect(lock.isLocked()).toBe(true);
+
+    await lock.unlock('1234');
+    lock.setAutoLockDelay(0);
+    lock.handleBackground();
+    expect(lock.isLocked()).toBe(true);
+  });
+
+  it('should require the current PIN to change or remove the lock', async () => {
+    const lock = new AppLock(memoryStore(), undefined, ITERATIONS);
+    await lock.enable('1234');
+
+    await expect(lock.changePin('0000', '5678')).rejects.toBeInstanceOf(AppLockPinError);
+    await lock.changePin('1234', '5678');
+    await expect(lock.disable('1234')).rejects.toBeInstanceOf(AppLockPinError);
+    await lock.disable('5678');
+    expect(lock.isEnabled()).toBe(false);
+  });
+
+  it('should treat malformed stored state as no lock', () => {
+    expect(parseStoredAppLock(null)).toBeNull();
+    expect(parseStoredAppLock('{oops')).toBeNull();
+    expect(parseStoredAppLock(JSON.stringify({ record: { version: 2 } }))).toBeNull();
+    expect(parseStoredAppLock(JSON.stringify({
+      record: { version: 1, salt: 'c2FsdA==', hash: 'aGFzaA==', iterations: 10 },
+      failedAttempts: -3
+    }))).toMatchObject({ failedAttempts: 0, lockedOutUntil: null });
+  });
+});
@@ -0,0 +1,255 @@
+import { clipboardRepository } from '../repository/ClipboardRepository';
+import { DEFAULT_PBKDF2_ITERATIONS, fromBase64, toBase64 } from '../vault/VaultCrypto';
+
+/**
+ * App Lock
+ * Optional PIN or passphrase in front of the whole app. Only a salted
+ * PBKDF2 hash is stored. Failed attempts are counted across restarts: after
+ * a few free tries each further one locks input out for twice as long, and
+ * the user can choose to wipe all data once too many have failed.
+ */
+
+export interface AppLockRecord {
+  version: 1;
+  salt: string; // Base64
+  hash: string; // Base64
+  iterations: number;
+}
+
+/** What is kept between launches */
+export interface StoredAppLock {
+  record: AppLockRecord | null;
+  failedAttempts: number;
+  lockedOutUntil: number | null;
+}
+
+export interface AppLockStore {
+  load(): StoredAppLock | null;
+  save(state: StoredAppLock): void;
+}
+
+export interface AppLockState {
+  isEnabled: boolean;
+  isLocked: boolean;
+  failedAttempts: number;
+  lockedOutUntil: number | null;
+}
+
+export type AppUnlockResult =
+  | { status: 'unlocked' }
+  | { status: 'wrong'; lockedOutUntil: number | null; attemptsBeforeWipe: number | null }
+  | { status: 'locked-out'; lockedOutUntil: number }
+  | { status: 'wiped' };
+
+export class AppLockPinError extends Error {
+  constructor() {
+    super('Wrong app lock PIN');
+    this.name = 'AppLockPinError';
+  }
+}
+
+/** Minutes in the background before the app locks; 0 locks as soon as it leaves the screen */
+export const APP_LOCK_DELAY_OPTIONS = [0, 1, 5, 15, 60];
+export const DEFAULT_APP_LOCK_DELAY_MINUTES = 0;
+
+/** Failed attempts that wipe all data; 0 never wipes */
+export const APP_LOCK_WIPE_OPTIONS = [0, 10, 15, 20];
+
+const FREE_ATTEMPTS = 3;
+const FIRST_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+/** How long input stays locked out after the given number of failures in a row */
+export const lockoutAfter = (failedAttempts: number): number =>
+  failedAttempts <= FREE_ATTEMPTS ? 0 : Math.min(FIRST_LOCKOUT_MS * 2 ** (failedAttempts - FREE_ATTEMPTS - 1), MAX_LOCKOUT_MS);
+
+const encoder = new TextEncoder();
+
+const hashPin = async (pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256);
+  return toBase64(bits);
+};
+
+// Compares every character so the time taken says nothing about how much matched
+const constantTimeEquals = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+/** Validate what was stored; anything malformed counts as no app lock */
+export const parseStoredAppLock = (raw: string | null): StoredAppLock | null => {
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    const r = parsed?.record;
+    const validRecord = !!r && r.version === 1
+      && typeof r.salt === 'string'
+      && typeof r.hash === 'string'
+      && typeof r.iterations === 'number' && r.iterations > 0;
+    if (!validRecord) return null;
+    return {
+      record: r,
+      failedAttempts: Number.isInteger(parsed.failedAttempts) && parsed.failedAttempts > 0 ? parsed.failedAttempts : 0,
+      lockedOutUntil: typeof parsed.lockedOutUntil === 'number' ? parsed.lockedOutUntil : null
+    };
+  } catch (e) {
+    console.warn('Invalid app lock state', e);
+    return null;
+  }
+};
+
+const APP_LOCK_KEY = 'app_lock';
+
+export const localAppLockStore: AppLockStore = {
+  load: () => parseStoredAppLock(localStorage.getItem(APP_LOCK_KEY)),
+  save: state => {
+    if (state.record) localStorage.setItem(APP_LOCK_KEY, JSON.stringify(state));
+    else localStorage.removeItem(APP_LOCK_KEY);
+  }
+};
+
+export class AppLock {
+  private stored: StoredAppLock;
+  private locked: boolean;
+  private delayMs = DEFAULT_APP_LOCK_DELAY_MINUTES * 60 * 1000;
+  private wipeAfter = 0;
+  private backgroundedAt: number | null = null;
+  private listeners: Set<(state: AppLockState) => void> = new Set();
+
+  constructor(
+    private store: AppLockStore = localAppLockStore,
+    private onWipe: () => Promise<void> = async () => {},
+    private iterations: number = DEFAULT_PBKDF2_ITERATIONS
+  ) {
+    this.stored = store.load() ?? { record: null, failedAttempts: 0, lockedOutUntil: null };
+    // Every launch starts locked
+    this.locked = this.stored.record !== null;
+  }
+
+  getState(): AppLockState {
+    return {
+      isEnabled: this.stored.record !== null,
+      isLocked: this.locked,
+      failedAttempts: this.stored.failedAttempts,
+      lockedOutUntil: this.stored.lockedOutUntil
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.stored.record !== null;
+  }
+
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  /** Turn the lock on, or replace its PIN, leaving the app unlocked */
+  async enable(pin: string): Promise<void> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const record: AppLockRecord = { version: 1, salt: toBase64(salt), hash: await hashPin(pin, salt, this.iterations), iterations: this.iterations };
+    this.locked = false;
+    this.persist({ record, failedAttempts: 0, lockedOutUntil: null });
+  }
+
+  /** @throws AppLockPinError if the current PIN is wrong */
+  async changePin(currentPin: string, newPin: string): Promise<void> {
+    if (!(await this.matches(currentPin))) throw new AppLockPinError();
+    await this.enable(newPin);
+  }
+
+  /** @throws AppLockPinError if the PIN is wrong */
+  async disable(pin: string): Promise<void> {
+    if (!(await this.matches(pin))) throw new AppLockPinError();
+    this.locked = false;
+    this.persist({ record: null, failedAttempts: 0, lockedOutUntil: null });
+  }
+
+  /**
+   * Try a PIN on the lock screen. Wrong ones count towards the lockout and,
+   * if set, the wipe; when that limit is hit all data is erased and the
+   * lock removed.
+   */
+  async unlock(pin: string): Promise<AppUnlockResult> {
+    if (!this.locked) return { status: 'unlocked' };
+    const { lockedOutUntil } = this.stored;
+    if (lockedOutUntil !== null && lockedOutUntil > Date.now()) return { status: 'locked-out', lockedOutUntil };
+
+    if (await this.matches(pin)) {
+      this.locked = false;
+      this.persist({ ...this.stored, failedAttempts: 0, lockedOutUntil: null });
+      return { status: 'unlocked' };
+    }
+
+    const failedAttempts = this.stored.failedAttempts + 1;
+    if (this.wipeAfter > 0 && failedAttempts >= this.wipeAfter) {
+      await this.onWipe();
+      this.locked = false;
+      this.persist({ record: null, failedAttempts: 0, lockedOutUntil: null });
+      return { status: 'wiped' };
+    }
+
+    const lockout = lockoutAfter(failedAttempts);
+    const nextLockedOutUntil = lockout > 0 ? Date.now() + lockout : null;
+    this.persist({ ...this.stored, failedAttempts, lockedOutUntil: nextLockedOutUntil });
+    return {
+      status: 'wrong',
+      lockedOutUntil: nextLockedOutUntil,
+      attemptsBeforeWipe: this.wipeAfter > 0 ? this.wipeAfter - failedAttempts : null
+    };
+  }
+
+  lock() {
+    if (!this.isEnabled() || this.locked) return;
+    this.locked = true;
+    this.notify();
+  }
+
+  /** How long the app may stay in the background before it locks */
+  setAutoLockDelay(ms: number) {
+    this.delayMs = Math.max(0, ms);
+  }
+
+  /** Failed attempts in a row that wipe all data; 0 turns wiping off */
+  setWipeAfter(attempts: number) {
+    this.wipeAfter = Math.max(0, attempts);
+  }
+
+  /** The app left the screen */
+  handleBackground() {
+    this.backgroundedAt = Date.now();
+    if (this.delayMs === 0) this.lock();
+  }
+
+  /** The app came back; locks if it was away for at least the delay */
+  handleForeground() {
+    if (this.backgroundedAt !== null && Date.now() - this.backgroundedAt >= this.delayMs) this.lock();
+    this.backgroundedAt = null;
+  }
+
+  subscribe(listener: (state: AppLockState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async matches(pin: string): Promise<boolean> {
+    const { record } = this.stored;
+    if (!record) return false;
+    return constantTimeEquals(await hashPin(pin, fromBase64(record.salt), record.iterations), record.hash);
+  }
+
+  private persist(stored: StoredAppLock) {
+    this.stored = stored;
+    this.store.save(stored);
+    this.notify();
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const appLock = new AppLock(localAppLockStore, () => clipboardRepository.wipeAllData());
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardType } from '../../types';
+import { migrateItems, SchemaVersionError, CURRENT_SCHEMA_VERSION } from './SchemaMigrations';
+
+describe('SchemaMigrations', () => {
+
+  it('should fill in missing fields when upgrading from v1', () => {
+    const [item] = migrateItems([{ id: 1, content: 'Hello', timestamp: '06:30 PM • 24 Dec' }], 1);
+
+    expect(item.id).toBe('1');
+    expect(item.type).toBe(ClipboardType.TEXT);
+    expect(item.category).toBe('clipboard');
+    expect(item.tags).toEqual([]);
+    expect(item.isPinned).toBe(false);
+    expect(item.isFavorite).toBe(false);
+    expect(item.isDeleted).toBe(false);
+    expect(new Date(item.timestamp).getHours()).toBe(18);
+  });
+
+  it('should preserve existing values', () => {
+    const [item] = migrateItems([{
+      id: 'a', content: 'x', type: ClipboardType.LINK, category: 'notes',
+      timestamp: '2024-01-01T00:00:00.000Z', tags: ['#work'], isPinned: true, isFavorite: true, isDeleted: true
+    }], 1);
+
+    expect(item).toMatchObject({
+      type: ClipboardType.LINK, category: 'notes', tags: ['#work'],
+      isPinned: true, isFavorite: true, isDeleted: true, timestamp: '2024-01-01T00:00:00.000Z'
+    });
+  });
+
+  it('should derive the timestamp from a Date.now() id when unparseable', () => {
+    const created = new Date(2024, 2, 1).getTime();
+    const [item] = migrateItems([{ id: String(created), content: 'x', timestamp: 'garbage' }], 1);
+
+    expect(new Date(item.timestamp).getTime()).toBe(created);
+  });
+
+  it('should drop entries without an id', () => {
+    expect(migrateItems([null, 'text', { content: 'no id' }, { id: 'ok' }], 1).map(i => i.id)).toEqual(['ok']);
+  });
+
+  it('should treat a missing version as v1', () => {
+    const [item] = migrateItems([{ id: 'a', content: 'x' }], undefined);
+    expect(item.tags).toEqual([]);
+  });
+
+  it('should leave current data unchanged', () => {
+    const current = { id: 'a', content: 'x', timestamp: 'kept', tags: [] };
+    expect(migrateItems([current], CURRENT_SCHEMA_VERSION)[0]).toEqual(current);
+  });
+
+  it('should start the trash clock for deleted items without deletedAt', () => {
+    const [trashed, live] = migrateItems([
+      { id: 'a', content: 'x', isDeleted: true },
+      { id: 'b', content: 'y', isDeleted: false }
+    ], 2);
+
+    expect(Date.parse(trashed.deletedAt!)).not.toBeNaN();
+    expect(live.deletedAt).toBeUndefined();
+  });
+
+  it('should merge tag spellings when upgrading from v3', () => {
+    const [item] = migrateItems([{ id: 'a', content: 'x', tags: ['#Work', 'work', 'to do'] }], 3);
+    expect(item.tags).toEqual(['#work', '#to-do']);
+  });
+
+  it('should reject data from a newer version', () => {
+    expect(() => migrateItems([], CURRENT_SCHEMA_VERSION + 1)).toThrow(SchemaVersionError);
+  });
+});
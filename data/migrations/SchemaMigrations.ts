@@ -0,0 +1,88 @@
+import { ClipboardItem, ClipboardType } from '../../types';
+import { parseLegacyTimestamp } from '../../util/DateFormat';
+import { normalizeTags } from '../tags/TagNormalization';
+
+/**
+ * Schema Migrations
+ * Upgrades stored and imported item payloads step by step to the current
+ * ClipboardItem shape. Each step takes data at version N to version N + 1.
+ */
+
+/** Version of the ClipboardItem shape written by this build */
+export const CURRENT_SCHEMA_VERSION = 4;
+
+/** Payloads that carry no version are treated as the original layout */
+export const DEFAULT_SCHEMA_VERSION = 1;
+
+/** Thrown when data was written by a newer app version than this one */
+export class SchemaVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(
+      `This data was created by a newer version of the app (schema v${version}, ` +
+      `supported up to v${CURRENT_SCHEMA_VERSION}). Please update the app first.`
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+/** Item as it may appear in an older payload: any field can be missing */
+type RawItem = Partial<ClipboardItem> & Record<string, unknown>;
+
+type MigrationStep = (items: RawItem[]) => RawItem[];
+
+/** Best-effort creation time for items whose timestamp cannot be parsed */
+const fallbackTimestamp = (item: RawItem): string => {
+  // Items created in-app use Date.now() as their id
+  const fromId = Number(item.id);
+  if (Number.isFinite(fromId) && fromId > 1e12) return new Date(fromId).toISOString();
+  return new Date().toISOString();
+};
+
+const MIGRATIONS: Record<number, MigrationStep> = {
+  // v1 -> v2: ISO timestamps and explicit defaults for optional flags
+  1: items => items.map(item => ({
+    ...item,
+    id: String(item.id),
+    content: typeof item.content === 'string' ? item.content : '',
+    type: item.type || ClipboardType.TEXT,
+    category: item.category === 'notes' ? 'notes' : 'clipboard',
+    timestamp: parseLegacyTimestamp(String(item.timestamp ?? '')) || fallbackTimestamp(item),
+    tags: Array.isArray(item.tags) ? item.tags : [],
+    isPinned: !!item.isPinned,
+    isFavorite: !!item.isFavorite,
+    isDeleted: !!item.isDeleted
+  })),
+
+  // v2 -> v3: trashed items get a deletedAt; the retention clock starts at the upgrade
+  2: items => {
+    const now = new Date().toISOString();
+    return items.map(item =>
+      item.isDeleted && !item.deletedAt ? { ...item, deletedAt: now } : item
+    );
+  },
+
+  // v3 -> v4: one spelling per tag, so `#Work`, `work` and `#work` become `#work`
+  3: items => items.map(item => ({
+    ...item,
+    tags: normalizeTags(Array.isArray(item.tags) ? item.tags : [])
+  })),
+};
+
+/**
+ * Upgrade items from `fromVersion` to CURRENT_SCHEMA_VERSION.
+ * @throws SchemaVersionError if the data is newer than this build understands
+ */
+export const migrateItems = (items: unknown[], fromVersion: number = DEFAULT_SCHEMA_VERSION): ClipboardItem[] => {
+  const start = Number.isInteger(fromVersion) && fromVersion >= 1 ? fromVersion : DEFAULT_SCHEMA_VERSION;
+  if (start > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(start);
+  }
+
+  let result = items.filter(i => i && typeof i === 'object' && 'id' in i) as RawItem[];
+  for (let version = start; version < CURRENT_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`Missing migration from schema v${version}`);
+    result = step(result);
+  }
+  return result as ClipboardItem[];
+};
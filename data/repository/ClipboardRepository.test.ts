@@ -1,6 +1,22 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ClipboardItem, ClipboardType } from '../../types';
-import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { clipboardRepository, ClipboardRepository, sortItems } from '../../data/repository/ClipboardRepository';
+import { PreferencesStorageAdapter } from '../storage/PreferencesStorageAdapter';
+import { STORAGE_LAYOUT_VERSION } from '../storage/StorageAdapter';
+import { INITIAL_CLIPBOARD_DATA } from '../../util/Constants';
+import { CURRENT_SCHEMA_VERSION, SchemaVersionError } from '../migrations/SchemaMigrations';
+import { RepositoryChange } from './RepositoryChange';
+import { DEFAULT_REVISION_DEPTH } from '../revisions/RevisionHistory';
+import { DEFAULT_CLIPBOARD_RETENTION } from '../retention/ClipboardRetention';
+import { DEFAULT_NEAR_DUPLICATE_OPTIONS } from '../../util/NearDuplicate';
+import { parseSearchQuery } from '../search/SearchQuery';
+import { SmartCollection } from '../collections/SmartCollection';
+import { EMPTY_LIST_FILTER } from '../search/ListFilter';
+import { AutoTagRule, EMPTY_RULE_ACTIONS, EMPTY_RULE_CONDITIONS, createAutoTagRule } from '../ingestion/AutoTagRules';
+import { IngestionPipeline } from '../ingestion/IngestionPipeline';
+import { Vault, VaultLockedError, VaultMismatchError } from '../vault/Vault';
+import { BackupPassphraseError, isEncryptedBackup } from '../backup/BackupCrypto';
+import { makeItem } from '../../__tests__/fixtures';
 
 describe('ClipboardRepository', () => {
   
@@ -34,6 +50,531 @@ describe('ClipboardRepository', () => {
     });
   });
 
+  // --- Record Storage Tests (7) ---
+
+  describe('Record Storage', () => {
+    const legacyItem: ClipboardItem = {
+      id: 'legacy-1',
+      content: 'From the old blob',
+      type: ClipboardType.TEXT,
+      category: 'clipboard',
+      timestamp: new Date().toISOString(),
+      tags: ['#old'],
+      isPinned: false,
+      isFavorite: false,
+      isDeleted: false
+    };
+
+    beforeEach(() => {
+      // The shared repository rewrites its layout marker on clear; start from an empty store
+      localStorage.clear();
+    });
+
+    it('should migrate the legacy blob into item records', async () => {
+      localStorage.setItem('CapacitorStorage.clipboard_max_data', JSON.stringify([legacyItem]));
+
+      const repo = new ClipboardRepository(new PreferencesStorageAdapter());
+      const items = await repo.getAllItems();
+
+      expect(items.map(i => i.id)).toEqual(['legacy-1']);
+      expect(await repo.getUniqueTags()).toContain('#old');
+      expect(localStorage.getItem('CapacitorStorage.clipboard_max_data')).toBeNull();
+      expect(localStorage.getItem('CapacitorStorage.clipboard_max:item:legacy-1')).not.toBeNull();
+    });
+
+    it('should seed initial data on a fresh install', async () => {
+      const repo = new ClipboardRepository(new PreferencesStorageAdapter());
+      const items = await repo.getAllItems();
+
+      expect(items.length).toBe(INITIAL_CLIPBOARD_DATA.filter(i => !i.isDeleted).length);
+    });
+
+    it('should only rewrite touched records and keep order across reloads', async () => {
+      const repo = new ClipboardRepository(new PreferencesStorageAdapter());
+      await repo.clearAllData();
+      await repo.addItem({ ...legacyItem, id: 'a', content: 'A' });
+      await repo.addItem({ ...legacyItem, id: 'b', content: 'B' });
+      await repo.updateItem('a', { content: 'A2' });
+      await repo.deleteForever('b');
+
+      const reloaded = new ClipboardRepository(new PreferencesStorageAdapter());
+      const items = await reloaded.getAllItems();
+
+      expect(items.map(i => i.content)).toEqual(['A2']);
+      expect(localStorage.getItem('CapacitorStorage.clipboard_max:item:b')).toBeNull();
+    });
+
+    it('should upgrade stored records to the current schema', async () => {
+      localStorage.setItem('CapacitorStorage.clipboard_max_data', JSON.stringify([
+        { id: 'old-1', content: 'Old', type: ClipboardType.TEXT, category: 'clipboard', timestamp: '10:44 PM • 20 Dec', isPinned: false, isFavorite: false }
+      ]));
+
+      const repo = new ClipboardRepository(new PreferencesStorageAdapter());
+      const [item] = await repo.getAllItems();
+
+      expect(item.tags).toEqual([]);
+      expect(item.isDeleted).toBe(false);
+      expect(new Date(item.timestamp).getDate()).toBe(20);
+      expect(localStorage.getItem('CapacitorStorage.clipboard_max:schema')).toBe(String(CURRENT_SCHEMA_VERSION));
+    });
+
+    it('should leave data from a newer app version untouched', async () => {
+      localStorage.setItem('CapacitorStorage.clipboard_max:layout', '1');
+      localStorage.setItem('CapacitorStorage.clipboard_max:schema', String(CURRENT_SCHEMA_VERSION + 1));
+      localStorage.setItem('CapacitorStorage.clipboard_max:order', JSON.stringify(['future-1']));
+      const stored = JSON.stringify({ id: 'future-1', content: 'From the future' });
+      localStorage.setItem('CapacitorStorage.clipboard_max:item:future-1', stored);
+
+      const repo = new ClipboardRepository(new PreferencesStorageAdapter());
+      await repo.addItem({ ...legacyItem, id: 'x' });
+
+      expect(localStorage.getItem('CapacitorStorage.clipboard_max:item:future-1')).toBe(stored);
+      expect(localStorage.getItem('CapacitorStorage.clipboard_max:item:x')).toBeNull();
+    });
+
+    it('should serialize concurrent mutations and persist a consistent state', async () => {
+      const repo = new ClipboardRepository(new PreferencesStorageAdapter());
+      await repo.clearAllData();
+      await Promise.all([
+        repo.addItem({ ...legacyItem, id: 'a', content: 'A' }),
+        repo.addItem({ ...legacyItem, id: 'b', content: 'B', tags: ['#b'] }),
+        repo.pinItem('a', true),
+        repo.addTagsToItems(['a'], ['#pinned'])
+      ]);
+
+      const reloaded = new ClipboardRepository(new PreferencesStorageAdapter());
+      const items = await reloaded.getAllItems();
+
+      expect(items.map(i => i.id)).toEqual(['a', 'b']);
+      expect(items[0].isPinned).toBe(true);
+      expect(items[0].tags).toContain('#pinned');
+      expect(await reloaded.getUniqueTags()).toEqual(['#b', '#old', '#pinned']);
+    });
+
+    it('should not re-seed after all data was cleared', async () => {
+      const repo = new ClipboardRepository(new PreferencesStorageAdapter());
+      await repo.clearAllData();
+
+      const reloaded = new ClipboardRepository(new PreferencesStorageAdapter());
+      expect(await reloaded.getAllItems()).toEqual([]);
+    });
+  });
+
+  // --- Change Events Tests (5) ---
+
+  describe('Change Events', () => {
+    const baseItem: ClipboardItem = {
+      id: 'evt-1',
+      content: 'Event item',
+      type: ClipboardType.TEXT,
+      category: 'clipboard',
+      timestamp: new Date().toISOString(),
+      tags: ['#evt'],
+      isPinned: false,
+      isFavorite: false,
+      isDeleted: false
+    };
+
+    const record = () => {
+      const changes: RepositoryChange[] = [];
+      const unsubscribe = clipboardRepository.subscribe(change => changes.push(change));
+      return { changes, unsubscribe };
+    };
+
+    it('should emit added and tags-changed when an item is added', async () => {
+      const { changes, unsubscribe } = record();
+      await clipboardRepository.addItem(baseItem);
+      unsubscribe();
+
+      expect(changes[0]).toEqual({ type: 'added', items: [baseItem] });
+      expect(changes[1]).toEqual({ type: 'tags-changed', tags: ['#evt'] });
+    });
+
+    it('should emit soft and permanent deletes with the affected ids', async () => {
+      await clipboardRepository.addItem(baseItem);
+      const { changes, unsubscribe } = record();
+      await clipboardRepository.softDeleteItems(['evt-1']);
+      await clipboardRepository.deleteItemsForever(['evt-1']);
+      unsubscribe();
+
+      expect(changes[0]).toMatchObject({ type: 'deleted', ids: ['evt-1'], permanent: false });
+      expect(changes[0].type === 'deleted' && changes[0].items[0].isDeleted).toBe(true);
+      expect(changes[1]).toEqual({ type: 'deleted', ids: ['evt-1'], permanent: true, items: [] });
+    });
+
+    it('should emit restored snapshots', async () => {
+      await clipboardRepository.addItem(baseItem);
+      await clipboardRepository.softDeleteItems(['evt-1']);
+      const { changes, unsubscribe } = record();
+      await clipboardRepository.restoreItems(['evt-1']);
+      unsubscribe();
+
+      expect(changes).toEqual([{ type: 'restored', items: [{ ...baseItem, isDeleted: false }] }]);
+    });
+
+    it('should stop notifying after unsubscribe', async () => {
+      const listener = vi.fn();
+      const unsubscribe = clipboardRepository.subscribe(listener);
+      unsubscribe();
+      await clipboardRepository.addItem(baseItem);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep notifying other listeners when one throws', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const listener = vi.fn();
+      const unsubscribeFailing = clipboardRepository.subscribe(() => { throw new Error('boom'); });
+      const unsubscribe = clipboardRepository.subscribe(listener);
+      await clipboardRepository.favoriteItems(['missing']);
+      unsubscribeFailing();
+      unsubscribe();
+      errorSpy.mockRestore();
+
+      expect(listener).toHaveBeenCalledWith({ type: 'updated', items: [] });
+    });
+  });
+
+  describe('sortItems', () => {
+    it('should keep the given order for CUSTOM with pinned items first', () => {
+      const items = ['a', 'b', 'c'].map(id => ({ id, content: id, isPinned: id === 'c' } as ClipboardItem));
+      expect(sortItems(items).map(i => i.id)).toEqual(['c', 'a', 'b']);
+      expect(sortItems(items, 'CUSTOM', 'ASC').map(i => i.id)).toEqual(['c', 'b', 'a']);
+    });
+  });
+
+  // --- Undo / Redo Tests (5) ---
+
+  describe('Undo & Redo', () => {
+
+    it('should undo a bulk soft delete in one step', async () => {
+      await clipboardRepository.addItem(makeItem('u1'));
+      await clipboardRepository.addItem(makeItem('u2'));
+      await clipboardRepository.softDeleteItems(['u1', 'u2']);
+
+      expect(await clipboardRepository.undo()).toBe(1);
+      const items = await clipboardRepository.getAllItems();
+      expect(items.map(i => i.id)).toEqual(['u2', 'u1']);
+    });
+
+    it('should undo removeTags and mergeTags', async () => {
+      await clipboardRepository.addItem(makeItem('u1', { tags: ['#a', '#b'] }));
+      await clipboardRepository.mergeTags(['#a', '#b'], '#ab');
+      await clipboardRepository.removeTags(['#ab']);
+
+      await clipboardRepository.undo(2);
+      const [item] = await clipboardRepository.getAllItems();
+      expect(item.tags.sort()).toEqual(['#a', '#b']);
+      expect(await clipboardRepository.getUniqueTags()).toEqual(['#a', '#b']);
+    });
+
+    it('should bring back tag metadata and collections on undo', async () => {
+      await clipboardRepository.addItem(makeItem('u1', { tags: ['#work'] }));
+      await clipboardRepository.setTagMetadata('#work', { color: '#EF4444' });
+      await clipboardRepository.removeTags(['#work']);
+      await clipboardRepository.undo();
+      expect(await clipboardRepository.getTagMetadata()).toEqual({ '#work': { color: '#EF4444' } });
+
+      const collection = { id: 'undo-c', name: 'Work', query: '#work', filter: {}, sortOption: 'DATE', sortDirection: 'DESC' } as const;
+      await clipboardRepository.saveCollection(collection);
+      await clipboardRepository.deleteCollection('undo-c');
+      await clipboardRepository.undo();
+      expect(await clipboardRepository.getCollections()).toEqual([collection]);
+    });
+
+    it('should only undo the operation a toast offered while it is still the latest', async () => {
+      await clipboardRepository.addItem(makeItem('u1'));
+      await clipboardRepository.addItem(makeItem('u2'));
+
+      const mark = clipboardRepository.getOperationMark();
+      await clipboardRepository.softDeleteItems(['u1']);
+      const operationId = clipboardRepository.operationSince(mark)!;
+      expect(operationId).not.toBeNull();
+
+      await clipboardRepository.softDeleteItems(['u2']);
+      expect(await clipboardRepository.undoOperation(operationId)).toBe(false);
+      expect(await clipboardRepository.getAllItems()).toEqual([]);
+
+      await clipboardRepository.undo();
+      expect(await clipboardRepository.undoOperation(operationId)).toBe(true);
+      expect((await clipboardRepository.getAllItems()).map(i => i.id)).toEqual(['u2', 'u1']);
+    });
+
+    it('should not offer an undo when the mutation changed nothing', async () => {
+      const mark = clipboardRepository.getOperationMark();
+      await clipboardRepository.softDeleteItems(['missing']);
+      expect(clipboardRepository.operationSince(mark)).toBeNull();
+    });
+
+    it('should undo clearAllData', async () => {
+      await clipboardRepository.addItem(makeItem('u1', { tags: ['#keep'] }));
+      await clipboardRepository.clearAllData();
+      await clipboardRepository.undo();
+
+      expect((await clipboardRepository.getAllItems()).map(i => i.id)).toEqual(['u1']);
+      expect(await clipboardRepository.getUniqueTags()).toEqual(['#keep']);
+    });
+
+    it('should redo an undone operation', async () => {
+      await clipboardRepository.addItem(makeItem('u1'));
+      await clipboardRepository.deleteItemsForever(['u1']);
+      await clipboardRepository.undo();
+      expect(clipboardRepository.canRedo()).toBe(true);
+
+      expect(await clipboardRepository.redo()).toBe(1);
+      expect(await clipboardRepository.getAllItems()).toEqual([]);
+      expect(await clipboardRepository.getTrashItems()).toEqual([]);
+    });
+
+    it('should leave revision histories out of undo', async () => {
+      await clipboardRepository.addItem(makeItem('u1', { content: 'first' }));
+      await clipboardRepository.updateItem('u1', { content: 'second' });
+      await clipboardRepository.undo();
+      expect((await clipboardRepository.getItem('u1'))!.content).toBe('first');
+      expect((await clipboardRepository.getRevisions('u1')).map(r => r.content)).toEqual(['first']);
+
+      await clipboardRepository.deleteItemsForever(['u1']);
+      await clipboardRepository.undo();
+      expect(await clipboardRepository.getItem('u1')).toBeDefined();
+      expect(await clipboardRepository.getRevisions('u1')).toEqual([]);
+    });
+
+    it('should persist the undone state', async () => {
+      const repo = new ClipboardRepository(new PreferencesStorageAdapter());
+      await repo.addItem(makeItem('p1', { tags: ['#x'] }));
+      await repo.replaceTagsForItems(['p1'], ['#y']);
+      await repo.undo();
+
+      const reloaded = new ClipboardRepository(new PreferencesStorageAdapter());
+      const [item] = await reloaded.getAllItems();
+      expect(item.tags).toEqual(['#x']);
+    });
+  });
+
+  // --- Trash Retention Tests (3) ---
+
+  describe('Trash Retention', () => {
+    it('should record and clear deletedAt', async () => {
+      await clipboardRepository.addItem(makeItem('r1'));
+      await clipboardRepository.softDeleteItems(['r1']);
+      const [trashed] = await clipboardRepository.getTrashItems();
+      expect(Date.parse(trashed.deletedAt!)).not.toBeNaN();
+
+      await clipboardRepository.restoreItems(['r1']);
+      const [restored] = await clipboardRepository.getAllItems();
+      expect(restored.deletedAt).toBeUndefined();
+    });
+
+    it('should purge only expired trash', async () => {
+      await clipboardRepository.addItem(makeItem('old'));
+      await clipboardRepository.addItem(makeItem('recent'));
+      await clipboardRepository.addItem(makeItem('live'));
+      await clipboardRepository.softDeleteItems(['old', 'recent']);
+
+      const later = new Date(Date.now() + 8 * 24 * 60 * 60 * 1000);
+      await clipboardRepository.updateItem('recent', { deletedAt: new Date(later.getTime() - 1000).toISOString() });
+
+      expect(await clipboardRepository.purgeExpiredTrash(7, later)).toBe(1);
+      expect((await clipboardRepository.getTrashItems()).map(i => i.id)).toEqual(['recent']);
+      expect((await clipboardRepository.getAllItems()).map(i => i.id)).toEqual(['live']);
+    });
+
+    it('should keep everything when retention is never', async () => {
+      await clipboardRepository.addItem(makeItem('r1'));
+      await clipboardRepository.softDeleteItems(['r1']);
+      const farFuture = new Date(Date.now() + 3650 * 24 * 60 * 60 * 1000);
+
+      expect(await clipboardRepository.purgeExpiredTrash(null, farFuture)).toBe(0);
+      expect(await clipboardRepository.getTrashItems()).toHaveLength(1);
+    });
+  });
+
+  // --- Clipboard Retention Tests (3) ---
+
+  describe('Clipboard Retention', () => {
+    const makeClip = (id: string, overrides: Partial<ClipboardItem> = {}) =>
+      makeItem(id, { content: `Captured ${id}`, tags: ['#synced'], ...overrides });
+
+    afterEach(() => {
+      clipboardRepository.setClipboardRetention(DEFAULT_CLIPBOARD_RETENTION);
+    });
+
+    it('should trash the oldest captures once the count limit is exceeded', async () => {
+      clipboardRepository.setClipboardRetention({ maxItems: 2, maxAgeDays: null, maxBytes: null, overflow: 'TRASH' });
+      await clipboardRepository.addItem(makeClip('c1'));
+      await clipboardRepository.addItem(makeClip('c2', { isFavorite: true }));
+      await clipboardRepository.addItem(makeClip('c3'));
+      await clipboardRepository.addItem(makeClip('c4'));
+
+      expect((await clipboardRepository.getAllItems()).map(i => i.id).sort()).toEqual(['c2', 'c3', 'c4']);
+      expect((await clipboardRepository.getTrashItems()).map(i => i.id)).toEqual(['c1']);
+    });
+
+    it('should delete overflow outright and let undo bring it back', async () => {
+      await clipboardRepository.addItem(makeClip('c1'));
+      await clipboardRepository.addItem(makeClip('c2'));
+      clipboardRepository.setClipboardRetention({ maxItems: 1, maxAgeDays: null, maxBytes: null, overflow: 'DELETE' });
+      await clipboardRepository.addItem(makeClip('c3'));
+
+      expect((await clipboardRepository.getAllItems()).map(i => i.id)).toEqual(['c3']);
+      expect(await clipboardRepository.getTrashItems()).toEqual([]);
+
+      await clipboardRepository.undo();
+      expect((await clipboardRepository.getAllItems()).map(i => i.id).sort()).toEqual(['c1', 'c2']);
+    });
+
+    it('should enforce a tightened age limit on demand', async () => {
+      const old = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString();
+      await clipboardRepository.addItem(makeClip('old', { timestamp: old }));
+      await clipboardRepository.addItem(makeClip('note', { timestamp: old, category: 'notes' }));
+      await clipboardRepository.addItem(makeClip('fresh'));
+
+      clipboardRepository.setClipboardRetention({ maxItems: null, maxAgeDays: 30, maxBytes: null, overflow: 'TRASH' });
+      expect(await clipboardRepository.enforceClipboardRetention()).toBe(1);
+      expect((await clipboardRepository.getTrashItems()).map(i => i.id)).toEqual(['old']);
+    });
+  });
+
+  // --- Duplicate Detection Tests (4) ---
+
+  describe('Duplicate Detection', () => {
+    const makeClip = (id: string, content: string, category: 'clipboard' | 'notes' = 'clipboard') =>
+      makeItem(id, { content, category, timestamp: '2024-01-01T00:00:00.000Z' });
+
+    afterEach(() => {
+      clipboardRepository.setDuplicateDetection(DEFAULT_NEAR_DUPLICATE_OPTIONS);
+    });
+
+    it('should bump a near-duplicate clip to the top instead of adding it', async () => {
+      await clipboardRepository.addItem(makeClip('link', 'https://shop.example/item?id=3&utm_source=mail'));
+      await clipboardRepository.addItem(makeClip('other', 'Something else'));
+      await clipboardRepository.addItem(makeClip('again', 'https://shop.example/item/?id=3&fbclid=xyz'));
+
+      const items = await clipboardRepository.getAllItems();
+      expect(items.map(i => i.id)).toEqual(['link', 'other']);
+      expect(items[0].content).toBe('https://shop.example/item?id=3&utm_source=mail');
+      expect(items[0].timestamp).not.toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should only match notes exactly', async () => {
+      await clipboardRepository.addItem(makeClip('n1', 'Shopping List', 'notes'));
+      await clipboardRepository.addItem(makeClip('n2', 'shopping list', 'notes'));
+      await clipboardRepository.addItem(makeClip('n3', 'Shopping List', 'notes'));
+
+      expect((await clipboardRepository.getAllItems()).map(i => i.id)).toEqual(['n1', 'n2']);
+    });
+
+    it('should group existing near-duplicates and honour the configured options', async () => {
+      clipboardRepository.setDuplicateDetection({ ...DEFAULT_NEAR_DUPLICATE_OPTIONS, threshold: 1, collapseWhitespace: false });
+      await clipboardRepository.addItem(makeClip('a', 'hello  world'));
+      await clipboardRepository.addItem(makeClip('b', 'hello world'));
+      await clipboardRepository.addItem(makeClip('c', 'unrelated'));
+      expect((await clipboardRepository.getAllItems()).length).toBe(3);
+
+      const groups = await clipboardRepository.findDuplicateGroups(DEFAULT_NEAR_DUPLICATE_OPTIONS);
+      expect(groups.map(g => g.map(i => i.id))).toEqual([['b', 'a']]);
+    });
+
+    it('should report whether a duplicate is the newest live item or trashed', async () => {
+      await clipboardRepository.addItem(makeClip('old', 'first text'));
+      await clipboardRepository.addItem(makeClip('new', 'second text'));
+      await clipboardRepository.addItem(makeClip('gone', 'third text'));
+      await clipboardRepository.softDeleteItems(['gone']);
+
+      expect(await clipboardRepository.findDuplicate('Second  Text', 'clipboard')).toMatchObject({ item: { id: 'new' }, isNewest: true });
+      expect(await clipboardRepository.findDuplicate('first text', 'clipboard')).toMatchObject({ item: { id: 'old' }, isNewest: false });
+      expect(await clipboardRepository.findDuplicate('third text', 'clipboard')).toMatchObject({ item: { id: 'gone' }, isNewest: false });
+      expect(await clipboardRepository.findDuplicate('second text', 'notes')).toBeUndefined();
+
+      // Re-adding the newest item leaves it untouched
+      await clipboardRepository.addItem(makeClip('again', 'second text'));
+      expect((await clipboardRepository.getItem('new'))?.timestamp).toBe('2024-01-01T00:00:00.000Z');
+    });
+  });
+
+  // --- Revision History Tests (5) ---
+
+  describe('Revision History', () => {
+    const note: ClipboardItem = {
+      id: 'rev-1',
+      title: 'Draft',
+      content: 'first version',
+      type: ClipboardType.TEXT,
+      category: 'notes',
+      timestamp: new Date().toISOString(),
+      tags: ['#notes'],
+      isPinned: false,
+      isFavorite: false,
+      isDeleted: false
+    };
+
+    afterEach(() => {
+      clipboardRepository.setRevisionDepth(DEFAULT_REVISION_DEPTH);
+    });
+
+    it('should archive the replaced version on every content edit, newest first', async () => {
+      await clipboardRepository.addItem(note);
+      await clipboardRepository.updateItem('rev-1', { content: 'second version' });
+      await clipboardRepository.updateItem('rev-1', { content: 'third version', title: 'Final' });
+
+      const revisions = await clipboardRepository.getRevisions('rev-1');
+      expect(revisions.map(r => r.content)).toEqual(['second version', 'first version']);
+      expect(revisions[1].title).toBe('Draft');
+      expect(revisions[1].tags).toEqual(['#notes']);
+    });
+
+    it('should not archive edits that leave text, title and tags alone', async () => {
+      await clipboardRepository.addItem(note);
+      await clipboardRepository.updateItem('rev-1', { isFavorite: true, timestamp: new Date().toISOString() });
+      await clipboardRepository.updateItem('rev-1', { content: 'first version', tags: ['#notes'] });
+
+      expect(await clipboardRepository.getRevisions('rev-1')).toEqual([]);
+    });
+
+    it('should keep at most the configured depth', async () => {
+      clipboardRepository.setRevisionDepth(2);
+      await clipboardRepository.addItem(note);
+      for (const content of ['v2', 'v3', 'v4']) {
+        await clipboardRepository.updateItem('rev-1', { content });
+      }
+      expect((await clipboardRepository.getRevisions('rev-1')).map(r => r.content)).toEqual(['v3', 'v2']);
+
+      clipboardRepository.setRevisionDepth(0);
+      await clipboardRepository.updateItem('rev-1', { content: 'v5' });
+      expect(await clipboardRepository.getRevisions('rev-1')).toHaveLength(2);
+    });
+
+    it('should restore a revision and archive the version it replaces', async () => {
+      await clipboardRepository.addItem(note);
+      await clipboardRepository.updateItem('rev-1', { content: 'overwritten by accident', title: 'Oops', tags: [] });
+      const [original] = await clipboardRepository.getRevisions('rev-1');
+
+      expect(await clipboardRepository.restoreRevision('rev-1', original.id)).toBe(true);
+
+      const [restored] = await clipboardRepository.getAllItems();
+      expect(restored.content).toBe('first version');
+      expect(restored.title).toBe('Draft');
+      expect(restored.tags).toEqual(['#notes']);
+      const revisions = await clipboardRepository.getRevisions('rev-1');
+      expect(revisions[0].content).toBe('overwritten by accident');
+      expect(await clipboardRepository.restoreRevision('rev-1', 'missing')).toBe(false);
+    });
+
+    it('should persist revisions and drop them when the item is deleted forever', async () => {
+      localStorage.clear();
+      const repository = new ClipboardRepository(new PreferencesStorageAdapter());
+      await repository.clearAllData();
+      await repository.addItem(note);
+      await repository.updateItem('rev-1', { content: 'edited' });
+
+      const reloaded = new ClipboardRepository(new PreferencesStorageAdapter());
+      expect((await reloaded.getRevisions('rev-1')).map(r => r.content)).toEqual(['first version']);
+
+      await reloaded.deleteForever('rev-1');
+      expect(await reloaded.getRevisions('rev-1')).toEqual([]);
+    });
+  });
+
   // --- CRUD Operations Tests (5) ---
   
   describe('CRUD Operations', () => {
@@ -152,7 +693,7 @@ describe('ClipboardRepository', () => {
     });
   });
 
-  // --- Filtering Operations Tests (4) ---
+  // --- Filtering Operations Tests (6) ---
   
   describe('Filtering Operations', () => {
     beforeEach(async () => {
@@ -216,6 +757,31 @@ describe('ClipboardRepository', () => {
       expect(taggedItems.every((i: ClipboardItem) => i.tags.includes('#test-tag'))).toBe(true);
       expect(taggedItems.length).toBeGreaterThan(0);
     });
+
+    it('should search live items or trash with a parsed query', async () => {
+      await clipboardRepository.updateItem('filter-1', { tags: ['#work'] });
+      await clipboardRepository.deleteItem('filter-2');
+
+      const search = async (query: string, scope?: 'live' | 'trash') =>
+        (await clipboardRepository.searchItems(parseSearchQuery(query), scope)).map(i => i.id);
+      expect(await search('tag:#work "item 1"')).toEqual(['filter-1']);
+      expect(await search('item -tag:work')).toEqual([]);
+      expect(await search('item', 'trash')).toEqual(['filter-2']);
+    });
+
+    it('should keep the search index current as items change', async () => {
+      const search = async (query: string) =>
+        (await clipboardRepository.searchItems(parseSearchQuery(query))).map(i => i.id);
+      expect(await search('item')).toEqual(['filter-2', 'filter-1']);
+
+      await clipboardRepository.updateItem('filter-1', { title: 'Grocery list' });
+      await clipboardRepository.deleteItemsForever(['filter-2']);
+      expect(await search('grocery')).toEqual(['filter-1']);
+      expect(await search('item')).toEqual(['filter-1']);
+
+      await clipboardRepository.undo();
+      expect(await search('item')).toEqual(['filter-2', 'filter-1']);
+    });
   });
 
   // --- Sorting Operations Tests (8) ---
@@ -325,7 +891,7 @@ describe('ClipboardRepository', () => {
     });
   });
 
-  // --- Tag Management Tests (6) ---
+  // --- Tag Management Tests (10) ---
   
   describe('Tag Management', () => {
     beforeEach(async () => {
@@ -410,9 +976,222 @@ describe('ClipboardRepository', () => {
       const updated = await clipboardRepository.getAllItems();
       expect(updated[0].tags).toContain('#merged');
     });
+
+    it('should rename a tag on every item as one undoable step', async () => {
+      await clipboardRepository.addItem({
+        id: 'tag-test-2',
+        content: 'Second item for tag test',
+        type: ClipboardType.TEXT,
+        category: 'notes',
+        timestamp: new Date().toISOString(),
+        tags: ['#initial/sub'],
+        isPinned: false,
+        isFavorite: false,
+        isDeleted: false
+      });
+
+      await clipboardRepository.renameTag('#initial', '#renamed');
+      const renamed = await clipboardRepository.getAllItems();
+      expect(renamed.map(i => i.tags)).toEqual([['#renamed/sub'], ['#renamed']]);
+      expect(await clipboardRepository.getUniqueTags()).toEqual(['#renamed', '#renamed/sub']);
+
+      expect(await clipboardRepository.undo()).toBe(1);
+      const restored = await clipboardRepository.getAllItems();
+      expect(restored.map(i => i.tags)).toEqual([['#initial/sub'], ['#initial']]);
+    });
+
+    it('should report tag usage', async () => {
+      await clipboardRepository.addNewTag('#unused');
+      const stats = await clipboardRepository.getTagStats();
+
+      expect(stats.find(s => s.tag === '#initial')).toMatchObject({ count: 1 });
+      expect(stats.find(s => s.tag === '#unused')).toEqual({ tag: '#unused', count: 0, lastUsed: null });
+    });
+
+    it('should clean up tags no item uses', async () => {
+      await clipboardRepository.addNewTag('#unused');
+      await clipboardRepository.addNewTag('#initial/empty-child');
+
+      expect((await clipboardRepository.removeUnusedTags()).sort()).toEqual(['#initial/empty-child', '#unused']);
+      expect(await clipboardRepository.getUniqueTags()).toEqual(['#initial']);
+      expect(await clipboardRepository.removeUnusedTags()).toEqual([]);
+    });
+
+    it('should suggest tags learned from live items only', async () => {
+      const item = (id: string, content: string, tags: string[], isDeleted = false) => makeItem(id, { content, tags, isDeleted });
+      await clipboardRepository.addItem(item('s1', 'Quarterly tax return draft', ['#taxes']));
+      await clipboardRepository.addItem(item('s2', 'Tax return receipts', ['#trashed'], true));
+      await clipboardRepository.addItem(item('s3', 'Finish the tax return', []));
+
+      const suggestions = await clipboardRepository.getTagSuggestions(['s3']);
+      expect(suggestions.existing.map(s => s.tag)).toEqual(['#taxes']);
+      expect(suggestions.keywords).toContain('#finish');
+    });
   });
 
-  // --- Batch Operations Tests (6) ---
+  // --- Tag Normalization Tests (4) ---
+
+  describe('Tag Normalization', () => {
+    const item = (id: string, tags: string[]) => makeItem(id, { tags });
+
+    it('should store new tags in their normalized spelling', async () => {
+      expect(await clipboardRepository.addNewTag('Work')).toBe('#work');
+      expect(await clipboardRepository.addNewTag('#WORK')).toBe('#work');
+      expect(await clipboardRepository.addNewTag('🔥')).toBeNull();
+      expect(await clipboardRepository.getUniqueTags()).toEqual(['#work']);
+    });
+
+    it('should normalize tags added to or replaced on items', async () => {
+      await clipboardRepository.addItem(item('n1', ['#work']));
+      await clipboardRepository.addTagsToItems(['n1'], ['#Work', 'Client A']);
+      expect((await clipboardRepository.getAllItems())[0].tags).toEqual(['#work', '#client-a']);
+
+      await clipboardRepository.replaceTagsForItems(['n1'], ['Home', '#home']);
+      expect((await clipboardRepository.getAllItems())[0].tags).toEqual(['#home']);
+    });
+
+    it('should normalize tags on added and updated items', async () => {
+      await clipboardRepository.addItem(item('n3', ['Work', '#WORK', '🔥']));
+      expect((await clipboardRepository.getItem('n3'))!.tags).toEqual(['#work']);
+
+      await clipboardRepository.updateItem('n3', { tags: ['Client A'] });
+      expect((await clipboardRepository.getItem('n3'))!.tags).toEqual(['#client-a']);
+      expect(await clipboardRepository.getUniqueTags()).toEqual(['#client-a', '#work']);
+    });
+
+    it('should normalize imported tags whatever the backup version', async () => {
+      const payload = JSON.stringify({
+        version: CURRENT_SCHEMA_VERSION,
+        items: [item('n2', ['#Work', 'work'])],
+        tags: ['#Work', 'Home'],
+        tagMetadata: { '#Work': { color: '#EF4444' } }
+      });
+
+      expect(await clipboardRepository.importData(payload)).toBe(true);
+      expect((await clipboardRepository.getAllItems())[0].tags).toEqual(['#work']);
+      expect(await clipboardRepository.getUniqueTags()).toEqual(['#home', '#work']);
+      expect(await clipboardRepository.getTagMetadata()).toEqual({ '#work': { color: '#EF4444' } });
+    });
+
+    it('should merge stored tag variants once when upgrading from schema v3', async () => {
+      localStorage.clear();
+      const storage = new PreferencesStorageAdapter();
+      await storage.commit({
+        put: [item('n3', ['#Work', 'work'])],
+        meta: { order: ['n3'], tags: ['#Work', 'work', '#work'], tagMeta: { '#Work': { icon: '💼' } }, layout: STORAGE_LAYOUT_VERSION, schema: 3 }
+      });
+
+      const repository = new ClipboardRepository(storage);
+      expect((await repository.getAllItems())[0].tags).toEqual(['#work']);
+      expect(await repository.getUniqueTags()).toEqual(['#work']);
+      expect(await repository.getTagMetadata()).toEqual({ '#work': { icon: '💼' } });
+      expect(localStorage.getItem('CapacitorStorage.clipboard_max:schema')).toBe(String(CURRENT_SCHEMA_VERSION));
+    });
+  });
+
+  // --- Tag Hierarchy & Metadata Tests (4) ---
+
+  describe('Tag Hierarchy & Metadata', () => {
+    const tagged = (id: string, tags: string[]) => makeItem(id, { tags });
+
+    beforeEach(async () => {
+      await clipboardRepository.addItem(tagged('h1', ['#work']));
+      await clipboardRepository.addItem(tagged('h2', ['#work/client-a']));
+      await clipboardRepository.addItem(tagged('h3', ['#work/client-a/invoices', '#home']));
+    });
+
+    it('should list implied parents and include nested tags in a parent view', async () => {
+      await clipboardRepository.addNewTag('#projects/alpha');
+      expect(await clipboardRepository.getUniqueTags()).toEqual([
+        '#home', '#projects', '#projects/alpha', '#work', '#work/client-a', '#work/client-a/invoices'
+      ]);
+      expect((await clipboardRepository.getItemsByTag('#work/client-a')).map(i => i.id).sort()).toEqual(['h2', 'h3']);
+    });
+
+    it('should remove nested tags along with their parent', async () => {
+      await clipboardRepository.removeTags(['#work/client-a']);
+      expect(await clipboardRepository.getUniqueTags()).toEqual(['#home', '#work']);
+      const items = await clipboardRepository.getAllItems();
+      expect(items.find(i => i.id === 'h3')!.tags).toEqual(['#home']);
+    });
+
+    it('should move nested tags and their metadata when merging', async () => {
+      await clipboardRepository.setTagMetadata('#work/client-a', { color: '#EF4444' });
+      await clipboardRepository.mergeTags(['#work'], '#job');
+
+      const items = await clipboardRepository.getAllItems();
+      expect(items.find(i => i.id === 'h3')!.tags).toEqual(['#job/client-a/invoices', '#home']);
+      expect(await clipboardRepository.getUniqueTags()).not.toContain('#work');
+      expect(await clipboardRepository.getTagMetadata()).toEqual({ '#job/client-a': { color: '#EF4444' } });
+    });
+
+    it('should persist tag metadata and carry it through export and import', async () => {
+      localStorage.clear();
+      const repository = new ClipboardRepository(new PreferencesStorageAdapter());
+      await repository.clearAllData();
+      await repository.setTagMetadata('#work', { icon: '💼', description: 'Client work', sortOrder: 1 });
+
+      const reloaded = new ClipboardRepository(new PreferencesStorageAdapter());
+      expect(await reloaded.getTagMetadata()).toEqual({ '#work': { icon: '💼', description: 'Client work', sortOrder: 1 } });
+
+      const exported = await reloaded.exportData();
+      await reloaded.clearAllData();
+      expect(await reloaded.getTagMetadata()).toEqual({});
+      await reloaded.importData(exported);
+      expect((await reloaded.getTagMetadata())['#work'].icon).toBe('💼');
+    });
+  });
+
+  // --- Smart Collections Tests (3) ---
+
+  describe('Smart Collections', () => {
+    const collection: SmartCollection = {
+      id: 'collection-1',
+      name: 'Work links',
+      query: 'invoice',
+      filter: { ...EMPTY_LIST_FILTER, category: 'clipboard', types: [ClipboardType.LINK], tags: ['#work'] },
+      sortOption: 'DATE',
+      sortDirection: 'DESC'
+    };
+
+    it('should save, rename and delete collections with change events', async () => {
+      const changes: RepositoryChange[] = [];
+      const unsubscribe = clipboardRepository.subscribe(change => changes.push(change));
+
+      await clipboardRepository.saveCollection(collection);
+      await clipboardRepository.saveCollection({ ...collection, name: 'Invoices' });
+      expect((await clipboardRepository.getCollections()).map(c => c.name)).toEqual(['Invoices']);
+
+      await clipboardRepository.deleteCollection('collection-1');
+      expect(await clipboardRepository.getCollections()).toEqual([]);
+      expect(changes.map(c => c.type)).toEqual(['collections-changed', 'collections-changed', 'collections-changed']);
+      unsubscribe();
+    });
+
+    it('should persist collections and drop them on clear', async () => {
+      localStorage.clear();
+      const repository = new ClipboardRepository(new PreferencesStorageAdapter());
+      await repository.clearAllData();
+      await repository.saveCollection(collection);
+
+      const reloaded = new ClipboardRepository(new PreferencesStorageAdapter());
+      expect(await reloaded.getCollections()).toEqual([collection]);
+
+      await reloaded.clearAllData();
+      expect(await reloaded.getCollections()).toEqual([]);
+    });
+
+    it('should carry collections through export and import', async () => {
+      await clipboardRepository.saveCollection(collection);
+      const exported = await clipboardRepository.exportData();
+      await clipboardRepository.clearAllData();
+
+      expect(await clipboardRepository.importData(exported)).toBe(true);
+      expect(await clipboardRepository.getCollections()).toEqual([collection]);
+    });
+  });
+
+  // --- Batch Operations Tests (7) ---
   
   describe('Batch Operations', () => {
     beforeEach(async () => {
@@ -525,9 +1304,31 @@ describe('ClipboardRepository', () => {
       const mergedItem = afterItems[0]; // Should be at top
       expect(mergedItem.tags).toContain('#merged');
     });
+
+    it('should apply auto-tag rules to existing live items as one undo step', async () => {
+      await clipboardRepository.softDeleteItems(['batch-3']);
+      const rule: AutoTagRule = {
+        ...createAutoTagRule('Items'),
+        conditions: { ...EMPTY_RULE_CONDITIONS, pattern: '^item [12]$' },
+        actions: { ...EMPTY_RULE_ACTIONS, tags: ['Numbered'], favorite: true }
+      };
+
+      expect(await clipboardRepository.applyAutoTagRules([rule])).toBe(2);
+      const items = await clipboardRepository.getAllItems();
+      expect(items.filter(i => i.tags.includes('#numbered')).map(i => i.id).sort()).toEqual(['batch-1', 'batch-2']);
+      expect(items.every(i => i.isFavorite)).toBe(true);
+      expect((await clipboardRepository.getTrashItems())[0].tags).toEqual([]);
+      expect(await clipboardRepository.getUniqueTags()).toContain('#numbered');
+
+      // Running again changes nothing
+      expect(await clipboardRepository.applyAutoTagRules([rule])).toBe(0);
+
+      await clipboardRepository.undo();
+      expect((await clipboardRepository.getAllItems()).some(i => i.isFavorite)).toBe(false);
+    });
   });
 
-  // --- Advanced Operations Tests (5) ---
+  // --- Advanced Operations Tests (6) ---
   
   describe('Advanced Operations', () => {
     beforeEach(async () => {
@@ -615,6 +1416,219 @@ describe('ClipboardRepository', () => {
       expect(items).toHaveLength(0);
       expect(tags).toHaveLength(0);
     });
+
+    it('should find related live items and follow later changes', async () => {
+      const item = (id: string, content: string) => makeItem(id, { content, category: 'notes' });
+      await clipboardRepository.addItem(item('rel-1', 'Garden plan: tomatoes, basil and peppers'));
+      await clipboardRepository.addItem(item('rel-2', 'Buy tomatoes and basil seedlings'));
+      expect((await clipboardRepository.getRelatedItems('rel-1')).map(i => i.id)).toEqual(['rel-2']);
+
+      await clipboardRepository.addItem(item('rel-3', 'Water the tomatoes and peppers'));
+      expect((await clipboardRepository.getRelatedItems('rel-1')).map(i => i.id).sort()).toEqual(['rel-2', 'rel-3']);
+
+      await clipboardRepository.softDeleteItems(['rel-2']);
+      expect((await clipboardRepository.getRelatedItems('rel-1')).map(i => i.id)).toEqual(['rel-3']);
+    });
+  });
+
+  // --- Vault Tests (5) ---
+
+  describe('Vault', () => {
+    const secure = (id: string, content: string) => makeItem(id, { content, type: ClipboardType.SECURE });
+    const stored = (id: string) => localStorage.getItem(`CapacitorStorage.clipboard_max:item:${id}`) || '';
+    // Low iteration count keeps key derivation fast in tests
+    const createRepo = () => new ClipboardRepository(new PreferencesStorageAdapter(), new Vault(1000));
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should seal existing and new secure items at rest', async () => {
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.addItem(secure('s1', 'card 4111 1111 1111 1111'));
+      expect(stored('s1')).toContain('4111');
+
+      expect(await repo.setUpVault('1234')).toBe(true);
+      expect(await repo.setUpVault('5678')).toBe(false);
+      await repo.addItem(secure('s2', 'pin 9876'));
+
+      expect(stored('s1')).not.toContain('4111');
+      expect(stored('s2')).not.toContain('9876');
+      const [s2, s1] = await repo.getAllItems();
+      expect(s1.content).toBe(s1.displayContent);
+      expect((await repo.revealItem(s1)).content).toBe('card 4111 1111 1111 1111');
+      expect((await repo.revealItem(s2)).content).toBe('pin 9876');
+      // Plain text must not come back through undo
+      expect(repo.canUndo()).toBe(true);
+      await repo.undo();
+      expect(stored('s1')).not.toContain('4111');
+    });
+
+    it('should only reveal after unlocking with the PIN', async () => {
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.setUpVault('1234');
+      await repo.addItem(secure('s1', 'hunter2'));
+
+      const reloaded = createRepo();
+      const [item] = await reloaded.getAllItems();
+      expect(reloaded.vault.getState()).toEqual({ isSetUp: true, isUnlocked: false });
+      await expect(reloaded.revealItem(item)).rejects.toBeInstanceOf(VaultLockedError);
+      expect(await reloaded.searchItems(parseSearchQuery('hunter2'))).toEqual([]);
+
+      await reloaded.vault.unlock('1234');
+      expect((await reloaded.revealItem(item)).content).toBe('hunter2');
+    });
+
+    it('should recognize a re-synced secret as its sealed copy', async () => {
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.setUpVault('1234');
+      repo.vault.lock();
+      const pipeline = new IngestionPipeline(repo);
+      const card = 'Card 4111 1111 1111 1111';
+
+      const first = await pipeline.ingest({ text: card, category: 'clipboard', source: 'sync' });
+      expect(first.status).toBe('added');
+      expect(await pipeline.ingest({ text: card, category: 'clipboard', source: 'sync' })).toMatchObject({ status: 'skipped', reason: 'unchanged' });
+
+      await repo.addItem(makeItem('newer'));
+      expect(await pipeline.ingest({ text: card, category: 'clipboard', source: 'sync' })).toMatchObject({ status: 'bumped', item: { id: first.item!.id } });
+      const items = await repo.getAllItems();
+      expect(items.map(i => i.id)).toEqual([first.item!.id, 'newer']);
+      expect(items[0].secret).toBeDefined();
+    });
+
+    it('should reseal edits and unseal items that stop being secure', async () => {
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.setUpVault('1234');
+      await repo.addItem(secure('s1', 'old secret'));
+
+      await repo.updateItem('s1', { content: 'new secret' });
+      let item = (await repo.getItem('s1'))!;
+      expect(stored('s1')).not.toContain('new secret');
+      expect((await repo.revealItem(item)).content).toBe('new secret');
+      expect(await repo.getRevisions('s1')).toEqual([]);
+
+      repo.vault.lock();
+      await expect(repo.updateItem('s1', { type: ClipboardType.TEXT })).rejects.toBeInstanceOf(VaultLockedError);
+      await repo.vault.unlock('1234');
+      await repo.updateItem('s1', { type: ClipboardType.TEXT });
+      item = (await repo.getItem('s1'))!;
+      expect(item.secret).toBeUndefined();
+      expect(item.content).toBe('new secret');
+    });
+
+    it('should keep secrets readable after a PIN change', async () => {
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.setUpVault('1234');
+      await repo.addItem(secure('s1', 'hunter2'));
+      await repo.changeVaultPin('1234', '2468');
+
+      const reloaded = createRepo();
+      const item = (await reloaded.getItem('s1'))!;
+      await expect(reloaded.vault.unlock('1234')).rejects.toThrow('Wrong vault PIN');
+      await reloaded.vault.unlock('2468');
+      expect((await reloaded.revealItem(item)).content).toBe('hunter2');
+    });
+
+    it('should not undo clearing data that had a vault', async () => {
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.setUpVault('1234');
+      await repo.addItem(secure('s1', 'hunter2'));
+
+      await repo.clearAllData();
+      expect(repo.canUndo()).toBe(false);
+      expect(await repo.undo()).toBe(0);
+      expect(await repo.getAllItems()).toEqual([]);
+      expect(repo.vault.isSetUp()).toBe(false);
+    });
+
+    it('should wipe items and the vault beyond undo', async () => {
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.addItem(secure('s1', 'hunter2'));
+      await repo.setUpVault('1234');
+      await repo.addItem(secure('s2', 'pin 9876'));
+
+      await repo.wipeAllData();
+      expect(await repo.undo()).toBe(0);
+      expect(await repo.getAllItems()).toEqual([]);
+      expect(repo.vault.isSetUp()).toBe(false);
+
+      const reloaded = createRepo();
+      expect(await reloaded.getAllItems()).toEqual([]);
+      expect(reloaded.vault.isSetUp()).toBe(false);
+
+      // Unlike clearAllData, even without a vault
+      await reloaded.addItem(secure('s3', 'plain'));
+      await reloaded.wipeAllData();
+      expect(await reloaded.undo()).toBe(0);
+    });
+
+    it('should refuse backups sealed by another vault', async () => {
+      const other = createRepo();
+      await other.clearAllData();
+      await other.setUpVault('1234');
+      await other.addItem(secure('s1', 'hunter2'));
+      const backup = await other.exportData();
+
+      localStorage.clear();
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.setUpVault('5678');
+      await repo.addItem(secure('mine', 'pin 9876'));
+
+      await expect(repo.importData(backup)).rejects.toBeInstanceOf(VaultMismatchError);
+      expect((await repo.getAllItems()).map(i => i.id)).toEqual(['mine']);
+    });
+
+    it('should export sealed items with the vault and adopt it on import', async () => {
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.addItem(secure('s1', 'hunter2'));
+      await repo.setUpVault('1234');
+      const backup = await repo.exportData();
+      expect(backup).not.toContain('hunter2');
+
+      localStorage.clear();
+      const fresh = createRepo();
+      await fresh.clearAllData();
+      expect(await fresh.importData(backup)).toBe(true);
+      expect(fresh.vault.isSetUp()).toBe(true);
+
+      const reloaded = createRepo();
+      const item = (await reloaded.getItem('s1'))!;
+      await reloaded.vault.unlock('1234');
+      expect((await reloaded.revealItem(item)).content).toBe('hunter2');
+    });
+
+    it('should apply nothing from a backup it cannot finish importing', async () => {
+      const repo = createRepo();
+      await repo.clearAllData();
+      await repo.setUpVault('1234');
+      await repo.addItem(secure('s1', 'hunter2'));
+      const data = JSON.parse(await repo.exportData());
+      // No longer SECURE, so importing it needs the adopted vault unlocked
+      data.items[0].type = ClipboardType.TEXT;
+      data.tags = ['#imported'];
+      data.tagMetadata = { '#imported': { color: '#EF4444' } };
+      data.collections = [{ id: 'c1', name: 'Imported', query: '', filter: EMPTY_LIST_FILTER, sortOption: 'CUSTOM', sortDirection: 'DESC' }];
+
+      localStorage.clear();
+      const fresh = createRepo();
+      await fresh.clearAllData();
+      expect(await fresh.importData(JSON.stringify(data))).toBe(false);
+      expect(fresh.vault.isSetUp()).toBe(false);
+      expect(await fresh.getAllItems()).toEqual([]);
+      expect(await fresh.getUniqueTags()).toEqual([]);
+      expect(await fresh.getTagMetadata()).toEqual({});
+      expect(await fresh.getCollections()).toEqual([]);
+    });
   });
 
   // --- Import/Export Tests (6) ---
@@ -641,12 +1655,47 @@ describe('ClipboardRepository', () => {
       
       expect(exported).toBeDefined();
       const parsed = JSON.parse(exported);
-      expect(parsed.version).toBe(1);
+      expect(parsed.version).toBe(CURRENT_SCHEMA_VERSION);
       expect(parsed.items).toBeDefined();
       expect(parsed.tags).toBeDefined();
       expect(Array.isArray(parsed.items)).toBe(true);
     });
 
+    it('should round-trip passphrase-encrypted backups', async () => {
+      const itemCount = (await clipboardRepository.getAllItems()).length;
+      const exported = await clipboardRepository.exportData('correct horse');
+      expect(isEncryptedBackup(JSON.parse(exported))).toBe(true);
+      expect(exported).not.toContain('#work');
+
+      await clipboardRepository.clearAllData();
+      await expect(clipboardRepository.importData(exported)).rejects.toBeInstanceOf(BackupPassphraseError);
+      await expect(clipboardRepository.importData(exported, 'wrong')).rejects.toBeInstanceOf(BackupPassphraseError);
+      expect(await clipboardRepository.getAllItems()).toHaveLength(0);
+
+      expect(await clipboardRepository.importData(exported, 'correct horse')).toBe(true);
+      expect(await clipboardRepository.getAllItems()).toHaveLength(itemCount);
+    });
+
+    it('should reject backups from a newer schema version', async () => {
+      const payload = JSON.stringify({ version: CURRENT_SCHEMA_VERSION + 1, items: [] });
+
+      await expect(clipboardRepository.importData(payload)).rejects.toBeInstanceOf(SchemaVersionError);
+    });
+
+    it('should upgrade v1 backups on import', async () => {
+      const payload = JSON.stringify({
+        version: 1,
+        items: [{ id: 'v1-1', content: 'Legacy', type: ClipboardType.TEXT, category: 'notes', timestamp: '09:00 AM • 24 Dec' }]
+      });
+
+      expect(await clipboardRepository.importData(payload)).toBe(true);
+      const [item] = await clipboardRepository.getAllItems();
+      expect(item.id).toBe('v1-1');
+      expect(item.tags).toEqual([]);
+      expect(item.isPinned).toBe(false);
+      expect(item.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    });
+
     it('should import valid JSON data', async () => {
       const testData = {
         version: 1,
@@ -1,104 +1,449 @@
-import { ClipboardItem, ClipboardType, SortOption, SortDirection } from '../../types';
+import { ClipboardItem, ClipboardType, ItemRevision, SortOption, SortDirection } from '../../types';
 import { INITIAL_CLIPBOARD_DATA } from '../../util/Constants';
-import { Preferences } from '@capacitor/preferences';
+import { StorageAdapter, StorageBatch, STORAGE_LAYOUT_VERSION } from '../storage/StorageAdapter';
+import { createStorageAdapter } from '../storage/StorageFactory';
+import { migrateLegacyBlob } from '../storage/LegacyBlobMigration';
+import {
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_SCHEMA_VERSION,
+  SchemaVersionError,
+  migrateItems
+} from '../migrations/SchemaMigrations';
+import { RepositoryChange, RepositoryListener } from './RepositoryChange';
+import { MutationQueue } from './MutationQueue';
+import { TrashRetentionDays, isTrashExpired } from '../retention/TrashRetention';
+import {
+  ClipboardRetentionPolicy,
+  DEFAULT_CLIPBOARD_RETENTION,
+  selectOverflow
+} from '../retention/ClipboardRetention';
+import { OperationLog, RepositoryState, applyOperation, diffStates } from './OperationLog';
+import {
+  DEFAULT_NEAR_DUPLICATE_OPTIONS,
+  NearDuplicateOptions,
+  findNearDuplicate,
+  groupNearDuplicates
+} from '../../util/NearDuplicate';
+import {
+  DEFAULT_REVISION_DEPTH,
+  changesRevisedFields,
+  createRevision,
+  pushRevision,
+  revisionUpdates
+} from '../revisions/RevisionHistory';
+import { SearchNode } from '../search/SearchQuery';
+import { SearchScope, inSearchScope, matchesSearch, rankSearchResults, requiredTexts } from '../search/SearchFilter';
+import { FullTextIndex } from '../search/FullTextIndex';
+import { SimilarityIndex } from '../search/SimilarityIndex';
+import { SmartCollection, parseCollections } from '../collections/SmartCollection';
+import { isTagWithin, moveTag, withAncestors } from '../tags/TagHierarchy';
+import { TagStats, computeTagStats } from '../tags/TagStats';
+import { TagSuggestions, suggestTags } from '../tags/TagSuggestions';
+import { normalizeTag, normalizeTagMetadata, normalizeTags } from '../tags/TagNormalization';
+import { TagMetadata, cleanTagMetadata, parseTagMetadata } from '../tags/TagMetadata';
+import { AutoTagRule, applyAutoTagRules } from '../ingestion/AutoTagRules';
+import { Vault, VaultMismatchError } from '../vault/Vault';
+import { parseVaultRecord } from '../vault/VaultCrypto';
+import { encryptBackup, openBackup } from '../backup/BackupCrypto';
 
-const STORAGE_KEY = 'clipboard_max_data';
-const TAGS_KEY = 'clipboard_max_tags';
+/** Describes which records a mutation touched, so only those get rewritten */
+interface StorageChanges {
+  clear?: boolean;
+  put?: ClipboardItem[];
+  remove?: string[];
+  order?: boolean;
+  tags?: boolean;
+  tagMetadata?: boolean;
+  collections?: boolean;
+  revisions?: Record<string, ItemRevision[] | null>;
+  vault?: boolean;
+}
+
+/** Shown in place of a sealed item that has no display text of its own */
+export const SEALED_MASK = '••••••••';
+
+/** The item with its sealed text decrypted by `vault` */
+const openItem = async (item: ClipboardItem, vault: Vault): Promise<ClipboardItem> => {
+  if (!item.secret) return item;
+  const { content, htmlContent } = await vault.reveal(item.secret);
+  const { secret, ...rest } = item;
+  return {
+    ...rest,
+    content,
+    htmlContent,
+    displayContent: item.displayContent === SEALED_MASK ? undefined : item.displayContent
+  };
+};
+
+/** An existing item that new content would duplicate */
+export interface DuplicateMatch {
+  item: ClipboardItem;
+  /** True when no live item of the same category sits above it, i.e. re-adding changes nothing */
+  isNewest: boolean;
+}
+
+/**
+ * Sort items for display. Pinned items always come first; 'CUSTOM' keeps the
+ * order of the given array (DESC) or reverses it (ASC).
+ */
+export const sortItems = (
+  items: ClipboardItem[],
+  sortOption: SortOption = 'CUSTOM',
+  sortDirection: SortDirection = 'DESC'
+): ClipboardItem[] => {
+  const position = new Map(items.map((item, index) => [item.id, index]));
+
+  // Sorting Logic
+  return [...items].sort((a, b) => {
+    // 1. Always prioritize Pinned items to the top
+    if (a.isPinned !== b.isPinned) {
+        return a.isPinned ? -1 : 1;
+    }
+
+    // 2. Determine comparison value based on criteria
+    let comparison = 0;
+    
+    switch (sortOption) {
+      case 'CUSTOM':
+        comparison = position.get(b.id)! - position.get(a.id)!; // Index based
+        break;
+      
+      case 'DATE':
+          const dateA = new Date(a.timestamp).getTime();
+          const dateB = new Date(b.timestamp).getTime();
+          if (!isNaN(dateA) && !isNaN(dateB)) {
+              comparison = dateA - dateB;
+          } else {
+              comparison = a.id.localeCompare(b.id);
+          }
+          break;
+      
+      case 'LENGTH':
+          comparison = a.content.length - b.content.length;
+          break;
+      
+      case 'ALPHABETICAL':
+          comparison = (a.title || a.content).toLowerCase().localeCompare((b.title || b.content).toLowerCase());
+          break;
+    }
 
-class ClipboardRepository {
+    // 3. Apply Direction (ASC/DESC)
+    return sortDirection === 'ASC' ? comparison : -comparison;
+  });
+};
+
+export class ClipboardRepository {
   private items: ClipboardItem[] = [];
   private knownTags: Set<string> = new Set();
+  private tagMetadata: Record<string, TagMetadata> = {};
+  private collections: SmartCollection[] = [];
+  private storage: StorageAdapter;
+  // Cleared when the store was written by a newer app version, so we never overwrite it
+  private writable = true;
+  private listeners: Set<RepositoryListener> = new Set();
+  private queue = new MutationQueue();
+  private operations = new OperationLog();
+  private revisionDepth: number = DEFAULT_REVISION_DEPTH;
+  private clipboardRetention: ClipboardRetentionPolicy = DEFAULT_CLIPBOARD_RETENTION;
+  private duplicateDetection: NearDuplicateOptions = DEFAULT_NEAR_DUPLICATE_OPTIONS;
+  // Built on the first search, then kept current from the change events
+  private searchIndex: FullTextIndex | null = null;
+  // Likewise, built when related items are first asked for
+  private similarityIndex: SimilarityIndex | null = null;
   private initPromise: Promise<void>;
+  /** Encrypts SECURE items at rest once set up; see `setUpVault` */
+  readonly vault: Vault;
 
-  constructor() {
+  constructor(storage: StorageAdapter = createStorageAdapter(), vault: Vault = new Vault()) {
+    this.storage = storage;
+    this.vault = vault;
     this.initPromise = this.loadFromStorage();
   }
 
   private async loadFromStorage() {
     try {
-      const { value: storedItems } = await Preferences.get({ key: STORAGE_KEY });
-      const { value: storedTags } = await Preferences.get({ key: TAGS_KEY });
+      const layout = await this.storage.loadMeta<number>('layout');
+      if (layout === null) {
+        const migrated = await migrateLegacyBlob(this.storage);
+        if (!migrated) await this.seedStorage();
+      }
 
-      if (storedItems) {
-        this.items = JSON.parse(storedItems);
-      } else {
-        this.items = [...INITIAL_CLIPBOARD_DATA];
+      let records = await this.storage.loadItems();
+      let storedTags = await this.storage.loadMeta<string[]>('tags');
+      let tagMetadata = parseTagMetadata(await this.storage.loadMeta('tagMeta'));
+      const schema = (await this.storage.loadMeta<number>('schema')) ?? DEFAULT_SCHEMA_VERSION;
+      if (schema !== CURRENT_SCHEMA_VERSION) {
+        records = migrateItems(records, schema);
+        // The item migrations merge tag spellings; the tag list and metadata must follow
+        tagMetadata = normalizeTagMetadata(tagMetadata);
+        if (storedTags) storedTags = normalizeTags(storedTags);
+        await this.storage.commit({
+          put: records,
+          meta: { schema: CURRENT_SCHEMA_VERSION, tagMeta: tagMetadata, ...(storedTags ? { tags: storedTags } : {}) }
+        });
       }
 
+      const order = (await this.storage.loadMeta<string[]>('order')) || [];
+      const position = new Map(order.map((id, index) => [id, index]));
+      this.items = records.sort((a, b) =>
+        (position.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (position.get(b.id) ?? Number.MAX_SAFE_INTEGER)
+      );
+
       if (storedTags) {
-        this.knownTags = new Set(JSON.parse(storedTags));
+        this.knownTags = new Set(storedTags);
       } else {
         // Rebuild tags from items if not found
         this.items.forEach(item => item.tags.forEach(t => this.knownTags.add(t)));
       }
+      this.tagMetadata = tagMetadata;
+      this.collections = parseCollections(await this.storage.loadMeta('collections'));
+      this.vault.load(parseVaultRecord(await this.storage.loadMeta('vault')));
     } catch (e) {
+      if (e instanceof SchemaVersionError) {
+        console.error(e.message);
+        this.writable = false;
+        this.items = [];
+        return;
+      }
       console.error("Failed to load data", e);
       this.items = [...INITIAL_CLIPBOARD_DATA];
     }
   }
 
-  private async saveToStorage() {
+  private async seedStorage() {
+    const seed = [...INITIAL_CLIPBOARD_DATA];
+    const tags = new Set<string>();
+    seed.forEach(item => item.tags.forEach(t => tags.add(t)));
+
+    await this.storage.commit({
+      put: seed,
+      meta: {
+        order: seed.map(i => i.id),
+        tags: Array.from(tags),
+        layout: STORAGE_LAYOUT_VERSION
+      }
+    });
+  }
+
+  /** Commit everything a mutation touched as one atomic batch */
+  private async saveToStorage(changes: StorageChanges) {
+    if (!this.writable) return;
+    const batch: StorageBatch = {
+      clear: changes.clear,
+      put: changes.put,
+      remove: changes.remove,
+      meta: {},
+      revisions: changes.revisions
+    };
+    if (changes.order) batch.meta!.order = this.items.map(i => i.id);
+    if (changes.tags) batch.meta!.tags = Array.from(this.knownTags);
+    if (changes.tagMetadata) batch.meta!.tagMeta = this.tagMetadata;
+    if (changes.collections) batch.meta!.collections = this.collections;
+    if (changes.vault) batch.meta!.vault = this.vault.getRecord();
+    if (changes.clear) {
+      // Keep the layout marker so an emptied store is not re-seeded on next launch
+      batch.meta!.layout = STORAGE_LAYOUT_VERSION;
+      batch.meta!.schema = CURRENT_SCHEMA_VERSION;
+    }
     try {
-      await Preferences.set({
-        key: STORAGE_KEY,
-        value: JSON.stringify(this.items)
-      });
-      await Preferences.set({
-        key: TAGS_KEY,
-        value: JSON.stringify(Array.from(this.knownTags))
-      });
+      await this.storage.commit(batch);
     } catch (e) {
       console.error("Failed to save data", e);
     }
   }
 
-  async getAllItems(
-    sortOption: SortOption = 'CUSTOM', 
-    sortDirection: SortDirection = 'DESC'
-  ): Promise<ClipboardItem[]> {
-    await this.initPromise;
-    
-    let result = this.items.filter(i => !i.isDeleted);
+  /**
+   * Run a mutation on the shared queue so concurrent callers never interleave
+   * between changing the in-memory state and committing it.
+   * Whatever the mutation changed is recorded in the operation log for undo.
+   */
+  private mutate<T>(task: () => Promise<T>): Promise<T> {
+    return this.queue.run(async () => {
+      await this.initPromise;
+      const before = this.snapshot();
+      const result = await task();
+      this.recordSince(before);
+      return result;
+    });
+  }
 
-    // Sorting Logic
-    result.sort((a, b) => {
-      // 1. Always prioritize Pinned items to the top
-      if (a.isPinned !== b.isPinned) {
-          return a.isPinned ? -1 : 1;
-      }
+  private snapshot(): RepositoryState {
+    // Copies, because some mutations change the arrays, sets and maps in place
+    return {
+      items: [...this.items],
+      tags: new Set(this.knownTags),
+      tagMetadata: { ...this.tagMetadata },
+      collections: [...this.collections]
+    };
+  }
 
-      // 2. Determine comparison value based on criteria
-      let comparison = 0;
-      
-      switch (sortOption) {
-        case 'CUSTOM':
-          comparison = this.items.indexOf(b) - this.items.indexOf(a); // Index based
-          break;
-        
-        case 'DATE':
-            const dateA = new Date(a.timestamp).getTime();
-            const dateB = new Date(b.timestamp).getTime();
-            if (!isNaN(dateA) && !isNaN(dateB)) {
-                comparison = dateA - dateB;
-            } else {
-                comparison = a.id.localeCompare(b.id);
-            }
-            break;
-        
-        case 'LENGTH':
-            comparison = a.content.length - b.content.length;
-            break;
-        
-        case 'ALPHABETICAL':
-            comparison = (a.title || a.content).toLowerCase().localeCompare((b.title || b.content).toLowerCase());
-            break;
+  private recordSince(before: RepositoryState) {
+    const operation = diffStates(before, this.currentState());
+    if (operation) this.operations.record(operation);
+  }
+
+  private currentState(): RepositoryState {
+    return { items: this.items, tags: this.knownTags, tagMetadata: this.tagMetadata, collections: this.collections };
+  }
+
+  /**
+   * Roll back the last `steps` operations (a bulk call counts as one).
+   * Revision histories stay as they are, see OperationLog.
+   * @returns how many operations were actually undone
+   */
+  async undo(steps: number = 1): Promise<number> {
+    return this.replay('undo', steps);
+  }
+
+  /**
+   * Re-apply the last `steps` undone operations.
+   * @returns how many operations were actually redone
+   */
+  async redo(steps: number = 1): Promise<number> {
+    return this.replay('redo', steps);
+  }
+
+  /**
+   * Undo one particular operation, as offered by an Undo toast. Refuses, and
+   * returns false, once anything else was recorded or undone in the meantime.
+   */
+  async undoOperation(id: number): Promise<boolean> {
+    return (await this.replay('undo', 1, id)) > 0;
+  }
+
+  /** Current position of the operation log; pass it to `operationSince` after a mutation */
+  getOperationMark(): number {
+    return this.operations.lastRecordedId;
+  }
+
+  /**
+   * Id of the operation recorded since `mark`, for `undoOperation`. Null when
+   * the mutation changed nothing, or when other operations were recorded too.
+   */
+  operationSince(mark: number): number | null {
+    const id = this.operations.lastRecordedId;
+    return id === mark + 1 && this.operations.undoHeadId === id ? id : null;
+  }
+
+  canUndo(): boolean {
+    return this.operations.undoDepth > 0;
+  }
+
+  canRedo(): boolean {
+    return this.operations.redoDepth > 0;
+  }
+
+  private replay(direction: 'undo' | 'redo', steps: number, expectedHead?: number): Promise<number> {
+    return this.queue.run(async () => {
+      await this.initPromise;
+      if (expectedHead !== undefined && this.operations.undoHeadId !== expectedHead) return 0;
+      const operations = direction === 'undo'
+        ? this.operations.takeUndo(steps)
+        : this.operations.takeRedo(steps);
+      if (operations.length === 0) return 0;
+
+      // Fold every step into one batch; the last image of a record wins
+      const records = new Map<string, ClipboardItem | null>();
+      let orderChanged = false;
+      let tagsChanged = false;
+      let tagMetadataChanged = false;
+      let collectionsChanged = false;
+      operations.forEach(operation => {
+        const applied = applyOperation(this.currentState(), operation, direction);
+        this.items = applied.state.items;
+        this.knownTags = applied.state.tags;
+        this.tagMetadata = applied.state.tagMetadata;
+        this.collections = applied.state.collections;
+        applied.put.forEach(item => records.set(item.id, item));
+        applied.remove.forEach(id => records.set(id, null));
+        orderChanged = orderChanged || applied.orderChanged;
+        tagsChanged = tagsChanged || applied.tagsChanged;
+        tagMetadataChanged = tagMetadataChanged || applied.tagMetadataChanged;
+        collectionsChanged = collectionsChanged || applied.collectionsChanged;
+      });
+
+      const put: ClipboardItem[] = [];
+      const remove: string[] = [];
+      records.forEach((item, id) => (item ? put.push(item) : remove.push(id)));
+      await this.saveToStorage({
+        put,
+        remove,
+        order: orderChanged,
+        tags: tagsChanged,
+        tagMetadata: tagMetadataChanged,
+        collections: collectionsChanged
+      });
+
+      this.emit({ type: 'reset' });
+      this.emitTagsChanged();
+      if (collectionsChanged) this.emit({ type: 'collections-changed', collections: this.collections });
+      return operations.length;
+    });
+  }
+
+  /**
+   * Register a listener for change events.
+   * @returns a function that removes the listener again
+   */
+  subscribe(listener: RepositoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(change: RepositoryChange) {
+    this.searchIndex?.apply(change, this.items);
+    this.similarityIndex?.apply(change, this.items);
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (e) {
+        console.error("Repository listener failed", e);
       }
+    });
+  }
+
+  private emitTagsChanged() {
+    this.emit({ type: 'tags-changed', tags: this.collectTags() });
+  }
+
+  /** Known and used tags, plus the parents nested tags imply */
+  private collectTags(): string[] {
+    const allTags = new Set(this.knownTags);
+    this.items.forEach(item => item.tags.forEach(t => allTags.add(t)));
+    return Array.from(withAncestors(allTags)).sort();
+  }
 
-      // 3. Apply Direction (ASC/DESC)
-      return sortDirection === 'ASC' ? comparison : -comparison;
+  /**
+   * Replace every item matching the predicate with the result of the updater.
+   * @returns the updated items, i.e. the records that need to be rewritten
+   */
+  private updateWhere(
+    predicate: (item: ClipboardItem) => boolean,
+    updater: (item: ClipboardItem) => ClipboardItem
+  ): ClipboardItem[] {
+    const changed: ClipboardItem[] = [];
+    this.items = this.items.map(i => {
+      if (!predicate(i)) return i;
+      const updated = updater(i);
+      changed.push(updated);
+      return updated;
     });
+    return changed;
+  }
 
-    return result;
+  async getAllItems(
+    sortOption: SortOption = 'CUSTOM', 
+    sortDirection: SortDirection = 'DESC'
+  ): Promise<ClipboardItem[]> {
+    await this.initPromise;
+    return sortItems(this.items.filter(i => !i.isDeleted), sortOption, sortDirection);
+  }
+
+  async getItem(id: string): Promise<ClipboardItem | undefined> {
+    await this.initPromise;
+    return this.items.find(i => i.id === id);
   }
 
   async getTrashItems(): Promise<ClipboardItem[]> {
@@ -111,270 +456,788 @@ class ClipboardRepository {
     return this.items.filter(i => !i.isDeleted && i.isFavorite);
   }
 
+  /**
+   * Items in `scope` matching a parsed search query. Text queries come back
+   * ranked by relevance, everything else in repository order.
+   */
+  async searchItems(query: SearchNode | null, scope: SearchScope = 'live'): Promise<ClipboardItem[]> {
+    await this.initPromise;
+    let candidates = this.items;
+    const texts = requiredTexts(query);
+    if (texts.length > 0) {
+      if (!this.searchIndex) {
+        this.searchIndex = new FullTextIndex();
+        this.searchIndex.rebuild(this.items);
+      }
+      const index = this.searchIndex;
+      const ids = texts.map(text => index.candidates(text));
+      candidates = this.items.filter(i => ids.every(set => set.has(i.id)));
+    }
+    const matches = candidates.filter(i => inSearchScope(i, scope) && matchesSearch(i, query));
+    return rankSearchResults(matches, query);
+  }
+
+  /** Live items whose text is most similar to the given item's, most similar first */
+  async getRelatedItems(id: string, limit: number = 5): Promise<ClipboardItem[]> {
+    await this.initPromise;
+    if (!this.similarityIndex) {
+      this.similarityIndex = new SimilarityIndex();
+      this.similarityIndex.rebuild(this.items);
+    }
+    const live = new Map(this.items.filter(i => !i.isDeleted).map(i => [i.id, i]));
+    return this.similarityIndex.similar(id, limit, otherId => live.has(otherId)).map(s => live.get(s.id)!);
+  }
+
+  async getCollections(): Promise<SmartCollection[]> {
+    await this.initPromise;
+    return this.collections;
+  }
+
+  /** Add a smart collection, or replace the one with the same id */
+  async saveCollection(collection: SmartCollection): Promise<void> {
+    return this.mutate(async () => {
+      const exists = this.collections.some(c => c.id === collection.id);
+      this.collections = exists
+        ? this.collections.map(c => (c.id === collection.id ? collection : c))
+        : [...this.collections, collection];
+      await this.saveToStorage({ collections: true });
+      this.emit({ type: 'collections-changed', collections: this.collections });
+    });
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    return this.mutate(async () => {
+      if (!this.collections.some(c => c.id === id)) return;
+      this.collections = this.collections.filter(c => c.id !== id);
+      await this.saveToStorage({ collections: true });
+      this.emit({ type: 'collections-changed', collections: this.collections });
+    });
+  }
+
+  /** Live items carrying the tag or any tag nested below it */
   async getItemsByTag(tag: string): Promise<ClipboardItem[]> {
     await this.initPromise;
-    return this.items.filter(i => !i.isDeleted && i.tags.includes(tag));
+    return this.items.filter(i => !i.isDeleted && i.tags.some(t => isTagWithin(t, tag)));
   }
 
   async getUniqueTags(): Promise<string[]> {
     await this.initPromise;
-    const allTags = new Set(this.knownTags);
-    this.items.forEach(item => item.tags.forEach(t => allTags.add(t)));
-    return Array.from(allTags).sort();
+    return this.collectTags();
   }
 
-  async addNewTag(tag: string): Promise<void> {
+  async getTagMetadata(): Promise<Record<string, TagMetadata>> {
     await this.initPromise;
-    this.knownTags.add(tag);
-    await this.saveToStorage();
+    return { ...this.tagMetadata };
+  }
+
+  /** Set or (with null or only empty fields) clear the color, icon, description and sort order of a tag */
+  async setTagMetadata(tag: string, metadata: TagMetadata | null): Promise<void> {
+    return this.mutate(async () => {
+      const cleaned = cleanTagMetadata(metadata);
+      const { [tag]: _previous, ...rest } = this.tagMetadata;
+      this.tagMetadata = cleaned ? { ...rest, [tag]: cleaned } : rest;
+      await this.saveToStorage({ tagMetadata: true });
+      this.emitTagsChanged();
+    });
+  }
+
+  /**
+   * Add a tag to the tag list, in its normalized spelling.
+   * @returns the tag as stored, or null if nothing valid was left of it
+   */
+  async addNewTag(tag: string): Promise<string | null> {
+    return this.mutate(async () => {
+      const normalized = normalizeTag(tag);
+      if (!normalized) return null;
+      this.knownTags.add(normalized);
+      await this.saveToStorage({ tags: true });
+      this.emitTagsChanged();
+      return normalized;
+    });
   }
 
+  /**
+   * Add an item at the top. If the category already holds the same content
+   * (or, for clipboard items, a near-duplicate of it) that item is bumped to
+   * the top instead.
+   */
   async addItem(item: ClipboardItem): Promise<void> {
-    await this.initPromise;
-    const duplicate = this.items.find(
-      i => !i.isDeleted && 
-           i.category === item.category && 
-           i.content === item.content
-    );
-    
-    if (duplicate) return;
+    return this.mutate(async () => {
+      const duplicate = await this.matchDuplicate(item.content, item.category, false);
+      if (duplicate) {
+        await this.bumpItem(duplicate.id);
+        return;
+      }
     
-    this.items = [item, ...this.items];
-    item.tags.forEach(t => this.knownTags.add(t));
-    await this.saveToStorage();
+      item = await this.protect({ ...item, tags: normalizeTags(item.tags) });
+      this.items = [item, ...this.items];
+      item.tags.forEach(t => this.knownTags.add(t));
+      await this.saveToStorage({ put: [item], order: true, tags: true });
+      this.emit({ type: 'added', items: [item] });
+      if (item.tags.length > 0) this.emitTagsChanged();
+      // Same operation as the insert, so undoing the add also brings back what it pushed out
+      if (item.category === 'clipboard') await this.applyClipboardRetention(new Date());
+    });
   }
 
-  async updateItem(id: string, updates: Partial<ClipboardItem>): Promise<void> {
+  /**
+   * Same content within a category; clipboard items also match
+   * near-duplicates under the configured detection options. Sealed items
+   * only hold their mask, so they match the exact text by its fingerprint.
+   */
+  private async matchDuplicate(content: string, category: ClipboardItem['category'], deleted: boolean) {
+    const candidates = this.items.filter(i => !!i.isDeleted === deleted && i.category === category);
+    const plain = candidates.filter(i => !i.secret);
+    const match = category === 'clipboard'
+      ? findNearDuplicate(content, plain, this.duplicateDetection)
+      : plain.find(i => i.content === content);
+    if (match) return match;
+
+    const sealed = candidates.filter(i => i.secret?.fingerprint);
+    if (sealed.length === 0) return undefined;
+    const fingerprint = await this.vault.fingerprint(content);
+    return sealed.find(i => i.secret!.fingerprint === fingerprint);
+  }
+
+  private isNewestInCategory(item: ClipboardItem): boolean {
+    const index = this.items.findIndex(i => i.id === item.id);
+    return !this.items.slice(0, index).some(i => !i.isDeleted && i.category === item.category);
+  }
+
+  /** The item `addItem` would treat this content as a duplicate of, falling back to matches in Trash */
+  async findDuplicate(content: string, category: ClipboardItem['category']): Promise<DuplicateMatch | undefined> {
     await this.initPromise;
-    this.items = this.items.map(i => 
-      i.id === id ? { ...i, ...updates } : i
-    );
+    const item = await this.matchDuplicate(content, category, false) ?? await this.matchDuplicate(content, category, true);
+    if (!item) return undefined;
+    return { item, isNewest: !item.isDeleted && this.isNewestInCategory(item) };
+  }
+
+  /** Move an item to the top and refresh its timestamp, as if it was just captured */
+  private async bumpItem(id: string) {
+    const index = this.items.findIndex(i => i.id === id);
+    // Already the newest of its kind: nothing would visibly change, so keep its timestamp
+    if (index === -1 || this.isNewestInCategory(this.items[index])) return;
+    const item = { ...this.items[index], timestamp: new Date().toISOString() };
+    this.items = [item, ...this.items.slice(0, index), ...this.items.slice(index + 1)];
+    await this.saveToStorage({ put: [item], order: true });
+    this.emit({ type: 'updated', items: [item] });
+    this.emit({ type: 'reordered' });
+  }
+
+  /** How loosely new clipboard items are matched against existing ones */
+  setDuplicateDetection(options: NearDuplicateOptions) {
+    this.duplicateDetection = options;
+  }
+
+  /**
+   * Groups of live items that are near-duplicates of each other, newest
+   * first within each group, for bulk cleanup.
+   */
+  async findDuplicateGroups(options: NearDuplicateOptions = this.duplicateDetection): Promise<ClipboardItem[][]> {
+    await this.initPromise;
+    return groupNearDuplicates(this.items.filter(i => !i.isDeleted), options);
+  }
+
+  async updateItem(id: string, updates: Partial<ClipboardItem>): Promise<void> {
+    return this.mutate(async () => {
+      await this.applyUpdate(id, updates);
+    });
+  }
+
+  /**
+   * Update one item. If the text, title or tags change, the version being
+   * replaced is archived as a revision in the same storage batch. Sealed
+   * items keep no revisions, since those would hold the text unencrypted.
+   * @throws VaultLockedError if a sealed item stops being SECURE while the vault is locked
+   */
+  private async applyUpdate(id: string, updates: Partial<ClipboardItem>) {
+    const current = this.items.find(i => i.id === id);
+    if (!current) return;
+    if (updates.tags) updates = { ...updates, tags: normalizeTags(updates.tags) };
+    // New text replaces the sealed one rather than being masked by it
+    const base = updates.content !== undefined && current.secret ? { ...current, secret: undefined } : current;
+    const next = await this.protect({ ...base, ...updates });
+
+    let revisions: Record<string, ItemRevision[] | null> | undefined;
+    if (next.secret) {
+      if (!current.secret) revisions = { [id]: null };
+    } else if (!current.secret && this.revisionDepth > 0 && changesRevisedFields(current, updates)) {
+      const history = await this.storage.loadRevisions(id);
+      revisions = { [id]: pushRevision(history, createRevision(current), this.revisionDepth) };
+    }
+
+    const changed = this.updateWhere(i => i.id === id, () => next);
     if (updates.tags) {
         updates.tags.forEach(t => this.knownTags.add(t));
     }
-    await this.saveToStorage();
+    await this.saveToStorage({ put: changed, tags: !!updates.tags, revisions });
+    this.emit({ type: 'updated', items: changed });
+    if (updates.tags) this.emitTagsChanged();
+  }
+
+  /**
+   * Seal a SECURE item's text once a vault exists, or bring back the text of
+   * a sealed item that is no longer SECURE. Items that are not SECURE lose
+   * their masked display text. Anything else is returned as is.
+   * @throws VaultLockedError when unsealing while the vault is locked
+   */
+  private async protect(item: ClipboardItem, vault: Vault = this.vault): Promise<ClipboardItem> {
+    if (item.type !== ClipboardType.SECURE) {
+      const plain = item.secret ? await openItem(item, vault) : item;
+      return plain.displayContent === undefined ? plain : { ...plain, displayContent: undefined };
+    }
+    if (item.secret || !vault.isSetUp()) return item;
+
+    const mask = item.displayContent ?? SEALED_MASK;
+    const secret = await vault.seal({ content: item.content, htmlContent: item.htmlContent });
+    return { ...item, content: mask, htmlContent: undefined, displayContent: mask, secret };
+  }
+
+  /**
+   * The item with its sealed text decrypted, for showing or copying it.
+   * Unsealed items come back unchanged.
+   * @throws VaultLockedError if the item is sealed and the vault is locked
+   * @throws VaultMismatchError if the item was sealed by another vault
+   */
+  async revealItem(item: ClipboardItem): Promise<ClipboardItem> {
+    return openItem(item, this.vault);
+  }
+
+  /**
+   * How many revisions to keep per item; 0 stops recording new ones.
+   * Longer existing histories are trimmed on the item's next edit.
+   */
+  setRevisionDepth(depth: number) {
+    this.revisionDepth = Math.max(0, Math.floor(depth));
+  }
+
+  /** Earlier versions of an item, newest first */
+  async getRevisions(id: string): Promise<ItemRevision[]> {
+    // Queued so a read never misses a revision an in-flight edit is writing
+    return this.queue.run(async () => {
+      await this.initPromise;
+      return this.storage.loadRevisions(id);
+    });
+  }
+
+  /**
+   * Bring back an earlier version of an item. The version it replaces is
+   * archived in turn, so a restore can itself be reverted.
+   * @returns false if the item or revision no longer exists
+   */
+  async restoreRevision(id: string, revisionId: string): Promise<boolean> {
+    return this.mutate(async () => {
+      if (!this.items.some(i => i.id === id)) return false;
+      const revision = (await this.storage.loadRevisions(id)).find(r => r.id === revisionId);
+      if (!revision) return false;
+      await this.applyUpdate(id, { ...revisionUpdates(revision), timestamp: new Date().toISOString() });
+      return true;
+    });
   }
 
   async deleteItem(id: string): Promise<void> {
-    await this.initPromise;
-    this.items = this.items.map(i => 
-      i.id === id ? { ...i, isDeleted: true } : i
-    );
-    await this.saveToStorage();
+    return this.mutate(async () => {
+      const deletedAt = new Date().toISOString();
+      const changed = this.updateWhere(i => i.id === id, i => ({ ...i, isDeleted: true, deletedAt }));
+      await this.saveToStorage({ put: changed });
+      this.emit({ type: 'deleted', ids: changed.map(i => i.id), permanent: false, items: changed });
+    });
   }
 
   async softDeleteItems(ids: string[]): Promise<void> {
-    await this.initPromise;
-    this.items = this.items.map(i => 
-      ids.includes(i.id) ? { ...i, isDeleted: true } : i
-    );
-    await this.saveToStorage();
+    return this.mutate(async () => {
+      await this.moveToTrash(ids);
+    });
+  }
+
+  private async moveToTrash(ids: string[]) {
+    const deletedAt = new Date().toISOString();
+    const changed = this.updateWhere(i => ids.includes(i.id), i => ({ ...i, isDeleted: true, deletedAt }));
+    await this.saveToStorage({ put: changed });
+    this.emit({ type: 'deleted', ids: changed.map(i => i.id), permanent: false, items: changed });
   }
 
   async unfavoriteItems(ids: string[]): Promise<void> {
-    await this.initPromise;
-    this.items = this.items.map(i => 
-      ids.includes(i.id) ? { ...i, isFavorite: false } : i
-    );
-    await this.saveToStorage();
+    return this.mutate(async () => {
+      const changed = this.updateWhere(i => ids.includes(i.id), i => ({ ...i, isFavorite: false }));
+      await this.saveToStorage({ put: changed });
+      this.emit({ type: 'updated', items: changed });
+    });
   }
 
   async favoriteItems(ids: string[]): Promise<void> {
-    await this.initPromise;
-    this.items = this.items.map(i => 
-      ids.includes(i.id) ? { ...i, isFavorite: true } : i
-    );
-    await this.saveToStorage();
+    return this.mutate(async () => {
+      const changed = this.updateWhere(i => ids.includes(i.id), i => ({ ...i, isFavorite: true }));
+      await this.saveToStorage({ put: changed });
+      this.emit({ type: 'updated', items: changed });
+    });
   }
 
   async restoreItem(id: string): Promise<void> {
-    await this.initPromise;
-    this.items = this.items.map(i => 
-      i.id === id ? { ...i, isDeleted: false } : i
-    );
-    await this.saveToStorage();
+    return this.mutate(async () => {
+      const changed = this.updateWhere(i => i.id === id, i => ({ ...i, isDeleted: false, deletedAt: undefined }));
+      await this.saveToStorage({ put: changed });
+      this.emit({ type: 'restored', items: changed });
+    });
   }
 
   async restoreItems(ids: string[]): Promise<void> {
-    await this.initPromise;
-    this.items = this.items.map(i => 
-      ids.includes(i.id) ? { ...i, isDeleted: false } : i
-    );
-    await this.saveToStorage();
+    return this.mutate(async () => {
+      const changed = this.updateWhere(i => ids.includes(i.id), i => ({ ...i, isDeleted: false, deletedAt: undefined }));
+      await this.saveToStorage({ put: changed });
+      this.emit({ type: 'restored', items: changed });
+    });
   }
 
   async deleteForever(id: string): Promise<void> {
-    await this.initPromise;
-    this.items = this.items.filter(i => i.id !== id);
-    await this.saveToStorage();
+    return this.deleteItemsForever([id]);
   }
 
   async deleteItemsForever(ids: string[]): Promise<void> {
-    await this.initPromise;
+    return this.mutate(async () => {
+      await this.removeForever(ids);
+    });
+  }
+
+  /**
+   * Permanently delete trashed items that outlived the retention period.
+   * @returns the number of purged items
+   */
+  async purgeExpiredTrash(retentionDays: TrashRetentionDays, now: Date = new Date()): Promise<number> {
+    return this.mutate(async () => {
+      const expired = this.items.filter(i => isTrashExpired(i, retentionDays, now));
+      await this.removeForever(expired.map(i => i.id));
+      return expired.length;
+    });
+  }
+
+  /** Limits applied to the clipboard history whenever a clipboard item is added */
+  setClipboardRetention(policy: ClipboardRetentionPolicy) {
+    this.clipboardRetention = policy;
+  }
+
+  /**
+   * Trash or delete clipboard items over the retention limits, e.g. after
+   * the limits were tightened.
+   * @returns the number of items removed from the history
+   */
+  async enforceClipboardRetention(now: Date = new Date()): Promise<number> {
+    return this.mutate(async () => this.applyClipboardRetention(now));
+  }
+
+  private async applyClipboardRetention(now: Date): Promise<number> {
+    const overflow = selectOverflow(this.items, this.clipboardRetention, now).map(i => i.id);
+    if (overflow.length === 0) return 0;
+    if (this.clipboardRetention.overflow === 'DELETE') await this.removeForever(overflow);
+    else await this.moveToTrash(overflow);
+    return overflow.length;
+  }
+
+  private async removeForever(ids: string[]) {
+    const removed = this.items.filter(i => ids.includes(i.id));
+    if (removed.length === 0) return;
     this.items = this.items.filter(i => !ids.includes(i.id));
-    await this.saveToStorage();
+    const revisions = Object.fromEntries(removed.map(i => [i.id, null]));
+    await this.saveToStorage({ remove: removed.map(i => i.id), order: true, revisions });
+    this.emit({ type: 'deleted', ids: removed.map(i => i.id), permanent: true, items: [] });
   }
 
   async pinItem(id: string, isPinned: boolean): Promise<void> {
-    await this.initPromise;
-    const index = this.items.findIndex(i => i.id === id);
-    if (index !== -1) {
-        const item = { ...this.items[index], isPinned };
-        this.items.splice(index, 1);
-        this.items.unshift(item);
-        await this.saveToStorage();
-    }
+    return this.mutate(async () => {
+      const index = this.items.findIndex(i => i.id === id);
+      if (index !== -1) {
+          const item = { ...this.items[index], isPinned };
+          this.items.splice(index, 1);
+          this.items.unshift(item);
+          await this.saveToStorage({ put: [item], order: true });
+          this.emit({ type: 'updated', items: [item] });
+          this.emit({ type: 'reordered' });
+      }
+    });
   }
 
   async toggleFavorite(id: string): Promise<void> {
-    await this.initPromise;
-    this.items = this.items.map(i => 
-      i.id === id ? { ...i, isFavorite: !i.isFavorite } : i
-    );
-    await this.saveToStorage();
+    return this.mutate(async () => {
+      const changed = this.updateWhere(i => i.id === id, i => ({ ...i, isFavorite: !i.isFavorite }));
+      await this.saveToStorage({ put: changed });
+      this.emit({ type: 'updated', items: changed });
+    });
   }
 
   async reorderItem(draggedId: string, targetId: string): Promise<void> {
-    await this.initPromise;
-    const draggedIndex = this.items.findIndex(i => i.id === draggedId);
-    const targetIndex = this.items.findIndex(i => i.id === targetId);
+    return this.mutate(async () => {
+      const draggedIndex = this.items.findIndex(i => i.id === draggedId);
+      const targetIndex = this.items.findIndex(i => i.id === targetId);
     
-    if (draggedIndex === -1 || targetIndex === -1) return;
+      if (draggedIndex === -1 || targetIndex === -1) return;
 
-    const newItems = [...this.items];
-    const [draggedItem] = newItems.splice(draggedIndex, 1);
-    newItems.splice(targetIndex, 0, draggedItem);
+      const newItems = [...this.items];
+      const [draggedItem] = newItems.splice(draggedIndex, 1);
+      newItems.splice(targetIndex, 0, draggedItem);
     
-    this.items = newItems;
-    await this.saveToStorage();
+      this.items = newItems;
+      await this.saveToStorage({ order: true });
+      this.emit({ type: 'reordered' });
+    });
   }
 
   async mergeItems(ids: string[]): Promise<void> {
-    await this.initPromise;
-    const itemsToMerge = this.items.filter(i => ids.includes(i.id));
-    if (itemsToMerge.length < 2) return;
+    return this.mutate(async () => {
+      const itemsToMerge = this.items.filter(i => ids.includes(i.id));
+      if (itemsToMerge.length < 2) return;
 
-    itemsToMerge.sort((a, b) => this.items.indexOf(a) - this.items.indexOf(b));
+      itemsToMerge.sort((a, b) => this.items.indexOf(a) - this.items.indexOf(b));
 
-    const mergedContent = itemsToMerge.map(i => i.content).join('\n\n');
-    const mergedCategory = itemsToMerge[0].category;
+      const contents = await Promise.all(itemsToMerge.map(async i => (await this.revealItem(i)).content));
+      const mergedContent = contents.join('\n\n');
+      const mergedCategory = itemsToMerge[0].category;
     
-    const newItem: ClipboardItem = {
-      id: Date.now().toString(),
-      content: mergedContent,
-      type: ClipboardType.TEXT,
-      category: mergedCategory,
-      timestamp: new Date().toLocaleString(),
-      tags: ['#merged'],
-      isPinned: false, 
-      isFavorite: false,
-      isDeleted: false
-    };
+      const newItem: ClipboardItem = await this.protect({
+        id: Date.now().toString(),
+        content: mergedContent,
+        // Anything merged with a secret is a secret too
+        type: itemsToMerge.some(i => i.type === ClipboardType.SECURE) ? ClipboardType.SECURE : ClipboardType.TEXT,
+        category: mergedCategory,
+        timestamp: new Date().toISOString(),
+        tags: ['#merged'],
+        isPinned: false, 
+        isFavorite: false,
+        isDeleted: false
+      });
     
-    this.knownTags.add('#merged');
-    this.items = [newItem, ...this.items];
-    await this.saveToStorage();
+      this.knownTags.add('#merged');
+      this.items = [newItem, ...this.items];
+      await this.saveToStorage({ put: [newItem], order: true, tags: true });
+      this.emit({ type: 'added', items: [newItem] });
+      this.emitTagsChanged();
+    });
   }
 
-  async addTagsToItems(ids: string[], newTags: string[]): Promise<void> {
-    await this.initPromise;
-    newTags.forEach(t => this.knownTags.add(t));
-    this.items = this.items.map(i => {
-      if (ids.includes(i.id)) {
+  async addTagsToItems(ids: string[], tags: string[]): Promise<void> {
+    return this.mutate(async () => {
+      const newTags = normalizeTags(tags);
+      newTags.forEach(t => this.knownTags.add(t));
+      const changed = this.updateWhere(i => ids.includes(i.id), i => {
         const updatedTags = Array.from(new Set([...i.tags, ...newTags]));
         return { ...i, tags: updatedTags };
-      }
-      return i;
+      });
+      await this.saveToStorage({ put: changed, tags: true });
+      this.emit({ type: 'updated', items: changed });
+      this.emitTagsChanged();
     });
-    await this.saveToStorage();
   }
 
-  async replaceTagsForItems(ids: string[], newTags: string[]): Promise<void> {
-    await this.initPromise;
-    newTags.forEach(t => this.knownTags.add(t));
-    this.items = this.items.map(i => {
-      if (ids.includes(i.id)) {
-        return { ...i, tags: newTags };
+  async replaceTagsForItems(ids: string[], tags: string[]): Promise<void> {
+    return this.mutate(async () => {
+      const newTags = normalizeTags(tags);
+      newTags.forEach(t => this.knownTags.add(t));
+      const changed = this.updateWhere(i => ids.includes(i.id), i => ({ ...i, tags: newTags }));
+      await this.saveToStorage({ put: changed, tags: true });
+      this.emit({ type: 'updated', items: changed });
+      this.emitTagsChanged();
+    });
+  }
+
+  /**
+   * Run auto-tag rules over the items already stored (trash excluded), as
+   * they would have applied on capture.
+   * @returns how many items the rules changed
+   */
+  async applyAutoTagRules(rules: AutoTagRule[]): Promise<number> {
+    return this.mutate(async () => {
+      const updates = new Map<string, ClipboardItem>();
+      for (const item of this.items) {
+        if (item.isDeleted) continue;
+        const updated = applyAutoTagRules(item, rules);
+        // A rule may have marked it secure
+        if (updated !== item) updates.set(item.id, await this.protect(updated));
       }
-      return i;
+      if (updates.size === 0) return 0;
+
+      const changed = this.updateWhere(i => updates.has(i.id), i => updates.get(i.id)!);
+      changed.forEach(item => item.tags.forEach(t => this.knownTags.add(t)));
+      await this.saveToStorage({ put: changed, tags: true });
+      this.emit({ type: 'updated', items: changed });
+      this.emitTagsChanged();
+      return changed.length;
     });
-    await this.saveToStorage();
   }
 
+  /** Remove tags, and every tag nested below them, from the tag list and all items */
   async removeTags(tagsToRemove: string[]): Promise<void> {
-    await this.initPromise;
-    tagsToRemove.forEach(t => this.knownTags.delete(t));
-    
-    this.items = this.items.map(item => ({
-      ...item,
-      tags: item.tags.filter(t => !tagsToRemove.includes(t))
-    }));
-    await this.saveToStorage();
+    return this.mutate(async () => {
+      const removed = (tag: string) => tagsToRemove.some(root => isTagWithin(tag, root));
+      this.knownTags = new Set(Array.from(this.knownTags).filter(t => !removed(t)));
+      this.tagMetadata = Object.fromEntries(Object.entries(this.tagMetadata).filter(([t]) => !removed(t)));
+
+      const changed = this.updateWhere(
+        item => item.tags.some(removed),
+        item => ({ ...item, tags: item.tags.filter(t => !removed(t)) })
+      );
+      await this.saveToStorage({ put: changed, tags: true, tagMetadata: true });
+      this.emit({ type: 'updated', items: changed });
+      this.emitTagsChanged();
+    });
   }
 
+  /**
+   * Merge tags into one. Tags nested below a merged tag move along, so
+   * merging `#work` into `#job` turns `#work/clientA` into `#job/clientA`.
+   */
   async mergeTags(tagsToMerge: string[], newTagName: string): Promise<void> {
+    return this.mutate(async () => {
+      const target = normalizeTag(newTagName);
+      if (target) await this.moveTags(tagsToMerge, target);
+    });
+  }
+
+  /**
+   * Rename a tag on every item in one step, taking nested tags and metadata
+   * along. Renaming to an existing tag merges the two.
+   */
+  async renameTag(tag: string, newName: string): Promise<void> {
+    return this.mutate(async () => {
+      const target = normalizeTag(newName);
+      if (!target || target === tag) return;
+      await this.moveTags([tag], target);
+    });
+  }
+
+  private async moveTags(sources: string[], target: string) {
+    const move = (tag: string) => sources.reduce((t, source) => moveTag(t, source, target), tag);
+    const moved = (tag: string) => sources.some(source => isTagWithin(tag, source));
+
+    this.knownTags = new Set([...Array.from(this.knownTags).map(move), target]);
+    // Metadata follows a moved tag unless its destination already has some
+    const metadata: Record<string, TagMetadata> = {};
+    Object.entries(this.tagMetadata).forEach(([tag, value]) => {
+      if (!moved(tag)) metadata[tag] = value;
+    });
+    Object.entries(this.tagMetadata).forEach(([tag, value]) => {
+      if (moved(tag) && !metadata[move(tag)]) metadata[move(tag)] = value;
+    });
+    this.tagMetadata = metadata;
+
+    const changed = this.updateWhere(
+      item => item.tags.some(moved),
+      item => ({ ...item, tags: Array.from(new Set(item.tags.map(move))) })
+    );
+    await this.saveToStorage({ put: changed, tags: true, tagMetadata: true });
+    this.emit({ type: 'updated', items: changed });
+    this.emitTagsChanged();
+  }
+
+  /** Item count and last use of every tag */
+  async getTagStats(): Promise<TagStats[]> {
+    await this.initPromise;
+    return computeTagStats(this.collectTags(), this.items);
+  }
+
+  /** Tags worth adding to the given items, learned from how the other live items are tagged */
+  async getTagSuggestions(ids: string[]): Promise<TagSuggestions> {
     await this.initPromise;
-    this.knownTags.add(newTagName);
-    tagsToMerge.forEach(t => this.knownTags.delete(t));
+    const targets = this.items.filter(i => ids.includes(i.id));
+    const corpus = this.items.filter(i => !i.isDeleted && !ids.includes(i.id));
+    return suggestTags(targets, corpus, this.collectTags());
+  }
+
+  /**
+   * Forget tags that no item (not even one in the trash) carries, directly
+   * or through a nested tag.
+   * @returns the removed tags
+   */
+  async removeUnusedTags(): Promise<string[]> {
+    return this.mutate(async () => {
+      const used = withAncestors(this.items.flatMap(item => item.tags));
+      const unused = Array.from(this.knownTags).filter(tag => !used.has(tag));
+      if (unused.length === 0) return [];
+
+      unused.forEach(tag => {
+        this.knownTags.delete(tag);
+        delete this.tagMetadata[tag];
+      });
+      await this.saveToStorage({ tags: true, tagMetadata: true });
+      this.emitTagsChanged();
+      return unused;
+    });
+  }
+
+  /**
+   * Create the vault and seal every SECURE item with it, dropping their
+   * revisions. Not undoable, and the undo history is cleared, since rolling
+   * back would write the plain text again.
+   * @returns false if a vault already exists
+   */
+  async setUpVault(pin: string): Promise<boolean> {
+    return this.queue.run(async () => {
+      await this.initPromise;
+      if (this.vault.isSetUp()) return false;
+      await this.vault.create(pin);
+
+      const sealed = new Map<string, ClipboardItem>();
+      for (const item of this.items) {
+        const protectedItem = await this.protect(item);
+        if (protectedItem !== item) sealed.set(item.id, protectedItem);
+      }
+      const changed = this.updateWhere(i => sealed.has(i.id), i => sealed.get(i.id)!);
+      await this.saveToStorage({
+        put: changed,
+        vault: true,
+        revisions: Object.fromEntries(changed.map(i => [i.id, null]))
+      });
+      this.operations.clear();
+      if (changed.length > 0) this.emit({ type: 'updated', items: changed });
+      return true;
+    });
+  }
 
-    this.items = this.items.map(item => {
-        const hasTagToMerge = item.tags.some(t => tagsToMerge.includes(t));
-        if (hasTagToMerge) {
-            const filteredTags = item.tags.filter(t => !tagsToMerge.includes(t));
-            const updatedTags = Array.from(new Set([...filteredTags, newTagName]));
-            return { ...item, tags: updatedTags };
-        }
-        return item;
+  /** @throws VaultPinError if the current PIN is wrong */
+  async changeVaultPin(currentPin: string, newPin: string): Promise<void> {
+    return this.queue.run(async () => {
+      await this.initPromise;
+      await this.vault.changePin(currentPin, newPin);
+      await this.saveToStorage({ vault: true });
     });
-    await this.saveToStorage();
   }
 
+  /**
+   * Delete everything. This can be undone, unless there was a vault: the
+   * vault itself is not part of the undo history, so undo would bring back
+   * sealed items that nothing can open.
+   */
   async clearAllData(): Promise<void> {
+    return this.queue.run(async () => {
+      await this.initPromise;
+      const hadVault = this.vault.isSetUp();
+      const before = this.snapshot();
+      await this.reset();
+      if (hadVault) this.operations.clear();
+      else this.recordSince(before);
+    });
+  }
+
+  /**
+   * Delete everything, the vault included, for good. Used when the app lock
+   * gives up on too many wrong PINs, so nothing is left for undo to restore.
+   */
+  async wipeAllData(): Promise<void> {
+    return this.queue.run(async () => {
+      await this.initPromise;
+      await this.reset();
+      this.operations.clear();
+    });
+  }
+
+  private async reset() {
     this.items = [];
     this.knownTags = new Set();
-    await this.saveToStorage();
+    this.tagMetadata = {};
+    this.collections = [];
+    this.vault.load(null);
+    // An explicit wipe replaces whatever a newer version left behind
+    this.writable = true;
+    await this.saveToStorage({ clear: true, order: true, tags: true });
+    this.emit({ type: 'reset' });
+    this.emit({ type: 'collections-changed', collections: this.collections });
   }
 
-  async exportData(): Promise<string> {
+  /** A backup of everything; encrypted when a passphrase is given */
+  async exportData(passphrase?: string): Promise<string> {
     await this.initPromise;
     const data = {
-        version: 1,
+        version: CURRENT_SCHEMA_VERSION,
         timestamp: new Date().toISOString(),
         items: this.items,
-        tags: Array.from(this.knownTags)
+        tags: Array.from(this.knownTags),
+        tagMetadata: this.tagMetadata,
+        collections: this.collections,
+        // Sealed items stay sealed; the record lets the backup be opened with the same PIN
+        vault: this.vault.getRecord()
     };
-    return JSON.stringify(data, null, 2);
+    const backup = JSON.stringify(data, null, 2);
+    return passphrase ? encryptBackup(backup, passphrase) : backup;
   }
 
-  async importData(jsonData: string): Promise<boolean> {
-    try {
-        await this.initPromise;
-        const data = JSON.parse(jsonData);
-        if (!data.items || !Array.isArray(data.items)) return false;
+  /**
+   * Merge a backup produced by exportData into the current data.
+   * Older payloads are upgraded through the schema migrations first.
+   * @throws SchemaVersionError if the backup comes from a newer app version
+   * @throws BackupPassphraseError if the backup is encrypted and the passphrase is missing or wrong
+   * @throws BackupFormatError if the backup is encrypted but its header is corrupted
+   * @throws VaultMismatchError if the backup has items sealed by a vault other than ours
+   */
+  async importData(jsonData: string, passphrase?: string): Promise<boolean> {
+    // Decrypted up front, so a wrong passphrase never holds up the queue
+    const backup = await openBackup(jsonData, passphrase);
+    return this.mutate(async () => {
+      try {
+          const data = JSON.parse(backup);
+          if (!data.items || !Array.isArray(data.items)) return false;
+          // Backups can come from anywhere, so tags are normalized whatever their version
+          const importedItems = migrateItems(data.items, data.version ?? DEFAULT_SCHEMA_VERSION)
+              .map(item => ({ ...item, tags: normalizeTags(Array.isArray(item.tags) ? item.tags : []) }));
 
-        if (data.tags && Array.isArray(data.tags)) {
-            data.tags.forEach((t: string) => this.knownTags.add(t));
-        }
+          // Without a vault of our own, adopt the backup's so its sealed items can be opened
+          const importedVault = parseVaultRecord(data.vault);
+          const adoptVault = !this.vault.isSetUp() && !!importedVault;
+          // Sealed items only open with the vault they were sealed for, and
+          // re-sealing would need the other vault's PIN, so refuse them up front
+          const openingKeyId = (adoptVault ? importedVault : this.vault.getRecord())?.keyId;
+          if (importedItems.some(item => item.secret && item.secret.keyId !== openingKeyId)) {
+              throw new VaultMismatchError('This backup has secure items sealed by another vault');
+          }
 
-        const existingIds = new Set(this.items.map(i => i.id));
-        
-        data.items.forEach((item: ClipboardItem) => {
-            if (existingIds.has(item.id)) {
-                this.items = this.items.map(i => i.id === item.id ? item : i);
-            } else {
-                this.items.unshift(item);
-            }
-            if (item.tags) {
-                item.tags.forEach((t: string) => this.knownTags.add(t));
-            }
-        });
+          // Sealing can still fail (e.g. unsealing while locked), so it runs
+          // against the vault the items will end up in before anything is applied
+          const sealingVault = adoptVault ? new Vault() : this.vault;
+          if (adoptVault) sealingVault.load(importedVault);
+          for (let i = 0; i < importedItems.length; i++) {
+              importedItems[i] = await this.protect(importedItems[i], sealingVault);
+          }
+
+          const knownTags = new Set(this.knownTags);
+          if (data.tags && Array.isArray(data.tags)) {
+              normalizeTags(data.tags).forEach(t => knownTags.add(t));
+          }
+          importedItems.forEach(item => item.tags.forEach(t => knownTags.add(t)));
+
+          const importedMetadata = normalizeTagMetadata(parseTagMetadata(data.tagMetadata));
+          const importedCollections = parseCollections(data.collections);
+          const collectionIds = new Set(importedCollections.map(c => c.id));
+
+          this.knownTags = knownTags;
+          this.tagMetadata = { ...this.tagMetadata, ...importedMetadata };
+          this.collections = [...this.collections.filter(c => !collectionIds.has(c.id)), ...importedCollections];
+          if (adoptVault) this.vault.load(importedVault);
+
+          const existingIds = new Set(this.items.map(i => i.id));
+          importedItems.forEach(item => {
+              if (existingIds.has(item.id)) {
+                  this.items = this.items.map(i => i.id === item.id ? item : i);
+              } else {
+                  this.items.unshift(item);
+              }
+          });
         
-        await this.saveToStorage();
-        return true;
-    } catch (e) {
-        console.error("Import failed", e);
-        return false;
-    }
+          await this.saveToStorage({
+              put: importedItems,
+              order: true,
+              tags: true,
+              tagMetadata: Object.keys(importedMetadata).length > 0,
+              collections: importedCollections.length > 0,
+              vault: adoptVault
+          });
+          this.emit({ type: 'reset' });
+          if (importedCollections.length > 0) {
+              this.emit({ type: 'collections-changed', collections: this.collections });
+          }
+          return true;
+      } catch (e) {
+          if (e instanceof SchemaVersionError || e instanceof VaultMismatchError) throw e;
+          console.error("Import failed", e);
+          return false;
+      }
+    });
   }
 }
 
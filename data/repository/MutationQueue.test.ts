@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { MutationQueue } from './MutationQueue';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('MutationQueue', () => {
+  it('should run tasks one at a time in enqueue order', async () => {
+    const queue = new MutationQueue();
+    const log: string[] = [];
+
+    await Promise.all([
+      queue.run(async () => { log.push('a:start'); await delay(10); log.push('a:end'); }),
+      queue.run(async () => { log.push('b:start'); await delay(1); log.push('b:end'); }),
+      queue.run(async () => { log.push('c'); })
+    ]);
+
+    expect(log).toEqual(['a:start', 'a:end', 'b:start', 'b:end', 'c']);
+  });
+
+  it('should pass through results', async () => {
+    const queue = new MutationQueue();
+    expect(await queue.run(async () => 42)).toBe(42);
+  });
+
+  it('should keep running after a task fails', async () => {
+    const queue = new MutationQueue();
+    const failing = queue.run(async () => { throw new Error('boom'); });
+    const next = queue.run(async () => 'ok');
+
+    await expect(failing).rejects.toThrow('boom');
+    expect(await next).toBe('ok');
+  });
+
+  it('should report idle once queued work has settled', async () => {
+    const queue = new MutationQueue();
+    let done = false;
+    queue.run(async () => { await delay(5); done = true; });
+
+    await queue.idle();
+    expect(done).toBe(true);
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Mutation Queue
+ * Runs async tasks strictly one after another in the order they were
+ * enqueued. A failing task rejects its own promise but does not stall the
+ * tasks queued behind it.
+ */
+export class MutationQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Resolves once every task enqueued so far has settled */
+  idle(): Promise<void> {
+    return this.tail.then(() => undefined);
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardItem } from '../../types';
+import { SmartCollection } from '../collections/SmartCollection';
+import { OperationLog, applyOperation, diffStates, MAX_UNDO_STEPS, RepositoryState } from './OperationLog';
+import { makeItem } from '../../__tests__/fixtures';
+
+const state = (items: ClipboardItem[], tags: string[] = [], extra: Partial<RepositoryState> = {}): RepositoryState => ({
+  items,
+  tags: new Set(tags),
+  tagMetadata: {},
+  collections: [],
+  ...extra
+});
+
+describe('OperationLog', () => {
+  const a = makeItem('a');
+  const b = makeItem('b');
+
+  describe('diffStates', () => {
+    it('should return null when nothing changed', () => {
+      expect(diffStates(state([a, b], ['#x']), state([a, b], ['#x']))).toBeNull();
+    });
+
+    it('should capture only the touched items', () => {
+      const b2 = { ...b, isDeleted: true };
+      const op = diffStates(state([a, b]), state([a, b2]))!;
+
+      expect(op.items).toEqual([{ id: 'b', before: b, after: b2 }]);
+      expect(op.order).toBeNull();
+    });
+
+    it('should capture order and tag changes', () => {
+      const op = diffStates(state([a, b], ['#x']), state([b, a], ['#y']))!;
+
+      expect(op.order).toEqual({ before: ['a', 'b'], after: ['b', 'a'] });
+      expect(op.tagsAdded).toEqual(['#y']);
+      expect(op.tagsRemoved).toEqual(['#x']);
+    });
+  });
+
+  describe('applyOperation', () => {
+    it('should undo and redo a permanent delete', () => {
+      const op = diffStates(state([a, b]), state([a]))!;
+
+      const undone = applyOperation(state([a]), op, 'undo');
+      expect(undone.state.items.map(i => i.id)).toEqual(['a', 'b']);
+      expect(undone.put).toEqual([b]);
+
+      const redone = applyOperation(undone.state, op, 'redo');
+      expect(redone.state.items.map(i => i.id)).toEqual(['a']);
+      expect(redone.remove).toEqual(['b']);
+    });
+
+    it('should keep items created after the operation at the top', () => {
+      const op = diffStates(state([a, b]), state([b, a]))!;
+      const c = makeItem('c');
+
+      const undone = applyOperation(state([c, b, a]), op, 'undo');
+      expect(undone.state.items.map(i => i.id)).toEqual(['c', 'a', 'b']);
+    });
+
+    it('should restore tags', () => {
+      const tagged = { ...a, tags: ['#x'] };
+      const op = diffStates(state([tagged], ['#x']), state([a], []))!;
+
+      const undone = applyOperation(state([a], []), op, 'undo');
+      expect(undone.state.items[0].tags).toEqual(['#x']);
+      expect(Array.from(undone.state.tags)).toEqual(['#x']);
+      expect(undone.tagsChanged).toBe(true);
+    });
+
+    it('should restore tag metadata and collections', () => {
+      const metadata = { '#x': { color: '#ff0000' } };
+      const collection = { id: 'c1', name: 'Links', query: '', filter: {} } as SmartCollection;
+      const op = diffStates(
+        state([a], ['#x'], { tagMetadata: metadata, collections: [collection] }),
+        state([a], ['#x'])
+      )!;
+
+      const undone = applyOperation(state([a], ['#x']), op, 'undo');
+      expect(undone.state.tagMetadata).toEqual(metadata);
+      expect(undone.state.collections).toEqual([collection]);
+      expect(undone.tagMetadataChanged).toBe(true);
+      expect(undone.collectionsChanged).toBe(true);
+    });
+
+    it('should ignore metadata that was copied but not changed', () => {
+      const metadata = { '#x': { color: '#ff0000' } };
+      expect(diffStates(state([a], [], { tagMetadata: metadata }), state([a], [], { tagMetadata: { ...metadata } }))).toBeNull();
+    });
+  });
+
+  describe('stacks', () => {
+    const op = diffStates(state([]), state([a]))!;
+
+    it('should move operations between undo and redo', () => {
+      const log = new OperationLog();
+      log.record(op);
+      log.record(op);
+
+      expect(log.takeUndo(5)).toHaveLength(2);
+      expect(log.undoDepth).toBe(0);
+      expect(log.redoDepth).toBe(2);
+      expect(log.takeRedo(1)).toHaveLength(1);
+      expect(log.undoDepth).toBe(1);
+    });
+
+    it('should drop redo history when a new operation is recorded', () => {
+      const log = new OperationLog();
+      log.record(op);
+      log.takeUndo(1);
+      log.record(op);
+
+      expect(log.redoDepth).toBe(0);
+    });
+
+    it('should cap the undo history', () => {
+      const log = new OperationLog();
+      for (let i = 0; i < MAX_UNDO_STEPS + 5; i++) log.record(op);
+
+      expect(log.undoDepth).toBe(MAX_UNDO_STEPS);
+    });
+
+    it('should give each operation an id that follows it between the stacks', () => {
+      const log = new OperationLog();
+      expect(log.record(op)).toBe(1);
+      expect(log.record(op)).toBe(2);
+      expect(log.undoHeadId).toBe(2);
+
+      log.takeUndo(1);
+      expect(log.undoHeadId).toBe(1);
+      log.takeRedo(1);
+      expect(log.undoHeadId).toBe(2);
+      expect(log.lastRecordedId).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { ClipboardItem } from '../../types';
+import { TagMetadata } from '../tags/TagMetadata';
+import { SmartCollection } from '../collections/SmartCollection';
+
+/**
+ * Operation Log
+ * Keeps before/after images of everything a repository mutation touched so
+ * it can be rolled back (undo) or re-applied (redo) later. Only the touched
+ * records are stored; untouched items are shared with the live state.
+ * Revision histories are not part of the images: undoing an edit keeps the
+ * version it archived, and undoing a delete brings the item back without one.
+ */
+
+/** Maximum number of operations kept for undo */
+export const MAX_UNDO_STEPS = 50;
+
+export interface RepositoryState {
+  items: ClipboardItem[];
+  tags: Set<string>;
+  tagMetadata: Record<string, TagMetadata>;
+  collections: SmartCollection[];
+}
+
+interface ItemImage {
+  id: string;
+  /** null when the item did not exist on that side of the operation */
+  before: ClipboardItem | null;
+  after: ClipboardItem | null;
+}
+
+export interface Operation {
+  items: ItemImage[];
+  /** Item order on both sides, only kept when the operation changed it */
+  order: { before: string[]; after: string[] } | null;
+  tagsAdded: string[];
+  tagsRemoved: string[];
+  /** Tag metadata and collections are small, so both sides are kept whole when they changed */
+  tagMetadata: { before: Record<string, TagMetadata>; after: Record<string, TagMetadata> } | null;
+  collections: { before: SmartCollection[]; after: SmartCollection[] } | null;
+}
+
+/** Result of rolling an operation back or forward over the current state */
+export interface AppliedOperation {
+  state: RepositoryState;
+  put: ClipboardItem[];
+  remove: string[];
+  orderChanged: boolean;
+  tagsChanged: boolean;
+  tagMetadataChanged: boolean;
+  collectionsChanged: boolean;
+}
+
+const sameOrder = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+// Entries are replaced rather than edited, like items, so identity is enough here too
+const sameMetadata = (a: Record<string, TagMetadata>, b: Record<string, TagMetadata>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(tag => a[tag] === b[tag]);
+
+const sameCollections = (a: SmartCollection[], b: SmartCollection[]) =>
+  a.length === b.length && a.every((collection, index) => collection === b[index]);
+
+/**
+ * Describe what changed between two states.
+ * @returns null if nothing changed
+ */
+export const diffStates = (before: RepositoryState, after: RepositoryState): Operation | null => {
+  const beforeById = new Map(before.items.map(i => [i.id, i]));
+  const afterById = new Map(after.items.map(i => [i.id, i]));
+
+  const items: ItemImage[] = [];
+  afterById.forEach((item, id) => {
+    const previous = beforeById.get(id) ?? null;
+    // Mutations replace item objects instead of editing them, so identity is enough
+    if (previous !== item) items.push({ id, before: previous, after: item });
+  });
+  beforeById.forEach((item, id) => {
+    if (!afterById.has(id)) items.push({ id, before: item, after: null });
+  });
+
+  const orderBefore = before.items.map(i => i.id);
+  const orderAfter = after.items.map(i => i.id);
+  const order = sameOrder(orderBefore, orderAfter) ? null : { before: orderBefore, after: orderAfter };
+
+  const tagsAdded = Array.from(after.tags).filter(t => !before.tags.has(t));
+  const tagsRemoved = Array.from(before.tags).filter(t => !after.tags.has(t));
+
+  const tagMetadata = sameMetadata(before.tagMetadata, after.tagMetadata)
+    ? null
+    : { before: before.tagMetadata, after: after.tagMetadata };
+  const collections = sameCollections(before.collections, after.collections)
+    ? null
+    : { before: before.collections, after: after.collections };
+
+  if (items.length === 0 && !order && tagsAdded.length === 0 && tagsRemoved.length === 0 && !tagMetadata && !collections) {
+    return null;
+  }
+  return { items, order, tagsAdded, tagsRemoved, tagMetadata, collections };
+};
+
+/**
+ * Roll an operation back ('undo') or forward ('redo') on top of the current
+ * state. Items created after the operation keep their relative position at
+ * the top of the list.
+ */
+export const applyOperation = (
+  state: RepositoryState,
+  operation: Operation,
+  direction: 'undo' | 'redo'
+): AppliedOperation => {
+  const target = (image: ItemImage) => (direction === 'undo' ? image.before : image.after);
+
+  const byId = new Map(state.items.map(i => [i.id, i]));
+  const put: ClipboardItem[] = [];
+  const remove: string[] = [];
+  operation.items.forEach(image => {
+    const item = target(image);
+    if (item) {
+      byId.set(image.id, item);
+      put.push(item);
+    } else if (byId.has(image.id)) {
+      byId.delete(image.id);
+      remove.push(image.id);
+    }
+  });
+
+  const currentOrder = state.items.map(i => i.id);
+  let order: string[];
+  if (operation.order) {
+    const wanted = direction === 'undo' ? operation.order.before : operation.order.after;
+    const listed = new Set(wanted);
+    const newer = currentOrder.filter(id => !listed.has(id));
+    order = [...newer, ...wanted];
+  } else {
+    // Items that reappear go back to the top, like a fresh insert
+    const present = new Set(currentOrder);
+    order = [...put.map(i => i.id).filter(id => !present.has(id)), ...currentOrder];
+  }
+  const items = order.filter(id => byId.has(id)).map(id => byId.get(id)!);
+
+  const tags = new Set(state.tags);
+  const toRemove = direction === 'undo' ? operation.tagsAdded : operation.tagsRemoved;
+  const toAdd = direction === 'undo' ? operation.tagsRemoved : operation.tagsAdded;
+  toRemove.forEach(t => tags.delete(t));
+  toAdd.forEach(t => tags.add(t));
+
+  const tagMetadata = operation.tagMetadata
+    ? (direction === 'undo' ? operation.tagMetadata.before : operation.tagMetadata.after)
+    : state.tagMetadata;
+  const collections = operation.collections
+    ? (direction === 'undo' ? operation.collections.before : operation.collections.after)
+    : state.collections;
+
+  return {
+    state: { items, tags, tagMetadata, collections },
+    put,
+    remove,
+    orderChanged: !sameOrder(currentOrder, items.map(i => i.id)),
+    tagsChanged: toRemove.length > 0 || toAdd.length > 0,
+    tagMetadataChanged: !!operation.tagMetadata,
+    collectionsChanged: !!operation.collections
+  };
+};
+
+/** Bounded undo/redo stacks */
+interface LoggedOperation {
+  id: number;
+  operation: Operation;
+}
+
+export class OperationLog {
+  private undoStack: LoggedOperation[] = [];
+  private redoStack: LoggedOperation[] = [];
+  private lastId = 0;
+
+  /** Record a new operation and return its id; anything that could be redone is discarded */
+  record(operation: Operation): number {
+    this.undoStack.push({ id: ++this.lastId, operation });
+    if (this.undoStack.length > MAX_UNDO_STEPS) this.undoStack.shift();
+    this.redoStack = [];
+    return this.lastId;
+  }
+
+  /** Take up to `steps` operations to undo, newest first */
+  takeUndo(steps: number): Operation[] {
+    const taken = this.undoStack.splice(Math.max(0, this.undoStack.length - steps)).reverse();
+    this.redoStack.push(...taken);
+    return taken.map(entry => entry.operation);
+  }
+
+  /** Take up to `steps` operations to redo, oldest first */
+  takeRedo(steps: number): Operation[] {
+    const taken = this.redoStack.splice(Math.max(0, this.redoStack.length - steps)).reverse();
+    this.undoStack.push(...taken);
+    return taken.map(entry => entry.operation);
+  }
+
+  /** Id of the newest operation ever recorded, 0 before the first */
+  get lastRecordedId() {
+    return this.lastId;
+  }
+
+  /** Id of the operation the next undo would roll back */
+  get undoHeadId(): number | null {
+    return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].id : null;
+  }
+
+  get undoDepth() {
+    return this.undoStack.length;
+  }
+
+  get redoDepth() {
+    return this.redoStack.length;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,24 @@
+import { ClipboardItem } from '../../types';
+import { SmartCollection } from '../collections/SmartCollection';
+
+/**
+ * Repository Change Events
+ * Emitted by ClipboardRepository after every mutation so screens can patch
+ * their lists in place instead of refetching everything.
+ * Item snapshots always reflect the state after the change.
+ */
+export type RepositoryChange =
+  | { type: 'added'; items: ClipboardItem[] }
+  | { type: 'updated'; items: ClipboardItem[] }
+  /** Soft deletes carry the trashed snapshots; permanent deletes only the ids */
+  | { type: 'deleted'; ids: string[]; permanent: boolean; items: ClipboardItem[] }
+  | { type: 'restored'; items: ClipboardItem[] }
+  /** The tag list or the metadata of a tag changed */
+  | { type: 'tags-changed'; tags: string[] }
+  | { type: 'collections-changed'; collections: SmartCollection[] }
+  /** The item order changed (pin, drag & drop); lists that care should reload */
+  | { type: 'reordered' }
+  /** Bulk replacement (clear, import); every list should reload */
+  | { type: 'reset' };
+
+export type RepositoryListener = (change: RepositoryChange) => void;
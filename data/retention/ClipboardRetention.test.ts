@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardItem } from '../../types';
+import {
+  ClipboardRetentionPolicy,
+  DEFAULT_CLIPBOARD_RETENTION,
+  isRetentionExempt,
+  itemBytes,
+  parseClipboardRetention,
+  selectOverflow
+} from './ClipboardRetention';
+import { makeItem } from '../../__tests__/fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-15T12:00:00.000Z');
+
+const clip = (id: string, daysOld: number = 0, overrides: Partial<ClipboardItem> = {}) =>
+  makeItem(id, {
+    content: `clip ${id}`,
+    timestamp: new Date(now.getTime() - daysOld * DAY_MS).toISOString(),
+    tags: ['#synced'],
+    ...overrides
+  });
+
+const unlimited: ClipboardRetentionPolicy = { maxItems: null, maxAgeDays: null, maxBytes: null, overflow: 'TRASH' };
+const ids = (items: ClipboardItem[]) => items.map(i => i.id);
+
+describe('ClipboardRetention', () => {
+  describe('isRetentionExempt', () => {
+    it('should exempt pinned, favorite and user-tagged items', () => {
+      expect(isRetentionExempt(clip('a', 0, { isPinned: true }))).toBe(true);
+      expect(isRetentionExempt(clip('a', 0, { isFavorite: true }))).toBe(true);
+      expect(isRetentionExempt(clip('a', 0, { tags: ['#synced', '#work'] }))).toBe(true);
+    });
+
+    it('should not treat source tags as user tagging', () => {
+      expect(isRetentionExempt(clip('a', 0, { tags: ['#copy'] }))).toBe(false);
+      expect(isRetentionExempt(clip('b', 0, { tags: ['#merged', '#synced'] }))).toBe(false);
+    });
+
+    it('should not treat the automatic #synced tag as user tagging', () => {
+      expect(isRetentionExempt(clip('a'))).toBe(false);
+      expect(isRetentionExempt(clip('a', 0, { tags: [] }))).toBe(false);
+    });
+  });
+
+  describe('selectOverflow', () => {
+    it('should remove nothing under the default policy', () => {
+      const items = Array.from({ length: 1200 }, (_, i) => clip(String(i), i));
+      expect(selectOverflow(items, DEFAULT_CLIPBOARD_RETENTION, now)).toEqual([]);
+    });
+
+    it('should keep the newest items up to the count limit', () => {
+      const items = [clip('3'), clip('2'), clip('1')];
+      expect(ids(selectOverflow(items, { ...unlimited, maxItems: 2 }, now))).toEqual(['1']);
+    });
+
+    it('should select items older than the age limit', () => {
+      const items = [clip('new', 1), clip('old', 10)];
+      expect(ids(selectOverflow(items, { ...unlimited, maxAgeDays: 7 }, now))).toEqual(['old']);
+    });
+
+    it('should drop the oldest items once the size budget is used up', () => {
+      const items = [clip('c', 0, { content: 'x'.repeat(40) }), clip('b', 0, { content: 'x'.repeat(40) }), clip('a', 0, { content: 'x'.repeat(40) })];
+      expect(ids(selectOverflow(items, { ...unlimited, maxBytes: 100 }, now))).toEqual(['a']);
+      // The newest item survives even when it alone is over budget
+      expect(ids(selectOverflow(items, { ...unlimited, maxBytes: 10 }, now))).toEqual(['b', 'a']);
+    });
+
+    it('should ignore notes, trashed and exempt items', () => {
+      const items = [
+        clip('live'),
+        clip('note', 0, { category: 'notes' }),
+        clip('trashed', 0, { isDeleted: true }),
+        clip('pinned', 0, { isPinned: true }),
+        clip('older')
+      ];
+      expect(ids(selectOverflow(items, { ...unlimited, maxItems: 1 }, now))).toEqual(['older']);
+    });
+  });
+
+  describe('itemBytes', () => {
+    it('should count UTF-8 bytes of the text and html', () => {
+      expect(itemBytes(clip('a', 0, { content: 'é', htmlContent: '<b>é</b>' }))).toBe(2 + 9);
+    });
+  });
+
+  describe('parseClipboardRetention', () => {
+    it('should read a stored policy and fall back per field', () => {
+      expect(parseClipboardRetention(null)).toEqual(DEFAULT_CLIPBOARD_RETENTION);
+      expect(parseClipboardRetention('not json')).toEqual(DEFAULT_CLIPBOARD_RETENTION);
+      expect(parseClipboardRetention(JSON.stringify({ maxItems: 100, maxAgeDays: 3, maxBytes: null, overflow: 'DELETE' })))
+        .toEqual({ maxItems: 100, maxAgeDays: DEFAULT_CLIPBOARD_RETENTION.maxAgeDays, maxBytes: null, overflow: 'DELETE' });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { ClipboardItem } from '../../types';
+import { SOURCE_TAGS } from '../tags/TagNormalization';
+
+/**
+ * Clipboard Retention
+ * Caps on the clipboard history (item count, age and total size) so captured
+ * clipboard text cannot pile up forever. Notes are never affected.
+ */
+
+export type ClipboardOverflowAction = 'TRASH' | 'DELETE';
+
+/** Every limit is optional; null means unlimited */
+export interface ClipboardRetentionPolicy {
+  maxItems: number | null;
+  maxAgeDays: number | null;
+  maxBytes: number | null;
+  /** What happens to items over a limit */
+  overflow: ClipboardOverflowAction;
+}
+
+export const MAX_ITEMS_OPTIONS: (number | null)[] = [100, 500, 1000, null];
+export const MAX_AGE_OPTIONS: (number | null)[] = [7, 30, 90, null];
+export const MAX_BYTES_OPTIONS: (number | null)[] = [1024 * 1024, 5 * 1024 * 1024, 20 * 1024 * 1024, null];
+export const OVERFLOW_ACTIONS: ClipboardOverflowAction[] = ['TRASH', 'DELETE'];
+
+/** Nothing is removed until the user picks a limit */
+export const DEFAULT_CLIPBOARD_RETENTION: ClipboardRetentionPolicy = {
+  maxItems: null,
+  maxAgeDays: null,
+  maxBytes: null,
+  overflow: 'TRASH'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pinned, favorite and user-tagged items are kept regardless of the limits.
+ * Source tags don't count as the user tagging an item.
+ */
+export const isRetentionExempt = (item: ClipboardItem): boolean =>
+  item.isPinned || item.isFavorite || item.tags.some(t => !SOURCE_TAGS.includes(t));
+
+/** Stored size of an item's text, in UTF-8 bytes */
+export const itemBytes = (item: ClipboardItem): number => {
+  const encoder = new TextEncoder();
+  return encoder.encode(item.content).length + (item.htmlContent ? encoder.encode(item.htmlContent).length : 0);
+};
+
+/**
+ * Items that exceed the policy, given the live list in repository order
+ * (newest first). Only non-exempt clipboard items count toward the limits,
+ * and the newest of them is always kept by the count and size caps.
+ */
+export const selectOverflow = (
+  items: ClipboardItem[],
+  policy: ClipboardRetentionPolicy,
+  now: Date = new Date()
+): ClipboardItem[] => {
+  const candidates = items.filter(i => !i.isDeleted && i.category === 'clipboard' && !isRetentionExempt(i));
+  const overflow = new Set<ClipboardItem>();
+
+  if (policy.maxAgeDays !== null) {
+    const cutoff = now.getTime() - policy.maxAgeDays * DAY_MS;
+    candidates.forEach(item => {
+      const time = Date.parse(item.timestamp);
+      if (!isNaN(time) && time < cutoff) overflow.add(item);
+    });
+  }
+
+  if (policy.maxItems !== null) {
+    candidates.slice(Math.max(1, policy.maxItems)).forEach(item => overflow.add(item));
+  }
+
+  if (policy.maxBytes !== null) {
+    let total = 0;
+    candidates.forEach((item, index) => {
+      if (overflow.has(item)) return;
+      total += itemBytes(item);
+      if (index > 0 && total > policy.maxBytes!) overflow.add(item);
+    });
+  }
+
+  return candidates.filter(item => overflow.has(item));
+};
+
+const isLimit = (value: unknown, options: (number | null)[]) =>
+  value === null || (typeof value === 'number' && options.includes(value));
+
+/** Validate a stored policy, falling back to the default for anything unknown */
+export const parseClipboardRetention = (raw: string | null): ClipboardRetentionPolicy => {
+  if (!raw) return DEFAULT_CLIPBOARD_RETENTION;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      maxItems: isLimit(parsed.maxItems, MAX_ITEMS_OPTIONS) ? parsed.maxItems : DEFAULT_CLIPBOARD_RETENTION.maxItems,
+      maxAgeDays: isLimit(parsed.maxAgeDays, MAX_AGE_OPTIONS) ? parsed.maxAgeDays : DEFAULT_CLIPBOARD_RETENTION.maxAgeDays,
+      maxBytes: isLimit(parsed.maxBytes, MAX_BYTES_OPTIONS) ? parsed.maxBytes : DEFAULT_CLIPBOARD_RETENTION.maxBytes,
+      overflow: OVERFLOW_ACTIONS.includes(parsed.overflow) ? parsed.overflow : DEFAULT_CLIPBOARD_RETENTION.overflow
+    };
+  } catch (e) {
+    console.warn("Invalid clipboard retention setting", e);
+    return DEFAULT_CLIPBOARD_RETENTION;
+  }
+};
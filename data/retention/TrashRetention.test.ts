@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardItem, ClipboardType } from '../../types';
+import { isTrashExpired, getTrashAge, describeTrashAge } from './TrashRetention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-15T12:00:00.000Z');
+
+const trashed = (daysAgo: number, overrides: Partial<ClipboardItem> = {}): ClipboardItem => ({
+  id: 't',
+  content: 'Trashed',
+  type: ClipboardType.TEXT,
+  category: 'clipboard',
+  timestamp: now.toISOString(),
+  tags: [],
+  isPinned: false,
+  isFavorite: false,
+  isDeleted: true,
+  deletedAt: new Date(now.getTime() - daysAgo * DAY_MS).toISOString(),
+  ...overrides
+});
+
+describe('TrashRetention', () => {
+  describe('isTrashExpired', () => {
+    it('should expire items older than the retention period', () => {
+      expect(isTrashExpired(trashed(8), 7, now)).toBe(true);
+      expect(isTrashExpired(trashed(7), 7, now)).toBe(true);
+      expect(isTrashExpired(trashed(6), 7, now)).toBe(false);
+    });
+
+    it('should never expire with retention "never"', () => {
+      expect(isTrashExpired(trashed(1000), null, now)).toBe(false);
+    });
+
+    it('should ignore items that are not in trash or lack a deletion time', () => {
+      expect(isTrashExpired(trashed(100, { isDeleted: false }), 7, now)).toBe(false);
+      expect(isTrashExpired(trashed(100, { deletedAt: undefined }), 7, now)).toBe(false);
+      expect(isTrashExpired(trashed(100, { deletedAt: 'garbage' }), 7, now)).toBe(false);
+    });
+  });
+
+  describe('getTrashAge', () => {
+    it('should count days since deletion and days until purge', () => {
+      expect(getTrashAge(trashed(3), 30, now)).toEqual({ daysAgo: 3, daysLeft: 27 });
+      expect(getTrashAge(trashed(3.5), 30, now)).toEqual({ daysAgo: 3, daysLeft: 27 });
+      expect(getTrashAge(trashed(40), 30, now)).toEqual({ daysAgo: 40, daysLeft: 0 });
+      expect(getTrashAge(trashed(3), null, now)).toEqual({ daysAgo: 3, daysLeft: null });
+    });
+  });
+
+  describe('describeTrashAge', () => {
+    it('should build card labels', () => {
+      expect(describeTrashAge(trashed(0), 7, now)).toBe('Deleted today · purges in 7 days');
+      expect(describeTrashAge(trashed(1), 7, now)).toBe('Deleted 1 day ago · purges in 6 days');
+      expect(describeTrashAge(trashed(6.5), 7, now)).toBe('Deleted 6 days ago · purges in 1 day');
+      expect(describeTrashAge(trashed(2), null, now)).toBe('Deleted 2 days ago');
+      expect(describeTrashAge(trashed(2, { deletedAt: undefined }), 7, now)).toBeNull();
+    });
+  });
+});
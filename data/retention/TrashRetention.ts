@@ -0,0 +1,71 @@
+import { ClipboardItem } from '../../types';
+
+/**
+ * Trash Retention
+ * How long trashed items are kept before they are purged for good.
+ */
+
+/** Days an item stays in Trash; null keeps it forever */
+export type TrashRetentionDays = 7 | 30 | 90 | null;
+
+export const TRASH_RETENTION_OPTIONS: TrashRetentionDays[] = [7, 30, 90, null];
+
+/** Trash is kept until the user picks a period in Settings */
+export const DEFAULT_TRASH_RETENTION_DAYS: TrashRetentionDays = null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Moment the item went to Trash, or null if unknown */
+const deletedTime = (item: ClipboardItem): number | null => {
+  if (!item.isDeleted || !item.deletedAt) return null;
+  const time = Date.parse(item.deletedAt);
+  return isNaN(time) ? null : time;
+};
+
+/** True if the item has been in Trash longer than the retention period */
+export const isTrashExpired = (
+  item: ClipboardItem,
+  retentionDays: TrashRetentionDays,
+  now: Date = new Date()
+): boolean => {
+  const deleted = deletedTime(item);
+  if (retentionDays === null || deleted === null) return false;
+  return now.getTime() - deleted >= retentionDays * DAY_MS;
+};
+
+/**
+ * Whole days since the item was trashed and days until it gets purged
+ * (null when it is never purged).
+ */
+export const getTrashAge = (
+  item: ClipboardItem,
+  retentionDays: TrashRetentionDays,
+  now: Date = new Date()
+): { daysAgo: number; daysLeft: number | null } | null => {
+  const deleted = deletedTime(item);
+  if (deleted === null) return null;
+
+  const elapsed = Math.max(0, now.getTime() - deleted);
+  const daysAgo = Math.floor(elapsed / DAY_MS);
+  const daysLeft = retentionDays === null
+    ? null
+    : Math.max(0, Math.ceil((retentionDays * DAY_MS - elapsed) / DAY_MS));
+  return { daysAgo, daysLeft };
+};
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+/** Label for trash cards, e.g. "Deleted 3 days ago · purges in 27 days" */
+export const describeTrashAge = (
+  item: ClipboardItem,
+  retentionDays: TrashRetentionDays,
+  now: Date = new Date()
+): string | null => {
+  const age = getTrashAge(item, retentionDays, now);
+  if (!age) return null;
+
+  const deleted = age.daysAgo === 0 ? 'Deleted today' : `Deleted ${plural(age.daysAgo, 'day')} ago`;
+  if (age.daysLeft === null) return deleted;
+  const purge = age.daysLeft === 0 ? 'purges today' : `purges in ${plural(age.daysLeft, 'day')}`;
+  return `${deleted} · ${purge}`;
+};
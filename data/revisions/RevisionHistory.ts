@@ -0,0 +1,50 @@
+import { ClipboardItem, ItemRevision } from '../../types';
+
+/**
+ * Revision History
+ * Earlier versions of an item's text, title and tags, archived whenever an
+ * edit replaces them so an accidental overwrite can be rolled back.
+ */
+
+/** Revisions kept per item; 0 turns history off */
+export type RevisionDepth = 0 | 10 | 25 | 50;
+
+export const REVISION_DEPTH_OPTIONS: RevisionDepth[] = [0, 10, 25, 50];
+
+export const DEFAULT_REVISION_DEPTH: RevisionDepth = 25;
+
+/** Fields a revision captures */
+const REVISED_FIELDS = ['title', 'content', 'htmlContent', 'tags'] as const;
+
+const sameValue = (a: unknown, b: unknown) => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+  return a === b;
+};
+
+/** True if applying the updates would change anything a revision captures */
+export const changesRevisedFields = (item: ClipboardItem, updates: Partial<ClipboardItem>): boolean =>
+  REVISED_FIELDS.some(field => field in updates && !sameValue(item[field], updates[field]));
+
+/** Snapshot the item as it is right before an edit replaces it */
+export const createRevision = (item: ClipboardItem, now: Date = new Date()): ItemRevision => ({
+  id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+  title: item.title,
+  content: item.content,
+  htmlContent: item.htmlContent,
+  tags: [...item.tags],
+  timestamp: now.toISOString()
+});
+
+/** Put a revision on top of the list (newest first) and drop what exceeds the depth */
+export const pushRevision = (revisions: ItemRevision[], revision: ItemRevision, depth: number): ItemRevision[] =>
+  [revision, ...revisions].slice(0, Math.max(0, depth));
+
+/** Item updates that bring a revision back */
+export const revisionUpdates = (revision: ItemRevision): Partial<ClipboardItem> => ({
+  title: revision.title,
+  content: revision.content,
+  htmlContent: revision.htmlContent,
+  tags: [...revision.tags]
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { FullTextIndex, indexDocument, scoreText, termMatch } from './FullTextIndex';
+import { makeItem } from '../../__tests__/fixtures';
+
+const ids = (set: Set<string>) => Array.from(set).sort();
+
+describe('FullTextIndex', () => {
+  describe('indexDocument', () => {
+    it('should index title, text, rich text and tags with field weights', () => {
+      const document = indexDocument(makeItem('a', {
+        title: 'Recipe',
+        content: 'Crème brûlée',
+        htmlContent: '<p>Crème <b>brûlée</b> with <i>vanilla</i></p>',
+        tags: ['#Dessert', '#recipe']
+      }));
+      expect(Object.fromEntries(document.terms)).toEqual({ creme: 1, brulee: 1, with: 1, vanilla: 1, dessert: 2, recipe: 3 });
+    });
+
+    it('should only index what a masked item displays', () => {
+      const document = indexDocument(makeItem('a', { content: 'pin 4711', htmlContent: '<p>pin 4711</p>', displayContent: 'pin ****' }));
+      expect(Array.from(document.terms.keys())).toEqual(['pin']);
+    });
+  });
+
+  describe('termMatch', () => {
+    it('should rank exact over prefix over typo matches', () => {
+      expect(termMatch('meeting', 'meeting')).toBe(1);
+      expect(termMatch('meet', 'meeting')).toBe(0.75);
+      expect(termMatch('meetimg', 'meeting')).toBe(0.5);
+      expect(termMatch('m', 'meeting')).toBe(0);
+      // Short words get no typo tolerance
+      expect(termMatch('cat', 'car')).toBe(0);
+    });
+  });
+
+  describe('scoreText', () => {
+    it('should weight words by field and require phrases verbatim', () => {
+      const document = indexDocument(makeItem('a', { title: 'Quarterly report', content: 'Due next Thursday in room 4B' }));
+      expect(scoreText(document, 'report')).toBe(3);
+      expect(scoreText(document, 'thurs')).toBe(0.75);
+      expect(scoreText(document, 'friday')).toBe(0);
+      expect(scoreText(document, 'next thursday')).toBeGreaterThan(0);
+      expect(scoreText(document, 'thursday next')).toBe(0);
+    });
+  });
+
+  describe('candidates', () => {
+    it('should find documents by exact, prefix, typo and folded terms', () => {
+      const index = new FullTextIndex();
+      index.rebuild([
+        makeItem('1', { content: 'Café opening hours' }),
+        makeItem('2', { content: 'Cafeteria menu' }),
+        makeItem('3', { content: 'Opening speech' })
+      ]);
+      expect(ids(index.candidates('cafe'))).toEqual(['1', '2']);
+      expect(ids(index.candidates('opning'))).toEqual(['1', '3']);
+      expect(ids(index.candidates('cafe opening'))).toEqual(['1']);
+      expect(ids(index.candidates('nothing'))).toEqual([]);
+    });
+
+    it('should follow repository changes incrementally', () => {
+      const index = new FullTextIndex();
+      const item = makeItem('1', { content: 'alpha' });
+      index.apply({ type: 'added', items: [item] }, [item]);
+      expect(ids(index.candidates('alpha'))).toEqual(['1']);
+
+      const edited = { ...item, content: 'beta' };
+      index.apply({ type: 'updated', items: [edited] }, [edited]);
+      expect(ids(index.candidates('alpha'))).toEqual([]);
+      expect(ids(index.candidates('beta'))).toEqual(['1']);
+
+      index.apply({ type: 'deleted', ids: ['1'], permanent: true, items: [] }, []);
+      expect(index.size).toBe(0);
+      expect(ids(index.candidates('beta'))).toEqual([]);
+    });
+  });
+});
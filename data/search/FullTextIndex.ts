@@ -0,0 +1,213 @@
+import { ClipboardItem } from '../../types';
+import { editDistance, foldText, stripHtml, tokenize } from '../../util/TextTokenizer';
+import { RepositoryChange } from '../repository/RepositoryChange';
+
+/**
+ * Full-Text Index
+ * Inverted index over item titles, text, rich text and tags. Query words
+ * match indexed terms exactly, as a prefix, or with a typo or two, and every
+ * match is weighted by the field it was found in.
+ */
+
+/** Weight of a term by the field it came from; a term keeps its best field */
+const FIELD_WEIGHTS = { title: 3, tags: 2, content: 1 };
+
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const TYPO_MATCH = 0.5;
+/** Query words shorter than this only match whole terms */
+const MIN_PREFIX_LENGTH = 2;
+
+export interface IndexedDocument {
+  /** Term -> field weight */
+  terms: Map<string, number>;
+  /** Folded, whitespace-collapsed text, for phrase matching */
+  text: string;
+}
+
+// Items are immutable snapshots, so a document stays valid for as long as its item lives
+const documentCache = new WeakMap<ClipboardItem, IndexedDocument>();
+
+/** The indexed form of an item; masked items only expose what they display */
+export const indexDocument = (item: ClipboardItem): IndexedDocument => {
+  const cached = documentCache.get(item);
+  if (cached) return cached;
+
+  const body = item.displayContent
+    ? item.displayContent
+    : [item.content, item.htmlContent ? stripHtml(item.htmlContent) : ''].join('\n');
+  const fields: [string, number][] = [
+    [body, FIELD_WEIGHTS.content],
+    [item.tags.join(' '), FIELD_WEIGHTS.tags],
+    [item.title || '', FIELD_WEIGHTS.title]
+  ];
+
+  const terms = new Map<string, number>();
+  fields.forEach(([text, weight]) => {
+    tokenize(text).forEach(term => terms.set(term, Math.max(weight, terms.get(term) || 0)));
+  });
+  const text = foldText(fields.map(([value]) => value).join('\n')).replace(/\s+/g, ' ');
+
+  const document = { terms, text };
+  documentCache.set(item, document);
+  return document;
+};
+
+/** Edits allowed for a query word of this length */
+const typoBudget = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+/** How well a query word matches an indexed term, 0 for not at all */
+export const termMatch = (word: string, term: string): number => {
+  if (word === term) return EXACT_MATCH;
+  if (word.length >= MIN_PREFIX_LENGTH && term.startsWith(word)) return PREFIX_MATCH;
+  const budget = typoBudget(word.length);
+  if (budget > 0 && editDistance(word, term, budget) <= budget) return TYPO_MATCH;
+  return 0;
+};
+
+/**
+ * Relevance of a document for a text query: every word has to match some
+ * term, and contributes its best match times the field weight. Phrases with
+ * several words must also appear verbatim. 0 means no match.
+ */
+export const scoreText = (document: IndexedDocument, query: string): number => {
+  const words = tokenize(query);
+  if (words.length === 0) return 0;
+  if (/\s/.test(query.trim())) {
+    const phrase = foldText(query).trim().replace(/\s+/g, ' ');
+    if (!document.text.includes(phrase)) return 0;
+  }
+
+  let score = 0;
+  for (const word of words) {
+    let best = 0;
+    document.terms.forEach((weight, term) => {
+      best = Math.max(best, termMatch(word, term) * weight);
+    });
+    if (best === 0) return 0;
+    score += best;
+  }
+  return score;
+};
+
+export class FullTextIndex {
+  private documents = new Map<string, Set<string>>();
+  private postings = new Map<string, Set<string>>();
+  // Sorted lazily, for prefix lookups
+  private sortedTerms: string[] | null = null;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  rebuild(items: ClipboardItem[]) {
+    this.documents.clear();
+    this.postings.clear();
+    this.sortedTerms = null;
+    items.forEach(item => this.upsert(item));
+  }
+
+  upsert(item: ClipboardItem) {
+    this.remove(item.id);
+    const terms = new Set(indexDocument(item).terms.keys());
+    this.documents.set(item.id, terms);
+    terms.forEach(term => {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+        this.sortedTerms = null;
+      }
+      ids.add(item.id);
+    });
+  }
+
+  remove(id: string) {
+    const terms = this.documents.get(id);
+    if (!terms) return;
+    this.documents.delete(id);
+    terms.forEach(term => {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    });
+  }
+
+  /** Keep the index in step with a repository change; `items` is the state after it */
+  apply(change: RepositoryChange, items: ClipboardItem[]) {
+    switch (change.type) {
+      case 'added':
+      case 'updated':
+      case 'restored':
+        change.items.forEach(item => this.upsert(item));
+        break;
+      case 'deleted':
+        if (change.permanent) change.ids.forEach(id => this.remove(id));
+        else change.items.forEach(item => this.upsert(item));
+        break;
+      case 'reset':
+        this.rebuild(items);
+        break;
+    }
+  }
+
+  /**
+   * Ids of the documents that can match a text query, i.e. that have a
+   * matching term for every word. Scoring still has to confirm phrases.
+   */
+  candidates(query: string): Set<string> {
+    const words = tokenize(query);
+    if (words.length === 0) return new Set();
+
+    let result: Set<string> | null = null;
+    for (const word of words) {
+      const ids = new Set<string>();
+      this.matchingTerms(word).forEach(term => this.postings.get(term)!.forEach(id => ids.add(id)));
+      result = result === null ? ids : new Set(Array.from(result).filter(id => ids.has(id)));
+      if (result.size === 0) break;
+    }
+    return result ?? new Set();
+  }
+
+  private matchingTerms(word: string): string[] {
+    const matches = new Set<string>();
+    if (this.postings.has(word)) matches.add(word);
+
+    if (word.length >= MIN_PREFIX_LENGTH) {
+      const terms = this.getSortedTerms();
+      for (let i = lowerBound(terms, word); i < terms.length && terms[i].startsWith(word); i++) {
+        matches.add(terms[i]);
+      }
+    }
+
+    const budget = typoBudget(word.length);
+    if (budget > 0) {
+      this.postings.forEach((_, term) => {
+        if (Math.abs(term.length - word.length) <= budget && editDistance(word, term, budget) <= budget) {
+          matches.add(term);
+        }
+      });
+    }
+    return Array.from(matches);
+  }
+
+  private getSortedTerms(): string[] {
+    if (!this.sortedTerms) this.sortedTerms = Array.from(this.postings.keys()).sort();
+    return this.sortedTerms;
+  }
+}
+
+/** First index whose term is not below `value` */
+const lowerBound = (terms: string[], value: string): number => {
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (terms[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
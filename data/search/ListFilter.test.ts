@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardItem, ClipboardType } from '../../types';
+import { EMPTY_LIST_FILTER, ListFilter, dateBounds, describeListFilter, isListFilterActive, matchesListFilter, parseListFilter, toggleValue } from './ListFilter';
+import { makeItem } from '../../__tests__/fixtures';
+
+// Noon on 15 March 2026, local time
+const NOW = new Date(2026, 2, 15, 12).getTime();
+
+const filterIds = (items: ClipboardItem[], overrides: Partial<ListFilter>) =>
+  items.filter(item => matchesListFilter(item, { ...EMPTY_LIST_FILTER, ...overrides }, NOW)).map(item => item.id);
+
+describe('ListFilter', () => {
+  it('should let everything through when empty', () => {
+    expect(isListFilterActive(EMPTY_LIST_FILTER)).toBe(false);
+    expect(matchesListFilter(makeItem('a'), EMPTY_LIST_FILTER, NOW)).toBe(true);
+  });
+
+  it('should match any of the selected types', () => {
+    const items = [
+      makeItem('text'),
+      makeItem('link', { type: ClipboardType.LINK }),
+      makeItem('mail', { type: ClipboardType.EMAIL })
+    ];
+    expect(filterIds(items, { types: [ClipboardType.LINK, ClipboardType.EMAIL] })).toEqual(['link', 'mail']);
+  });
+
+  it('should match any or all selected tags depending on the mode', () => {
+    const items = [
+      makeItem('work', { tags: ['#work'] }),
+      makeItem('both', { tags: ['#work', '#urgent'] }),
+      makeItem('none')
+    ];
+    expect(filterIds(items, { tags: ['#work', '#urgent'], tagMode: 'any' })).toEqual(['work', 'both']);
+    expect(filterIds(items, { tags: ['#work', '#urgent'], tagMode: 'all' })).toEqual(['both']);
+  });
+
+  it('should filter by today, the last 7 days and custom ranges', () => {
+    const daysAgo = (days: number) => new Date(2026, 2, 15 - days, 9).toISOString();
+    const items = [
+      makeItem('today', { timestamp: daysAgo(0) }),
+      makeItem('week', { timestamp: daysAgo(6) }),
+      makeItem('older', { timestamp: daysAgo(7) })
+    ];
+    expect(filterIds(items, { dateRange: 'today' })).toEqual(['today']);
+    expect(filterIds(items, { dateRange: 'week' })).toEqual(['today', 'week']);
+    expect(filterIds(items, { dateRange: 'custom', from: '2026-03-08', to: '2026-03-09' })).toEqual(['week', 'older']);
+    expect(filterIds(items, { dateRange: 'custom', from: '2026-03-09', to: null })).toEqual(['today', 'week']);
+    // A custom range with no ends set does not restrict anything
+    expect(dateBounds({ ...EMPTY_LIST_FILTER, dateRange: 'custom' }, NOW)).toBeNull();
+  });
+
+  it('should toggle multi-select values', () => {
+    expect(toggleValue(['#a'], '#b')).toEqual(['#a', '#b']);
+    expect(toggleValue(['#a', '#b'], '#a')).toEqual(['#b']);
+  });
+
+  it('should describe the active parts of a filter', () => {
+    expect(describeListFilter({
+      ...EMPTY_LIST_FILTER,
+      types: [ClipboardType.LINK, ClipboardType.EMAIL],
+      tags: ['#a', '#b'],
+      dateRange: 'week'
+    })).toEqual(['LINK / EMAIL', '#a / #b', 'Last 7 days']);
+  });
+
+  it('should repair malformed stored filters', () => {
+    expect(parseListFilter(null)).toEqual(EMPTY_LIST_FILTER);
+    expect(parseListFilter({ category: 'photos', types: ['LINK', 'VIDEO'], tags: ['#a', 3], tagMode: 'xor', dateRange: 'custom', from: '2026-02-30' })).toEqual({
+      ...EMPTY_LIST_FILTER,
+      types: [ClipboardType.LINK],
+      tags: ['#a'],
+      dateRange: 'custom'
+    });
+  });
+});
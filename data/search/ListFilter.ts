@@ -0,0 +1,149 @@
+import { ClipboardItem, ClipboardType } from '../../types';
+import { SearchNode, allOf, startOfDay } from './SearchQuery';
+import { matchesSearch } from './SearchFilter';
+
+/**
+ * List Filter
+ * The filter panel state shared by every list screen: category, any number
+ * of types and tags, and a capture date range. It compiles to a search
+ * filter, so panels, search queries and smart collections agree on what
+ * matches.
+ */
+
+/** 'any' keeps items with at least one of the selected tags, 'all' only items with every one */
+export type TagMatchMode = 'any' | 'all';
+
+export type DateRangePreset = 'any' | 'today' | 'week' | 'custom';
+
+export interface ListFilter {
+  /** null shows both categories */
+  category: ClipboardItem['category'] | null;
+  /** Empty shows every type */
+  types: ClipboardType[];
+  /** Empty shows every tag */
+  tags: string[];
+  tagMode: TagMatchMode;
+  dateRange: DateRangePreset;
+  /** First day of a custom range (YYYY-MM-DD); null leaves it open */
+  from: string | null;
+  /** Last day of a custom range, inclusive; null leaves it open */
+  to: string | null;
+}
+
+export const EMPTY_LIST_FILTER: ListFilter = {
+  category: null,
+  types: [],
+  tags: [],
+  tagMode: 'any',
+  dateRange: 'any',
+  from: null,
+  to: null
+};
+
+/** "Last 7 days" includes today */
+const WEEK_DAYS = 7;
+const CATEGORIES: ClipboardItem['category'][] = ['clipboard', 'notes'];
+const TAG_MODES: TagMatchMode[] = ['any', 'all'];
+const DATE_RANGES: DateRangePreset[] = ['any', 'today', 'week', 'custom'];
+
+/** Add `value` to a multi-select, or remove it if it is already selected */
+export const toggleValue = <T>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export const isListFilterActive = (filter: ListFilter): boolean =>
+  filter.category !== null || filter.types.length > 0 || filter.tags.length > 0 || dateBounds(filter) !== null;
+
+const localMidnight = (now: number, dayOffset: number): number => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + dayOffset);
+  return date.getTime();
+};
+
+/** The capture time window a filter allows (epoch ms, end exclusive); null if it allows any time */
+export const dateBounds = (
+  filter: ListFilter,
+  now: number = Date.now()
+): { start: number | null; end: number | null } | null => {
+  switch (filter.dateRange) {
+    case 'today':
+      return { start: localMidnight(now, 0), end: null };
+    case 'week':
+      return { start: localMidnight(now, 1 - WEEK_DAYS), end: null };
+    case 'custom': {
+      const start = filter.from ? startOfDay(filter.from) : null;
+      const end = filter.to ? startOfDay(filter.to, 1) : null;
+      return start === null && end === null ? null : { start, end };
+    }
+    default:
+      return null;
+  }
+};
+
+const anyOf = (nodes: SearchNode[]): SearchNode | null =>
+  nodes.length === 0 ? null : nodes.length === 1 ? nodes[0] : { kind: 'or', nodes };
+
+/** The search filter a list filter stands for; null if it lets everything through */
+export const listFilterNode = (filter: ListFilter, now: number = Date.now()): SearchNode | null => {
+  const tags: SearchNode[] = filter.tags.map(tag => ({ kind: 'tag', tag }));
+  const bounds = dateBounds(filter, now);
+  return allOf(
+    filter.category ? { kind: 'in', category: filter.category } : null,
+    anyOf(filter.types.map(type => ({ kind: 'type', type }))),
+    filter.tagMode === 'all' ? allOf(...tags) : anyOf(tags),
+    bounds?.start != null ? { kind: 'after', time: bounds.start } : null,
+    bounds?.end != null ? { kind: 'before', time: bounds.end } : null
+  );
+};
+
+export const matchesListFilter = (item: ClipboardItem, filter: ListFilter, now: number = Date.now()): boolean =>
+  matchesSearch(item, listFilterNode(filter, now));
+
+const DATE_LABELS: Record<DateRangePreset, string> = {
+  any: 'Any time',
+  today: 'Today',
+  week: 'Last 7 days',
+  custom: 'Custom'
+};
+
+export const dateRangeLabel = (filter: ListFilter): string => {
+  if (filter.dateRange !== 'custom') return DATE_LABELS[filter.dateRange];
+  if (filter.from && filter.to) return `${filter.from} – ${filter.to}`;
+  if (filter.from) return `since ${filter.from}`;
+  if (filter.to) return `until ${filter.to}`;
+  return DATE_LABELS.any;
+};
+
+/** Short labels for the active parts of a filter, e.g. ["notes", "LINK / EMAIL", "#a + #b"] */
+export const describeListFilter = (filter: ListFilter): string[] =>
+  [
+    filter.category,
+    filter.types.join(' / ') || null,
+    filter.tags.join(filter.tagMode === 'all' ? ' + ' : ' / ') || null,
+    dateBounds(filter) ? dateRangeLabel(filter) : null
+  ].filter((part): part is string => !!part);
+
+const isDay = (value: unknown): value is string | null =>
+  value === null || (typeof value === 'string' && startOfDay(value) !== null);
+
+const isOneOf = <T>(options: T[], value: unknown): value is T => (options as unknown[]).includes(value);
+
+/** The valid entries of a stored list; anything that is not a list counts as empty */
+const listOf = <T>(value: unknown, isValid: (entry: unknown) => entry is T): T[] =>
+  Array.isArray(value) ? (value as unknown[]).filter(isValid) : [];
+
+/** Validate a stored filter; malformed parts fall back to "no restriction" */
+export const parseListFilter = (raw: unknown): ListFilter => {
+  if (!raw || typeof raw !== 'object') return { ...EMPTY_LIST_FILTER };
+  const stored = raw as Record<string, unknown>;
+  const types = Object.values(ClipboardType);
+  return {
+    category: isOneOf(CATEGORIES, stored.category) ? stored.category : null,
+    types: listOf(stored.types, (t): t is ClipboardType => isOneOf(types, t)),
+    tags: listOf(stored.tags, (t): t is string => typeof t === 'string'),
+    tagMode: isOneOf(TAG_MODES, stored.tagMode) ? stored.tagMode : 'any',
+    dateRange: isOneOf(DATE_RANGES, stored.dateRange) ? stored.dateRange : 'any',
+    from: isDay(stored.from) ? stored.from : null,
+    to: isDay(stored.to) ? stored.to : null
+  };
+};
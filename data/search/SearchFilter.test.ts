@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardItem, ClipboardType } from '../../types';
+import { parseSearchQuery } from './SearchQuery';
+import { inSearchScope, matchesSearch, rankSearchResults } from './SearchFilter';
+import { makeItem } from '../../__tests__/fixtures';
+
+const NOON = new Date(2026, 0, 15, 12).toISOString();
+
+const items = [
+  makeItem('link', { content: 'https://example.com/docs', type: ClipboardType.LINK, tags: ['#Work'], timestamp: NOON }),
+  makeItem('note', { content: 'Meeting notes for room 4B', category: 'notes', isPinned: true, timestamp: new Date(2025, 11, 31, 23).toISOString() }),
+  makeItem('secret', { content: 'pin 1234', displayContent: 'pin ****', isFavorite: true, title: 'Bank', timestamp: NOON })
+];
+
+const search = (query: string) => items.filter(i => matchesSearch(i, parseSearchQuery(query))).map(i => i.id);
+
+describe('SearchFilter', () => {
+  it('should match text in the title, visible content and tags, ignoring case', () => {
+    expect(search('MEETING')).toEqual(['note']);
+    expect(search('bank')).toEqual(['secret']);
+    expect(search('work')).toEqual(['link']);
+    expect(search('"notes for room"')).toEqual(['note']);
+  });
+
+  it('should tolerate typos, prefixes and missing accents', () => {
+    expect(search('meetng')).toEqual(['note']);
+    expect(search('exam')).toEqual(['link']);
+    expect(search('méeting')).toEqual(['note']);
+  });
+
+  it('should not search the hidden content of masked items', () => {
+    expect(search('1234')).toEqual([]);
+  });
+
+  it('should match operators', () => {
+    expect(search('tag:#work')).toEqual(['link']);
+    expect(search('type:link')).toEqual(['link']);
+    expect(search('is:pinned')).toEqual(['note']);
+    expect(search('is:favorite')).toEqual(['secret']);
+    expect(search('in:notes')).toEqual(['note']);
+    expect(search('before:2026-01-01')).toEqual(['note']);
+    expect(search('after:2025-12-31')).toEqual(['link', 'secret']);
+  });
+
+  it('should match nested tags with their parent tag', () => {
+    const nested = makeItem('nested', { tags: ['#work/clientA'] });
+    expect(matchesSearch(nested, parseSearchQuery('tag:#work'))).toBe(true);
+    expect(matchesSearch(nested, parseSearchQuery('tag:#work/clientA'))).toBe(true);
+    expect(matchesSearch(nested, parseSearchQuery('tag:#work/clientB'))).toBe(false);
+  });
+
+  it('should combine negation, AND and OR', () => {
+    expect(search('-in:notes')).toEqual(['link', 'secret']);
+    expect(search('type:link OR is:pinned')).toEqual(['link', 'note']);
+    expect(search('in:clipboard -is:favorite')).toEqual(['link']);
+    expect(search('')).toEqual(['link', 'note', 'secret']);
+  });
+
+  it('should rank title matches, pinned and recent items first', () => {
+    const now = Date.parse(NOON);
+    const ranked = (query: string, list: ClipboardItem[]) => rankSearchResults(list, parseSearchQuery(query), now).map(i => i.id);
+    const body = makeItem('body', { content: 'budget draft', timestamp: NOON });
+    const title = makeItem('title', { title: 'Budget', content: 'draft', timestamp: NOON });
+    const old = makeItem('old', { content: 'budget draft', timestamp: new Date(2025, 0, 1).toISOString() });
+    const pinned = makeItem('pinned', { content: 'budget draft', isPinned: true, timestamp: new Date(2025, 0, 1).toISOString() });
+
+    expect(ranked('budget', [old, body, pinned, title])).toEqual(['title', 'pinned', 'body', 'old']);
+    // Without text there is nothing to rank by
+    expect(ranked('is:pinned OR -is:pinned', [old, body])).toEqual(['old', 'body']);
+  });
+
+  it('should separate live items from trash', () => {
+    const trashed = makeItem('gone', { isDeleted: true });
+    expect(inSearchScope(trashed, 'trash')).toBe(true);
+    expect(inSearchScope(trashed, 'live')).toBe(false);
+  });
+});
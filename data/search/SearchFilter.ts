@@ -0,0 +1,81 @@
+import { ClipboardItem } from '../../types';
+import { SearchNode, highlightTerms } from './SearchQuery';
+import { indexDocument, scoreText } from './FullTextIndex';
+import { isTagWithin } from '../tags/TagHierarchy';
+
+/**
+ * Search Filter
+ * Evaluates a parsed search query against items and ranks the results.
+ */
+
+/** Which part of the repository a search runs over */
+export type SearchScope = 'live' | 'trash';
+
+export const inSearchScope = (item: ClipboardItem, scope: SearchScope): boolean =>
+  scope === 'trash' ? !!item.isDeleted : !item.isDeleted;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Age in days at which the recency bonus has halved */
+const RECENCY_HALF_LIFE_DAYS = 7;
+const PIN_BONUS = 1;
+
+export const matchesSearch = (item: ClipboardItem, node: SearchNode | null): boolean => {
+  if (!node) return true;
+  switch (node.kind) {
+    case 'text':
+      return scoreText(indexDocument(item), node.text) > 0;
+    case 'tag':
+      // A parent tag also matches the tags nested below it
+      return item.tags.some(t => isTagWithin(t, node.tag));
+    case 'type':
+      return item.type === node.type;
+    case 'is':
+      return node.flag === 'pinned' ? item.isPinned : item.isFavorite;
+    case 'in':
+      return item.category === node.category;
+    case 'before':
+      return Date.parse(item.timestamp) < node.time;
+    case 'after':
+      return Date.parse(item.timestamp) >= node.time;
+    case 'not':
+      return !matchesSearch(item, node.node);
+    case 'and':
+      return node.nodes.every(n => matchesSearch(item, n));
+    case 'or':
+      return node.nodes.some(n => matchesSearch(item, n));
+  }
+};
+
+/** Text queries every match must satisfy, so an index can narrow the candidates up front */
+export const requiredTexts = (node: SearchNode | null): string[] => {
+  if (!node) return [];
+  if (node.kind === 'text') return [node.text];
+  if (node.kind === 'and') return node.nodes.flatMap(requiredTexts);
+  return [];
+};
+
+/** True if results of this query are ordered by relevance rather than by the list order */
+export const isRankedSearch = (node: SearchNode | null): boolean => highlightTerms(node).length > 0;
+
+/**
+ * How relevant a matching item is: text matches weighted by field (titles
+ * count most), plus a bonus for recent and for pinned items.
+ */
+export const relevance = (item: ClipboardItem, node: SearchNode | null, now: number = Date.now()): number => {
+  const document = indexDocument(item);
+  const text = highlightTerms(node).reduce((sum, term) => sum + scoreText(document, term), 0);
+  const ageDays = (now - Date.parse(item.timestamp)) / DAY_MS;
+  const recency = isNaN(ageDays) ? 0 : 1 / (1 + Math.max(0, ageDays) / RECENCY_HALF_LIFE_DAYS);
+  return text + recency + (item.isPinned ? PIN_BONUS : 0);
+};
+
+/** Order matches by relevance for text queries; other queries keep the given order */
+export const rankSearchResults = (
+  items: ClipboardItem[],
+  node: SearchNode | null,
+  now: number = Date.now()
+): ClipboardItem[] => {
+  if (!isRankedSearch(node)) return items;
+  const scores = new Map(items.map(item => [item.id, relevance(item, node, now)]));
+  return [...items].sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardType } from '../../types';
+import { allOf, highlightTerms, parseSearchQuery } from './SearchQuery';
+
+describe('SearchQuery', () => {
+  describe('parseSearchQuery', () => {
+    it('should treat blank input as matching everything', () => {
+      expect(parseSearchQuery('')).toBeNull();
+      expect(parseSearchQuery('   ')).toBeNull();
+    });
+
+    it('should AND plain words and keep quoted phrases together', () => {
+      expect(parseSearchQuery('meeting "room 4B"')).toEqual({
+        kind: 'and',
+        nodes: [{ kind: 'text', text: 'meeting' }, { kind: 'text', text: 'room 4B' }]
+      });
+    });
+
+    it('should parse operators', () => {
+      expect(parseSearchQuery('tag:work')).toEqual({ kind: 'tag', tag: '#work' });
+      expect(parseSearchQuery('tag:#work')).toEqual({ kind: 'tag', tag: '#work' });
+      expect(parseSearchQuery('type:LINK')).toEqual({ kind: 'type', type: ClipboardType.LINK });
+      expect(parseSearchQuery('is:pinned')).toEqual({ kind: 'is', flag: 'pinned' });
+      expect(parseSearchQuery('is:favorite')).toEqual({ kind: 'is', flag: 'favorite' });
+      expect(parseSearchQuery('in:notes')).toEqual({ kind: 'in', category: 'notes' });
+      expect(parseSearchQuery('tag:"#two words"')).toEqual({ kind: 'tag', tag: '#two words' });
+    });
+
+    it('should turn dates into local day boundaries', () => {
+      expect(parseSearchQuery('before:2026-01-01')).toEqual({ kind: 'before', time: new Date(2026, 0, 1).getTime() });
+      expect(parseSearchQuery('after:2026-01-31')).toEqual({ kind: 'after', time: new Date(2026, 1, 1).getTime() });
+    });
+
+    it('should search unknown operators and invalid values as text', () => {
+      expect(parseSearchQuery('https://example.com')).toEqual({ kind: 'text', text: 'https://example.com' });
+      expect(parseSearchQuery('type:video')).toEqual({ kind: 'text', text: 'type:video' });
+      expect(parseSearchQuery('before:2026-02-30')).toEqual({ kind: 'text', text: 'before:2026-02-30' });
+    });
+
+    it('should negate words, phrases and operators', () => {
+      expect(parseSearchQuery('-draft -"old copy" -is:pinned')).toEqual({
+        kind: 'and',
+        nodes: [
+          { kind: 'not', node: { kind: 'text', text: 'draft' } },
+          { kind: 'not', node: { kind: 'text', text: 'old copy' } },
+          { kind: 'not', node: { kind: 'is', flag: 'pinned' } }
+        ]
+      });
+      // A lone dash is just text
+      expect(parseSearchQuery('a - b')).toMatchObject({ nodes: [{ text: 'a' }, { text: '-' }, { text: 'b' }] });
+    });
+
+    it('should bind OR weaker than AND and ignore dangling ORs', () => {
+      expect(parseSearchQuery('type:link OR type:phone in:notes')).toEqual({
+        kind: 'or',
+        nodes: [
+          { kind: 'type', type: ClipboardType.LINK },
+          { kind: 'and', nodes: [{ kind: 'type', type: ClipboardType.PHONE }, { kind: 'in', category: 'notes' }] }
+        ]
+      });
+      expect(parseSearchQuery('OR cats OR')).toEqual({ kind: 'text', text: 'cats' });
+      expect(parseSearchQuery('cats or dogs')).toMatchObject({ kind: 'and' });
+    });
+  });
+
+  describe('allOf', () => {
+    it('should drop missing parts', () => {
+      expect(allOf(null, null)).toBeNull();
+      expect(allOf({ kind: 'is', flag: 'pinned' }, null)).toEqual({ kind: 'is', flag: 'pinned' });
+    });
+  });
+
+  describe('highlightTerms', () => {
+    it('should return only the positive text terms', () => {
+      expect(highlightTerms(parseSearchQuery('alpha "beta gamma" -delta tag:x OR epsilon'))).toEqual(['alpha', 'beta gamma', 'epsilon']);
+    });
+  });
+});
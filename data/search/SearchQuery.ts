@@ -0,0 +1,180 @@
+import { ClipboardItem, ClipboardType } from '../../types';
+
+/**
+ * Search Query Language
+ * Parses what the user types into a search box into a filter tree.
+ *
+ *   meeting notes          both words, anywhere in the item
+ *   "meeting notes"        the exact phrase
+ *   tag:#work  type:link   operators (also is:pinned, is:favorite, in:notes,
+ *   before:2026-01-01      before:/after: with a YYYY-MM-DD date)
+ *   -draft                 negation, also for operators and phrases
+ *   link OR phone          either side; binds weaker than the implicit AND
+ *
+ * Operators with an unknown name or an invalid value are searched as text.
+ */
+
+export type SearchFlag = 'pinned' | 'favorite';
+
+export type SearchNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'type'; type: ClipboardType }
+  | { kind: 'is'; flag: SearchFlag }
+  | { kind: 'in'; category: ClipboardItem['category'] }
+  /** Items captured before `time` (epoch ms) */
+  | { kind: 'before'; time: number }
+  /** Items captured at or after `time` (epoch ms) */
+  | { kind: 'after'; time: number }
+  | { kind: 'not'; node: SearchNode }
+  | { kind: 'and'; nodes: SearchNode[] }
+  | { kind: 'or'; nodes: SearchNode[] };
+
+interface Token {
+  key?: string;
+  value: string;
+  negated: boolean;
+  quoted: boolean;
+}
+
+const FLAGS: SearchFlag[] = ['pinned', 'favorite'];
+const CATEGORIES: ClipboardItem['category'][] = ['clipboard', 'notes'];
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Local midnight of a YYYY-MM-DD date, `dayOffset` days later; null if it isn't a real date */
+export const startOfDay = (value: string, dayOffset: number = 0): number | null => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const date = new Date(year, month, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) return null;
+  date.setDate(date.getDate() + dayOffset);
+  return date.getTime();
+};
+
+const readQuoted = (input: string, start: number): [string, number] => {
+  const end = input.indexOf('"', start + 1);
+  return end === -1
+    ? [input.slice(start + 1), input.length]
+    : [input.slice(start + 1, end), end + 1];
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    if (input[i] === '"') {
+      const [value, next] = readQuoted(input, i);
+      tokens.push({ value, negated, quoted: true });
+      i = next;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/\s/.test(input[end]) && input[end] !== '"') end++;
+    const word = input.slice(i, end);
+    const colon = word.indexOf(':');
+
+    // key:"quoted value"
+    if (colon > 0 && colon === word.length - 1 && input[end] === '"') {
+      const [value, next] = readQuoted(input, end);
+      tokens.push({ key: word.slice(0, colon).toLowerCase(), value, negated, quoted: true });
+      i = next;
+      continue;
+    }
+
+    tokens.push(colon > 0
+      ? { key: word.slice(0, colon).toLowerCase(), value: word.slice(colon + 1), negated, quoted: false }
+      : { value: word, negated, quoted: false });
+    i = end;
+  }
+  return tokens;
+};
+
+/** The operator a token stands for, or null if it should be searched as text */
+const toOperator = ({ key, value }: Token): SearchNode | null => {
+  const lower = value.toLowerCase();
+  switch (key) {
+    case 'tag': {
+      const tag = value.replace(/^#+/, '');
+      return tag ? { kind: 'tag', tag: `#${tag}` } : null;
+    }
+    case 'type': {
+      const type = Object.values(ClipboardType).find(t => t.toLowerCase() === lower);
+      return type ? { kind: 'type', type } : null;
+    }
+    case 'is':
+      return FLAGS.includes(lower as SearchFlag) ? { kind: 'is', flag: lower as SearchFlag } : null;
+    case 'in':
+      return CATEGORIES.includes(lower as ClipboardItem['category'])
+        ? { kind: 'in', category: lower as ClipboardItem['category'] }
+        : null;
+    case 'before': {
+      const time = startOfDay(value);
+      return time === null ? null : { kind: 'before', time };
+    }
+    case 'after': {
+      // After a date means from the following day on
+      const time = startOfDay(value, 1);
+      return time === null ? null : { kind: 'after', time };
+    }
+    default:
+      return null;
+  }
+};
+
+const toNode = (token: Token): SearchNode | null => {
+  const operator = token.key ? toOperator(token) : null;
+  const text = token.key && !operator ? `${token.key}:${token.value}` : token.value;
+  const node: SearchNode | null = operator ?? (text ? { kind: 'text', text } : null);
+  if (!node) return null;
+  return token.negated ? { kind: 'not', node } : node;
+};
+
+/** Combine nodes with AND, dropping empty parts and flattening nested ANDs; null matches everything */
+export const allOf = (...nodes: (SearchNode | null)[]): SearchNode | null => {
+  const present = nodes.flatMap((n): SearchNode[] => (n === null ? [] : n.kind === 'and' ? n.nodes : [n]));
+  if (present.length === 0) return null;
+  return present.length === 1 ? present[0] : { kind: 'and', nodes: present };
+};
+
+/** Parse a search box query; blank input gives null, which matches every item */
+export const parseSearchQuery = (input: string): SearchNode | null => {
+  const groups: SearchNode[][] = [[]];
+  tokenize(input).forEach(token => {
+    if (!token.key && !token.quoted && !token.negated && token.value === 'OR') {
+      groups.push([]);
+      return;
+    }
+    const node = toNode(token);
+    if (node) groups[groups.length - 1].push(node);
+  });
+
+  const alternatives = groups
+    .map(group => allOf(...group))
+    .filter((n): n is SearchNode => n !== null);
+  if (alternatives.length === 0) return null;
+  return alternatives.length === 1 ? alternatives[0] : { kind: 'or', nodes: alternatives };
+};
+
+/** Words and phrases the query looks for, for highlighting matches; negated text is left out */
+export const highlightTerms = (node: SearchNode | null): string[] => {
+  if (!node) return [];
+  switch (node.kind) {
+    case 'text':
+      return [node.text];
+    case 'and':
+    case 'or':
+      return node.nodes.flatMap(highlightTerms);
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { SimilarityIndex } from './SimilarityIndex';
+import { contentTerms, cosineSimilarity } from './TermVectors';
+import { makeItem } from '../../__tests__/fixtures';
+
+const items = [
+  makeItem('a', { content: 'Sourdough starter feeding schedule: flour and water twice a day' }),
+  makeItem('b', { content: 'Sourdough bread recipe, feed the starter the night before' }),
+  makeItem('c', { content: 'Flight booking confirmation for Lisbon' }),
+  makeItem('d', { content: 'Hotel in Lisbon near the flight arrival' })
+];
+
+describe('SimilarityIndex', () => {
+  it('should keep only meaningful words', () => {
+    expect(contentTerms(makeItem('x', { content: 'The 2 cats and THE dog: 2024', title: 'Pets' }))).toEqual(['pets', 'cats', 'dog']);
+    expect(contentTerms(makeItem('x', { content: 'pin 4711', displayContent: 'pin ****' }))).toEqual(['pin']);
+    expect(cosineSimilarity(new Map([['a', 1]]), new Map())).toBe(0);
+  });
+
+  it('should rank items about the same topic first', () => {
+    const index = new SimilarityIndex();
+    index.rebuild(items);
+    expect(index.similar('a', 5).map(s => s.id)).toEqual(['b']);
+    expect(index.similar('c', 5).map(s => s.id)).toEqual(['d']);
+    expect(index.similar('missing', 5)).toEqual([]);
+  });
+
+  it('should respect the filter and limit', () => {
+    const index = new SimilarityIndex();
+    index.rebuild([...items, makeItem('e', { content: 'Sourdough starter tips' })]);
+    expect(index.similar('a', 1)).toHaveLength(1);
+    expect(index.similar('a', 5, id => id !== 'b').map(s => s.id)).toEqual(['e']);
+  });
+
+  it('should follow repository changes', () => {
+    const index = new SimilarityIndex();
+    index.rebuild(items);
+
+    index.apply({ type: 'updated', items: [makeItem('b', { content: 'Lisbon flight delayed' })] }, []);
+    expect(index.similar('a', 5)).toEqual([]);
+    expect(index.similar('c', 5).map(s => s.id)).toContain('b');
+
+    index.apply({ type: 'deleted', ids: ['d'], permanent: true, items: [] }, []);
+    expect(index.similar('c', 5).map(s => s.id)).toEqual(['b']);
+    expect(index.size).toBe(3);
+
+    index.apply({ type: 'reset' }, [items[0]]);
+    expect(index.size).toBe(1);
+  });
+});
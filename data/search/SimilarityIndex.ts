@@ -0,0 +1,109 @@
+import { ClipboardItem } from '../../types';
+import { RepositoryChange } from '../repository/RepositoryChange';
+import {
+  TermVector,
+  contentTerms,
+  cosineSimilarity,
+  inverseDocumentFrequency,
+  termCounts,
+  tfidfVector
+} from './TermVectors';
+
+/**
+ * Similarity Index
+ * Term counts of every item plus the document frequency of every term, kept
+ * up to date change by change, so items similar to a given one can be found
+ * without re-reading the whole corpus. Vectors are weighted at query time
+ * since IDF shifts with every change.
+ */
+
+export interface SimilarItem {
+  id: string;
+  /** Cosine similarity of the TF-IDF vectors, 0..1 */
+  score: number;
+}
+
+/** Below this two items merely share a common word or two */
+export const MIN_RELATED_SIMILARITY = 0.15;
+
+export class SimilarityIndex {
+  private documents = new Map<string, Map<string, number>>();
+  private documentFrequency = new Map<string, number>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  rebuild(items: ClipboardItem[]) {
+    this.documents.clear();
+    this.documentFrequency.clear();
+    items.forEach(item => this.upsert(item));
+  }
+
+  upsert(item: ClipboardItem) {
+    this.remove(item.id);
+    const counts = termCounts(contentTerms(item));
+    this.documents.set(item.id, counts);
+    counts.forEach((_, term) => this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1));
+  }
+
+  remove(id: string) {
+    const counts = this.documents.get(id);
+    if (!counts) return;
+    this.documents.delete(id);
+    counts.forEach((_, term) => {
+      const frequency = (this.documentFrequency.get(term) || 0) - 1;
+      if (frequency > 0) this.documentFrequency.set(term, frequency);
+      else this.documentFrequency.delete(term);
+    });
+  }
+
+  /** Keep the index in step with a repository change; `items` is the state after it */
+  apply(change: RepositoryChange, items: ClipboardItem[]) {
+    switch (change.type) {
+      case 'added':
+      case 'updated':
+      case 'restored':
+        change.items.forEach(item => this.upsert(item));
+        break;
+      case 'deleted':
+        if (change.permanent) change.ids.forEach(id => this.remove(id));
+        else change.items.forEach(item => this.upsert(item));
+        break;
+      case 'reset':
+        this.rebuild(items);
+        break;
+    }
+  }
+
+  private vector(id: string): TermVector {
+    const idf = (term: string) => inverseDocumentFrequency(this.documents.size, this.documentFrequency.get(term) || 0);
+    return tfidfVector(this.documents.get(id) ?? new Map(), idf);
+  }
+
+  /**
+   * The documents most similar to `id` among those passing `accept`, best
+   * first. Only documents sharing at least one term are scored.
+   */
+  similar(id: string, limit: number, accept: (id: string) => boolean = () => true): SimilarItem[] {
+    const counts = this.documents.get(id);
+    if (!counts || counts.size === 0) return [];
+    const target = this.vector(id);
+
+    const results: SimilarItem[] = [];
+    this.documents.forEach((other, otherId) => {
+      if (otherId === id || !accept(otherId)) return;
+      let shares = false;
+      for (const term of counts.keys()) {
+        if (other.has(term)) {
+          shares = true;
+          break;
+        }
+      }
+      if (!shares) return;
+      const score = cosineSimilarity(target, this.vector(otherId));
+      if (score >= MIN_RELATED_SIMILARITY) results.push({ id: otherId, score });
+    });
+    return results.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id)).slice(0, limit);
+  }
+}
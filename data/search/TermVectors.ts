@@ -0,0 +1,60 @@
+import { ClipboardItem } from '../../types';
+import { tokenize } from '../../util/TextTokenizer';
+
+/**
+ * Term Vectors
+ * TF-IDF vectors over the words of items, for comparing what items are
+ * about rather than matching a query. Only words that carry meaning count:
+ * no stop words, bare numbers or very short words.
+ */
+
+export type TermVector = Map<string, number>;
+
+export const MIN_TERM_LENGTH = 3;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'have', 'him', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'who',
+  'did', 'get', 'got', 'let', 'say', 'she', 'too', 'use', 'with', 'this', 'that', 'from', 'they', 'them',
+  'then', 'than', 'there', 'their', 'what', 'when', 'where', 'which', 'will', 'would', 'could', 'should',
+  'been', 'were', 'into', 'just', 'like', 'also', 'only', 'some', 'such', 'very', 'more', 'most', 'other',
+  'about', 'after', 'before', 'here', 'over', 'these', 'those', 'while', 'because', 'being', 'does', 'each',
+  'http', 'https', 'www', 'com', 'org', 'net', 'html'
+]);
+
+/** Meaningful words of an item's title and visible text; masked items only expose what they display */
+export const contentTerms = (item: ClipboardItem): string[] =>
+  tokenize([item.title || '', item.displayContent ?? item.content].join('\n')).filter(
+    term => term.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(term) && !/^\d+$/.test(term)
+  );
+
+export const termCounts = (terms: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+  return counts;
+};
+
+/** Smoothed inverse document frequency; terms unseen in the corpus weigh the most */
+export const inverseDocumentFrequency = (documentCount: number, documentFrequency: number): number =>
+  Math.log((documentCount + 1) / (documentFrequency + 1)) + 1;
+
+/** Sublinear TF times IDF, so a word repeated ten times doesn't drown out the rest */
+export const tfidfVector = (counts: Map<string, number>, idf: (term: string) => number): TermVector => {
+  const vector: TermVector = new Map();
+  counts.forEach((count, term) => vector.set(term, (1 + Math.log(count)) * idf(term)));
+  return vector;
+};
+
+export const vectorNorm = (vector: TermVector): number =>
+  Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0));
+
+/** Cosine similarity, 0 when either vector is empty */
+export const cosineSimilarity = (a: TermVector, b: TermVector): number => {
+  const lengths = vectorNorm(a) * vectorNorm(b);
+  if (lengths === 0) return 0;
+  // Iterate the smaller vector
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => { dot += weight * (large.get(term) || 0); });
+  return dot / lengths;
+};
@@ -0,0 +1,100 @@
+import { ClipboardItem, ItemRevision } from '../../types';
+import { StorageAdapter, StorageBatch, StorageMetaKey } from './StorageAdapter';
+
+const DB_NAME = 'clipboard_max';
+const DB_VERSION = 2;
+const ITEMS_STORE = 'items';
+const META_STORE = 'meta';
+const REVISIONS_STORE = 'revisions';
+
+/** Wrap an IDBRequest in a promise */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Resolve once a transaction has been durably committed */
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * IndexedDB backend for the web build.
+ * Items live in an object store keyed by id; order, tags and layout live in a
+ * small key/value meta store. Revision lists are kept per item id in a third
+ * store so loading the item list never pulls in old versions.
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly name = 'indexeddb';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+            db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+          }
+          if (!db.objectStoreNames.contains(REVISIONS_STORE)) {
+            db.createObjectStore(REVISIONS_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async loadItems(): Promise<ClipboardItem[]> {
+    const db = await this.open();
+    const tx = db.transaction(ITEMS_STORE, 'readonly');
+    return promisify(tx.objectStore(ITEMS_STORE).getAll());
+  }
+
+  async loadMeta<T>(key: StorageMetaKey): Promise<T | null> {
+    const db = await this.open();
+    const tx = db.transaction(META_STORE, 'readonly');
+    const value = await promisify(tx.objectStore(META_STORE).get(key));
+    return value === undefined ? null : value;
+  }
+
+  async loadRevisions(id: string): Promise<ItemRevision[]> {
+    const db = await this.open();
+    const tx = db.transaction(REVISIONS_STORE, 'readonly');
+    const value = await promisify(tx.objectStore(REVISIONS_STORE).get(id));
+    return value || [];
+  }
+
+  async commit(batch: StorageBatch): Promise<void> {
+    const db = await this.open();
+    // Every store in one transaction: IndexedDB rolls the whole batch back if anything fails
+    const tx = db.transaction([ITEMS_STORE, META_STORE, REVISIONS_STORE], 'readwrite');
+    const items = tx.objectStore(ITEMS_STORE);
+    const meta = tx.objectStore(META_STORE);
+    const revisions = tx.objectStore(REVISIONS_STORE);
+
+    if (batch.clear) {
+      items.clear();
+      meta.clear();
+      revisions.clear();
+    }
+    (batch.remove || []).forEach(id => items.delete(id));
+    (batch.put || []).forEach(item => items.put(item));
+    Object.entries(batch.meta || {}).forEach(([key, value]) => meta.put(value, key));
+    Object.entries(batch.revisions || {}).forEach(([id, list]) =>
+      list ? revisions.put(list, id) : revisions.delete(id)
+    );
+
+    await transactionDone(tx);
+  }
+}
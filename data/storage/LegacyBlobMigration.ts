@@ -0,0 +1,40 @@
+import { Preferences } from '@capacitor/preferences';
+import { ClipboardItem } from '../../types';
+import { StorageAdapter, STORAGE_LAYOUT_VERSION } from './StorageAdapter';
+
+/** Keys used by the original single-blob layout */
+export const LEGACY_ITEMS_KEY = 'clipboard_max_data';
+export const LEGACY_TAGS_KEY = 'clipboard_max_tags';
+
+/**
+ * Move data from the legacy `clipboard_max_data` / `clipboard_max_tags`
+ * Preferences blobs into the record-per-item layout of the given adapter.
+ * The legacy keys are removed only after every record has been written.
+ * @returns true if a legacy blob was found and migrated
+ */
+export const migrateLegacyBlob = async (adapter: StorageAdapter): Promise<boolean> => {
+  const { value: storedItems } = await Preferences.get({ key: LEGACY_ITEMS_KEY });
+  if (!storedItems) return false;
+
+  const items: ClipboardItem[] = JSON.parse(storedItems);
+  const { value: storedTags } = await Preferences.get({ key: LEGACY_TAGS_KEY });
+
+  const tags = new Set<string>(storedTags ? JSON.parse(storedTags) : []);
+  if (!storedTags) {
+    // Rebuild tags from items if not found
+    items.forEach(item => (item.tags || []).forEach(t => tags.add(t)));
+  }
+
+  await adapter.commit({
+    put: items,
+    meta: {
+      order: items.map(i => i.id),
+      tags: Array.from(tags),
+      layout: STORAGE_LAYOUT_VERSION
+    }
+  });
+
+  await Preferences.remove({ key: LEGACY_ITEMS_KEY });
+  await Preferences.remove({ key: LEGACY_TAGS_KEY });
+  return true;
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PreferencesStorageAdapter } from './PreferencesStorageAdapter';
+import { makeItem } from '../../__tests__/fixtures';
+
+describe('PreferencesStorageAdapter', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should commit items and meta together', async () => {
+    const adapter = new PreferencesStorageAdapter();
+    await adapter.commit({ put: [makeItem('1'), makeItem('2')], meta: { order: ['2', '1'], tags: ['#a'] } });
+
+    const items = await adapter.loadItems();
+    expect(items.map(i => i.id)).toEqual(['2', '1']);
+    expect(await adapter.loadMeta('tags')).toEqual(['#a']);
+    expect(localStorage.getItem('CapacitorStorage.clipboard_max:journal')).toBeNull();
+  });
+
+  it('should replay a journal left behind by an interrupted commit', async () => {
+    // Simulate a crash after the journal was written but before it was applied
+    localStorage.setItem('CapacitorStorage.clipboard_max:journal', JSON.stringify({
+      put: [makeItem('1')],
+      remove: [],
+      setMeta: { order: ['1'], tags: ['#a'] },
+      removeMeta: []
+    }));
+
+    const adapter = new PreferencesStorageAdapter();
+    expect((await adapter.loadItems()).map(i => i.id)).toEqual(['1']);
+    expect(await adapter.loadMeta('tags')).toEqual(['#a']);
+    expect(localStorage.getItem('CapacitorStorage.clipboard_max:journal')).toBeNull();
+  });
+
+  it('should drop every record and meta value on clear', async () => {
+    const adapter = new PreferencesStorageAdapter();
+    await adapter.commit({ put: [makeItem('1')], meta: { order: ['1'], tags: ['#a'], layout: 1 } });
+    await adapter.commit({ clear: true, meta: { order: [] } });
+
+    expect(await adapter.loadItems()).toEqual([]);
+    expect(await adapter.loadMeta('tags')).toBeNull();
+    expect(await adapter.loadMeta('layout')).toBeNull();
+    expect(localStorage.getItem('CapacitorStorage.clipboard_max:item:1')).toBeNull();
+  });
+
+  it('should store revision lists per item and drop them on clear', async () => {
+    const adapter = new PreferencesStorageAdapter();
+    const revision = { id: 'r1', content: 'old', tags: [], timestamp: new Date().toISOString() };
+    await adapter.commit({ put: [makeItem('1')], meta: { order: ['1'] }, revisions: { '1': [revision] } });
+    expect(await adapter.loadRevisions('1')).toEqual([revision]);
+
+    await adapter.commit({ clear: true, meta: { order: [] } });
+    expect(await adapter.loadRevisions('1')).toEqual([]);
+    expect(localStorage.getItem('CapacitorStorage.clipboard_max:revisions:1')).toBeNull();
+  });
+});
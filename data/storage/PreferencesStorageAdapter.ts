@@ -0,0 +1,129 @@
+import { Preferences } from '@capacitor/preferences';
+import { ClipboardItem, ItemRevision } from '../../types';
+import { StorageAdapter, StorageBatch, StorageMetaKey, STORAGE_META_KEYS } from './StorageAdapter';
+
+const KEY_PREFIX = 'clipboard_max:';
+const ITEM_PREFIX = `${KEY_PREFIX}item:`;
+const REVISIONS_PREFIX = `${KEY_PREFIX}revisions:`;
+const JOURNAL_KEY = `${KEY_PREFIX}journal`;
+
+/** Fully resolved batch as written to the journal before it is applied */
+interface JournalEntry {
+  put: ClipboardItem[];
+  remove: string[];
+  setMeta: Partial<Record<StorageMetaKey, unknown>>;
+  removeMeta: StorageMetaKey[];
+  /** Optional so journals written before revisions existed still replay */
+  revisions?: Record<string, ItemRevision[] | null>;
+}
+
+/**
+ * Record-per-item layout on top of Capacitor Preferences.
+ * Used on native platforms and wherever IndexedDB is unavailable.
+ *
+ * Preferences cannot reliably enumerate its keys on every platform, so the
+ * persisted 'order' list doubles as the index of stored item records (and of
+ * their revision lists).
+ *
+ * Preferences has no transactions, so batches go through a write-ahead
+ * journal: the batch is stored under one key, applied, then the journal is
+ * removed. A journal left behind by a crash is replayed before the next read.
+ */
+export class PreferencesStorageAdapter implements StorageAdapter {
+  readonly name = 'preferences';
+  private recovery: Promise<void> | null = null;
+
+  private recover(): Promise<void> {
+    if (!this.recovery) {
+      this.recovery = (async () => {
+        const { value } = await Preferences.get({ key: JOURNAL_KEY });
+        if (!value) return;
+        try {
+          await this.apply(JSON.parse(value));
+        } catch (e) {
+          console.error("Failed to replay storage journal", e);
+        }
+        await Preferences.remove({ key: JOURNAL_KEY });
+      })();
+    }
+    return this.recovery;
+  }
+
+  async loadItems(): Promise<ClipboardItem[]> {
+    const ids = (await this.loadMeta<string[]>('order')) || [];
+    const items: ClipboardItem[] = [];
+    for (const id of ids) {
+      const { value } = await Preferences.get({ key: ITEM_PREFIX + id });
+      if (!value) continue;
+      try {
+        items.push(JSON.parse(value));
+      } catch (e) {
+        console.warn(`Skipping unreadable record ${id}`, e);
+      }
+    }
+    return items;
+  }
+
+  async loadMeta<T>(key: StorageMetaKey): Promise<T | null> {
+    await this.recover();
+    const { value } = await Preferences.get({ key: KEY_PREFIX + key });
+    return value ? JSON.parse(value) : null;
+  }
+
+  async loadRevisions(id: string): Promise<ItemRevision[]> {
+    await this.recover();
+    const { value } = await Preferences.get({ key: REVISIONS_PREFIX + id });
+    if (!value) return [];
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      console.warn(`Skipping unreadable revisions of ${id}`, e);
+      return [];
+    }
+  }
+
+  async commit(batch: StorageBatch): Promise<void> {
+    await this.recover();
+
+    const entry: JournalEntry = {
+      put: batch.put || [],
+      remove: [...(batch.remove || [])],
+      setMeta: batch.meta || {},
+      removeMeta: [],
+      revisions: { ...batch.revisions }
+    };
+    if (batch.clear) {
+      // Resolve "everything" now: a replay must not depend on an order list this batch rewrites
+      const ids = (await this.loadMeta<string[]>('order')) || [];
+      entry.remove.push(...ids);
+      entry.removeMeta = STORAGE_META_KEYS.filter(key => !(key in entry.setMeta));
+      ids.forEach(id => {
+        if (!(id in entry.revisions!)) entry.revisions![id] = null;
+      });
+    }
+
+    await Preferences.set({ key: JOURNAL_KEY, value: JSON.stringify(entry) });
+    await this.apply(entry);
+    await Preferences.remove({ key: JOURNAL_KEY });
+  }
+
+  /** Apply a journal entry. Every step is idempotent, so replaying is safe */
+  private async apply(entry: JournalEntry): Promise<void> {
+    for (const id of entry.remove) {
+      await Preferences.remove({ key: ITEM_PREFIX + id });
+    }
+    for (const item of entry.put) {
+      await Preferences.set({ key: ITEM_PREFIX + item.id, value: JSON.stringify(item) });
+    }
+    for (const key of entry.removeMeta) {
+      await Preferences.remove({ key: KEY_PREFIX + key });
+    }
+    for (const [key, value] of Object.entries(entry.setMeta)) {
+      await Preferences.set({ key: KEY_PREFIX + key, value: JSON.stringify(value) });
+    }
+    for (const [id, list] of Object.entries(entry.revisions || {})) {
+      if (list) await Preferences.set({ key: REVISIONS_PREFIX + id, value: JSON.stringify(list) });
+      else await Preferences.remove({ key: REVISIONS_PREFIX + id });
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { ClipboardItem, ItemRevision } from '../../types';
+
+/**
+ * Storage Adapter
+ * Persistence backend used by ClipboardRepository. Items are stored one record
+ * per item so a mutation only rewrites the records it actually touched.
+ */
+
+/** Well-known meta keys kept next to the item records */
+export type StorageMetaKey = 'order' | 'tags' | 'tagMeta' | 'collections' | 'layout' | 'schema' | 'vault';
+
+/**
+ * One unit of work. A batch is applied completely or not at all, so item
+ * records and the order/tags meta can never drift apart after a crash.
+ */
+export interface StorageBatch {
+  /** Drop every record and meta value before applying the rest of the batch */
+  clear?: boolean;
+  put?: ClipboardItem[];
+  remove?: string[];
+  meta?: Partial<Record<StorageMetaKey, unknown>>;
+  /** Replace an item's revision list; null drops it */
+  revisions?: Record<string, ItemRevision[] | null>;
+}
+
+export interface StorageAdapter {
+  /** Human readable backend name, used in logs */
+  readonly name: string;
+
+  /** Load every stored item record (in no particular order) */
+  loadItems(): Promise<ClipboardItem[]>;
+
+  /** Read a meta value, or null when it was never written */
+  loadMeta<T>(key: StorageMetaKey): Promise<T | null>;
+
+  /** Load the stored revisions of one item, newest first */
+  loadRevisions(id: string): Promise<ItemRevision[]>;
+
+  /** Atomically apply a batch of writes */
+  commit(batch: StorageBatch): Promise<void>;
+}
+
+/** Version of the record-per-item layout, stored under the 'layout' meta key */
+export const STORAGE_LAYOUT_VERSION = 1;
+
+/** Every meta key, used when a batch clears the store */
+export const STORAGE_META_KEYS: StorageMetaKey[] = ['order', 'tags', 'tagMeta', 'collections', 'layout', 'schema', 'vault'];
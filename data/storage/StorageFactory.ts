@@ -0,0 +1,16 @@
+import { Capacitor } from '@capacitor/core';
+import { StorageAdapter } from './StorageAdapter';
+import { IndexedDBStorageAdapter } from './IndexedDBStorageAdapter';
+import { PreferencesStorageAdapter } from './PreferencesStorageAdapter';
+
+/**
+ * Pick the storage backend for the current platform.
+ * Web builds use IndexedDB; native builds (and environments without
+ * IndexedDB) fall back to the Preferences record-per-item layout.
+ */
+export const createStorageAdapter = (): StorageAdapter => {
+  if (!Capacitor.isNativePlatform() && typeof indexedDB !== 'undefined') {
+    return new IndexedDBStorageAdapter();
+  }
+  return new PreferencesStorageAdapter();
+};
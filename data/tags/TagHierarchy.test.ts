@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTagTree,
+  flattenTagTree,
+  isTagWithin,
+  moveTag,
+  parentTag,
+  tagAncestors,
+  tagLeafName,
+  withAncestors
+} from './TagHierarchy';
+
+describe('TagHierarchy', () => {
+  it('should split nested tags into parents and leaf names', () => {
+    expect(parentTag('#work/clientA/invoices')).toBe('#work/clientA');
+    expect(parentTag('#work')).toBeNull();
+    expect(tagAncestors('#work/clientA/invoices')).toEqual(['#work', '#work/clientA']);
+    expect(tagLeafName('#work/clientA')).toBe('clientA');
+  });
+
+  it('should treat a tag as within itself and its ancestors only', () => {
+    expect(isTagWithin('#work/clientA', '#work')).toBe(true);
+    expect(isTagWithin('#Work', '#work')).toBe(true);
+    expect(isTagWithin('#workshop', '#work')).toBe(false);
+    expect(isTagWithin('#work', '#work/clientA')).toBe(false);
+  });
+
+  it('should add implied parents', () => {
+    expect(Array.from(withAncestors(['#a/b/c', '#d']))).toEqual(['#a', '#a/b', '#a/b/c', '#d']);
+  });
+
+  it('should move nested tags along with their parent', () => {
+    expect(moveTag('#work', '#work', '#job')).toBe('#job');
+    expect(moveTag('#work/clientA', '#work', '#job')).toBe('#job/clientA');
+    expect(moveTag('#home', '#work', '#job')).toBe('#home');
+    // Moving into its own child leaves that child where it is
+    expect(moveTag('#work/archive', '#work', '#work/archive')).toBe('#work/archive');
+  });
+
+  it('should build a sorted tree honoring sort order', () => {
+    const tree = buildTagTree(['#work/b', '#work/a', '#home'], { '#work': { sortOrder: 0 } });
+    expect(flattenTagTree(tree).map(node => `${node.depth}:${node.name}`)).toEqual(['0:#work', '1:a', '1:b', '0:#home']);
+  });
+});
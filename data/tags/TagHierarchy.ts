@@ -0,0 +1,97 @@
+import { TagMetadata } from './TagMetadata';
+
+/**
+ * Tag Hierarchy
+ * Tags nest with '/': `#work/clientA/invoices` is a child of `#work/clientA`,
+ * which is a child of `#work`. A parent does not have to be stored anywhere;
+ * it exists as soon as one of its descendants does.
+ */
+
+export const TAG_SEPARATOR = '/';
+
+/** `#work/clientA` → `#work`; null for top-level tags */
+export const parentTag = (tag: string): string | null => {
+  const index = tag.lastIndexOf(TAG_SEPARATOR);
+  return index > 0 ? tag.slice(0, index) : null;
+};
+
+/** Every parent of a tag, outermost first */
+export const tagAncestors = (tag: string): string[] => {
+  const ancestors: string[] = [];
+  for (let parent = parentTag(tag); parent; parent = parentTag(parent)) ancestors.unshift(parent);
+  return ancestors;
+};
+
+/** The last path segment, which is all a nested tag shows under its parent */
+export const tagLeafName = (tag: string): string => tag.slice(tag.lastIndexOf(TAG_SEPARATOR) + 1);
+
+export const tagDepth = (tag: string): number => tagAncestors(tag).length;
+
+/** True if `tag` is `root` itself or nested anywhere below it (case-insensitive) */
+export const isTagWithin = (tag: string, root: string): boolean => {
+  const [t, r] = [tag.toLowerCase(), root.toLowerCase()];
+  return t === r || t.startsWith(r + TAG_SEPARATOR);
+};
+
+/** The given tags plus every implied parent, without duplicates */
+export const withAncestors = (tags: Iterable<string>): Set<string> => {
+  const result = new Set<string>();
+  for (const tag of tags) {
+    tagAncestors(tag).forEach(parent => result.add(parent));
+    result.add(tag);
+  }
+  return result;
+};
+
+/**
+ * Move a tag (and whatever is nested below it) from `from` to `to`:
+ * `#work/clientA` moved from `#work` to `#job` becomes `#job/clientA`.
+ * Tags outside `from`, or already inside `to`, are returned unchanged.
+ */
+export const moveTag = (tag: string, from: string, to: string): string => {
+  if (!isTagWithin(tag, from) || isTagWithin(tag, to)) return tag;
+  return to + tag.slice(from.length);
+};
+
+export interface TagNode {
+  tag: string;
+  /** Leaf name shown in the tree */
+  name: string;
+  depth: number;
+  children: TagNode[];
+}
+
+/** Order siblings by their sort order (unset last), then by name */
+const compareSiblings = (metadata: Record<string, TagMetadata>) => (a: TagNode, b: TagNode) => {
+  const [orderA, orderB] = [metadata[a.tag]?.sortOrder, metadata[b.tag]?.sortOrder];
+  if (orderA !== orderB) {
+    if (orderA === undefined) return 1;
+    if (orderB === undefined) return -1;
+    return orderA - orderB;
+  }
+  return a.name.localeCompare(b.name);
+};
+
+/** Arrange tags as a forest, adding any missing parents */
+export const buildTagTree = (tags: Iterable<string>, metadata: Record<string, TagMetadata> = {}): TagNode[] => {
+  const nodes = new Map<string, TagNode>();
+  const roots: TagNode[] = [];
+  // Sorted so every parent is created before its children
+  Array.from(withAncestors(tags)).sort((a, b) => tagDepth(a) - tagDepth(b)).forEach(tag => {
+    const node: TagNode = { tag, name: tagLeafName(tag), depth: tagDepth(tag), children: [] };
+    nodes.set(tag, node);
+    const parent = parentTag(tag);
+    (parent ? nodes.get(parent)!.children : roots).push(node);
+  });
+
+  const sortLevel = (level: TagNode[]) => {
+    level.sort(compareSiblings(metadata));
+    level.forEach(node => sortLevel(node.children));
+  };
+  sortLevel(roots);
+  return roots;
+};
+
+/** Depth-first listing of a tag tree, the order TagsScreen shows it in */
+export const flattenTagTree = (nodes: TagNode[]): TagNode[] =>
+  nodes.flatMap(node => [node, ...flattenTagTree(node.children)]);
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { cleanTagMetadata, parseTagMetadata } from './TagMetadata';
+
+describe('TagMetadata', () => {
+  it('should keep only well-formed, non-empty fields', () => {
+    expect(cleanTagMetadata({ color: ' #EF4444 ', icon: '', description: 'Client work', sortOrder: NaN })).toEqual({
+      color: '#EF4444',
+      description: 'Client work'
+    });
+    expect(cleanTagMetadata({ icon: '  ' })).toBeNull();
+  });
+
+  it('should drop malformed stored entries', () => {
+    expect(parseTagMetadata(['#a'])).toEqual({});
+    expect(parseTagMetadata({ '#a': { icon: '💼' }, '#b': 'red', '#c': {} })).toEqual({ '#a': { icon: '💼' } });
+  });
+});
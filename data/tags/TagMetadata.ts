@@ -0,0 +1,43 @@
+/**
+ * Tag Metadata
+ * Optional presentation details for a tag, stored next to the tag list and
+ * keyed by the tag itself.
+ */
+
+export interface TagMetadata {
+  /** CSS color used for the tag's chips */
+  color?: string;
+  /** Short symbol (usually an emoji) shown before the tag */
+  icon?: string;
+  description?: string;
+  /** Position among its siblings in TagsScreen; unset tags follow, by name */
+  sortOrder?: number;
+}
+
+/** Colors offered when editing a tag */
+export const TAG_COLORS = ['#D4AF37', '#EF4444', '#F97316', '#22C55E', '#0EA5E9', '#6366F1', '#A855F7', '#EC4899'];
+
+const MAX_ICON_LENGTH = 4;
+
+/** Keep only well-formed, non-empty fields; null if nothing is left */
+export const cleanTagMetadata = (raw: unknown): TagMetadata | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const stored = raw as Record<string, unknown>;
+  const metadata: TagMetadata = {};
+  if (typeof stored.color === 'string' && stored.color.trim()) metadata.color = stored.color.trim();
+  if (typeof stored.icon === 'string' && stored.icon.trim()) metadata.icon = Array.from(stored.icon.trim()).slice(0, MAX_ICON_LENGTH).join('');
+  if (typeof stored.description === 'string' && stored.description.trim()) metadata.description = stored.description.trim();
+  if (typeof stored.sortOrder === 'number' && Number.isFinite(stored.sortOrder)) metadata.sortOrder = stored.sortOrder;
+  return Object.keys(metadata).length > 0 ? metadata : null;
+};
+
+/** Validate the stored metadata map, dropping malformed entries */
+export const parseTagMetadata = (raw: unknown): Record<string, TagMetadata> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const result: Record<string, TagMetadata> = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([tag, value]) => {
+    const metadata = cleanTagMetadata(value);
+    if (metadata) result[tag] = metadata;
+  });
+  return result;
+};
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_TAG_LENGTH, normalizeTag, normalizeTagMetadata, normalizeTags } from './TagNormalization';
+
+describe('TagNormalization', () => {
+  it('should give every spelling of a tag the same form', () => {
+    expect(normalizeTag('#Work')).toBe('#work');
+    expect(normalizeTag('work')).toBe('#work');
+    expect(normalizeTag('  ##WORK ')).toBe('#work');
+  });
+
+  it('should replace spaces and drop disallowed characters', () => {
+    expect(normalizeTag('to do list')).toBe('#to-do-list');
+    expect(normalizeTag('🔥 hot!')).toBe('#hot');
+    expect(normalizeTag('Café_2026')).toBe('#café_2026');
+    expect(normalizeTag('🔥')).toBeNull();
+    expect(normalizeTag('#')).toBeNull();
+  });
+
+  it('should keep nesting and drop empty levels', () => {
+    expect(normalizeTag('Work / Client A//Invoices/')).toBe('#work/client-a/invoices');
+  });
+
+  it('should cap the length', () => {
+    const tag = normalizeTag('a'.repeat(100))!;
+    expect(tag.length).toBe(MAX_TAG_LENGTH);
+  });
+
+  it('should merge variants in lists and metadata', () => {
+    expect(normalizeTags(['#Work', 'work', '', '#home'])).toEqual(['#work', '#home']);
+    expect(normalizeTagMetadata({ '#Work': { color: 'red' }, 'work': { color: 'blue' }, '!!': { icon: 'x' } })).toEqual({
+      '#work': { color: 'red' }
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { TAG_SEPARATOR } from './TagHierarchy';
+import { TagMetadata } from './TagMetadata';
+
+/**
+ * Tag Normalization
+ * The one spelling every tag is stored in, so `#Work`, `work` and ` #work `
+ * are the same tag:
+ *
+ *   - always starts with '#'
+ *   - lowercase
+ *   - letters, digits, '-' and '_' only; spaces become '-', anything else
+ *     (punctuation, emoji) is dropped
+ *   - '/' separates nested tags; empty levels are dropped
+ *   - at most MAX_TAG_LENGTH characters including the '#'
+ */
+
+export const TAG_PREFIX = '#';
+export const MAX_TAG_LENGTH = 48;
+
+/** Tags the app adds by itself; they say where an item came from, not what it is about */
+export const SOURCE_TAGS = ['#synced', '#copy', '#merged'];
+
+const normalizeSegment = (segment: string): string =>
+  segment
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/** The canonical spelling of a tag; null if nothing valid is left of it */
+export const normalizeTag = (input: string): string | null => {
+  const body = input
+    .normalize('NFKC')
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .split(TAG_SEPARATOR)
+    .map(normalizeSegment)
+    .filter(Boolean)
+    .join(TAG_SEPARATOR)
+    .slice(0, MAX_TAG_LENGTH - TAG_PREFIX.length)
+    .replace(/[/-]+$/, '');
+  return body ? TAG_PREFIX + body : null;
+};
+
+/** Normalize a tag list, dropping invalid tags and the duplicates normalizing creates */
+export const normalizeTags = (inputs: Iterable<string>): string[] => {
+  const result = new Set<string>();
+  for (const input of inputs) {
+    if (typeof input !== 'string') continue;
+    const tag = normalizeTag(input);
+    if (tag) result.add(tag);
+  }
+  return Array.from(result);
+};
+
+/** Re-key tag metadata by normalized tag; when spellings collide the first one wins */
+export const normalizeTagMetadata = (metadata: Record<string, TagMetadata>): Record<string, TagMetadata> => {
+  const result: Record<string, TagMetadata> = {};
+  Object.entries(metadata).forEach(([tag, value]) => {
+    const normalized = normalizeTag(tag);
+    if (normalized && !result[normalized]) result[normalized] = value;
+  });
+  return result;
+};
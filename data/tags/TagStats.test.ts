@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { computeTagStats, sortTagStats } from './TagStats';
+import { makeItem } from '../../__tests__/fixtures';
+
+const items = [
+  makeItem('1', { tags: ['#work/clientA'], timestamp: '2026-03-01T10:00:00.000Z' }),
+  makeItem('2', { tags: ['#work', '#home'], timestamp: '2026-02-01T10:00:00.000Z' }),
+  makeItem('3', { tags: ['#home'], timestamp: '2026-03-05T10:00:00.000Z', isDeleted: true })
+];
+
+describe('TagStats', () => {
+  it('should count live items, including those of nested tags', () => {
+    expect(computeTagStats(['#work', '#work/clientA', '#home', '#idle'], items)).toEqual([
+      { tag: '#work', count: 2, lastUsed: '2026-03-01T10:00:00.000Z' },
+      { tag: '#work/clientA', count: 1, lastUsed: '2026-03-01T10:00:00.000Z' },
+      { tag: '#home', count: 1, lastUsed: '2026-02-01T10:00:00.000Z' },
+      { tag: '#idle', count: 0, lastUsed: null }
+    ]);
+  });
+
+  it('should sort by name, count and recency', () => {
+    const stats = computeTagStats(['#work/clientA', '#idle', '#home', '#work'], items);
+    expect(sortTagStats(stats, 'name').map(s => s.tag)).toEqual(['#home', '#idle', '#work', '#work/clientA']);
+    expect(sortTagStats(stats, 'count').map(s => s.tag)).toEqual(['#work', '#home', '#work/clientA', '#idle']);
+    expect(sortTagStats(stats, 'recent').map(s => s.tag)).toEqual(['#work', '#work/clientA', '#home', '#idle']);
+  });
+});
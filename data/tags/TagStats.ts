@@ -0,0 +1,43 @@
+import { ClipboardItem } from '../../types';
+import { isTagWithin } from './TagHierarchy';
+
+/**
+ * Tag Statistics
+ * How much each tag is used. Like a tag's own view, a parent tag counts the
+ * items of the tags nested below it.
+ */
+
+export interface TagStats {
+  tag: string;
+  /** Live items carrying the tag */
+  count: number;
+  /** Timestamp of the newest of those items; null if there are none */
+  lastUsed: string | null;
+}
+
+export type TagSortOption = 'name' | 'count' | 'recent';
+
+export const computeTagStats = (tags: string[], items: ClipboardItem[]): TagStats[] => {
+  const live = items.filter(item => !item.isDeleted);
+  return tags.map(tag => {
+    let count = 0;
+    let lastUsed: string | null = null;
+    live.forEach(item => {
+      if (!item.tags.some(t => isTagWithin(t, tag))) return;
+      count++;
+      if (lastUsed === null || Date.parse(item.timestamp) > Date.parse(lastUsed)) lastUsed = item.timestamp;
+    });
+    return { tag, count, lastUsed };
+  });
+};
+
+/** Most used or most recently used first; ties and 'name' go alphabetically */
+export const sortTagStats = (stats: TagStats[], option: TagSortOption): TagStats[] => {
+  const byName = (a: TagStats, b: TagStats) => a.tag.localeCompare(b.tag);
+  const recency = (s: TagStats) => (s.lastUsed ? Date.parse(s.lastUsed) : -Infinity);
+  return [...stats].sort((a, b) => {
+    if (option === 'count' && a.count !== b.count) return b.count - a.count;
+    if (option === 'recent' && recency(a) !== recency(b)) return recency(b) - recency(a);
+    return byName(a, b);
+  });
+};
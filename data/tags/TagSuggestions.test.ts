@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardType } from '../../types';
+import { suggestTags } from './TagSuggestions';
+import { makeItem } from '../../__tests__/fixtures';
+
+const corpus = [
+  makeItem('1', { content: 'Invoice 2041 for consulting, payment due in March', tags: ['#finance/invoices', '#synced'] }),
+  makeItem('2', { content: 'Invoice reminder: payment overdue', tags: ['#finance/invoices', '#synced'] }),
+  makeItem('3', { content: 'Pasta recipe with garlic, basil and tomato sauce', tags: ['#recipes', '#synced'] }),
+  makeItem('4', { content: 'Garlic bread recipe', tags: ['#recipes'] }),
+  makeItem('5', { content: 'Meeting notes about the quarterly roadmap', tags: ['#work'] })
+];
+const knownTags = ['#finance', '#finance/invoices', '#recipes', '#work', '#synced'];
+
+describe('TagSuggestions', () => {
+  it('should rank the tags of similar items first, including parent tags', () => {
+    const { existing } = suggestTags([makeItem('t', { content: 'New invoice: payment for March consulting' })], corpus, knownTags);
+    expect(existing.map(s => s.tag).slice(0, 2).sort()).toEqual(['#finance', '#finance/invoices']);
+    expect(existing.map(s => s.tag)).not.toContain('#recipes');
+    expect(existing.map(s => s.tag)).not.toContain('#synced');
+  });
+
+  it('should skip tags the target already has', () => {
+    const { existing } = suggestTags([makeItem('t', { content: 'Tomato garlic recipe', tags: ['#recipes'] })], corpus, knownTags);
+    expect(existing.map(s => s.tag)).not.toContain('#recipes');
+  });
+
+  it('should offer distinctive words as new keyword tags', () => {
+    const { keywords } = suggestTags([makeItem('t', { content: 'Kubernetes deployment for the kubernetes cluster at https://example.com' })], corpus, knownTags);
+    expect(keywords[0]).toBe('#kubernetes');
+    expect(keywords).toHaveLength(3);
+    expect(keywords).not.toContain('#the');
+    expect(keywords).not.toContain('#https');
+  });
+
+  it('should not turn secrets into tags', () => {
+    const secret = makeItem('t', { content: 'hunter2 password', type: ClipboardType.SECURE });
+    expect(suggestTags([secret], corpus, knownTags).keywords).toEqual([]);
+  });
+
+  it('should suggest nothing without anything to learn from', () => {
+    expect(suggestTags([makeItem('t', { content: '' })], [], [])).toEqual({ existing: [], keywords: [] });
+  });
+});
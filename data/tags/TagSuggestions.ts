@@ -0,0 +1,95 @@
+import { ClipboardItem, ClipboardType } from '../../types';
+import {
+  TermVector,
+  contentTerms,
+  cosineSimilarity,
+  inverseDocumentFrequency,
+  termCounts,
+  tfidfVector,
+  vectorNorm
+} from '../search/TermVectors';
+import { isTagWithin } from './TagHierarchy';
+import { SOURCE_TAGS, normalizeTag } from './TagNormalization';
+
+/**
+ * Tag Suggestions
+ * Offline tag suggestions learned from the user's own tagging. Every item
+ * becomes a TF-IDF vector of its words; a tag is represented by the centroid
+ * of the items carrying it, and the tags whose centroid is closest to the
+ * target's words are suggested. Distinctive words of the target that are not
+ * tags yet are offered as new keyword tags.
+ */
+
+export interface TagSuggestion {
+  tag: string;
+  /** Cosine similarity between the target and the tag's items, 0..1 */
+  score: number;
+}
+
+export interface TagSuggestions {
+  /** Known tags, best match first */
+  existing: TagSuggestion[];
+  /** New tags made from keywords of the target */
+  keywords: string[];
+}
+
+export const MAX_TAG_SUGGESTIONS = 5;
+export const MAX_KEYWORD_SUGGESTIONS = 3;
+
+/** Existing tags scoring below this are not worth showing */
+const MIN_SIMILARITY = 0.1;
+
+/**
+ * Suggest tags for the target items (one item, or a multi-selection treated
+ * as one text), learning from `corpus`. Tags the targets already carry are
+ * never suggested.
+ */
+export const suggestTags = (
+  targets: ClipboardItem[],
+  corpus: ClipboardItem[],
+  knownTags: string[]
+): TagSuggestions => {
+  const documents = corpus.map(item => ({ item, counts: termCounts(contentTerms(item)) }));
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(({ counts }) => counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  const idf = (term: string) => inverseDocumentFrequency(documents.length, documentFrequency.get(term) || 0);
+  const target = tfidfVector(termCounts(targets.flatMap(contentTerms)), idf);
+  const current = new Set(targets.flatMap(item => item.tags));
+  const candidates = knownTags.filter(tag => !current.has(tag) && !SOURCE_TAGS.includes(tag));
+
+  // Sum of the unit vectors of each tag's items; a parent tag also learns from its nested tags
+  const centroids = new Map<string, TermVector>(candidates.map(tag => [tag, new Map()]));
+  documents.forEach(({ item, counts }) => {
+    const vector = tfidfVector(counts, idf);
+    const length = vectorNorm(vector);
+    if (length === 0) return;
+    candidates.forEach(tag => {
+      if (!item.tags.some(t => isTagWithin(t, tag))) return;
+      const centroid = centroids.get(tag)!;
+      vector.forEach((weight, term) => centroid.set(term, (centroid.get(term) || 0) + weight / length));
+    });
+  });
+
+  const existing = candidates
+    .map(tag => ({ tag, score: cosineSimilarity(target, centroids.get(tag)!) }))
+    .filter(s => s.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score || a.tag.localeCompare(b.tag))
+    .slice(0, MAX_TAG_SUGGESTIONS);
+
+  // Secrets must not end up in tag names
+  const minable = targets.some(item => item.type === ClipboardType.SECURE && !item.displayContent) ? [] : Array.from(target);
+  const taken = new Set([...knownTags, ...current]);
+  const keywords: string[] = [];
+  minable
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .forEach(([term]) => {
+      const tag = normalizeTag(term);
+      if (keywords.length < MAX_KEYWORD_SUGGESTIONS && tag && !taken.has(tag)) {
+        keywords.push(tag);
+        taken.add(tag);
+      }
+    });
+
+  return { existing, keywords };
+};
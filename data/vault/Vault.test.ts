@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Vault, VaultLockedError, VaultMismatchError, VaultState } from './Vault';
+import { VaultPinError } from './VaultCrypto';
+
+const ITERATIONS = 1000;
+
+describe('Vault', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stay unlocked after being created and notify listeners', async () => {
+    const vault = new Vault(ITERATIONS);
+    const states: VaultState[] = [];
+    vault.subscribe(state => states.push(state));
+
+    expect(vault.getState()).toEqual({ isSetUp: false, isUnlocked: false });
+    await vault.create('1234');
+    vault.lock();
+
+    expect(states).toEqual([{ isSetUp: true, isUnlocked: true }, { isSetUp: true, isUnlocked: false }]);
+  });
+
+  it('should seal while locked but only reveal while unlocked', async () => {
+    const vault = new Vault(ITERATIONS);
+    await vault.create('1234');
+    vault.lock();
+
+    const secret = await vault.seal({ content: 'secret text' });
+    await expect(vault.reveal(secret)).rejects.toBeInstanceOf(VaultLockedError);
+    await expect(vault.unlock('4321')).rejects.toBeInstanceOf(VaultPinError);
+    expect(vault.isUnlocked()).toBe(false);
+
+    await vault.unlock('1234');
+    expect((await vault.reveal(secret)).content).toBe('secret text');
+  });
+
+  it('should refuse secrets sealed by another vault', async () => {
+    const other = new Vault(ITERATIONS);
+    await other.create('1234');
+    const secret = await other.seal({ content: 'secret text' });
+
+    const vault = new Vault(ITERATIONS);
+    await vault.create('1234');
+    expect(vault.canOpen(secret)).toBe(false);
+    await expect(vault.reveal(secret)).rejects.toBeInstanceOf(VaultMismatchError);
+  });
+
+  it('should relock after the auto-lock delay without reveals', async () => {
+    const vault = new Vault(ITERATIONS);
+    await vault.create('1234');
+    const secret = await vault.seal({ content: 'secret text' });
+
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    vault.setAutoLock(60000);
+    vi.advanceTimersByTime(45000);
+    // A reveal counts as activity and restarts the countdown
+    await vault.reveal(secret);
+    vi.advanceTimersByTime(45000);
+    expect(vault.isUnlocked()).toBe(true);
+
+    vi.advanceTimersByTime(15000);
+    expect(vault.isUnlocked()).toBe(false);
+  });
+
+  it('should not relock by itself when auto-lock is off', async () => {
+    const vault = new Vault(ITERATIONS);
+    await vault.create('1234');
+
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    vault.setAutoLock(0);
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(vault.isUnlocked()).toBe(true);
+  });
+
+  it('should forget the unlocked key when another record is loaded', async () => {
+    const vault = new Vault(ITERATIONS);
+    const record = await vault.create('1234');
+
+    vault.load(record);
+    expect(vault.getState()).toEqual({ isSetUp: true, isUnlocked: false });
+    vault.load(null);
+    expect(vault.isSetUp()).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+import { SealedSecret } from '../../types';
+import {
+  DEFAULT_PBKDF2_ITERATIONS,
+  SecretPayload,
+  VaultRecord,
+  changeVaultPin,
+  createVaultRecord,
+  fingerprintContent,
+  openPayload,
+  openVaultRecord,
+  sealPayload
+} from './VaultCrypto';
+
+/**
+ * Vault
+ * Holds the vault record and, while unlocked, the private key that opens
+ * sealed secrets. The key only lives in memory and is dropped again after
+ * `autoLockMs` without a reveal.
+ */
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The vault is locked');
+    this.name = 'VaultLockedError';
+  }
+}
+
+/** The secret was sealed for a different vault, e.g. one from another device's backup */
+export class VaultMismatchError extends Error {
+  constructor(message = 'This item was sealed by another vault and cannot be opened here') {
+    super(message);
+    this.name = 'VaultMismatchError';
+  }
+}
+
+export interface VaultState {
+  isSetUp: boolean;
+  isUnlocked: boolean;
+}
+
+/** Minutes of inactivity before the vault relocks; 0 never relocks by itself */
+export const VAULT_AUTO_LOCK_OPTIONS = [1, 5, 15, 60, 0];
+export const DEFAULT_VAULT_AUTO_LOCK_MINUTES = 5;
+
+const DEFAULT_AUTO_LOCK_MS = DEFAULT_VAULT_AUTO_LOCK_MINUTES * 60 * 1000;
+
+export class Vault {
+  private record: VaultRecord | null = null;
+  private privateKey: CryptoKey | null = null;
+  private autoLockMs = DEFAULT_AUTO_LOCK_MS;
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<(state: VaultState) => void> = new Set();
+
+  constructor(private iterations: number = DEFAULT_PBKDF2_ITERATIONS) {}
+
+  getState(): VaultState {
+    return { isSetUp: this.isSetUp(), isUnlocked: this.isUnlocked() };
+  }
+
+  isSetUp(): boolean {
+    return this.record !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.privateKey !== null;
+  }
+
+  getRecord(): VaultRecord | null {
+    return this.record;
+  }
+
+  /** Adopt a stored record (or none); any unlocked key from before is dropped */
+  load(record: VaultRecord | null) {
+    this.record = record;
+    this.clearKey();
+    this.notify();
+  }
+
+  /** Set up a new vault and leave it unlocked */
+  async create(pin: string): Promise<VaultRecord> {
+    const { record, privateKey } = await createVaultRecord(pin, this.iterations);
+    this.record = record;
+    this.privateKey = privateKey;
+    this.touch();
+    this.notify();
+    return record;
+  }
+
+  /** @throws VaultPinError if the PIN is wrong */
+  async unlock(pin: string): Promise<void> {
+    if (!this.record) throw new VaultLockedError();
+    this.privateKey = await openVaultRecord(this.record, pin);
+    this.touch();
+    this.notify();
+  }
+
+  lock() {
+    if (!this.privateKey) return;
+    this.clearKey();
+    this.notify();
+  }
+
+  /**
+   * @returns the updated record to store
+   * @throws VaultPinError if the current PIN is wrong
+   */
+  async changePin(currentPin: string, newPin: string): Promise<VaultRecord> {
+    if (!this.record) throw new VaultLockedError();
+    this.record = await changeVaultPin(this.record, currentPin, newPin, this.iterations);
+    return this.record;
+  }
+
+  /** Relock this long after the last unlock or reveal; 0 keeps it open until locked by hand */
+  setAutoLock(ms: number) {
+    this.autoLockMs = Math.max(0, ms);
+    if (this.privateKey) this.touch();
+  }
+
+  /** Encrypt for this vault; works while locked */
+  async seal(payload: SecretPayload): Promise<SealedSecret> {
+    if (!this.record) throw new VaultLockedError();
+    return sealPayload(this.record, payload);
+  }
+
+  /** Fingerprint sealing `content` would give it, or null without a vault; works while locked */
+  async fingerprint(content: string): Promise<string | null> {
+    return this.record ? fingerprintContent(this.record, content) : null;
+  }
+
+  /** Whether this vault's key is the one the secret was sealed for */
+  canOpen(secret: SealedSecret): boolean {
+    return this.record !== null && this.record.keyId === secret.keyId;
+  }
+
+  /**
+   * @throws VaultMismatchError if the secret was sealed by another vault
+   * @throws VaultLockedError while locked
+   */
+  async reveal(secret: SealedSecret): Promise<SecretPayload> {
+    if (this.record && !this.canOpen(secret)) throw new VaultMismatchError();
+    if (!this.privateKey) throw new VaultLockedError();
+    const payload = await openPayload(secret, this.privateKey);
+    this.touch();
+    return payload;
+  }
+
+  subscribe(listener: (state: VaultState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private touch() {
+    if (this.lockTimer) clearTimeout(this.lockTimer);
+    this.lockTimer = this.autoLockMs > 0 ? setTimeout(() => this.lock(), this.autoLockMs) : null;
+  }
+
+  private clearKey() {
+    if (this.lockTimer) clearTimeout(this.lockTimer);
+    this.lockTimer = null;
+    this.privateKey = null;
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
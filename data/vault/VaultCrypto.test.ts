@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  VaultPinError,
+  changeVaultPin,
+  createVaultRecord,
+  fingerprintContent,
+  openPayload,
+  openVaultRecord,
+  parseVaultRecord,
+  sealPayload
+} from './VaultCrypto';
+
+// Keeps key derivation fast; the app uses DEFAULT_PBKDF2_ITERATIONS
+const ITERATIONS = 1000;
+
+describe('VaultCrypto', () => {
+  it('should seal with the public key and open with the PIN-protected private key', async () => {
+    const { record } = await createVaultRecord('1234', ITERATIONS);
+    const secret = await sealPayload(record, { content: '4242 4242 4242 4242', htmlContent: '<b>4242</b>' });
+
+    expect(secret.keyId).toBe(record.keyId);
+    expect(JSON.stringify(secret)).not.toContain('4242');
+
+    const privateKey = await openVaultRecord(record, '1234');
+    expect(await openPayload(secret, privateKey)).toEqual({ content: '4242 4242 4242 4242', htmlContent: '<b>4242</b>' });
+  });
+
+  it('should fingerprint the same text alike within a vault only', async () => {
+    const { record } = await createVaultRecord('1234', ITERATIONS);
+    const { record: other } = await createVaultRecord('1234', ITERATIONS);
+    const secret = await sealPayload(record, { content: 'hunter2' });
+
+    expect(secret.fingerprint).toBe(await fingerprintContent(record, 'hunter2'));
+    expect(secret.fingerprint).not.toBe(await fingerprintContent(record, 'hunter3'));
+    expect(secret.fingerprint).not.toBe(await fingerprintContent(other, 'hunter2'));
+  });
+
+  it('should reject a wrong PIN', async () => {
+    const { record } = await createVaultRecord('1234', ITERATIONS);
+    await expect(openVaultRecord(record, '0000')).rejects.toBeInstanceOf(VaultPinError);
+  });
+
+  it('should keep sealed secrets readable after a PIN change', async () => {
+    const { record } = await createVaultRecord('1234', ITERATIONS);
+    const secret = await sealPayload(record, { content: 'hunter2' });
+
+    const changed = await changeVaultPin(record, '1234', '98765');
+    expect(changed.keyId).toBe(record.keyId);
+    expect(changed.salt).not.toBe(record.salt);
+    await expect(openVaultRecord(changed, '1234')).rejects.toBeInstanceOf(VaultPinError);
+    await expect(changeVaultPin(record, '0000', '5555')).rejects.toBeInstanceOf(VaultPinError);
+
+    expect((await openPayload(secret, await openVaultRecord(changed, '98765'))).content).toBe('hunter2');
+  });
+
+  it('should only accept well-formed vault records', async () => {
+    const { record } = await createVaultRecord('1234', ITERATIONS);
+    expect(parseVaultRecord(JSON.parse(JSON.stringify(record)))).toEqual(record);
+    expect(parseVaultRecord(null)).toBeNull();
+    expect(parseVaultRecord({ ...record, version: 2 })).toBeNull();
+    expect(parseVaultRecord({ ...record, privateKey: 'abc' })).toBeNull();
+  });
+});
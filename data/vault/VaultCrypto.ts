@@ -0,0 +1,199 @@
+import { SealedSecret } from '../../types';
+
+/**
+ * Vault Crypto
+ * WebCrypto primitives behind the vault. Each secret gets its own AES-GCM
+ * key, wrapped with the vault's RSA-OAEP public key, so new SECURE items can
+ * be sealed while the vault is locked. The private key that unwraps them is
+ * itself stored AES-GCM encrypted under a key derived from the PIN (PBKDF2).
+ */
+
+export interface VaultRecord {
+  version: 1;
+  keyId: string;
+  salt: string; // Base64
+  iterations: number;
+  publicKey: string; // Base64 SPKI
+  privateKey: { iv: string; data: string }; // Base64 PKCS#8, encrypted under the PIN key
+}
+
+/** Plain text a secret protects */
+export interface SecretPayload {
+  content: string;
+  htmlContent?: string;
+}
+
+export const DEFAULT_PBKDF2_ITERATIONS = 310000;
+export const MIN_PIN_LENGTH = 4;
+
+const RSA_PARAMS: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256'
+};
+
+export class VaultPinError extends Error {
+  constructor() {
+    super('Wrong vault PIN');
+    this.name = 'VaultPinError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const derivePinKey = async (pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptPrivateKey = async (privateKey: CryptoKey, pin: string, record: Pick<VaultRecord, 'salt' | 'iterations'>) => {
+  const pinKey = await derivePinKey(pin, fromBase64(record.salt), record.iterations);
+  const iv = randomBytes(12);
+  const pkcs8 = await crypto.subtle.exportKey('pkcs8', privateKey);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, pinKey, pkcs8);
+  return { iv: toBase64(iv), data: toBase64(data) };
+};
+
+/** Create a new vault protected by `pin`, returning the record to store and its unlocked private key */
+export const createVaultRecord = async (
+  pin: string,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<{ record: VaultRecord; privateKey: CryptoKey }> => {
+  const pair = await crypto.subtle.generateKey(RSA_PARAMS, true, ['wrapKey', 'unwrapKey']);
+  const salt = toBase64(randomBytes(16));
+  const record: VaultRecord = {
+    version: 1,
+    keyId: toBase64(randomBytes(9)),
+    salt,
+    iterations,
+    publicKey: toBase64(await crypto.subtle.exportKey('spki', pair.publicKey)),
+    privateKey: await encryptPrivateKey(pair.privateKey, pin, { salt, iterations })
+  };
+  return { record, privateKey: await importPrivateKey(await crypto.subtle.exportKey('pkcs8', pair.privateKey)) };
+};
+
+// Re-imported as non-extractable once unlocked, so it never leaves WebCrypto again
+const importPrivateKey = (pkcs8: ArrayBuffer | Uint8Array<ArrayBuffer>, extractable = false) =>
+  crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSA-OAEP', hash: 'SHA-256' }, extractable, ['unwrapKey']);
+
+const decryptPrivateKey = async (record: VaultRecord, pin: string): Promise<ArrayBuffer> => {
+  const pinKey = await derivePinKey(pin, fromBase64(record.salt), record.iterations);
+  try {
+    return await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(record.privateKey.iv) },
+      pinKey,
+      fromBase64(record.privateKey.data)
+    );
+  } catch (e) {
+    // AES-GCM authentication fails for any other key
+    throw new VaultPinError();
+  }
+};
+
+/**
+ * Unlock a vault.
+ * @throws VaultPinError if the PIN is wrong
+ */
+export const openVaultRecord = async (record: VaultRecord, pin: string): Promise<CryptoKey> =>
+  importPrivateKey(await decryptPrivateKey(record, pin));
+
+/**
+ * Re-encrypt the vault's private key under a new PIN. Sealed secrets stay
+ * valid since the key pair itself does not change.
+ * @throws VaultPinError if the current PIN is wrong
+ */
+export const changeVaultPin = async (
+  record: VaultRecord,
+  currentPin: string,
+  newPin: string,
+  iterations: number = record.iterations
+): Promise<VaultRecord> => {
+  const privateKey = await importPrivateKey(await decryptPrivateKey(record, currentPin), true);
+  const salt = toBase64(randomBytes(16));
+  return { ...record, salt, iterations, privateKey: await encryptPrivateKey(privateKey, newPin, { salt, iterations }) };
+};
+
+/**
+ * Keyed hash of plain text, so a sealed copy of it can be recognized without
+ * opening it. The key is derived from the public half so it also works while
+ * locked; it keeps fingerprints from matching across vaults, but does not hide
+ * guessable text from someone who holds the record.
+ */
+export const fingerprintContent = async (record: VaultRecord, content: string): Promise<string> => {
+  const keyBytes = await crypto.subtle.digest('SHA-256', fromBase64(record.publicKey));
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toBase64(await crypto.subtle.sign('HMAC', key, encoder.encode(content)));
+};
+
+/** Encrypt a payload for the vault; only needs the public half, so it works while locked */
+export const sealPayload = async (record: VaultRecord, payload: SecretPayload): Promise<SealedSecret> => {
+  const publicKey = await crypto.subtle.importKey(
+    'spki',
+    fromBase64(record.publicKey),
+    { name: 'RSA-OAEP', hash: 'SHA-256' },
+    false,
+    ['wrapKey']
+  );
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(payload)));
+  return {
+    keyId: record.keyId,
+    key: toBase64(await crypto.subtle.wrapKey('raw', key, publicKey, { name: 'RSA-OAEP' })),
+    iv: toBase64(iv),
+    data: toBase64(data),
+    fingerprint: await fingerprintContent(record, payload.content)
+  };
+};
+
+export const openPayload = async (secret: SealedSecret, privateKey: CryptoKey): Promise<SecretPayload> => {
+  const key = await crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(secret.key),
+    privateKey,
+    { name: 'RSA-OAEP' },
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.data));
+  const payload = JSON.parse(decoder.decode(data));
+  return { content: String(payload.content ?? ''), ...(typeof payload.htmlContent === 'string' ? { htmlContent: payload.htmlContent } : {}) };
+};
+
+/** Validate a stored vault record; anything malformed is treated as no vault */
+export const parseVaultRecord = (raw: unknown): VaultRecord | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Partial<VaultRecord>;
+  const valid = r.version === 1
+    && typeof r.keyId === 'string'
+    && typeof r.salt === 'string'
+    && typeof r.iterations === 'number' && r.iterations > 0
+    && typeof r.publicKey === 'string'
+    && !!r.privateKey && typeof r.privateKey.iv === 'string' && typeof r.privateKey.data === 'string';
+  return valid ? (r as VaultRecord) : null;
+};
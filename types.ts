@@ -15,14 +15,35 @@ export interface ClipboardItem {
   displayContent?: string; // For masked content
   type: ClipboardType;
   category: 'clipboard' | 'notes'; // Strict separation
-  timestamp: string; // ISO string or formatted time string for this demo
+  timestamp: string; // ISO 8601 string (older free-form values are upgraded by SchemaMigrations)
   tags: string[];
   isPinned: boolean;
   isFavorite: boolean;
   isDeleted?: boolean; // New flag for trash
+  deletedAt?: string; // ISO 8601 time the item was moved to trash
   metadata?: {
     label?: string; // e.g. "Work", "Home"
   };
+  secret?: SealedSecret; // Encrypted content of a SECURE item; content then only holds the mask
+}
+
+/** Content and rich text of a SECURE item, encrypted with the vault's key */
+export interface SealedSecret {
+  keyId: string; // Vault the secret was sealed for
+  key: string; // Base64 AES key, wrapped with the vault's public key
+  iv: string; // Base64
+  data: string; // Base64 AES-GCM ciphertext
+  fingerprint?: string; // Base64 HMAC of the plain content, for spotting duplicates; absent on older secrets
+}
+
+/** Earlier version of an item, archived when an edit replaced it */
+export interface ItemRevision {
+  id: string;
+  title?: string;
+  content: string;
+  htmlContent?: string;
+  tags: string[];
+  timestamp: string; // ISO 8601 time this version was replaced
 }
 
 export interface NoteItem {
@@ -32,7 +53,7 @@ export interface NoteItem {
   timestamp: string;
 }
 
-export type ScreenName = 'SPLASH' | 'HOME' | 'NOTES' | 'TRASH' | 'FAVORITE' | 'READ' | 'EDIT' | 'TAGS' | 'TAG_DETAILS' | 'SETTINGS';
+export type ScreenName = 'SPLASH' | 'HOME' | 'NOTES' | 'TRASH' | 'FAVORITE' | 'READ' | 'EDIT' | 'TAGS' | 'TAG_DETAILS' | 'SETTINGS' | 'DUPLICATES' | 'COLLECTION';
 
 export type SortOption = 'CUSTOM' | 'DATE' | 'LENGTH' | 'ALPHABETICAL';
 export type SortDirection = 'ASC' | 'DESC';
\ No newline at end of file
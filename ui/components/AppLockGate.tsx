@@ -0,0 +1,113 @@
+import React, { ReactNode, useEffect, useState } from 'react';
+import { App as CapApp } from '@capacitor/app';
+import { appLock } from '../../data/lock/AppLock';
+import { useAppLock } from '../hooks/useAppLock';
+import { useSettings } from '../context/SettingsContext';
+
+/**
+ * Covers the app with the lock screen while the app lock is engaged. The app
+ * stays mounted underneath, hidden and inert, so drafts and navigation
+ * survive locking. `onWipe` runs once too many wrong PINs erased all data,
+ * so the app can drop whatever it still shows from before.
+ */
+const AppLockGate: React.FC<{ children: ReactNode; onWipe?: () => void }> = ({ children, onWipe }) => {
+  const { isDarkTheme, accentColor, appLockDelayMinutes, appLockWipeAfter } = useSettings();
+  const { isLocked } = useAppLock();
+
+  useEffect(() => {
+    appLock.setAutoLockDelay(appLockDelayMinutes * 60 * 1000);
+  }, [appLockDelayMinutes]);
+
+  useEffect(() => {
+    appLock.setWipeAfter(appLockWipeAfter);
+  }, [appLockWipeAfter]);
+
+  useEffect(() => {
+    const stateListener = CapApp.addListener('appStateChange', ({ isActive }) => {
+      if (isActive) appLock.handleForeground();
+      else appLock.handleBackground();
+    });
+    return () => {
+      stateListener.then(listener => listener.remove());
+    };
+  }, []);
+
+  return (
+    <>
+      <div className={isLocked ? 'invisible' : undefined} aria-hidden={isLocked || undefined} inert={isLocked}>
+          {children}
+      </div>
+      {isLocked && <LockScreen isDarkTheme={isDarkTheme} accentColor={accentColor} onWipe={onWipe} />}
+    </>
+  );
+};
+
+const LockScreen: React.FC<{ isDarkTheme: boolean; accentColor: string; onWipe?: () => void }> = ({ isDarkTheme, accentColor, onWipe }) => {
+  const { lockedOutUntil } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [now, setNow] = useState(Date.now);
+
+  const isLockedOut = lockedOutUntil !== null && lockedOutUntil > now;
+
+  useEffect(() => {
+    if (lockedOutUntil === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lockedOutUntil]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (isBusy || isLockedOut || !pin) return;
+      setIsBusy(true);
+      try {
+          const result = await appLock.unlock(pin);
+          setPin('');
+          if (result.status === 'wrong') {
+              setMessage(result.attemptsBeforeWipe !== null
+                  ? `Wrong PIN. ${result.attemptsBeforeWipe} attempts left before all data is erased.`
+                  : 'Wrong PIN');
+          } else {
+              setMessage(null);
+              if (result.status === 'wiped') onWipe?.();
+          }
+      } catch (e) {
+          console.error('App unlock failed', e);
+          setMessage('Something went wrong');
+      }
+      setIsBusy(false);
+  };
+
+  const textColor = isDarkTheme ? 'text-white' : 'text-black';
+
+  return (
+    <div className={`fixed inset-0 z-[100] flex flex-col items-center justify-center p-8 font-sans ${isDarkTheme ? 'bg-zinc-950' : 'bg-blue-50'}`}>
+        <form onSubmit={handleSubmit} className="w-full max-w-sm flex flex-col items-center">
+            <svg className="w-12 h-12 mb-6" fill="none" stroke={accentColor} viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+            <h1 className={`text-xl font-normal mb-8 ${textColor}`}>Clipboard Max is locked</h1>
+            <input
+                type="password"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                placeholder="PIN or passphrase"
+                autoFocus
+                disabled={isLockedOut}
+                className={`w-full bg-transparent border-b py-2 px-1 mb-4 text-center focus:outline-none text-lg font-light tracking-widest disabled:opacity-40 ${textColor}`}
+                style={{ borderColor: accentColor }}
+            />
+            <p className="text-xs text-red-500 text-center mb-4 min-h-[1rem]">
+                {isLockedOut
+                    ? `Too many attempts. Try again in ${Math.ceil((lockedOutUntil - now) / 1000)}s.`
+                    : message}
+            </p>
+            <button type="submit" disabled={isBusy || isLockedOut || !pin} className="hover:opacity-80 disabled:opacity-40" style={{ color: accentColor }}>
+                {isBusy ? 'Checking...' : 'Unlock'}
+            </button>
+        </form>
+    </div>
+  );
+};
+
+export default AppLockGate;
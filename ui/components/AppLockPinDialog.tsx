@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AppLockPinError, appLock } from '../../data/lock/AppLock';
+import { MIN_PIN_LENGTH } from '../../data/vault/VaultCrypto';
+
+export type AppLockPinMode = 'setup' | 'change' | 'disable';
+
+interface AppLockPinDialogProps {
+  mode: AppLockPinMode;
+  onDone: () => void;
+  onCancel: () => void;
+  isDarkTheme: boolean;
+  accentColor: string;
+}
+
+const TITLES: Record<AppLockPinMode, string> = {
+  setup: 'Set Up App Lock',
+  change: 'Change App PIN',
+  disable: 'Turn Off App Lock'
+};
+
+/** Sets up, changes or turns off the app lock PIN */
+const AppLockPinDialog: React.FC<AppLockPinDialogProps> = ({ mode, onDone, onCancel, isDarkTheme, accentColor }) => {
+  const [pin, setPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const textColor = isDarkTheme ? 'text-white' : 'text-black';
+  const inputClass = `w-full bg-transparent border-b py-2 px-1 mb-4 focus:outline-none text-lg font-light tracking-widest ${textColor}`;
+
+  // The PIN being chosen: the only one when setting up, the second one when changing
+  const chosenPin = mode === 'change' ? newPin : pin;
+  const canSubmit = !isBusy && pin.length > 0 && (mode === 'disable' || (chosenPin.length >= MIN_PIN_LENGTH && chosenPin === confirmPin));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!canSubmit) return;
+      setIsBusy(true);
+      setError(null);
+      try {
+          if (mode === 'setup') await appLock.enable(pin);
+          else if (mode === 'change') await appLock.changePin(pin, newPin);
+          else await appLock.disable(pin);
+          onDone();
+      } catch (e) {
+          if (!(e instanceof AppLockPinError)) console.error('App lock action failed', e);
+          setError(e instanceof AppLockPinError ? 'Wrong PIN' : 'Something went wrong');
+          setIsBusy(false);
+      }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onCancel}>
+        <form
+            onSubmit={handleSubmit}
+            onClick={(e) => e.stopPropagation()}
+            className={`border rounded-2xl p-6 w-full max-w-sm ${isDarkTheme ? 'bg-black border-zinc-700' : 'bg-white border-zinc-400'}`}
+            style={{ borderColor: accentColor }}
+        >
+            <h3 className={`text-xl text-center font-normal mb-2 ${textColor}`}>{TITLES[mode]}</h3>
+            {mode === 'setup' && (
+                <p className={`text-xs text-center mb-6 ${isDarkTheme ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                    Use a PIN or a passphrase. It will be asked for every time the app opens.
+                </p>
+            )}
+            {mode !== 'setup' && <div className="mb-6" />}
+
+            <input
+                type="password"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                placeholder={mode === 'setup' ? 'PIN or passphrase' : 'Current PIN'}
+                autoFocus
+                className={inputClass}
+                style={{ borderColor: accentColor }}
+            />
+            {mode === 'change' && (
+                <input
+                    type="password"
+                    value={newPin}
+                    onChange={(e) => setNewPin(e.target.value)}
+                    placeholder="New PIN or passphrase"
+                    className={inputClass}
+                    style={{ borderColor: accentColor }}
+                />
+            )}
+            {mode !== 'disable' && (
+                <input
+                    type="password"
+                    value={confirmPin}
+                    onChange={(e) => setConfirmPin(e.target.value)}
+                    placeholder={`Confirm (at least ${MIN_PIN_LENGTH} characters)`}
+                    className={inputClass}
+                    style={{ borderColor: accentColor }}
+                />
+            )}
+
+            {error && <p className="text-xs text-red-500 text-center mb-4">{error}</p>}
+
+            <div className="flex justify-between items-center px-4 mt-2">
+                <button type="button" onClick={onCancel} className="text-zinc-500 hover:opacity-80">Cancel</button>
+                <button type="submit" disabled={!canSubmit} className="hover:opacity-80 disabled:opacity-40" style={{ color: accentColor }}>
+                    {isBusy ? 'Working...' : mode === 'disable' ? 'Turn Off' : 'Save'}
+                </button>
+            </div>
+        </form>
+    </div>
+  );
+};
+
+export default AppLockPinDialog;
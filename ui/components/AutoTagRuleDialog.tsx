@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { ClipboardItem, ClipboardType } from '../../types';
+import { AutoTagRule, AutoTagRuleActions, isValidPattern } from '../../data/ingestion/AutoTagRules';
+import { toggleValue } from '../../data/search/ListFilter';
+import { normalizeTags } from '../../data/tags/TagNormalization';
+
+interface AutoTagRuleDialogProps {
+  rule: AutoTagRule;
+  /** Existing rules can be deleted from the dialog; new ones only cancelled */
+  isNew: boolean;
+  onSave: (rule: AutoTagRule) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+  isDarkTheme: boolean;
+  accentColor: string;
+}
+
+const CATEGORIES: (ClipboardItem['category'] | null)[] = [null, 'clipboard', 'notes'];
+
+const ACTION_LABELS: [keyof Omit<AutoTagRuleActions, 'tags'>, string][] = [
+  ['favorite', 'Favorite'],
+  ['pin', 'Pin'],
+  ['moveToNotes', 'Move to Notes'],
+  ['markSecure', 'Mark Secure']
+];
+
+const parseLength = (value: string): number | null => {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+/** Edits the conditions and actions of one auto-tag rule */
+const AutoTagRuleDialog: React.FC<AutoTagRuleDialogProps> = ({ rule, isNew, onSave, onDelete, onCancel, isDarkTheme, accentColor }) => {
+  const [name, setName] = useState(rule.name);
+  const [conditions, setConditions] = useState(rule.conditions);
+  const [actions, setActions] = useState(rule.actions);
+  const [tagInput, setTagInput] = useState(rule.actions.tags.join(' '));
+
+  const textColor = isDarkTheme ? 'text-white' : 'text-black';
+  const mutedColor = isDarkTheme ? 'text-zinc-500' : 'text-zinc-600';
+  const inputClass = `w-full bg-transparent border-b py-1.5 px-1 focus:outline-none text-sm ${textColor}`;
+  const patternValid = isValidPattern(conditions.pattern);
+
+  const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!name.trim() || !patternValid) return;
+      onSave({
+          ...rule,
+          name: name.trim(),
+          conditions: { ...conditions, pattern: conditions.pattern.trim(), domain: conditions.domain.trim() },
+          actions: { ...actions, tags: normalizeTags(tagInput.split(/[\s,]+/)) }
+      });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onCancel}>
+        <form
+            onSubmit={handleSubmit}
+            onClick={(e) => e.stopPropagation()}
+            className={`border rounded-2xl p-6 w-full max-w-sm max-h-[90vh] overflow-y-auto no-scrollbar ${isDarkTheme ? 'bg-black border-zinc-700' : 'bg-white border-zinc-400'}`}
+            style={{ borderColor: accentColor }}
+        >
+            <h3 className={`text-xl text-center font-normal mb-6 ${textColor}`}>{isNew ? 'New Rule' : 'Edit Rule'}</h3>
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Rule name"
+                autoFocus={isNew}
+                className={`w-full bg-transparent border-b py-2 px-1 focus:outline-none text-lg font-light ${textColor}`}
+                style={{ borderColor: accentColor }}
+            />
+
+            <p className={`text-[10px] font-bold uppercase tracking-widest mt-6 mb-2 ${mutedColor}`}>When</p>
+            <div className="flex flex-wrap gap-2 mb-3">
+                {CATEGORIES.map(category => (
+                    <Chip
+                        key={category ?? 'any'}
+                        label={category === null ? 'Any Tab' : category === 'notes' ? 'Notes' : 'Clipboard'}
+                        active={conditions.category === category}
+                        onClick={() => setConditions({ ...conditions, category })}
+                        accentColor={accentColor}
+                    />
+                ))}
+            </div>
+            <div className="flex flex-wrap gap-2 mb-3">
+                {Object.values(ClipboardType).map(type => (
+                    <Chip
+                        key={type}
+                        label={type.charAt(0) + type.slice(1).toLowerCase()}
+                        active={conditions.types.includes(type)}
+                        onClick={() => setConditions({ ...conditions, types: toggleValue(conditions.types, type) })}
+                        accentColor={accentColor}
+                    />
+                ))}
+            </div>
+            <input
+                type="text"
+                value={conditions.domain}
+                onChange={(e) => setConditions({ ...conditions, domain: e.target.value })}
+                placeholder="Links to domain, e.g. github.com"
+                className={`${inputClass} mb-3`}
+                style={{ borderColor: isDarkTheme ? '#3f3f46' : '#d4d4d8' }}
+            />
+            <input
+                type="text"
+                value={conditions.pattern}
+                onChange={(e) => setConditions({ ...conditions, pattern: e.target.value })}
+                placeholder="Text matches pattern (regex)"
+                className={`${inputClass} font-mono`}
+                style={{ borderColor: patternValid ? (isDarkTheme ? '#3f3f46' : '#d4d4d8') : '#EF4444' }}
+            />
+            {!patternValid && <p className="text-xs text-red-500 mt-1">Not a valid regular expression</p>}
+            <div className="flex items-center space-x-3 mt-3">
+                <input
+                    type="number"
+                    min={0}
+                    value={conditions.minLength ?? ''}
+                    onChange={(e) => setConditions({ ...conditions, minLength: parseLength(e.target.value) })}
+                    placeholder="Min length"
+                    className={inputClass}
+                    style={{ borderColor: isDarkTheme ? '#3f3f46' : '#d4d4d8' }}
+                />
+                <input
+                    type="number"
+                    min={0}
+                    value={conditions.maxLength ?? ''}
+                    onChange={(e) => setConditions({ ...conditions, maxLength: parseLength(e.target.value) })}
+                    placeholder="Max length"
+                    className={inputClass}
+                    style={{ borderColor: isDarkTheme ? '#3f3f46' : '#d4d4d8' }}
+                />
+            </div>
+
+            <p className={`text-[10px] font-bold uppercase tracking-widest mt-6 mb-2 ${mutedColor}`}>Then</p>
+            <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="Add tags, e.g. #dev #links"
+                className={`${inputClass} mb-3`}
+                style={{ borderColor: isDarkTheme ? '#3f3f46' : '#d4d4d8' }}
+            />
+            <div className="flex flex-wrap gap-2 mb-8">
+                {ACTION_LABELS.map(([key, label]) => (
+                    <Chip
+                        key={key}
+                        label={label}
+                        active={actions[key]}
+                        onClick={() => setActions({ ...actions, [key]: !actions[key] })}
+                        accentColor={accentColor}
+                    />
+                ))}
+            </div>
+
+            <div className="flex justify-between items-center px-4">
+                {isNew ? (
+                    <button type="button" onClick={onCancel} className="text-zinc-500 hover:opacity-80">Cancel</button>
+                ) : (
+                    <button type="button" onClick={onDelete} className="text-red-500 hover:opacity-80">Delete</button>
+                )}
+                <button type="submit" disabled={!name.trim() || !patternValid} className="hover:opacity-80 disabled:opacity-40" style={{ color: accentColor }}>Save</button>
+            </div>
+        </form>
+    </div>
+  );
+};
+
+const Chip: React.FC<{ label: string; active: boolean; onClick: () => void; accentColor: string }> = ({ label, active, onClick, accentColor }) => (
+    <button
+        type="button"
+        onClick={onClick}
+        className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${active ? '' : 'border-zinc-500/30 text-zinc-500'}`}
+        style={active ? { color: accentColor, borderColor: accentColor, backgroundColor: `${accentColor}1A` } : undefined}
+    >
+        {label}
+    </button>
+);
+
+export default AutoTagRuleDialog;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { BackupPassphraseError } from '../../data/backup/BackupCrypto';
+import { MIN_PIN_LENGTH } from '../../data/vault/VaultCrypto';
+
+export type BackupPassphraseMode = 'backup' | 'restore';
+
+interface BackupPassphraseDialogProps {
+  mode: BackupPassphraseMode;
+  /** Runs the backup or restore; a BackupPassphraseError keeps the dialog open */
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+  isDarkTheme: boolean;
+  accentColor: string;
+}
+
+/** Asks for the passphrase a backup file is encrypted with, or is to be encrypted with */
+const BackupPassphraseDialog: React.FC<BackupPassphraseDialogProps> = ({ mode, onSubmit, onCancel, isDarkTheme, accentColor }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const textColor = isDarkTheme ? 'text-white' : 'text-black';
+  const inputClass = `w-full bg-transparent border-b py-2 px-1 mb-4 focus:outline-none text-lg font-light ${textColor}`;
+
+  const canSubmit = !isBusy && (mode === 'restore'
+    ? passphrase.length > 0
+    : passphrase.length >= MIN_PIN_LENGTH && passphrase === confirmPassphrase);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!canSubmit) return;
+      setIsBusy(true);
+      setError(null);
+      try {
+          await onSubmit(passphrase);
+      } catch (e) {
+          if (!(e instanceof BackupPassphraseError)) console.error('Backup action failed', e);
+          setError(e instanceof BackupPassphraseError ? 'Wrong passphrase' : 'Something went wrong');
+          setIsBusy(false);
+      }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onCancel}>
+        <form
+            onSubmit={handleSubmit}
+            onClick={(e) => e.stopPropagation()}
+            className={`border rounded-2xl p-6 w-full max-w-sm ${isDarkTheme ? 'bg-black border-zinc-700' : 'bg-white border-zinc-400'}`}
+            style={{ borderColor: accentColor }}
+        >
+            <h3 className={`text-xl text-center font-normal mb-2 ${textColor}`}>
+                {mode === 'backup' ? 'Encrypt Backup' : 'Encrypted Backup'}
+            </h3>
+            <p className={`text-xs text-center mb-6 ${isDarkTheme ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                {mode === 'backup'
+                    ? 'The backup file can only be restored with this passphrase. It cannot be recovered if forgotten.'
+                    : 'Enter the passphrase this backup was saved with.'}
+            </p>
+
+            <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoFocus
+                className={inputClass}
+                style={{ borderColor: accentColor }}
+            />
+            {mode === 'backup' && (
+                <input
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    placeholder={`Confirm (at least ${MIN_PIN_LENGTH} characters)`}
+                    className={inputClass}
+                    style={{ borderColor: accentColor }}
+                />
+            )}
+
+            {error && <p className="text-xs text-red-500 text-center mb-4">{error}</p>}
+
+            <div className="flex justify-between items-center px-4 mt-2">
+                <button type="button" onClick={onCancel} className="text-zinc-500 hover:opacity-80">Cancel</button>
+                <button type="submit" disabled={!canSubmit} className="hover:opacity-80 disabled:opacity-40" style={{ color: accentColor }}>
+                    {isBusy ? 'Working...' : mode === 'backup' ? 'Back Up' : 'Restore'}
+                </button>
+            </div>
+        </form>
+    </div>
+  );
+};
+
+export default BackupPassphraseDialog;
@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+import { clipboardAutoClear } from '../../data/clipboard/ClipboardAutoClear';
+import Toast from './Toast';
+
+/** Counts down to the wipe of a copied secret, with a way to wipe it right away */
+const ClipboardClearToast: React.FC<{ accentColor: string }> = ({ accentColor }) => {
+  const [clearsAt, setClearsAt] = useState<number | null>(() => clipboardAutoClear.getClearsAt());
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => clipboardAutoClear.subscribe(setClearsAt), []);
+
+  useEffect(() => {
+    if (clearsAt === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [clearsAt]);
+
+  if (clearsAt === null) return null;
+  const seconds = Math.max(0, Math.ceil((clearsAt - now) / 1000));
+
+  return (
+    <Toast
+        message={`Clipboard clears in ${seconds}s`}
+        actionLabel="Clear Now"
+        onAction={() => {
+            clipboardAutoClear.clearNow().catch(e => console.warn('Clipboard clear failed', e));
+        }}
+        accentColor={accentColor}
+        positionClass="bottom-48"
+    />
+  );
+};
+
+export default ClipboardClearToast;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { DateRangePreset, ListFilter } from '../../data/search/ListFilter';
+
+interface DateRangeFilterProps {
+  filter: ListFilter;
+  onChange: (filter: ListFilter) => void;
+  isDarkTheme: boolean;
+  accentColor: string;
+}
+
+const PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'custom', label: 'Custom' }
+];
+
+/** Capture date section of the list filter panels; custom ranges pick a first and last day */
+const DateRangeFilter: React.FC<DateRangeFilterProps> = ({ filter, onChange, isDarkTheme, accentColor }) => {
+  const fieldBg = isDarkTheme ? 'bg-zinc-900 text-white' : 'bg-white text-black border border-zinc-300';
+
+  return (
+    <div>
+        <div className="flex flex-wrap gap-2">
+            {PRESETS.map(({ value, label }) => {
+                const active = filter.dateRange === value;
+                return (
+                    <button
+                        key={value}
+                        onClick={() => onChange({ ...filter, dateRange: value })}
+                        className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${active ? '' : 'border-transparent text-zinc-500'}`}
+                        style={active ? { color: accentColor, borderColor: accentColor, backgroundColor: `${accentColor}1A` } : undefined}
+                    >
+                        {label}
+                    </button>
+                );
+            })}
+        </div>
+        {filter.dateRange === 'custom' && (
+            <div className="flex items-center gap-2 mt-3 text-xs text-zinc-500">
+                <input
+                    type="date"
+                    value={filter.from ?? ''}
+                    max={filter.to ?? undefined}
+                    onChange={(e) => onChange({ ...filter, from: e.target.value || null })}
+                    className={`flex-1 min-w-0 rounded-lg px-2 py-1.5 focus:outline-none ${fieldBg}`}
+                />
+                <span>to</span>
+                <input
+                    type="date"
+                    value={filter.to ?? ''}
+                    min={filter.from ?? undefined}
+                    onChange={(e) => onChange({ ...filter, to: e.target.value || null })}
+                    className={`flex-1 min-w-0 rounded-lg px-2 py-1.5 focus:outline-none ${fieldBg}`}
+                />
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default DateRangeFilter;
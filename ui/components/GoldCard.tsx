@@ -1,6 +1,10 @@
 import React, { useRef } from 'react';
 import { ClipboardItem, ClipboardType } from '../../types';
 import { useSettings } from '../context/SettingsContext';
+import { formatTimestamp } from '../../util/DateFormat';
+import { highlightTerms, parseSearchQuery } from '../../data/search/SearchQuery';
+import { useTagMetadata } from '../hooks/useRepositoryItems';
+import { useRevealedItem } from '../hooks/useVault';
 
 interface GoldCardProps {
   item: ClipboardItem;
@@ -32,6 +36,8 @@ const GoldCard: React.FC<GoldCardProps> = ({
   onDrop
 }) => {
   const { accentColor, isDarkTheme } = useSettings();
+  const tagMetadata = useTagMetadata();
+  const { revealedItem } = useRevealedItem(item);
   
   // Logic Refs
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -162,7 +168,8 @@ const GoldCard: React.FC<GoldCardProps> = ({
       if (item.title && item.title.trim()) {
           textToDisplay = item.title;
       } else {
-          const rawContent = item.displayContent || item.content;
+          // Sealed items stay masked unless the vault is unlocked
+          const rawContent = revealedItem ? revealedItem.content : (item.displayContent || item.content);
           if (rawContent.length > 60) {
               textToDisplay = rawContent.substring(0, 60) + '...';
           } else {
@@ -170,11 +177,14 @@ const GoldCard: React.FC<GoldCardProps> = ({
           }
       }
 
-      if (!searchQuery) return textToDisplay;
+      // Only the words and phrases of the query are highlighted, not its operators
+      const terms = highlightTerms(parseSearchQuery(searchQuery)).map(t => t.toLowerCase());
+      if (terms.length === 0) return textToDisplay;
 
-      const parts = textToDisplay.split(new RegExp(`(${searchQuery})`, 'gi'));
+      const pattern = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+      const parts = textToDisplay.split(new RegExp(`(${pattern})`, 'gi'));
       return parts.map((part, index) => 
-        part.toLowerCase() === searchQuery.toLowerCase() ? (
+        terms.includes(part.toLowerCase()) ? (
             <span key={index} className="bg-yellow-200 text-black px-0.5 rounded-sm">{part}</span>
         ) : part
       );
@@ -267,13 +277,21 @@ const GoldCard: React.FC<GoldCardProps> = ({
         {/* FOOTER: Tags & Date */}
         <div className={`flex justify-between items-center mt-4 pt-3 border-t border-dashed ${isDarkTheme ? 'border-white/10' : 'border-black/5'}`}>
             <div className="flex items-center text-xs space-x-2 overflow-hidden">
-                {item.tags.length > 0 ? item.tags.slice(0, 3).map((tag) => (
-                    <span key={tag} className={`px-2 py-0.5 rounded-md text-[10px] font-semibold tracking-wide ${tagColor} ${isDarkTheme ? 'bg-white/5' : 'bg-gray-100'}`}>
-                        {tag}
-                    </span>
-                )) : <span className="text-[10px] opacity-30 italic">No tags</span>}
+                {item.tags.length > 0 ? item.tags.slice(0, 3).map((tag) => {
+                    const color = tagMetadata[tag]?.color;
+                    return (
+                        <span
+                            key={tag}
+                            className={`px-2 py-0.5 rounded-md text-[10px] font-semibold tracking-wide ${color ? '' : `${tagColor} ${isDarkTheme ? 'bg-white/5' : 'bg-gray-100'}`}`}
+                            style={color ? { color, backgroundColor: `${color}1A` } : undefined}
+                        >
+                            {tagMetadata[tag]?.icon && <span className="mr-1">{tagMetadata[tag].icon}</span>}
+                            {tag}
+                        </span>
+                    );
+                }) : <span className="text-[10px] opacity-30 italic">No tags</span>}
             </div>
-            <span className={`text-[10px] font-medium tracking-wide ${tagColor} whitespace-nowrap ml-4 opacity-70`}>{item.timestamp}</span>
+            <span className={`text-[10px] font-medium tracking-wide ${tagColor} whitespace-nowrap ml-4 opacity-70`}>{formatTimestamp(item.timestamp)}</span>
         </div>
       </div>
     </div>
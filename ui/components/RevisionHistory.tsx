@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardItem, ItemRevision } from '../../types';
+import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { useSettings } from '../context/SettingsContext';
+import { diffText, summarizeDiff } from '../../util/TextDiff';
+import { formatTimestamp } from '../../util/DateFormat';
+
+interface RevisionHistoryProps {
+  item: ClipboardItem;
+  onClose: () => void;
+  onRestored: (item: ClipboardItem) => void;
+}
+
+/**
+ * Lists an item's earlier versions. Selecting one shows what the following
+ * edit changed (word diff of the text plus title/tag changes) and offers to
+ * restore it.
+ */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ item, onClose, onRestored }) => {
+  const { isDarkTheme, accentColor } = useSettings();
+  const [revisions, setRevisions] = useState<ItemRevision[] | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+      let active = true;
+      clipboardRepository.getRevisions(item.id).then(list => {
+          if (active) setRevisions(list);
+      });
+      return () => { active = false; };
+  }, [item.id]);
+
+  const selected = revisions?.[selectedIndex];
+  // The version that replaced the selected one: a newer revision, or the item itself
+  const successor = revisions && selectedIndex > 0 ? revisions[selectedIndex - 1] : item;
+
+  const diff = useMemo(
+      () => (selected ? diffText(selected.content, successor.content) : []),
+      [selected, successor]
+  );
+  const summary = summarizeDiff(diff);
+  const addedTags = selected ? successor.tags.filter(t => !selected.tags.includes(t)) : [];
+  const removedTags = selected ? selected.tags.filter(t => !successor.tags.includes(t)) : [];
+  const titleChanged = !!selected && (selected.title || '') !== (successor.title || '');
+
+  const handleRestore = async () => {
+      if (!selected) return;
+      setIsRestoring(true);
+      try {
+          const restored = await clipboardRepository.restoreRevision(item.id, selected.id);
+          const updated = restored ? await clipboardRepository.getItem(item.id) : undefined;
+          if (updated) onRestored(updated);
+      } finally {
+          setIsRestoring(false);
+      }
+  };
+
+  const mutedText = isDarkTheme ? 'text-zinc-500' : 'text-zinc-600';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in" onClick={onClose}>
+        <div
+            className={`border rounded-2xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden ${isDarkTheme ? 'bg-black border-zinc-700 text-white' : 'bg-white border-zinc-400 text-black'}`}
+            style={{ borderColor: accentColor }}
+            onClick={(e) => e.stopPropagation()}
+        >
+            <h3 className="text-lg py-4 text-center font-bold tracking-widest uppercase" style={{ color: accentColor }}>Edit History</h3>
+
+            {revisions === null ? (
+                <p className={`p-6 text-center text-sm ${mutedText}`}>Loading...</p>
+            ) : revisions.length === 0 ? (
+                <p className={`p-6 text-center text-sm ${mutedText}`}>No earlier versions yet. Edits to the text, title or tags are kept here.</p>
+            ) : (
+                <>
+                    {/* Version list, newest first */}
+                    <div className={`flex overflow-x-auto gap-2 px-4 pb-3 border-b ${isDarkTheme ? 'border-zinc-800' : 'border-zinc-300'}`}>
+                        {revisions.map((revision, index) => (
+                            <button
+                                key={revision.id}
+                                onClick={() => setSelectedIndex(index)}
+                                className="shrink-0 px-3 py-1.5 rounded-full text-xs font-medium border transition-colors"
+                                style={{
+                                    borderColor: index === selectedIndex ? accentColor : (isDarkTheme ? '#333' : '#ddd'),
+                                    backgroundColor: index === selectedIndex ? `${accentColor}20` : 'transparent',
+                                    color: index === selectedIndex ? accentColor : (isDarkTheme ? '#aaa' : '#666')
+                                }}
+                            >
+                                {formatTimestamp(revision.timestamp)}
+                            </button>
+                        ))}
+                    </div>
+
+                    {selected && (
+                        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                            <p className={`text-xs uppercase tracking-widest ${mutedText}`}>
+                                Changed next: +{summary.added} / −{summary.removed} words
+                            </p>
+                            {titleChanged && (
+                                <p className="text-sm">
+                                    Title: <span className="line-through text-red-400">{selected.title || 'Untitled'}</span>{' → '}
+                                    <span className="text-green-500">{successor.title || 'Untitled'}</span>
+                                </p>
+                            )}
+                            {(addedTags.length > 0 || removedTags.length > 0) && (
+                                <div className="flex flex-wrap gap-2 text-xs">
+                                    {removedTags.map(tag => <span key={`-${tag}`} className="px-2 rounded-full border border-red-400 text-red-400 line-through">{tag}</span>)}
+                                    {addedTags.map(tag => <span key={`+${tag}`} className="px-2 rounded-full border border-green-500 text-green-500">{tag}</span>)}
+                                </div>
+                            )}
+                            <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+                                {diff.map((segment, index) => (
+                                    segment.kind === 'equal' ? <span key={index}>{segment.text}</span>
+                                    : segment.kind === 'delete' ? <del key={index} className="bg-red-500/20 text-red-400">{segment.text}</del>
+                                    : <ins key={index} className="bg-green-500/20 text-green-500 no-underline">{segment.text}</ins>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+
+            <div className={`flex justify-between items-center px-6 py-4 border-t ${isDarkTheme ? 'border-zinc-800' : 'border-zinc-300'}`}>
+                <button
+                    onClick={onClose}
+                    className={`text-sm ${isDarkTheme ? 'text-zinc-500 hover:text-white' : 'text-zinc-600 hover:text-black'}`}
+                >
+                    Close
+                </button>
+                {selected && (
+                    <button
+                        onClick={handleRestore}
+                        disabled={isRestoring}
+                        className="text-sm font-bold disabled:opacity-50"
+                        style={{ color: accentColor }}
+                    >
+                        {isRestoring ? 'Restoring...' : 'Restore this version'}
+                    </button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+
+interface SaveCollectionDialogProps {
+  /** What the collection will match, shown under the name field */
+  description: string;
+  onSave: (name: string) => void;
+  onCancel: () => void;
+  isDarkTheme: boolean;
+  accentColor: string;
+}
+
+const SaveCollectionDialog: React.FC<SaveCollectionDialogProps> = ({ description, onSave, onCancel, isDarkTheme, accentColor }) => {
+  const [name, setName] = useState('');
+  const textColor = isDarkTheme ? 'text-white' : 'text-black';
+
+  const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (name.trim()) onSave(name.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onCancel}>
+        <form
+            onSubmit={handleSubmit}
+            onClick={(e) => e.stopPropagation()}
+            className={`border rounded-2xl p-6 w-full max-w-sm ${isDarkTheme ? 'bg-black border-zinc-700' : 'bg-white border-zinc-400'}`}
+            style={{ borderColor: accentColor }}
+        >
+            <h3 className={`text-xl text-center font-normal mb-6 ${textColor}`}>Save as Collection</h3>
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Collection name"
+                autoFocus
+                className={`w-full bg-transparent border-b py-2 px-1 focus:outline-none text-lg font-light ${textColor}`}
+                style={{ borderColor: accentColor }}
+            />
+            <p className={`text-xs mt-3 mb-8 truncate ${isDarkTheme ? 'text-zinc-500' : 'text-zinc-600'}`}>{description}</p>
+            <div className="flex justify-between items-center px-4">
+                <button type="button" onClick={onCancel} className="text-zinc-500 hover:opacity-80">Cancel</button>
+                <button type="submit" disabled={!name.trim()} className="hover:opacity-80 disabled:opacity-40" style={{ color: accentColor }}>Save</button>
+            </div>
+        </form>
+    </div>
+  );
+};
+
+export default SaveCollectionDialog;
@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface SearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  isDarkTheme: boolean;
+  accentColor: string;
+}
+
+/** Inline search field for list screens; accepts the same query syntax as the home search */
+const SearchBar: React.FC<SearchBarProps> = ({ query, onQueryChange, isDarkTheme, accentColor }) => {
+  const fieldBg = isDarkTheme ? 'bg-zinc-900 text-white placeholder-zinc-600' : 'bg-white text-black placeholder-gray-400 border border-zinc-300';
+
+  return (
+    <div className="relative mb-4">
+        <svg className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2" style={{ color: accentColor }} fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <input
+            type="text"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            placeholder='Search, e.g. tag:#work -draft'
+            className={`w-full rounded-xl py-2.5 pl-10 pr-9 text-sm focus:outline-none ${fieldBg}`}
+        />
+        {query && (
+            <button onClick={() => onQueryChange('')} className="absolute right-3 top-1/2 -translate-y-1/2 opacity-60 hover:opacity-100">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+            </button>
+        )}
+    </div>
+  );
+};
+
+export default SearchBar;
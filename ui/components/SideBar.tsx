@@ -2,22 +2,31 @@ import React, { useState } from 'react';
 import { ScreenName } from '../../types';
 import { useSettings } from '../context/SettingsContext';
 import { useAuth } from '../context/AuthContext';
+import { useRepositoryCollections } from '../hooks/useRepositoryItems';
+import { SmartCollection } from '../../data/collections/SmartCollection';
 
 interface SideBarProps {
   isOpen: boolean;
   onClose: () => void;
   onNavigate: (screen: ScreenName) => void;
+  onOpenCollection?: (collection: SmartCollection) => void;
 }
 
-const SideBar: React.FC<SideBarProps> = ({ isOpen, onClose, onNavigate }) => {
+const SideBar: React.FC<SideBarProps> = ({ isOpen, onClose, onNavigate, onOpenCollection }) => {
   const { accentColor, isDarkTheme } = useSettings();
   const { user, logout, isLoading } = useAuth();
+  const collections = useRepositoryCollections();
 
   const handleMenuClick = (screen: ScreenName) => {
     onNavigate(screen);
     onClose();
   };
 
+  const handleCollectionClick = (collection: SmartCollection) => {
+    onOpenCollection?.(collection);
+    onClose();
+  };
+
   const handleLogoutClick = (e: React.MouseEvent) => {
       e.stopPropagation();
       logout();
@@ -64,6 +73,10 @@ const SideBar: React.FC<SideBarProps> = ({ isOpen, onClose, onNavigate }) => {
             <MenuItem icon="trash" label="Trash" onClick={() => handleMenuClick('TRASH')} accentColor={accentColor} isDarkTheme={isDarkTheme} />
             <MenuItem icon="hash" label="Tags" onClick={() => handleMenuClick('TAGS')} accentColor={accentColor} isDarkTheme={isDarkTheme} />
             <MenuItem icon="heart" label="Favorite" onClick={() => handleMenuClick('FAVORITE')} accentColor={accentColor} isDarkTheme={isDarkTheme} />
+            {onOpenCollection && collections.map(collection => (
+                <MenuItem key={collection.id} icon="collection" label={collection.name} onClick={() => handleCollectionClick(collection)} accentColor={accentColor} isDarkTheme={isDarkTheme} />
+            ))}
+            <MenuItem icon="duplicate" label="Duplicates" onClick={() => handleMenuClick('DUPLICATES')} accentColor={accentColor} isDarkTheme={isDarkTheme} />
             <MenuItem icon="settings" label="Settings" onClick={() => handleMenuClick('SETTINGS')} accentColor={accentColor} isDarkTheme={isDarkTheme} />
         </nav>
 
@@ -115,6 +128,8 @@ const MenuItem: React.FC<{ icon: string; label: string; onClick: () => void; acc
             case 'trash': return <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />;
             case 'hash': return <path strokeLinecap="round" strokeLinejoin="round" d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14" />;
             case 'heart': return <path strokeLinecap="round" strokeLinejoin="round" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />;
+            case 'collection': return <path strokeLinecap="round" strokeLinejoin="round" d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7zm7 6a2 2 0 104 0 2 2 0 00-4 0zm3.5 1.5L15 16" />;
+            case 'duplicate': return <path strokeLinecap="round" strokeLinejoin="round" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />;
             case 'settings': return (
                 <>
                     <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
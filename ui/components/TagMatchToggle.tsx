@@ -0,0 +1,26 @@
+import React from 'react';
+import { TagMatchMode } from '../../data/search/ListFilter';
+
+interface TagMatchToggleProps {
+  mode: TagMatchMode;
+  onChange: (mode: TagMatchMode) => void;
+  accentColor: string;
+}
+
+/** Switches a multi-tag filter between OR ("any") and AND ("all") */
+const TagMatchToggle: React.FC<TagMatchToggleProps> = ({ mode, onChange, accentColor }) => (
+    <div className="flex items-center rounded-full border border-zinc-500/30 p-0.5 text-[10px] font-bold uppercase tracking-widest">
+        {(['any', 'all'] as TagMatchMode[]).map(value => (
+            <button
+                key={value}
+                onClick={() => onChange(value)}
+                className={`px-2.5 py-1 rounded-full transition-colors ${mode === value ? '' : 'text-zinc-500'}`}
+                style={mode === value ? { color: accentColor, backgroundColor: `${accentColor}1A` } : undefined}
+            >
+                {value === 'any' ? 'Any' : 'All'}
+            </button>
+        ))}
+    </div>
+);
+
+export default TagMatchToggle;
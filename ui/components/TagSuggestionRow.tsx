@@ -0,0 +1,46 @@
+import React from 'react';
+import { TagSuggestions } from '../../data/tags/TagSuggestions';
+
+interface TagSuggestionRowProps {
+  suggestions: TagSuggestions;
+  selected: Set<string>;
+  onToggle: (tag: string) => void;
+  isDarkTheme: boolean;
+  accentColor: string;
+}
+
+/** Suggested tags shown above a tag picker; keyword tags that don't exist yet are marked "new" */
+const TagSuggestionRow: React.FC<TagSuggestionRowProps> = ({ suggestions, selected, onToggle, isDarkTheme, accentColor }) => {
+  const tags = [
+      ...suggestions.existing.map(s => ({ tag: s.tag, isNew: false })),
+      ...suggestions.keywords.map(tag => ({ tag, isNew: true }))
+  ];
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+        <p className={`text-[10px] font-bold uppercase tracking-widest mb-2 ${isDarkTheme ? 'text-zinc-500' : 'text-zinc-600'}`}>Suggested</p>
+        <div className="flex flex-wrap gap-2">
+            {tags.map(({ tag, isNew }) => {
+                const isSelected = selected.has(tag);
+                return (
+                    <button
+                        key={tag}
+                        onClick={() => onToggle(tag)}
+                        className="px-3 py-1.5 rounded-full text-xs font-medium border border-dashed transition-colors"
+                        style={{
+                            borderColor: isSelected ? accentColor : (isDarkTheme ? '#52525b' : '#a1a1aa'),
+                            backgroundColor: isSelected ? `${accentColor}1A` : 'transparent',
+                            color: isSelected ? accentColor : (isDarkTheme ? '#a1a1aa' : '#71717a')
+                        }}
+                    >
+                        {tag}{isNew && <span className="ml-1 opacity-60">new</span>}
+                    </button>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export default TagSuggestionRow;
@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  accentColor?: string;
+  /** Vertical placement, to keep toasts shown at the same time apart */
+  positionClass?: string;
+}
+
+const Toast: React.FC<ToastProps> = ({ message, actionLabel, onAction, accentColor, positionClass = 'bottom-32' }) => {
+  return (
+    <div className={`fixed ${positionClass} left-1/2 transform -translate-x-1/2 z-50 animate-fade-in-up`}>
+        <div className="bg-zinc-900/90 backdrop-blur-md border border-zinc-700 text-white px-6 py-3 rounded-full shadow-2xl flex items-center space-x-3">
+            <div className="w-1.5 h-1.5 rounded-full bg-green-500"></div>
+            <span className="text-xs font-bold tracking-widest uppercase whitespace-nowrap">{message}</span>
+            {actionLabel && onAction && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); onAction(); }}
+                    className="text-xs font-bold tracking-widest uppercase pl-3 border-l border-zinc-700 hover:opacity-80 transition-opacity"
+                    style={{ color: accentColor }}
+                >
+                    {actionLabel}
+                </button>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default Toast;
@@ -1,4 +1,12 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
+import { TrashRetentionDays, DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_OPTIONS } from '../../data/retention/TrashRetention';
+import { RevisionDepth, DEFAULT_REVISION_DEPTH, REVISION_DEPTH_OPTIONS } from '../../data/revisions/RevisionHistory';
+import { ClipboardRetentionPolicy, parseClipboardRetention } from '../../data/retention/ClipboardRetention';
+import { NearDuplicateOptions, parseNearDuplicateOptions } from '../../util/NearDuplicate';
+import { AutoTagRule, parseAutoTagRules } from '../../data/ingestion/AutoTagRules';
+import { DEFAULT_VAULT_AUTO_LOCK_MINUTES, VAULT_AUTO_LOCK_OPTIONS } from '../../data/vault/Vault';
+import { CLIPBOARD_CLEAR_OPTIONS, DEFAULT_CLIPBOARD_CLEAR_SECONDS } from '../../data/clipboard/ClipboardAutoClear';
+import { APP_LOCK_DELAY_OPTIONS, APP_LOCK_WIPE_OPTIONS, DEFAULT_APP_LOCK_DELAY_MINUTES } from '../../data/lock/AppLock';
 
 interface SettingsContextType {
   isDarkTheme: boolean;
@@ -20,10 +28,78 @@ interface SettingsContextType {
   setAutoBackupFrequency: (freq: string) => void;
   backupDestination: string;
   setBackupDestination: (dest: string) => void;
+
+  trashRetentionDays: TrashRetentionDays;
+  setTrashRetentionDays: (days: TrashRetentionDays) => void;
+
+  revisionHistoryDepth: RevisionDepth;
+  setRevisionHistoryDepth: (depth: RevisionDepth) => void;
+
+  clipboardRetention: ClipboardRetentionPolicy;
+  setClipboardRetention: (policy: ClipboardRetentionPolicy) => void;
+
+  duplicateDetection: NearDuplicateOptions;
+  setDuplicateDetection: (options: NearDuplicateOptions) => void;
+
+  autoTagRules: AutoTagRule[];
+  setAutoTagRules: (rules: AutoTagRule[]) => void;
+
+  vaultAutoLockMinutes: number;
+  setVaultAutoLockMinutes: (minutes: number) => void;
+
+  skipSensitiveCaptures: boolean;
+  setSkipSensitiveCaptures: (skip: boolean) => void;
+
+  clipboardClearSeconds: number;
+  setClipboardClearSeconds: (seconds: number) => void;
+
+  appLockDelayMinutes: number;
+  setAppLockDelayMinutes: (minutes: number) => void;
+
+  appLockWipeAfter: number;
+  setAppLockWipeAfter: (attempts: number) => void;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
+const loadTrashRetention = (): TrashRetentionDays => {
+  try {
+    const stored = localStorage.getItem('trash_retention_days');
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (TRASH_RETENTION_OPTIONS.includes(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.warn("Invalid trash retention setting", e);
+  }
+  return DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+const loadRevisionDepth = (): RevisionDepth => {
+  const stored = localStorage.getItem('revision_history_depth');
+  return REVISION_DEPTH_OPTIONS.find(opt => String(opt) === stored) ?? DEFAULT_REVISION_DEPTH;
+};
+
+const loadClipboardClear = (): number => {
+  const stored = localStorage.getItem('clipboard_clear_seconds');
+  return CLIPBOARD_CLEAR_OPTIONS.find(opt => String(opt) === stored) ?? DEFAULT_CLIPBOARD_CLEAR_SECONDS;
+};
+
+const loadAppLockDelay = (): number => {
+  const stored = localStorage.getItem('app_lock_delay_minutes');
+  return APP_LOCK_DELAY_OPTIONS.find(opt => String(opt) === stored) ?? DEFAULT_APP_LOCK_DELAY_MINUTES;
+};
+
+const loadAppLockWipeAfter = (): number => {
+  const stored = localStorage.getItem('app_lock_wipe_after');
+  return APP_LOCK_WIPE_OPTIONS.find(opt => String(opt) === stored) ?? 0;
+};
+
+const loadVaultAutoLock = (): number => {
+  const stored = localStorage.getItem('vault_auto_lock_minutes');
+  return VAULT_AUTO_LOCK_OPTIONS.find(opt => String(opt) === stored) ?? DEFAULT_VAULT_AUTO_LOCK_MINUTES;
+};
+
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [themeMode, setThemeModeState] = useState<'DARK' | 'LIGHT' | 'SYSTEM'>('DARK');
   const [accentColor, setAccentColorState] = useState('#D4AF37'); // Default Gold
@@ -37,6 +113,26 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [autoBackupFrequency, setAutoBackupFrequencyState] = useState('Off');
   const [backupDestination, setBackupDestinationState] = useState('Google');
 
+  // Read synchronously, so the startup sync, purge and app lock never run with a default before the stored value is known
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState<TrashRetentionDays>(loadTrashRetention);
+  const [revisionHistoryDepth, setRevisionHistoryDepthState] = useState<RevisionDepth>(loadRevisionDepth);
+  const [clipboardRetention, setClipboardRetentionState] = useState<ClipboardRetentionPolicy>(
+    () => parseClipboardRetention(localStorage.getItem('clipboard_retention'))
+  );
+  const [duplicateDetection, setDuplicateDetectionState] = useState<NearDuplicateOptions>(
+    () => parseNearDuplicateOptions(localStorage.getItem('duplicate_detection'))
+  );
+  const [autoTagRules, setAutoTagRulesState] = useState<AutoTagRule[]>(
+    () => parseAutoTagRules(localStorage.getItem('auto_tag_rules'))
+  );
+  const [vaultAutoLockMinutes, setVaultAutoLockMinutesState] = useState<number>(loadVaultAutoLock);
+  const [skipSensitiveCaptures, setSkipSensitiveCapturesState] = useState<boolean>(
+    () => localStorage.getItem('skip_sensitive_captures') === 'true'
+  );
+  const [clipboardClearSeconds, setClipboardClearSecondsState] = useState<number>(loadClipboardClear);
+  const [appLockDelayMinutes, setAppLockDelayMinutesState] = useState<number>(loadAppLockDelay);
+  const [appLockWipeAfter, setAppLockWipeAfterState] = useState<number>(loadAppLockWipeAfter);
+
   useEffect(() => {
     const storedTheme = localStorage.getItem('theme_mode');
     if (storedTheme) setThemeModeState(storedTheme as 'DARK' | 'LIGHT' | 'SYSTEM');
@@ -121,6 +217,56 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       localStorage.setItem('backup_destination', dest);
   };
 
+  const setTrashRetentionDays = (days: TrashRetentionDays) => {
+      setTrashRetentionDaysState(days);
+      localStorage.setItem('trash_retention_days', JSON.stringify(days));
+  };
+
+  const setRevisionHistoryDepth = (depth: RevisionDepth) => {
+      setRevisionHistoryDepthState(depth);
+      localStorage.setItem('revision_history_depth', String(depth));
+  };
+
+  const setClipboardRetention = (policy: ClipboardRetentionPolicy) => {
+      setClipboardRetentionState(policy);
+      localStorage.setItem('clipboard_retention', JSON.stringify(policy));
+  };
+
+  const setDuplicateDetection = (options: NearDuplicateOptions) => {
+      setDuplicateDetectionState(options);
+      localStorage.setItem('duplicate_detection', JSON.stringify(options));
+  };
+
+  const setAutoTagRules = (rules: AutoTagRule[]) => {
+      setAutoTagRulesState(rules);
+      localStorage.setItem('auto_tag_rules', JSON.stringify(rules));
+  };
+
+  const setVaultAutoLockMinutes = (minutes: number) => {
+      setVaultAutoLockMinutesState(minutes);
+      localStorage.setItem('vault_auto_lock_minutes', String(minutes));
+  };
+
+  const setSkipSensitiveCaptures = (skip: boolean) => {
+      setSkipSensitiveCapturesState(skip);
+      localStorage.setItem('skip_sensitive_captures', JSON.stringify(skip));
+  };
+
+  const setClipboardClearSeconds = (seconds: number) => {
+      setClipboardClearSecondsState(seconds);
+      localStorage.setItem('clipboard_clear_seconds', String(seconds));
+  };
+
+  const setAppLockDelayMinutes = (minutes: number) => {
+      setAppLockDelayMinutesState(minutes);
+      localStorage.setItem('app_lock_delay_minutes', String(minutes));
+  };
+
+  const setAppLockWipeAfter = (attempts: number) => {
+      setAppLockWipeAfterState(attempts);
+      localStorage.setItem('app_lock_wipe_after', String(attempts));
+  };
+
   const isDarkTheme = themeMode === 'DARK' || (themeMode === 'SYSTEM' && window.matchMedia('(prefers-color-scheme: dark)').matches);
 
   return (
@@ -140,7 +286,27 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       autoBackupFrequency,
       setAutoBackupFrequency,
       backupDestination,
-      setBackupDestination
+      setBackupDestination,
+      trashRetentionDays,
+      setTrashRetentionDays,
+      revisionHistoryDepth,
+      setRevisionHistoryDepth,
+      clipboardRetention,
+      setClipboardRetention,
+      duplicateDetection,
+      setDuplicateDetection,
+      autoTagRules,
+      setAutoTagRules,
+      vaultAutoLockMinutes,
+      setVaultAutoLockMinutes,
+      skipSensitiveCaptures,
+      setSkipSensitiveCaptures,
+      clipboardClearSeconds,
+      setClipboardClearSeconds,
+      appLockDelayMinutes,
+      setAppLockDelayMinutes,
+      appLockWipeAfter,
+      setAppLockWipeAfter
     }}>
       {children}
     </SettingsContext.Provider>
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { AppLockState, appLock } from '../../data/lock/AppLock';
+
+/** Live state of the app lock */
+export const useAppLock = (): AppLockState => {
+  const [state, setState] = useState<AppLockState>(() => appLock.getState());
+
+  useEffect(() => {
+    setState(appLock.getState());
+    return appLock.subscribe(setState);
+  }, []);
+
+  return state;
+};
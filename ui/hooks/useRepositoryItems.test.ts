@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { ClipboardItem } from '../../types';
+import { applyChange } from './useRepositoryItems';
+import { makeItem } from '../../__tests__/fixtures';
+
+const notDeleted = (item: ClipboardItem) => !item.isDeleted;
+
+describe('applyChange', () => {
+  const list = [makeItem('a'), makeItem('b')];
+
+  it('should prepend accepted added items', () => {
+    const next = applyChange(list, { type: 'added', items: [makeItem('c')] }, notDeleted);
+    expect(next.map(i => i.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should ignore added items that are not accepted or already listed', () => {
+    const next = applyChange(list, { type: 'added', items: [makeItem('a'), makeItem('x', { isDeleted: true })] }, notDeleted);
+    expect(next).toBe(list);
+  });
+
+  it('should replace updated items in place', () => {
+    const next = applyChange(list, { type: 'updated', items: [makeItem('b', { content: 'changed' })] }, notDeleted);
+    expect(next.map(i => i.content)).toEqual(['Item a', 'changed']);
+  });
+
+  it('should drop items that no longer match after a soft delete', () => {
+    const trashed = makeItem('a', { isDeleted: true });
+    const next = applyChange(list, { type: 'deleted', ids: ['a'], permanent: false, items: [trashed] }, notDeleted);
+    expect(next.map(i => i.id)).toEqual(['b']);
+  });
+
+  it('should pick up items that start matching', () => {
+    const trash = [makeItem('t', { isDeleted: true })];
+    const trashed = makeItem('a', { isDeleted: true });
+    const next = applyChange(trash, { type: 'deleted', ids: ['a'], permanent: false, items: [trashed] }, i => !!i.isDeleted);
+    expect(next.map(i => i.id)).toEqual(['a', 't']);
+  });
+
+  it('should remove permanently deleted ids', () => {
+    const next = applyChange(list, { type: 'deleted', ids: ['b'], permanent: true, items: [] }, notDeleted);
+    expect(next.map(i => i.id)).toEqual(['a']);
+  });
+
+  it('should leave the list alone for tag events', () => {
+    expect(applyChange(list, { type: 'tags-changed', tags: ['#x'] }, notDeleted)).toBe(list);
+  });
+});
@@ -0,0 +1,244 @@
+import { DependencyList, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ClipboardItem } from '../../types';
+import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { RepositoryChange } from '../../data/repository/RepositoryChange';
+import { SearchNode, allOf, parseSearchQuery } from '../../data/search/SearchQuery';
+import { SmartCollection } from '../../data/collections/SmartCollection';
+import { TagMetadata } from '../../data/tags/TagMetadata';
+import { TagStats } from '../../data/tags/TagStats';
+import { SearchScope, inSearchScope, isRankedSearch, matchesSearch, rankSearchResults } from '../../data/search/SearchFilter';
+
+/**
+ * Patch a list with a single change event.
+ * Items that start matching `accept` are inserted at the top, items that stop
+ * matching are dropped and everything else is replaced in place.
+ */
+export const applyChange = (
+  items: ClipboardItem[],
+  change: RepositoryChange,
+  accept: (item: ClipboardItem) => boolean
+): ClipboardItem[] => {
+  switch (change.type) {
+    case 'added': {
+      const known = new Set(items.map(i => i.id));
+      const added = change.items.filter(i => accept(i) && !known.has(i.id));
+      return added.length > 0 ? [...added, ...items] : items;
+    }
+
+    case 'deleted':
+      if (change.permanent) {
+        const removed = new Set(change.ids);
+        return items.some(i => removed.has(i.id)) ? items.filter(i => !removed.has(i.id)) : items;
+      }
+      return mergeSnapshots(items, change.items, accept);
+
+    case 'updated':
+    case 'restored':
+      return mergeSnapshots(items, change.items, accept);
+
+    default:
+      return items;
+  }
+};
+
+const mergeSnapshots = (
+  items: ClipboardItem[],
+  snapshots: ClipboardItem[],
+  accept: (item: ClipboardItem) => boolean
+): ClipboardItem[] => {
+  let next = items;
+  snapshots.forEach(snapshot => {
+    const index = next.findIndex(i => i.id === snapshot.id);
+    const matches = accept(snapshot);
+    if (index === -1) {
+      if (matches) next = [snapshot, ...next];
+    } else if (matches) {
+      next = [...next.slice(0, index), snapshot, ...next.slice(index + 1)];
+    } else {
+      next = [...next.slice(0, index), ...next.slice(index + 1)];
+    }
+  });
+  return next;
+};
+
+/**
+ * Live list of repository items.
+ * `load` provides the initial list (and is re-run when `deps` change or the
+ * order is reset); afterwards the list follows change events incrementally,
+ * keeping only the items that pass `accept`. `loading` only covers the first
+ * load, so the current list stays on screen while `deps` changes reload it.
+ */
+export const useRepositoryItems = (
+  load: () => Promise<ClipboardItem[]>,
+  accept: (item: ClipboardItem) => boolean,
+  deps: DependencyList = []
+) => {
+  const [items, setItems] = useState<ClipboardItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadRef = useRef(load);
+  const acceptRef = useRef(accept);
+  loadRef.current = load;
+  acceptRef.current = accept;
+
+  // Ignore results of loads that were superseded by a newer one
+  const requestRef = useRef(0);
+
+  const reload = useCallback(async () => {
+    const request = ++requestRef.current;
+    const data = await loadRef.current();
+    if (request !== requestRef.current) return;
+    setItems(data);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reload();
+
+    return clipboardRepository.subscribe(change => {
+      if (change.type === 'reordered' || change.type === 'reset') {
+        reload();
+        return;
+      }
+      setItems(prev => applyChange(prev, change, acceptRef.current));
+    });
+  }, deps);
+
+  return { items, loading, reload };
+};
+
+/**
+ * Live list of the items in `scope` matching a search box query, optionally
+ * narrowed by a fixed filter such as the tag a screen is showing. Callers
+ * must keep `restrict` stable between renders. When `ranked` is set the
+ * items are ordered by relevance and should be shown as they are.
+ */
+export const useSearchResults = (query: string, scope: SearchScope = 'live', restrict: SearchNode | null = null) => {
+  const search = useMemo(() => allOf(restrict, parseSearchQuery(query)), [query, restrict]);
+  const { items, loading, reload } = useRepositoryItems(
+    () => clipboardRepository.searchItems(search, scope),
+    item => inSearchScope(item, scope) && matchesSearch(item, search),
+    [search, scope]
+  );
+  // Items that start matching later arrive unranked, so rank the live list as a whole
+  const rankedItems = useMemo(() => rankSearchResults(items, search), [items, search]);
+  return { items: rankedItems, loading, reload, search, ranked: isRankedSearch(search) };
+};
+
+/** Live list of the items most similar to `id`; recomputed whenever any item changes */
+export const useRelatedItems = (id: string, limit?: number) => {
+  const [items, setItems] = useState<ClipboardItem[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    const load = () => clipboardRepository.getRelatedItems(id, limit).then(data => {
+      if (active) setItems(data);
+    });
+    load();
+
+    const unsubscribe = clipboardRepository.subscribe(change => {
+      if (change.type !== 'tags-changed' && change.type !== 'collections-changed' && change.type !== 'reordered') load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [id, limit]);
+
+  return items;
+};
+
+/** Live list of every known tag, sorted */
+export const useRepositoryTags = () => {
+  const [tags, setTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    const load = () => clipboardRepository.getUniqueTags().then(data => {
+      if (active) setTags(data);
+    });
+    load();
+
+    const unsubscribe = clipboardRepository.subscribe(change => {
+      if (change.type === 'tags-changed') setTags(change.tags);
+      else if (change.type === 'reset') load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return tags;
+};
+
+/** Live usage statistics of every tag; refreshed on any item or tag change */
+export const useTagStats = () => {
+  const [stats, setStats] = useState<TagStats[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    const load = () => clipboardRepository.getTagStats().then(data => {
+      if (!active) return;
+      setStats(data);
+      setLoading(false);
+    });
+    load();
+
+    const unsubscribe = clipboardRepository.subscribe(change => {
+      if (change.type !== 'collections-changed') load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return { stats, loading };
+};
+
+/** Live color, icon, description and sort order of every tag that has any */
+export const useTagMetadata = () => {
+  const [metadata, setMetadata] = useState<Record<string, TagMetadata>>({});
+
+  useEffect(() => {
+    let active = true;
+    const load = () => clipboardRepository.getTagMetadata().then(data => {
+      if (active) setMetadata(data);
+    });
+    load();
+
+    const unsubscribe = clipboardRepository.subscribe(change => {
+      if (change.type === 'tags-changed' || change.type === 'reset') load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return metadata;
+};
+
+/** Live list of the saved smart collections */
+export const useRepositoryCollections = () => {
+  const [collections, setCollections] = useState<SmartCollection[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    clipboardRepository.getCollections().then(data => {
+      if (active) setCollections(data);
+    });
+
+    const unsubscribe = clipboardRepository.subscribe(change => {
+      if (change.type === 'collections-changed') setCollections(change.collections);
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return collections;
+};
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+
+const TOAST_DURATION_MS = 3000;
+// Leave a little longer to reach the Undo button
+const UNDO_TOAST_DURATION_MS = 5000;
+
+export interface ToastState {
+  message: string;
+  /** Repository operation the Undo action rolls back */
+  operationId?: number | null;
+}
+
+/**
+ * Toast state shared by the screens. `showToast(msg, id)` offers an Undo
+ * action that rolls back repository operation `id`, as long as nothing else
+ * happened since (see `ClipboardRepository.operationSince`).
+ */
+export const useToast = () => {
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const showToast = useCallback((message: string, operationId?: number | null) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    setToast({ message, operationId });
+    timerRef.current = setTimeout(
+      () => setToast(null),
+      operationId ? UNDO_TOAST_DURATION_MS : TOAST_DURATION_MS
+    );
+  }, []);
+
+  const undo = useCallback(async () => {
+    const operationId = toast?.operationId;
+    if (!operationId) return;
+    const undone = await clipboardRepository.undoOperation(operationId);
+    showToast(undone ? "Undone" : "Nothing to undo");
+  }, [toast, showToast]);
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+
+  return { toast, showToast, undo };
+};
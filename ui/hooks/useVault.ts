@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { ClipboardItem } from '../../types';
+import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { VaultMismatchError, VaultState } from '../../data/vault/Vault';
+
+/** Live set-up and lock state of the vault */
+export const useVault = (): VaultState => {
+  const [state, setState] = useState<VaultState>(() => clipboardRepository.vault.getState());
+
+  useEffect(() => {
+    setState(clipboardRepository.vault.getState());
+    return clipboardRepository.vault.subscribe(setState);
+  }, []);
+
+  return state;
+};
+
+export interface RevealedItem {
+  /** The decrypted item; null while the vault is locked or when the item is not sealed at all */
+  revealedItem: ClipboardItem | null;
+  /** Why the unlocked vault could not open the item */
+  revealError: string | null;
+}
+
+/** The decrypted version of a sealed item while the vault is unlocked */
+export const useRevealedItem = (item: ClipboardItem): RevealedItem => {
+  const { isUnlocked } = useVault();
+  const [revealed, setRevealed] = useState<RevealedItem>({ revealedItem: null, revealError: null });
+
+  useEffect(() => {
+    setRevealed({ revealedItem: null, revealError: null });
+    if (!item.secret || !isUnlocked) return;
+    let active = true;
+    clipboardRepository.revealItem(item)
+      .then(data => {
+        if (active) setRevealed({ revealedItem: data, revealError: null });
+      })
+      .catch(e => {
+        if (!(e instanceof VaultMismatchError)) console.warn('Could not reveal item', e);
+        if (active) {
+          setRevealed({
+            revealedItem: null,
+            revealError: e instanceof VaultMismatchError ? e.message : 'This item could not be decrypted'
+          });
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [item, isUnlocked]);
+
+  return revealed;
+};
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { clipboardRepository, sortItems } from '../../data/repository/ClipboardRepository';
+import { collectionFilter, describeCollection } from '../../data/collections/SmartCollection';
+import { useRepositoryCollections, useSearchResults } from '../hooks/useRepositoryItems';
+import { ClipboardItem } from '../../types';
+import GoldCard from '../components/GoldCard';
+import { useSettings } from '../context/SettingsContext';
+
+interface CollectionScreenProps {
+  collectionId: string;
+  onBack: () => void;
+  onRead: (item: ClipboardItem) => void;
+}
+
+const CollectionScreen: React.FC<CollectionScreenProps> = ({ collectionId, onBack, onRead }) => {
+  const { accentColor, isDarkTheme } = useSettings();
+  const collections = useRepositoryCollections();
+  const collection = collections.find(c => c.id === collectionId);
+
+  const filter = useMemo(() => (collection ? collectionFilter(collection) : null), [collection]);
+  const { items, loading, ranked } = useSearchResults('', 'live', filter);
+  const displayItems = useMemo(
+    () => (!collection || ranked ? items : sortItems(items, collection.sortOption, collection.sortDirection)),
+    [items, ranked, collection]
+  );
+
+  const handleDelete = async () => {
+      await clipboardRepository.deleteCollection(collectionId);
+      onBack();
+  };
+
+  const textColor = isDarkTheme ? 'text-white' : 'text-black';
+  const bgColor = isDarkTheme ? 'bg-black' : 'bg-zinc-200';
+  const headerBg = isDarkTheme ? 'bg-black/80 border-white/5' : 'bg-white/80 border-black/5';
+  const mutedText = isDarkTheme ? 'text-zinc-500' : 'text-zinc-600';
+
+  return (
+    <div className={`h-full w-full flex flex-col relative animate-fade-in font-sans ${bgColor} ${textColor}`}>
+
+      {/* --- HEADER --- */}
+      <header className={`px-4 py-4 flex items-center justify-between sticky top-0 z-20 border-b h-16 flex-shrink-0 backdrop-blur-xl ${headerBg}`}>
+        <div className="flex items-center min-w-0">
+            <button onClick={onBack} className="hover:opacity-80 transition-opacity mr-4" style={{ color: accentColor }}>
+                 <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                 </svg>
+            </button>
+            <div className="flex flex-col min-w-0">
+                <span className="text-2xl tracking-wider font-normal truncate" style={{ color: accentColor }}>{collection?.name ?? 'Collection'}</span>
+                {collection && <span className={`text-xs truncate ${mutedText}`}>{describeCollection(collection)}</span>}
+            </div>
+        </div>
+
+        {collection && (
+            <button onClick={handleDelete} className="text-sm font-medium text-red-500 hover:text-red-600 whitespace-nowrap ml-4">
+                Delete
+            </button>
+        )}
+      </header>
+
+      {/* --- CONTENT --- */}
+      <main className="flex-1 p-4 overflow-y-auto">
+          {!collection ? (
+             <div className="text-center text-zinc-500 mt-10">This collection no longer exists.</div>
+          ) : loading ? (
+             <div className="text-center text-zinc-500 mt-10">Loading items...</div>
+          ) : displayItems.length === 0 ? (
+             <div className="text-center text-zinc-500 mt-10">No items match this collection.</div>
+          ) : (
+             displayItems.map(item => (
+                 <div key={item.id} onClick={() => onRead(item)}>
+                     <GoldCard item={item} searchQuery={collection.query} />
+                 </div>
+             ))
+          )}
+      </main>
+    </div>
+  );
+};
+
+export default CollectionScreen;
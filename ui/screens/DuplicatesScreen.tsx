@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { ClipboardItem } from '../../types';
+import GoldCard from '../components/GoldCard';
+import { useSettings } from '../context/SettingsContext';
+import { useToast } from '../hooks/useToast';
+import Toast from '../components/Toast';
+
+interface DuplicatesScreenProps {
+  onBack: () => void;
+  onRead?: (item: ClipboardItem) => void;
+}
+
+/** Every item of every group except the first (newest), which is the one kept by default */
+const defaultSelection = (groups: ClipboardItem[][]) =>
+  new Set(groups.flatMap(group => group.slice(1).map(i => i.id)));
+
+const DuplicatesScreen: React.FC<DuplicatesScreenProps> = ({ onBack, onRead }) => {
+  const { accentColor, isDarkTheme, duplicateDetection } = useSettings();
+  const [groups, setGroups] = useState<ClipboardItem[][]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const { toast, showToast, undo } = useToast();
+
+  const fetchGroups = useCallback(async () => {
+    const data = await clipboardRepository.findDuplicateGroups(duplicateDetection);
+    setGroups(data);
+    setSelectedIds(defaultSelection(data));
+    setLoading(false);
+  }, [duplicateDetection]);
+
+  useEffect(() => {
+    fetchGroups();
+    // Groups depend on every live item, so any change means regrouping
+    return clipboardRepository.subscribe(change => {
+      if (change.type !== 'tags-changed' && change.type !== 'collections-changed') fetchGroups();
+    });
+  }, [fetchGroups]);
+
+  const toggleSelected = (item: ClipboardItem) => {
+    const newSelected = new Set(selectedIds);
+    if (newSelected.has(item.id)) newSelected.delete(item.id);
+    else newSelected.add(item.id);
+    setSelectedIds(newSelected);
+  };
+
+  const handleTrashSelected = async () => {
+    if (selectedIds.size === 0) return;
+    const count = selectedIds.size;
+    const mark = clipboardRepository.getOperationMark();
+    await clipboardRepository.softDeleteItems(Array.from(selectedIds));
+    showToast(`${count} duplicates moved to trash`, clipboardRepository.operationSince(mark));
+  };
+
+  // --- Render Helpers ---
+  const textColor = isDarkTheme ? 'text-white' : 'text-black';
+  const bgColor = isDarkTheme ? 'bg-black' : 'bg-gray-50';
+  const headerBg = isDarkTheme ? 'bg-black/80 border-white/5' : 'bg-white/80 border-black/5';
+  const mutedText = isDarkTheme ? 'text-zinc-500' : 'text-zinc-600';
+
+  return (
+    <div className={`h-full w-full flex flex-col relative animate-fade-in font-sans ${bgColor} ${textColor}`}>
+
+      {/* --- HEADER --- */}
+      <header className={`px-4 py-4 flex items-center justify-between sticky top-0 z-20 border-b h-16 flex-shrink-0 backdrop-blur-xl ${headerBg}`}>
+        <div className="flex items-center">
+            <button onClick={onBack} className="hover:opacity-80 transition-opacity mr-3" style={{ color: accentColor }}>
+                 <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                 </svg>
+            </button>
+            <h2 className="text-2xl tracking-wider font-normal" style={{ color: accentColor }}>Duplicates</h2>
+        </div>
+
+        {groups.length > 0 && (
+            <button
+                onClick={handleTrashSelected}
+                disabled={selectedIds.size === 0}
+                className="text-sm font-medium text-red-500 hover:text-red-600 disabled:opacity-40 whitespace-nowrap"
+            >
+                Trash {selectedIds.size}
+            </button>
+        )}
+      </header>
+
+      {/* --- MAIN CONTENT --- */}
+      <main className="flex-1 px-4 py-6 overflow-y-auto no-scrollbar relative z-0">
+          {loading ? (
+             <div className="text-center mt-20 font-mono text-sm tracking-widest opacity-60 animate-pulse" style={{ color: accentColor }}>SEARCHING...</div>
+          ) : groups.length === 0 ? (
+             <div className={`flex flex-col items-center justify-center mt-32 ${isDarkTheme ? "text-zinc-600" : "text-gray-400"}`}>
+                 <svg className="w-16 h-16 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                 <span className="font-light tracking-wide">No duplicates found</span>
+             </div>
+          ) : (
+            <>
+                <p className={`text-xs mb-4 px-1 ${mutedText}`}>
+                    Selected items go to Trash. The newest item of each group is kept unless you select it. Long-press to open an item.
+                </p>
+                {groups.map(group => (
+                    <section key={group[0].id} className="mb-8">
+                        <h3 className={`text-xs font-bold tracking-[0.15em] uppercase mb-2 px-1 ${mutedText}`}>
+                            {group.length} similar {group[0].category === 'notes' ? 'notes' : 'clips'}
+                        </h3>
+                        {group.map(item => (
+                            <GoldCard
+                                key={item.id}
+                                item={item}
+                                isSelectionMode
+                                isSelected={selectedIds.has(item.id)}
+                                onClick={toggleSelected}
+                                onLongPress={onRead}
+                            />
+                        ))}
+                    </section>
+                ))}
+            </>
+          )}
+      </main>
+
+      {toast && (
+          <Toast
+              message={toast.message}
+              actionLabel={toast.operationId ? 'Undo' : undefined}
+              onAction={undo}
+              accentColor={accentColor}
+          />
+      )}
+    </div>
+  );
+};
+
+export default DuplicatesScreen;
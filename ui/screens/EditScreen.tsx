@@ -3,8 +3,10 @@ import { ClipboardItem, ClipboardType } from '../../types';
 import { clipboardRepository } from '../../data/repository/ClipboardRepository';
 import { useSettings } from '../context/SettingsContext';
 import { removeDuplicates, cleanupFormat, convertToList, fixGrammar, changeCase } from '../../util/AITextProcessor';
-import { Clipboard } from '@capacitor/clipboard';
-import { detectSmartItems } from '../../util/SmartRecognition';
+import { clipboardAutoClear } from '../../data/clipboard/ClipboardAutoClear';
+import { detectPrimaryType } from '../../util/SmartRecognition';
+import { maskSensitiveContent } from '../../util/SensitiveContent';
+import { ingestionPipeline } from '../../data/ingestion/IngestionPipeline';
 
 interface EditScreenProps {
   item: ClipboardItem;
@@ -243,53 +245,30 @@ const EditScreen: React.FC<EditScreenProps> = ({ item, isNew, onBack, onSave })
       const content = editorRef.current?.innerText || '';
       
       const category = destination === 'CLIPBOARD' ? 'clipboard' : 'notes';
-      const timestamp = new Date().toLocaleString();
-      
-      // Auto-detect type using smart recognition
-      let detectedType = item.type || ClipboardType.TEXT;
-      const smartItems = detectSmartItems(content);
-      if (smartItems.length > 0) {
-        const firstType = smartItems[0].type;
-        switch (firstType) {
-          case 'PHONE':
-            detectedType = ClipboardType.PHONE;
-            break;
-          case 'EMAIL':
-            detectedType = ClipboardType.EMAIL;
-            break;
-          case 'LINK':
-            detectedType = ClipboardType.LINK;
-            break;
-          case 'LOCATION':
-            detectedType = ClipboardType.LOCATION;
-            break;
-          default:
-            detectedType = item.type || ClipboardType.TEXT;
-        }
-      }
-      
-      let finalItem: ClipboardItem;
+      let finalItem: ClipboardItem | undefined;
 
       if (isNew) {
-         finalItem = {
-             ...item,
-             id: Date.now().toString(),
+         // Tags follow the chosen destination, not the tab the note was started from
+         const result = await ingestionPipeline.ingest({
+             text: content,
+             html: htmlContent,
              title,
-             content,
-             htmlContent,
-             type: detectedType,
-             timestamp,
              category,
-             tags: category === 'notes' ? ['#notes'] : []
-         };
-         await clipboardRepository.addItem(finalItem);
+             source: 'editor',
+             base: { ...item, tags: [] }
+         });
+         finalItem = result.item;
       } else {
+          const timestamp = new Date().toISOString();
+          const detectedType = detectPrimaryType(content, item.type || ClipboardType.TEXT);
+          const displayContent = detectedType === ClipboardType.SECURE ? maskSensitiveContent(content) : undefined;
           finalItem = {
               ...item,
               title,
               content,
               htmlContent,
               type: detectedType,
+              displayContent,
               timestamp,
               category: category
           };
@@ -298,6 +277,7 @@ const EditScreen: React.FC<EditScreenProps> = ({ item, isNew, onBack, onSave })
               content, 
               htmlContent,
               type: detectedType,
+              displayContent,
               timestamp,
               category: category
           });
@@ -310,11 +290,12 @@ const EditScreen: React.FC<EditScreenProps> = ({ item, isNew, onBack, onSave })
       }
       
       if (destination === 'CLIPBOARD') {
-          await Clipboard.write({ string: content });
+          await clipboardAutoClear.copy(content, finalItem.type === ClipboardType.SECURE);
       }
       
       setShowSaveDialog(false);
-      onSave(finalItem);
+      // The stored version, so a secure item goes back to being sealed
+      onSave((await clipboardRepository.getItem(finalItem.id)) ?? finalItem);
   };
 
   // --- Render Styles ---
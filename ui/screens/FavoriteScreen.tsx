@@ -1,30 +1,33 @@
-import React, { useEffect, useState, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { useSearchResults, useRepositoryTags } from '../hooks/useRepositoryItems';
+import { SearchNode } from '../../data/search/SearchQuery';
 import { ClipboardItem, ClipboardType } from '../../types';
 import GoldCard from '../components/GoldCard';
+import SearchBar from '../components/SearchBar';
+import DateRangeFilter from '../components/DateRangeFilter';
+import TagMatchToggle from '../components/TagMatchToggle';
+import VaultPinDialog from '../components/VaultPinDialog';
+import { EMPTY_LIST_FILTER, ListFilter, listFilterNode, toggleValue } from '../../data/search/ListFilter';
+import { matchesSearch } from '../../data/search/SearchFilter';
+import { VaultLockedError, VaultMismatchError } from '../../data/vault/Vault';
 import JSZip from 'jszip';
 import { useSettings } from '../context/SettingsContext';
-import { Clipboard } from '@capacitor/clipboard';
+import { clipboardAutoClear } from '../../data/clipboard/ClipboardAutoClear';
 
 interface FavoriteScreenProps {
   onBack: () => void;
   onRead?: (item: ClipboardItem) => void;
 }
 
-type FilterType = 'ALL' | ClipboardType;
-type CategoryType = 'ALL' | 'clipboard' | 'notes';
-
-interface FilterState {
-  type: FilterType;
-  tag: string;
-  category: CategoryType;
-}
+const FAVORITES: SearchNode = { kind: 'is', flag: 'favorite' };
 
 const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
   const { accentColor, isDarkTheme } = useSettings();
-  const [items, setItems] = useState<ClipboardItem[]>([]);
-  const [availableTags, setAvailableTags] = useState<string[]>(['All']);
-  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const { items, loading } = useSearchResults(searchQuery, 'live', FAVORITES);
+  const repositoryTags = useRepositoryTags();
+  const availableTags = useMemo(() => ['All', ...repositoryTags], [repositoryTags]);
   
   // Selection Mode State
   const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -34,41 +37,19 @@ const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
   const [showMoveToTrashConfirm, setShowMoveToTrashConfirm] = useState(false);
   const [showMoreOptions, setShowMoreOptions] = useState(false);
   const [showHashtagOverlay, setShowHashtagOverlay] = useState(false);
+  const [showVaultUnlock, setShowVaultUnlock] = useState(false);
   
   // Hashtag State
   const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
 
   // Filter State
   const [isFilterOpen, setIsFilterOpen] = useState(false);
-  const [filter, setFilter] = useState<FilterState>({
-    type: 'ALL',
-    tag: 'All',
-    category: 'ALL'
-  });
-
-  useEffect(() => {
-    fetchFavorites();
-  }, []);
-
-  const fetchFavorites = async () => {
-    setLoading(true);
-    const data = await clipboardRepository.getFavoriteItems();
-    setItems(data);
-    
-    const tags = await clipboardRepository.getUniqueTags();
-    setAvailableTags(['All', ...tags]);
-    
-    setLoading(false);
-  };
+  const [filter, setFilter] = useState<ListFilter>(EMPTY_LIST_FILTER);
 
   // --- Filtering Logic ---
   const filteredItems = useMemo(() => {
-    return items.filter(item => {
-      if (filter.category !== 'ALL' && item.category !== filter.category) return false;
-      if (filter.type !== 'ALL' && item.type !== filter.type) return false;
-      if (filter.tag !== 'All' && !item.tags.includes(filter.tag)) return false;
-      return true;
-    });
+    const node = listFilterNode(filter);
+    return items.filter(item => matchesSearch(item, node));
   }, [items, filter]);
 
 
@@ -116,7 +97,6 @@ const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
     if (selectedIds.size === 0) return;
     await clipboardRepository.unfavoriteItems(Array.from(selectedIds));
     exitSelectionMode();
-    fetchFavorites();
   };
 
   const handleMoveToTrashRequest = () => {
@@ -128,32 +108,55 @@ const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
     await clipboardRepository.softDeleteItems(Array.from(selectedIds));
     setShowMoveToTrashConfirm(false);
     exitSelectionMode();
-    fetchFavorites();
+  };
+
+  /** The selected items with sealed text decrypted; null (asking for the PIN) while the vault is locked */
+  const revealSelection = async (): Promise<ClipboardItem[] | null> => {
+      try {
+          return await Promise.all(filteredItems.filter(i => selectedIds.has(i.id)).map(i => clipboardRepository.revealItem(i)));
+      } catch (e) {
+          if (e instanceof VaultMismatchError) {
+              alert(e.message);
+              return null;
+          }
+          if (!(e instanceof VaultLockedError)) throw e;
+          setShowVaultUnlock(true);
+          return null;
+      }
   };
 
   const handleMerge = async () => {
-      await clipboardRepository.mergeItems(Array.from(selectedIds));
+      try {
+          await clipboardRepository.mergeItems(Array.from(selectedIds));
+      } catch (e) {
+          if (e instanceof VaultMismatchError) {
+              alert(e.message);
+              return;
+          }
+          if (!(e instanceof VaultLockedError)) throw e;
+          setShowVaultUnlock(true);
+          return;
+      }
       exitSelectionMode();
-      fetchFavorites();
   };
 
   const handleShare = async () => {
-    const textToShare = filteredItems
-      .filter(i => selectedIds.has(i.id))
-      .map(i => i.content).join('\n\n');
+    const selectedItems = await revealSelection();
+    if (!selectedItems) return;
+    const textToShare = selectedItems.map(i => i.content).join('\n\n');
       
     if (navigator.share) {
         navigator.share({ title: 'Shared Clips', text: textToShare });
     } else {
-        await Clipboard.write({ string: textToShare });
+        await clipboardAutoClear.copy(textToShare, selectedItems.some(i => i.type === ClipboardType.SECURE));
         alert("Copied to clipboard for sharing");
     }
     exitSelectionMode();
   };
 
   const handleExport = async () => {
-      const selectedItems = filteredItems.filter(i => selectedIds.has(i.id));
-      if (selectedItems.length === 0) return;
+      const selectedItems = await revealSelection();
+      if (!selectedItems || selectedItems.length === 0) return;
 
       if (selectedItems.length === 1) {
           // Single export
@@ -211,7 +214,6 @@ const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
       setShowHashtagOverlay(false);
       setSelectedTags(new Set());
       exitSelectionMode();
-      fetchFavorites();
   };
 
   // --- Render ---
@@ -222,6 +224,15 @@ const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
 
   return (
     <div className={`h-full w-full flex flex-col relative animate-fade-in font-sans ${bgColor} ${textColor}`} onClick={() => setShowMoreOptions(false)}>
+      {showVaultUnlock && (
+          <VaultPinDialog
+              mode="unlock"
+              onDone={() => setShowVaultUnlock(false)}
+              onCancel={() => setShowVaultUnlock(false)}
+              isDarkTheme={isDarkTheme}
+              accentColor={accentColor}
+          />
+      )}
       
       {/* --- HEADER --- */}
       <header className={`px-4 py-4 flex items-center justify-between sticky top-0 z-20 border-b h-16 flex-shrink-0 backdrop-blur-xl ${headerBg}`}>
@@ -303,8 +314,8 @@ const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
                 <div className="flex justify-center space-x-6 mb-6 border-b pb-4" style={{ borderColor: isDarkTheme ? '#333' : '#eee' }}>
                     <FilterItem 
                         label="All" 
-                        active={filter.category === 'ALL'} 
-                        onClick={() => setFilter(f => ({...f, category: 'ALL'}))} 
+                        active={filter.category === null} 
+                        onClick={() => setFilter(f => ({...f, category: null}))} 
                         accentColor={accentColor} 
                         textColor={textColor}
                         underline
@@ -329,18 +340,24 @@ const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
 
                 {/* Types Grid */}
                 <div className="grid grid-cols-3 gap-y-4 gap-x-2 mb-6 border-b pb-4" style={{ borderColor: isDarkTheme ? '#333' : '#eee' }}>
-                    <FilterItem label="All" active={filter.type === 'ALL'} onClick={() => setFilter(f => ({...f, type: 'ALL'}))} underline accentColor={accentColor} textColor={textColor} />
-                    <FilterItem label="Phone" active={filter.type === ClipboardType.PHONE} onClick={() => setFilter(f => ({...f, type: ClipboardType.PHONE}))} accentColor={accentColor} textColor={textColor} />
-                    <FilterItem label="Email" active={filter.type === ClipboardType.EMAIL} onClick={() => setFilter(f => ({...f, type: ClipboardType.EMAIL}))} accentColor={accentColor} textColor={textColor} />
-                    <FilterItem label="Link" active={filter.type === ClipboardType.LINK} onClick={() => setFilter(f => ({...f, type: ClipboardType.LINK}))} accentColor={accentColor} textColor={textColor} />
-                    <FilterItem label="Location" active={filter.type === ClipboardType.LOCATION} onClick={() => setFilter(f => ({...f, type: ClipboardType.LOCATION}))} accentColor={accentColor} textColor={textColor} />
-                    <FilterItem label="Secure" active={filter.type === ClipboardType.SECURE} onClick={() => setFilter(f => ({...f, type: ClipboardType.SECURE}))} accentColor={accentColor} textColor={textColor} />
+                    <FilterItem label="All" active={filter.types.length === 0} onClick={() => setFilter(f => ({...f, types: []}))} underline accentColor={accentColor} textColor={textColor} />
+                    <FilterItem label="Phone" active={filter.types.includes(ClipboardType.PHONE)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.PHONE)}))} accentColor={accentColor} textColor={textColor} />
+                    <FilterItem label="Email" active={filter.types.includes(ClipboardType.EMAIL)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.EMAIL)}))} accentColor={accentColor} textColor={textColor} />
+                    <FilterItem label="Link" active={filter.types.includes(ClipboardType.LINK)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.LINK)}))} accentColor={accentColor} textColor={textColor} />
+                    <FilterItem label="Location" active={filter.types.includes(ClipboardType.LOCATION)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.LOCATION)}))} accentColor={accentColor} textColor={textColor} />
+                    <FilterItem label="Secure" active={filter.types.includes(ClipboardType.SECURE)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.SECURE)}))} accentColor={accentColor} textColor={textColor} />
                 </div>
-                <div className="grid grid-cols-3 gap-y-4 gap-x-2">
+                {filter.tags.length > 1 && (
+                    <div className="flex justify-end mb-3">
+                        <TagMatchToggle mode={filter.tagMode} onChange={(tagMode) => setFilter(f => ({...f, tagMode}))} accentColor={accentColor} />
+                    </div>
+                )}
+                <div className="grid grid-cols-3 gap-y-4 gap-x-2 mb-6 border-b pb-4" style={{ borderColor: isDarkTheme ? '#333' : '#eee' }}>
                     {availableTags.map(tag => (
-                        <FilterItem key={tag} label={tag} active={filter.tag === tag} onClick={() => setFilter(f => ({...f, tag: tag}))} underline={tag === 'All'} accentColor={accentColor} textColor={textColor} />
+                        <FilterItem key={tag} label={tag} active={tag === 'All' ? filter.tags.length === 0 : filter.tags.includes(tag)} onClick={() => setFilter(f => ({...f, tags: tag === 'All' ? [] : toggleValue(f.tags, tag)}))} underline={tag === 'All'} accentColor={accentColor} textColor={textColor} />
                     ))}
                 </div>
+                <DateRangeFilter filter={filter} onChange={setFilter} isDarkTheme={isDarkTheme} accentColor={accentColor} />
              </div>
         </div>
       )}
@@ -361,12 +378,13 @@ const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
 
       {/* --- MAIN CONTENT --- */}
       <main className="flex-1 px-4 py-6 overflow-y-auto no-scrollbar relative z-0">
+          <SearchBar query={searchQuery} onQueryChange={setSearchQuery} isDarkTheme={isDarkTheme} accentColor={accentColor} />
           {loading ? (
              <div className="text-center mt-20 font-mono text-sm tracking-widest opacity-60 animate-pulse" style={{ color: accentColor }}>LOADING FAVORITES...</div>
           ) : filteredItems.length === 0 ? (
              <div className={`flex flex-col items-center justify-center mt-32 ${isDarkTheme ? "text-zinc-600" : "text-gray-400"}`}>
                  <svg className="w-16 h-16 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" /></svg>
-                 <span className="font-light tracking-wide">No favorites yet</span>
+                 <span className="font-light tracking-wide">{searchQuery ? 'No matching favorites' : 'No favorites yet'}</span>
              </div>
           ) : (
             filteredItems.map(item => {
@@ -381,7 +399,7 @@ const FavoriteScreen: React.FC<FavoriteScreenProps> = ({ onBack, onRead }) => {
                         }}
                         className={`relative transition-all duration-200 ${isSelectionMode ? 'cursor-pointer' : ''}`}
                     >
-                        <GoldCard item={item} />
+                        <GoldCard item={item} searchQuery={searchQuery} />
                         {isSelectionMode && (
                              <div className={`absolute inset-0 z-10 flex items-center justify-end pr-4 rounded-3xl transition-colors ${isSelected ? 'bg-gold/10 ring-2 ring-gold' : 'bg-black/40'}`}>
                                 {isSelected ? (
@@ -2,12 +2,27 @@ import React, { useEffect, useState, useMemo, useRef } from 'react';
 import GoldCard from '../components/GoldCard';
 import BottomNav from '../components/BottomNav';
 import SideBar from '../components/SideBar';
-import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import SaveCollectionDialog from '../components/SaveCollectionDialog';
+import DateRangeFilter from '../components/DateRangeFilter';
+import TagMatchToggle from '../components/TagMatchToggle';
+import TagSuggestionRow from '../components/TagSuggestionRow';
+import VaultPinDialog from '../components/VaultPinDialog';
+import { SmartCollection, createCollectionId, describeCollection } from '../../data/collections/SmartCollection';
+import { clipboardRepository, sortItems } from '../../data/repository/ClipboardRepository';
+import { EMPTY_LIST_FILTER, ListFilter, listFilterNode, toggleValue } from '../../data/search/ListFilter';
+import { matchesSearch } from '../../data/search/SearchFilter';
+import { normalizeTag } from '../../data/tags/TagNormalization';
+import { TagSuggestions } from '../../data/tags/TagSuggestions';
+import { VaultLockedError, VaultMismatchError } from '../../data/vault/Vault';
+import { useSearchResults, useRepositoryTags } from '../hooks/useRepositoryItems';
+import { useToast } from '../hooks/useToast';
+import Toast from '../components/Toast';
 import { ClipboardItem, ScreenName, ClipboardType, SortOption, SortDirection } from '../../types';
 import { useSettings } from '../context/SettingsContext';
 import JSZip from 'jszip';
 import { Clipboard } from '@capacitor/clipboard';
-import { detectSmartItems } from '../../util/SmartRecognition';
+import { clipboardAutoClear } from '../../data/clipboard/ClipboardAutoClear';
+import { ingestionPipeline } from '../../data/ingestion/IngestionPipeline';
 import { Share } from '@capacitor/share';
 import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
 import { Capacitor } from '@capacitor/core';
@@ -16,24 +31,15 @@ interface HomeScreenProps {
     onNavigate: (screen: ScreenName) => void;
     onRead?: (item: ClipboardItem) => void;
     onCreateNew?: () => void;
+    onOpenCollection?: (collection: SmartCollection) => void;
     activeTab: 'clipboard' | 'notes';
     onTabChange: (tab: 'clipboard' | 'notes') => void;
 }
 
-type FilterType = 'ALL' | ClipboardType;
-
-interface FilterState {
-  type: FilterType;
-  tag: string;
-}
-
-const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew, activeTab, onTabChange }) => {
+const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew, onOpenCollection, activeTab, onTabChange }) => {
   const { accentColor, isDarkTheme, clipboardSyncEnabled, setClipboardSyncEnabled } = useSettings();
 
   // --- STATE: Data & Navigation ---
-  const [items, setItems] = useState<ClipboardItem[]>([]);
-  const [availableTags, setAvailableTags] = useState<string[]>(['All']);
-  const [loading, setLoading] = useState(true);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   // --- STATE: Selection Mode ---
@@ -49,18 +55,20 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
   const [sortDirection, setSortDirection] = useState<SortDirection>('DESC');
 
   const [isFilterOpen, setIsFilterOpen] = useState(false);
-  const [filter, setFilter] = useState<FilterState>({ type: 'ALL', tag: 'All' });
+  const [filter, setFilter] = useState<ListFilter>(EMPTY_LIST_FILTER);
+  const [showSaveCollection, setShowSaveCollection] = useState(false);
 
   // --- STATE: Dialogs & Overlays ---
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [showMoreMenu, setShowMoreMenu] = useState(false);
-  const [toastMessage, setToastMessage] = useState<string | null>(null);
   const [showPermissionModal, setShowPermissionModal] = useState(false);
+  const [showVaultUnlock, setShowVaultUnlock] = useState(false);
 
   // --- STATE: Hashtag Overlay ---
   const [showHashtagOverlay, setShowHashtagOverlay] = useState(false);
   const [overlaySelectedTags, setOverlaySelectedTags] = useState<Set<string>>(new Set());
   const [newTagInput, setNewTagInput] = useState('');
+  const [tagSuggestions, setTagSuggestions] = useState<TagSuggestions>({ existing: [], keywords: [] });
 
   // --- STATE: Item Actions ---
   const [activeItemMenuId, setActiveItemMenuId] = useState<string | null>(null);
@@ -74,18 +82,15 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
   const touchEndRef = useRef<{x: number, y: number} | null>(null);
   const minSwipeDistance = 50;
 
-  // --- DATA FETCHING ---
-  const fetchData = async () => {
-    const data = await clipboardRepository.getAllItems(sortOption, sortDirection);
-    setItems(data);
-    const tags = await clipboardRepository.getUniqueTags();
-    setAvailableTags(['All', ...tags]);
-    setLoading(false);
-  };
-
-  useEffect(() => {
-    fetchData();
-  }, [sortOption, sortDirection]);
+  // --- DATA (kept live by repository change events) ---
+  const { items: liveItems, loading, ranked } = useSearchResults(searchQuery);
+  // Ranked search results are already in relevance order
+  const items = useMemo(
+    () => (ranked ? liveItems : sortItems(liveItems, sortOption, sortDirection)),
+    [liveItems, ranked, sortOption, sortDirection]
+  );
+  const repositoryTags = useRepositoryTags();
+  const availableTags = useMemo(() => ['All', ...repositoryTags], [repositoryTags]);
 
   // --- CLIPBOARD SYNC LOGIC ---
   useEffect(() => {
@@ -99,48 +104,34 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
     try {
       if (!document.hasFocus()) return;
       const { value: text } = await Clipboard.read();
-      if (!text || !text.trim()) return;
-
-      const latestItems = await clipboardRepository.getAllItems('DATE', 'DESC');
-      const latest = latestItems.find(i => i.category === 'clipboard' && !i.isDeleted);
-
-      if (latest && latest.content === text) return;
-      
-      const trashedItems = latestItems.filter(i => i.isDeleted);
-      if (trashedItems.some(i => i.content === text)) return;
-
-      let detectedType = ClipboardType.TEXT;
-      const smartItems = detectSmartItems(text);
-      if (smartItems.length > 0) {
-        const firstDetectedType = smartItems[0].type;
-        switch (firstDetectedType) {
-          case 'PHONE': detectedType = ClipboardType.PHONE; break;
-          case 'EMAIL': detectedType = ClipboardType.EMAIL; break;
-          case 'LINK': detectedType = ClipboardType.LINK; break;
-          case 'LOCATION': detectedType = ClipboardType.LOCATION; break;
-          default: detectedType = ClipboardType.TEXT;
-        }
-      }
+      if (!text) return;
 
-      const newItem: ClipboardItem = {
-         id: Date.now().toString(),
-         content: text,
-         type: detectedType,
-         category: 'clipboard',
-         timestamp: new Date().toLocaleString(),
-         tags: ['#synced'],
-         isPinned: false,
-         isFavorite: false,
-         isDeleted: false
-      };
-      await clipboardRepository.addItem(newItem);
-      await fetchData();
-      showToast("Synced from Clipboard");
+      const result = await ingestionPipeline.ingest({ text, category: 'clipboard', source: 'sync' });
+      if (result.status !== 'skipped') showToast("Synced from Clipboard");
+      else if (result.reason === 'sensitive') showToast("Sensitive content not saved");
     } catch (err) {
       console.warn("Manual sync failed: " + (err instanceof Error ? err.message : String(err)));
     }
   };
 
+  // --- HANDLERS: Smart Collections ---
+  /** The current tab, search, filter and sort as an (unnamed) collection */
+  const currentCollection = (name: string): SmartCollection => ({
+      id: createCollectionId(),
+      name,
+      query: searchQuery,
+      filter: { ...filter, category: activeTab },
+      sortOption,
+      sortDirection
+  });
+
+  const handleSaveCollection = async (name: string) => {
+      await clipboardRepository.saveCollection(currentCollection(name));
+      setShowSaveCollection(false);
+      setIsFilterOpen(false);
+      showToast(`Saved collection "${name}"`);
+  };
+
   const handleGrantPermission = async () => {
       try {
           await Clipboard.read(); 
@@ -154,10 +145,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
       }
   };
 
-  const showToast = (msg: string) => {
-      setToastMessage(msg);
-      setTimeout(() => setToastMessage(null), 3000);
-  };
+  const { toast, showToast, undo } = useToast();
 
   // --- ANIMATION & TAB LOGIC ---
   useEffect(() => {
@@ -205,19 +193,9 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
 
   // --- COMPUTED VALUES ---
   const displayItems = useMemo(() => {
-    return items.filter(item => {
-      if (item.category !== activeTab) return false;
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase();
-        const matchesContent = (item.displayContent || item.content).toLowerCase().includes(query);
-        const matchesTags = item.tags.some(t => t.toLowerCase().includes(query));
-        if (!matchesContent && !matchesTags) return false;
-      }
-      if (filter.type !== 'ALL' && item.type !== filter.type) return false;
-      if (filter.tag !== 'All' && !item.tags.includes(filter.tag)) return false;
-      return true;
-    });
-  }, [items, searchQuery, filter, activeTab]);
+    const node = listFilterNode({ ...filter, category: activeTab });
+    return items.filter(item => matchesSearch(item, node));
+  }, [items, filter, activeTab]);
 
   // --- HANDLERS: Selection ---
   const handleLongPress = (item: ClipboardItem) => {
@@ -266,9 +244,9 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
   };
 
   const confirmBulkDelete = async () => {
+      const mark = clipboardRepository.getOperationMark();
       await clipboardRepository.softDeleteItems(Array.from(selectedIds));
-      fetchData();
-      showToast(`${selectedIds.size} items moved to Trash`);
+      showToast(`${selectedIds.size} items moved to Trash`, clipboardRepository.operationSince(mark));
       exitSelectionMode();
   };
 
@@ -282,15 +260,30 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
           await clipboardRepository.unfavoriteItems(Array.from(selectedIds));
           showToast("Removed from Favorites");
       }
-      fetchData();
+  };
+
+  /** The selected items with sealed text decrypted; null (asking for the PIN) while the vault is locked */
+  const revealSelection = async (): Promise<ClipboardItem[] | null> => {
+      try {
+          return await Promise.all(items.filter(i => selectedIds.has(i.id)).map(i => clipboardRepository.revealItem(i)));
+      } catch (e) {
+          if (e instanceof VaultMismatchError) {
+              showToast(e.message);
+              return null;
+          }
+          if (!(e instanceof VaultLockedError)) throw e;
+          setShowMoreMenu(false);
+          setShowVaultUnlock(true);
+          return null;
+      }
   };
 
   const handleBulkCopy = async () => {
-      const selectedItems = items.filter(i => selectedIds.has(i.id));
-      if (selectedItems.length === 0) return;
+      const selectedItems = await revealSelection();
+      if (!selectedItems || selectedItems.length === 0) return;
       const textToCopy = selectedItems.map(i => i.content).join('\n\n');
       try {
-        await Clipboard.write({ string: textToCopy });
+        await clipboardAutoClear.copy(textToCopy, selectedItems.some(i => i.type === ClipboardType.SECURE));
         showToast("Copied to system clipboard");
       } catch (err) {
         console.error("Copy failed", err);
@@ -305,15 +298,25 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
           showToast("Select at least 2 items to merge");
           return;
       }
-      await clipboardRepository.mergeItems(Array.from(selectedIds));
-      fetchData();
-      showToast("Items merged successfully");
+      const mark = clipboardRepository.getOperationMark();
+      try {
+          await clipboardRepository.mergeItems(Array.from(selectedIds));
+      } catch (e) {
+          if (e instanceof VaultMismatchError) {
+              showToast(e.message);
+              return;
+          }
+          if (!(e instanceof VaultLockedError)) throw e;
+          setShowVaultUnlock(true);
+          return;
+      }
+      showToast("Items merged successfully", clipboardRepository.operationSince(mark));
       exitSelectionMode();
   };
 
   const handleShare = async () => {
-      const selectedItems = items.filter(i => selectedIds.has(i.id));
-      if (selectedItems.length === 0) return;
+      const selectedItems = await revealSelection();
+      if (!selectedItems || selectedItems.length === 0) return;
       
       const textToShare = selectedItems.map(i => i.content).join('\n\n');
       
@@ -332,23 +335,22 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
 
   const handleCopyToNotes = async () => {
       const targetCategory = activeTab === 'clipboard' ? 'notes' : 'clipboard';
-      const selectedItems = items.filter(i => selectedIds.has(i.id));
+      const selectedItems = await revealSelection();
+      if (!selectedItems) return;
       if (targetCategory === 'clipboard') {
           const textToCopy = selectedItems.map(i => i.content).join('\n\n');
-          try { await Clipboard.write({ string: textToCopy }); } catch (e) {}
+          try { await clipboardAutoClear.copy(textToCopy, selectedItems.some(i => i.type === ClipboardType.SECURE)); } catch (e) {}
       }
       for (const item of selectedItems) {
-          await clipboardRepository.addItem({
-              ...item,
-              id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
+          await ingestionPipeline.ingest({
+              text: item.content,
               category: targetCategory,
-              tags: [...item.tags, '#copy'],
-              timestamp: new Date().toLocaleString()
+              source: 'copy',
+              base: item
           });
       }
       showToast(`Copied ${selectedItems.length} items to ${targetCategory}`);
       exitSelectionMode();
-      fetchData();
   };
 
   const handleBulkPin = async () => {
@@ -363,12 +365,11 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
       }
       showToast(shouldPin ? "Pinned selected items" : "Unpinned selected items");
       exitSelectionMode();
-      fetchData();
   };
 
   const handleExport = async () => {
-      const selectedItems = items.filter(i => selectedIds.has(i.id));
-      if (selectedItems.length === 0) return;
+      const selectedItems = await revealSelection();
+      if (!selectedItems || selectedItems.length === 0) return;
 
       try {
           if (Capacitor.isNativePlatform()) {
@@ -467,17 +468,19 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
   };
 
   // --- HASHTAG OVERLAY LOGIC ---
-  const handleAddHashtagStart = async () => {
+  const handleAddHashtagStart = () => {
       setShowMoreMenu(false);
-      const allTags = await clipboardRepository.getUniqueTags();
-      setAvailableTags(['All', ...allTags]);
       const selectedItems = items.filter(i => selectedIds.has(i.id));
       const unionTags = new Set<string>();
       selectedItems.forEach(item => {
           item.tags.forEach(tag => unionTags.add(tag));
       });
       setOverlaySelectedTags(unionTags);
+      setTagSuggestions({ existing: [], keywords: [] });
       setShowHashtagOverlay(true);
+      clipboardRepository.getTagSuggestions(selectedItems.map(i => i.id))
+          .then(setTagSuggestions)
+          .catch(e => console.warn("Tag suggestions failed", e));
   };
 
   const toggleOverlayTag = (tag: string) => {
@@ -488,25 +491,23 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
   };
 
   const handleAddNewTagInOverlay = () => {
-      if (!newTagInput.trim()) return;
-      let tag = newTagInput.trim();
-      if (!tag.startsWith('#')) tag = '#' + tag;
+      const tag = normalizeTag(newTagInput);
+      if (!tag) return;
       const newSet = new Set(overlaySelectedTags);
       newSet.add(tag);
       setOverlaySelectedTags(newSet);
       if (!availableTags.includes(tag)) {
-          setAvailableTags(prev => [...prev, tag]);
           clipboardRepository.addNewTag(tag);
       }
       setNewTagInput('');
   };
 
   const saveHashtagOverlay = async () => {
+      const mark = clipboardRepository.getOperationMark();
       await clipboardRepository.replaceTagsForItems(Array.from(selectedIds), Array.from(overlaySelectedTags));
-      showToast("Tags updated successfully");
+      showToast("Tags updated successfully", clipboardRepository.operationSince(mark));
       setShowHashtagOverlay(false);
       exitSelectionMode();
-      fetchData();
   };
 
   const handleGlobalClick = () => {
@@ -526,7 +527,6 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
       const draggedId = e.dataTransfer.getData('text/plain');
       if (draggedId && draggedId !== targetItem.id) {
           await clipboardRepository.reorderItem(draggedId, targetItem.id);
-          fetchData();
       }
   };
 
@@ -543,7 +543,29 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
         onTouchMove={onTouchMove}
         onTouchEnd={onTouchEnd}
     >
-      <SideBar isOpen={isSidebarOpen} onClose={() => setIsSidebarOpen(false)} onNavigate={onNavigate} />
+      <SideBar isOpen={isSidebarOpen} onClose={() => setIsSidebarOpen(false)} onNavigate={onNavigate} onOpenCollection={onOpenCollection} />
+
+      {showVaultUnlock && (
+          <VaultPinDialog
+              mode="unlock"
+              onDone={() => {
+                  setShowVaultUnlock(false);
+                  showToast("Vault unlocked");
+              }}
+              onCancel={() => setShowVaultUnlock(false)}
+              isDarkTheme={isDarkTheme}
+              accentColor={accentColor}
+          />
+      )}
+      {showSaveCollection && (
+          <SaveCollectionDialog
+              description={describeCollection(currentCollection(''))}
+              onSave={handleSaveCollection}
+              onCancel={() => setShowSaveCollection(false)}
+              isDarkTheme={isDarkTheme}
+              accentColor={accentColor}
+          />
+      )}
       <header className={`px-4 z-30 flex items-center h-20 transition-all duration-300 sticky top-0 backdrop-blur-xl border-b ${headerBg} shadow-2xl`}>
         <div className="w-full flex items-center h-full animate-fade-in-down">
             {isSelectionMode ? (
@@ -623,23 +645,39 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
                 <div className="mb-6">
                     <h3 className={`text-xs font-bold uppercase tracking-widest mb-3 ${isDarkTheme ? 'text-zinc-500' : 'text-gray-400'}`}>Content Type</h3>
                     <div className="flex flex-wrap gap-2">
-                        <FilterChip label="All" active={filter.type === 'ALL'} onClick={() => setFilter(f => ({...f, type: 'ALL'}))} accentColor={accentColor} textColor={textColor} />
-                        <FilterChip label="Text" active={filter.type === ClipboardType.TEXT} onClick={() => setFilter(f => ({...f, type: ClipboardType.TEXT}))} accentColor={accentColor} textColor={textColor} />
-                        <FilterChip label="Link" active={filter.type === ClipboardType.LINK} onClick={() => setFilter(f => ({...f, type: ClipboardType.LINK}))} accentColor={accentColor} textColor={textColor} />
-                        <FilterChip label="Phone" active={filter.type === ClipboardType.PHONE} onClick={() => setFilter(f => ({...f, type: ClipboardType.PHONE}))} accentColor={accentColor} textColor={textColor} />
-                        <FilterChip label="Email" active={filter.type === ClipboardType.EMAIL} onClick={() => setFilter(f => ({...f, type: ClipboardType.EMAIL}))} accentColor={accentColor} textColor={textColor} />
-                        <FilterChip label="Location" active={filter.type === ClipboardType.LOCATION} onClick={() => setFilter(f => ({...f, type: ClipboardType.LOCATION}))} accentColor={accentColor} textColor={textColor} />
-                        <FilterChip label="Secure" active={filter.type === ClipboardType.SECURE} onClick={() => setFilter(f => ({...f, type: ClipboardType.SECURE}))} accentColor={accentColor} textColor={textColor} />
+                        <FilterChip label="All" active={filter.types.length === 0} onClick={() => setFilter(f => ({...f, types: []}))} accentColor={accentColor} textColor={textColor} />
+                        <FilterChip label="Text" active={filter.types.includes(ClipboardType.TEXT)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.TEXT)}))} accentColor={accentColor} textColor={textColor} />
+                        <FilterChip label="Link" active={filter.types.includes(ClipboardType.LINK)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.LINK)}))} accentColor={accentColor} textColor={textColor} />
+                        <FilterChip label="Phone" active={filter.types.includes(ClipboardType.PHONE)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.PHONE)}))} accentColor={accentColor} textColor={textColor} />
+                        <FilterChip label="Email" active={filter.types.includes(ClipboardType.EMAIL)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.EMAIL)}))} accentColor={accentColor} textColor={textColor} />
+                        <FilterChip label="Location" active={filter.types.includes(ClipboardType.LOCATION)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.LOCATION)}))} accentColor={accentColor} textColor={textColor} />
+                        <FilterChip label="Secure" active={filter.types.includes(ClipboardType.SECURE)} onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.SECURE)}))} accentColor={accentColor} textColor={textColor} />
                     </div>
                 </div>
-                <div>
-                     <h3 className={`text-xs font-bold uppercase tracking-widest mb-3 ${isDarkTheme ? 'text-zinc-500' : 'text-gray-400'}`}>Tags</h3>
+                <div className="mb-6">
+                     <div className="flex items-center justify-between mb-3">
+                        <h3 className={`text-xs font-bold uppercase tracking-widest ${isDarkTheme ? 'text-zinc-500' : 'text-gray-400'}`}>Tags</h3>
+                        {filter.tags.length > 1 && <TagMatchToggle mode={filter.tagMode} onChange={(tagMode) => setFilter(f => ({...f, tagMode}))} accentColor={accentColor} />}
+                     </div>
                      <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto no-scrollbar">
-                        {availableTags.map(tag => (
-                            <FilterChip key={tag} label={tag} active={filter.tag === tag} onClick={() => setFilter(f => ({...f, tag: tag}))} accentColor={accentColor} textColor={textColor} />
+                        {availableTags.map(tag => tag === 'All' ? (
+                            <FilterChip key={tag} label={tag} active={filter.tags.length === 0} onClick={() => setFilter(f => ({...f, tags: []}))} accentColor={accentColor} textColor={textColor} />
+                        ) : (
+                            <FilterChip key={tag} label={tag} active={filter.tags.includes(tag)} onClick={() => setFilter(f => ({...f, tags: toggleValue(f.tags, tag)}))} accentColor={accentColor} textColor={textColor} />
                         ))}
                     </div>
                 </div>
+                <div>
+                    <h3 className={`text-xs font-bold uppercase tracking-widest mb-3 ${isDarkTheme ? 'text-zinc-500' : 'text-gray-400'}`}>Date</h3>
+                    <DateRangeFilter filter={filter} onChange={setFilter} isDarkTheme={isDarkTheme} accentColor={accentColor} />
+                </div>
+                <button
+                    onClick={() => setShowSaveCollection(true)}
+                    className="mt-6 w-full py-3 rounded-xl text-sm font-medium border transition-opacity hover:opacity-80"
+                    style={{ color: accentColor, borderColor: accentColor }}
+                >
+                    Save as Collection
+                </button>
              </div>
         </div>
       )}
@@ -709,13 +747,13 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
         </div>
       )}
 
-      {toastMessage && (
-          <div className="fixed bottom-32 left-1/2 transform -translate-x-1/2 z-50 animate-fade-in-up">
-              <div className="bg-zinc-900/90 backdrop-blur-md border border-zinc-700 text-white px-6 py-3 rounded-full shadow-2xl flex items-center space-x-3">
-                  <div className="w-1.5 h-1.5 rounded-full bg-green-500"></div>
-                  <span className="text-xs font-bold tracking-widest uppercase">{toastMessage}</span>
-              </div>
-          </div>
+      {toast && (
+          <Toast
+              message={toast.message}
+              actionLabel={toast.operationId ? 'Undo' : undefined}
+              onAction={undo}
+              accentColor={accentColor}
+          />
       )}
 
       {showPermissionModal && (
@@ -765,6 +803,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onNavigate, onRead, onCreateNew
                        <input type="text" placeholder="New tag..." value={newTagInput} onChange={(e) => setNewTagInput(e.target.value)} className={`bg-transparent w-full focus:outline-none font-medium ${textColor} placeholder-zinc-500`} />
                        <button onClick={handleAddNewTagInOverlay} style={{ color: accentColor }} className="font-bold text-xl px-2">+</button>
                   </div>
+                  <TagSuggestionRow suggestions={tagSuggestions} selected={overlaySelectedTags} onToggle={toggleOverlayTag} isDarkTheme={isDarkTheme} accentColor={accentColor} />
                   <div className="flex flex-wrap gap-2 overflow-y-auto pr-1 flex-1 min-h-[100px] content-start">
                       {availableTags.filter(t => t !== 'All').map(tag => {
                           const isSelected = overlaySelectedTags.has(tag);
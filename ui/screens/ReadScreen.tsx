@@ -1,17 +1,28 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { ClipboardItem, ClipboardType } from '../../types';
 import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { ingestionPipeline } from '../../data/ingestion/IngestionPipeline';
+import { normalizeTags } from '../../data/tags/TagNormalization';
+import { TagSuggestions } from '../../data/tags/TagSuggestions';
 import { useSettings } from '../context/SettingsContext';
 import { detectSmartItems, SmartItem } from '../../util/SmartRecognition';
-import { Clipboard } from '@capacitor/clipboard';
+import { clipboardAutoClear } from '../../data/clipboard/ClipboardAutoClear';
+import { formatTimestamp } from '../../util/DateFormat';
+import RevisionHistory from '../components/RevisionHistory';
+import TagSuggestionRow from '../components/TagSuggestionRow';
+import VaultPinDialog from '../components/VaultPinDialog';
+import { useRelatedItems } from '../hooks/useRepositoryItems';
+import { useRevealedItem } from '../hooks/useVault';
 
 interface ReadScreenProps {
   item: ClipboardItem;
   onBack: () => void;
   onEdit: (item: ClipboardItem) => void;
+  /** Opens a related item in place of this one */
+  onRead: (item: ClipboardItem) => void;
 }
 
-const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
+const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit, onRead }) => {
   const { isDarkTheme, accentColor, readingFontSize, isSmartRecognitionOn } = useSettings();
   
   const [isSmartMenuOpen, setIsSmartMenuOpen] = useState(false);
@@ -22,17 +33,30 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
   // Hashtag Logic
   const [isHashtagOverlayOpen, setIsHashtagOverlayOpen] = useState(false);
   const [allTags, setAllTags] = useState<string[]>([]);
+  const [tagSuggestions, setTagSuggestions] = useState<TagSuggestions>({ existing: [], keywords: [] });
   const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set(item.tags));
 
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false);
+
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   
   const [currentItem, setCurrentItem] = useState(item);
 
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const mainRef = useRef<HTMLElement>(null);
+
+  const relatedItems = useRelatedItems(item.id);
+
+  // Sealed items show their mask until the vault is unlocked
+  const { revealedItem, revealError } = useRevealedItem(currentItem);
+  const isSealed = !!currentItem.secret && !revealedItem;
+  const visibleItem = revealedItem ?? currentItem;
 
   useEffect(() => {
       setCurrentItem(item);
       setSelectedTags(new Set(item.tags));
+      mainRef.current?.scrollTo({ top: 0 });
   }, [item]);
 
   const showToast = (msg: string) => {
@@ -42,8 +66,8 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
 
   const smartItems = useMemo<SmartItem[]>(() => {
     if (!isSmartRecognitionOn) return [];
-    return detectSmartItems(currentItem.content, currentItem.type);
-  }, [currentItem, isSmartRecognitionOn]);
+    return detectSmartItems(visibleItem.content, visibleItem.type);
+  }, [visibleItem, isSmartRecognitionOn]);
 
   const handleSmartAction = (smartItem: SmartItem) => {
       let url = '';
@@ -75,25 +99,32 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
   };
 
   const handleMenuAction = async (action: string) => {
+      if (isSealed && ['EDIT', 'COPY', 'SHARE', 'EXPORT', 'TOGGLE_CATEGORY_COPY'].includes(action)) {
+          setIsMenuOpen(false);
+          // Unlocking cannot help with a secret from another vault
+          if (revealError) showToast(revealError);
+          else setIsUnlockOpen(true);
+          return;
+      }
       switch(action) {
-          case 'EDIT': onEdit(currentItem); break;
+          case 'EDIT': onEdit(visibleItem); break;
           case 'COPY':
               try {
-                  await Clipboard.write({ string: currentItem.content });
+                  await clipboardAutoClear.copy(visibleItem.content, visibleItem.type === ClipboardType.SECURE);
                   showToast("Copied to clipboard");
               } catch (e) {
                   showToast("Failed to copy");
               }
               break;
           case 'SHARE': 
-              if (navigator.share) navigator.share({ title: 'Clip', text: currentItem.content });
+              if (navigator.share) navigator.share({ title: 'Clip', text: visibleItem.content });
               else { 
-                  await Clipboard.write({ string: currentItem.content }); 
+                  await clipboardAutoClear.copy(visibleItem.content, visibleItem.type === ClipboardType.SECURE); 
                   showToast("Copied to clipboard");
               }
               break;
           case 'EXPORT': 
-              const blob = new Blob([currentItem.content], {type: 'text/plain'});
+              const blob = new Blob([visibleItem.content], {type: 'text/plain'});
               const url = URL.createObjectURL(blob);
               const a = document.createElement('a');
               a.href = url;
@@ -106,29 +137,35 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
                // If copying TO clipboard, try to sync with system
                if (targetCategory === 'clipboard') {
                    try {
-                       await Clipboard.write({ string: currentItem.content });
+                       await clipboardAutoClear.copy(visibleItem.content, visibleItem.type === ClipboardType.SECURE);
                    } catch (e) {
                        console.warn("System clipboard write failed");
                    }
                }
 
-               await clipboardRepository.addItem({
-                   ...currentItem,
-                   id: Date.now().toString(),
+               await ingestionPipeline.ingest({
+                   text: visibleItem.content,
                    category: targetCategory,
-                   tags: [...currentItem.tags, '#copy'],
-                   timestamp: new Date().toLocaleString()
+                   source: 'copy',
+                   base: visibleItem
                });
                showToast(`Copied to ${targetCategory === 'clipboard' ? 'Clipboard' : 'Notes'}`);
                break;
           case 'HASHTAG': 
                // Fetch fresh tags before showing overlay
-               const tags = await clipboardRepository.getUniqueTags();
+               const [tags, suggestions] = await Promise.all([
+                   clipboardRepository.getUniqueTags(),
+                   clipboardRepository.getTagSuggestions([currentItem.id])
+               ]);
                setAllTags(tags);
+               setTagSuggestions(suggestions);
                // Sync selected state with current item
                setSelectedTags(new Set(currentItem.tags));
                setIsHashtagOverlayOpen(true); 
                break;
+          case 'HISTORY':
+              setIsHistoryOpen(true);
+              break;
           case 'FAVORITE':
               const newPinnedState = !currentItem.isPinned;
               await clipboardRepository.pinItem(currentItem.id, newPinnedState);
@@ -139,15 +176,29 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
       setIsMenuOpen(false);
   };
 
+  const toggleSelectedTag = (tag: string) => {
+      const newSet = new Set(selectedTags);
+      if (newSet.has(tag)) newSet.delete(tag);
+      else newSet.add(tag);
+      setSelectedTags(newSet);
+  };
+
   const handleSaveHashtags = async () => {
       // Logic to replace tags for this single item
       await clipboardRepository.replaceTagsForItems([currentItem.id], Array.from(selectedTags));
-      const updatedItem = { ...currentItem, tags: Array.from(selectedTags) };
+      const updatedItem = { ...currentItem, tags: normalizeTags(selectedTags) };
       setCurrentItem(updatedItem); 
       setIsHashtagOverlayOpen(false);
       showToast("Tags updated");
   };
 
+  const handleRevisionRestored = (restored: ClipboardItem) => {
+      setCurrentItem(restored);
+      setSelectedTags(new Set(restored.tags));
+      setIsHistoryOpen(false);
+      showToast("Version restored");
+  };
+
   // Helper for search highlighting on plain text
   const highlightText = (text: string, query: string) => {
       if (!query) return text;
@@ -164,7 +215,7 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
   const iconColor = isDarkTheme ? 'text-zinc-300 hover:text-white' : 'text-gray-600 hover:text-black';
 
   // Determine what to display
-  const shouldRenderHtml = !isSearchActive && !!currentItem.htmlContent;
+  const shouldRenderHtml = !isSearchActive && !!visibleItem.htmlContent;
 
   return (
     <div className={`h-screen w-full flex flex-col relative font-sans animate-fade-in ${bgColor} ${isDarkTheme ? 'text-white' : 'text-black'}`}>
@@ -239,16 +290,17 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
                     isDark={isDarkTheme} 
                   />
                   <MenuBtn label="Add a Hashtag" onClick={() => handleMenuAction('HASHTAG')} isDark={isDarkTheme} />
+                  <MenuBtn label="Edit History" onClick={() => handleMenuAction('HISTORY')} isDark={isDarkTheme} />
                   <MenuBtn label={currentItem.isPinned ? "Remove Favorite" : "Add to Favorite"} onClick={() => handleMenuAction('FAVORITE')} isDark={isDarkTheme} />
               </div>
           </div>
       )}
 
       {/* --- CONTENT --- */}
-      <main className="flex-1 overflow-y-auto p-6 scroll-smooth" onClick={() => { setIsSearchActive(false); setIsMenuOpen(false); setIsSmartMenuOpen(false); }}>
+      <main ref={mainRef} className="flex-1 overflow-y-auto p-6 scroll-smooth" onClick={() => { setIsSearchActive(false); setIsMenuOpen(false); setIsSmartMenuOpen(false); }}>
          {/* Metadata */}
          <div className="flex flex-wrap gap-2 mb-6">
-            <span className={`text-xs uppercase tracking-widest ${isDarkTheme ? 'text-zinc-500' : 'text-zinc-600'}`}>{currentItem.timestamp}</span>
+            <span className={`text-xs uppercase tracking-widest ${isDarkTheme ? 'text-zinc-500' : 'text-zinc-600'}`}>{formatTimestamp(currentItem.timestamp)}</span>
             {currentItem.tags.map(tag => (
                 <span key={tag} className="text-xs border px-2 rounded-full" style={{ borderColor: `${accentColor}4D`, color: accentColor }}>{tag}</span>
             ))}
@@ -261,12 +313,38 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
          >
              {shouldRenderHtml ? (
                  // Render HTML content if available and not searching
-                 <div dangerouslySetInnerHTML={{ __html: currentItem.htmlContent || '' }} />
+                 <div dangerouslySetInnerHTML={{ __html: visibleItem.htmlContent || '' }} />
              ) : (
                  // Render Plain text (with search highlighting if active)
-                 highlightText(currentItem.displayContent || currentItem.content, searchQuery)
+                 highlightText(revealedItem ? revealedItem.content : (currentItem.displayContent || currentItem.content), searchQuery)
              )}
          </div>
+
+         {isSealed && revealError && (
+             <p className="mt-6 text-xs text-red-500">{revealError}</p>
+         )}
+
+         {isSealed && !revealError && (
+             <button
+                onClick={(e) => { e.stopPropagation(); setIsUnlockOpen(true); }}
+                className="mt-6 px-4 py-2 rounded-full border text-xs font-bold uppercase tracking-widest"
+                style={{ borderColor: accentColor, color: accentColor }}
+             >
+                Unlock to Reveal
+             </button>
+         )}
+
+         {/* Related Items */}
+         {relatedItems.length > 0 && (
+             <section className={`mt-12 pt-6 border-t ${isDarkTheme ? 'border-zinc-800' : 'border-zinc-300'}`}>
+                 <h3 className={`text-[10px] font-bold uppercase tracking-widest mb-3 ${isDarkTheme ? 'text-zinc-500' : 'text-zinc-600'}`}>Related</h3>
+                 <div className="space-y-2">
+                     {relatedItems.map(related => (
+                         <RelatedRow key={related.id} item={related} onClick={() => onRead(related)} isDark={isDarkTheme} accentColor={accentColor} />
+                     ))}
+                 </div>
+             </section>
+         )}
          <div className="h-32"></div>
       </main>
 
@@ -286,16 +364,12 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
              <div className={`border rounded-2xl p-6 w-full max-w-sm ${isDarkTheme ? 'bg-black border-zinc-700' : 'bg-white border-zinc-400'}`} style={{ borderColor: accentColor }}>
                 <h3 className="text-lg mb-4 text-center font-bold tracking-widest uppercase" style={{ color: accentColor }}>Manage Tags</h3>
                 
+                <TagSuggestionRow suggestions={tagSuggestions} selected={selectedTags} onToggle={toggleSelectedTag} isDarkTheme={isDarkTheme} accentColor={accentColor} />
                 <div className="flex flex-wrap gap-2 mb-6 max-h-60 overflow-y-auto">
                     {allTags.map(tag => (
                         <button 
                             key={tag}
-                            onClick={() => {
-                                const newSet = new Set(selectedTags);
-                                if (newSet.has(tag)) newSet.delete(tag);
-                                else newSet.add(tag);
-                                setSelectedTags(newSet);
-                            }}
+                            onClick={() => toggleSelectedTag(tag)}
                             className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors`}
                             style={{ 
                                 borderColor: selectedTags.has(tag) ? accentColor : (isDarkTheme ? '#333' : '#ddd'),
@@ -328,6 +402,21 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
         </div>
       )}
 
+      {/* --- REVISION HISTORY OVERLAY --- */}
+      {isHistoryOpen && (
+        <RevisionHistory item={currentItem} onClose={() => setIsHistoryOpen(false)} onRestored={handleRevisionRestored} />
+      )}
+
+      {isUnlockOpen && (
+        <VaultPinDialog
+            mode="unlock"
+            onDone={() => setIsUnlockOpen(false)}
+            onCancel={() => setIsUnlockOpen(false)}
+            isDarkTheme={isDarkTheme}
+            accentColor={accentColor}
+        />
+      )}
+
       {/* --- SMART SELECT OVERLAY --- */}
       {isSmartMenuOpen && (
           <div className="absolute bottom-6 right-6 left-6 z-40 flex justify-end animate-fade-in-up">
@@ -361,6 +450,19 @@ const ReadScreen: React.FC<ReadScreenProps> = ({ item, onBack, onEdit }) => {
   );
 };
 
+const RelatedRow: React.FC<{ item: ClipboardItem; onClick: () => void; isDark: boolean; accentColor: string }> = ({ item, onClick, isDark, accentColor }) => (
+    <button
+        onClick={onClick}
+        className={`w-full text-left px-4 py-3 rounded-xl border transition-colors ${isDark ? 'border-zinc-800 hover:bg-zinc-900' : 'border-zinc-300 hover:bg-white'}`}
+    >
+        <div className="flex items-center justify-between mb-1">
+            <span className="text-[10px] font-bold uppercase tracking-widest" style={{ color: accentColor }}>{item.category === 'notes' ? 'Note' : item.type}</span>
+            <span className={`text-[10px] ${isDark ? 'text-zinc-500' : 'text-zinc-600'}`}>{formatTimestamp(item.timestamp)}</span>
+        </div>
+        <p className={`text-sm line-clamp-2 ${isDark ? 'text-zinc-300' : 'text-gray-800'}`}>{item.title || item.displayContent || item.content}</p>
+    </button>
+);
+
 const MenuBtn: React.FC<{ label: string; onClick: () => void; isDark: boolean }> = ({ label, onClick, isDark }) => (
     <button onClick={onClick} className={`text-left w-full px-6 py-4 border-b last:border-0 transition-colors capitalize ${isDark ? 'text-white hover:bg-zinc-900 border-zinc-800' : 'text-black hover:bg-gray-100 border-zinc-400'}`}>
         {label}
@@ -1,6 +1,51 @@
 import React, { useState, useRef } from 'react';
 import { useSettings } from '../context/SettingsContext';
 import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { SchemaVersionError } from '../../data/migrations/SchemaMigrations';
+import { TRASH_RETENTION_OPTIONS, TrashRetentionDays } from '../../data/retention/TrashRetention';
+import { REVISION_DEPTH_OPTIONS, RevisionDepth } from '../../data/revisions/RevisionHistory';
+import {
+  ClipboardRetentionPolicy,
+  MAX_AGE_OPTIONS,
+  MAX_BYTES_OPTIONS,
+  MAX_ITEMS_OPTIONS,
+  OVERFLOW_ACTIONS
+} from '../../data/retention/ClipboardRetention';
+import { NearDuplicateOptions, SIMILARITY_THRESHOLD_OPTIONS } from '../../util/NearDuplicate';
+import { AutoTagRule, createAutoTagRule, describeRule } from '../../data/ingestion/AutoTagRules';
+import AutoTagRuleDialog from '../components/AutoTagRuleDialog';
+import { VAULT_AUTO_LOCK_OPTIONS, VaultMismatchError } from '../../data/vault/Vault';
+import { CLIPBOARD_CLEAR_OPTIONS } from '../../data/clipboard/ClipboardAutoClear';
+import { APP_LOCK_DELAY_OPTIONS, APP_LOCK_WIPE_OPTIONS } from '../../data/lock/AppLock';
+import VaultPinDialog, { VaultPinMode } from '../components/VaultPinDialog';
+import { useVault } from '../hooks/useVault';
+import AppLockPinDialog, { AppLockPinMode } from '../components/AppLockPinDialog';
+import BackupPassphraseDialog, { BackupPassphraseMode } from '../components/BackupPassphraseDialog';
+import { BackupFormatError, BackupPassphraseError } from '../../data/backup/BackupCrypto';
+import { useAppLock } from '../hooks/useAppLock';
+
+const retentionLabel = (days: TrashRetentionDays) => (days === null ? 'Never' : `${days} days`);
+const revisionDepthLabel = (depth: RevisionDepth) => (depth === 0 ? 'Off' : `${depth} versions`);
+
+const autoLockLabel = (minutes: number) => (minutes === 0 ? 'Never' : minutes === 60 ? '1 hour' : `${minutes} min`);
+
+const appLockDelayLabel = (minutes: number) => (minutes === 0 ? 'Immediately' : autoLockLabel(minutes));
+
+const wipeAfterLabel = (attempts: number) => (attempts === 0 ? 'Never' : `${attempts} failed attempts`);
+
+const clipboardClearLabel = (seconds: number) => (seconds === 0 ? 'Never' : seconds >= 60 ? `${seconds / 60} min` : `${seconds} sec`);
+
+const thresholdLabel = (threshold: number) => (threshold >= 1 ? 'Exact only' : `${Math.round(threshold * 100)}% similar`);
+
+type RetentionField = keyof ClipboardRetentionPolicy;
+
+/** Dropdown options and labels for each clipboard retention setting */
+const RETENTION_FIELDS: { field: RetentionField; label: string; options: (number | string | null)[]; format: (value: any) => string }[] = [
+    { field: 'maxItems', label: 'Keep At Most', options: MAX_ITEMS_OPTIONS, format: (n: number | null) => (n === null ? 'Unlimited' : `${n} items`) },
+    { field: 'maxAgeDays', label: 'Keep For', options: MAX_AGE_OPTIONS, format: (d: number | null) => (d === null ? 'Forever' : `${d} days`) },
+    { field: 'maxBytes', label: 'Size Limit', options: MAX_BYTES_OPTIONS, format: (b: number | null) => (b === null ? 'Unlimited' : `${b / (1024 * 1024)} MB`) },
+    { field: 'overflow', label: 'Over The Limit', options: OVERFLOW_ACTIONS, format: (a: string) => (a === 'TRASH' ? 'Move to Trash' : 'Delete') }
+];
 
 interface SettingsScreenProps {
   onBack: () => void;
@@ -15,14 +60,38 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
     isSmartRecognitionOn, toggleSmartRecognition,
     isAiSupportOn, toggleAiSupport,
     autoBackupFrequency, setAutoBackupFrequency,
-    backupDestination, setBackupDestination
+    backupDestination, setBackupDestination,
+    trashRetentionDays, setTrashRetentionDays,
+    revisionHistoryDepth, setRevisionHistoryDepth,
+    clipboardRetention, setClipboardRetention,
+    duplicateDetection, setDuplicateDetection,
+    autoTagRules, setAutoTagRules,
+    vaultAutoLockMinutes, setVaultAutoLockMinutes,
+    skipSensitiveCaptures, setSkipSensitiveCaptures,
+    clipboardClearSeconds, setClipboardClearSeconds,
+    appLockDelayMinutes, setAppLockDelayMinutes,
+    appLockWipeAfter, setAppLockWipeAfter
   } = useSettings();
+  const vault = useVault();
+  const appLockState = useAppLock();
 
   // --- UI Local State ---
   const [showBackupFreq, setShowBackupFreq] = useState(false);
   const [showBackupDest, setShowBackupDest] = useState(false);
+  const [showTrashRetention, setShowTrashRetention] = useState(false);
+  const [showRevisionDepth, setShowRevisionDepth] = useState(false);
+  const [openRetentionField, setOpenRetentionField] = useState<RetentionField | null>(null);
+  const [showThreshold, setShowThreshold] = useState(false);
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [feedbackText, setFeedbackText] = useState('');
+  const [editingRule, setEditingRule] = useState<AutoTagRule | null>(null);
+  const [isApplyingRules, setIsApplyingRules] = useState(false);
+  const [vaultPinMode, setVaultPinMode] = useState<VaultPinMode | null>(null);
+  const [showAutoLock, setShowAutoLock] = useState(false);
+  const [showClipboardClear, setShowClipboardClear] = useState(false);
+  const [appLockPinMode, setAppLockPinMode] = useState<AppLockPinMode | null>(null);
+  const [showAppLockDelay, setShowAppLockDelay] = useState(false);
+  const [showWipeAfter, setShowWipeAfter] = useState(false);
   
   // Backup/Restore States
   const [isBackingUp, setIsBackingUp] = useState(false);
@@ -31,6 +100,9 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
 
   // Modal State for Manual Actions
   const [actionModalType, setActionModalType] = useState<'BACKUP' | 'RESTORE' | null>(null);
+  const [backupPassphraseMode, setBackupPassphraseMode] = useState<BackupPassphraseMode | null>(null);
+  // An encrypted backup file waiting for its passphrase
+  const [pendingRestore, setPendingRestore] = useState<string | null>(null);
 
   // --- Refs for Click Outside Logic ---
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -68,25 +140,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
 
       // --- LOCAL STORAGE ACTION ---
       if (actionModalType === 'BACKUP') {
-          try {
-              const data = await clipboardRepository.exportData();
-              const blob = new Blob([data], { type: 'application/json' });
-              const url = URL.createObjectURL(blob);
-              
-              // Trigger Download
-              const a = document.createElement('a');
-              a.href = url;
-              a.download = `clipboard_max_backup_${new Date().toISOString().slice(0, 10)}.json`;
-              document.body.appendChild(a);
-              a.click();
-              document.body.removeChild(a);
-              URL.revokeObjectURL(url);
-              
-              showToast("Backup downloaded successfully");
-          } catch (e) {
-              showToast("Backup generation failed");
-              console.error(e);
-          }
+          setBackupPassphraseMode('backup');
       } else if (actionModalType === 'RESTORE') {
           // Trigger File Picker
           if (fileInputRef.current) {
@@ -95,6 +149,46 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
       }
   };
 
+  const downloadBackup = async (passphrase: string) => {
+      try {
+          const data = await clipboardRepository.exportData(passphrase);
+          const blob = new Blob([data], { type: 'application/json' });
+          const url = URL.createObjectURL(blob);
+          
+          // Trigger Download
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `clipboard_max_backup_${new Date().toISOString().slice(0, 10)}.json`;
+          document.body.appendChild(a);
+          a.click();
+          document.body.removeChild(a);
+          URL.revokeObjectURL(url);
+          
+          showToast("Backup downloaded successfully");
+      } catch (e) {
+          showToast("Backup generation failed");
+          console.error(e);
+      }
+  };
+
+  // Reports the outcome; an encrypted backup without the right passphrase throws BackupPassphraseError
+  const restoreBackup = async (content: string, passphrase?: string) => {
+      try {
+          const success = await clipboardRepository.importData(content, passphrase);
+          showToast(success ? "Data restored successfully" : "Failed to restore: Invalid file format");
+      } catch (err) {
+          if (err instanceof BackupPassphraseError) throw err;
+          console.error(err);
+          const explained = err instanceof SchemaVersionError || err instanceof VaultMismatchError || err instanceof BackupFormatError;
+          showToast(explained ? err.message : "Error parsing backup file");
+      }
+  };
+
+  const closeBackupPassphrase = () => {
+      setBackupPassphraseMode(null);
+      setPendingRestore(null);
+  };
+
   const handleFileRestore = async (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file) return;
@@ -103,18 +197,13 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
       
       const reader = new FileReader();
       reader.onload = async (e) => {
+          const content = e.target?.result as string;
           try {
-              const content = e.target?.result as string;
-              const success = await clipboardRepository.importData(content);
-              
-              if (success) {
-                  showToast("Data restored successfully");
-              } else {
-                  showToast("Failed to restore: Invalid file format");
-              }
+              await restoreBackup(content);
           } catch (err) {
-              console.error(err);
-              showToast("Error parsing backup file");
+              // Only an encrypted backup gets here: ask for its passphrase
+              setPendingRestore(content);
+              setBackupPassphraseMode('restore');
           } finally {
               setIsRestoring(false);
               // Reset file input
@@ -129,6 +218,32 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
       reader.readAsText(file);
   };
 
+  const isNewRule = !!editingRule && !autoTagRules.some(r => r.id === editingRule.id);
+
+  const handleRuleSave = (rule: AutoTagRule) => {
+      setAutoTagRules(isNewRule ? [...autoTagRules, rule] : autoTagRules.map(r => (r.id === rule.id ? rule : r)));
+      setEditingRule(null);
+  };
+
+  const handleRuleDelete = () => {
+      if (!editingRule) return;
+      setAutoTagRules(autoTagRules.filter(r => r.id !== editingRule.id));
+      setEditingRule(null);
+  };
+
+  const handleApplyRules = async () => {
+      setIsApplyingRules(true);
+      try {
+          const count = await clipboardRepository.applyAutoTagRules(autoTagRules);
+          showToast(count === 0 ? "No items matched the rules" : `Rules updated ${count} item${count > 1 ? 's' : ''}`);
+      } catch (e) {
+          console.error(e);
+          showToast("Applying rules failed");
+      } finally {
+          setIsApplyingRules(false);
+      }
+  };
+
   // --- Styles & Classes ---
   const containerClass = `h-full flex flex-col font-sans animate-fade-in ${isDarkTheme ? 'bg-black text-white' : 'bg-zinc-200 text-black'}`;
   const headerClass = `px-6 py-5 flex items-center justify-center sticky top-0 z-20 border-b relative ${isDarkTheme ? 'bg-black/95 border-zinc-800' : 'bg-white/95 border-zinc-400'}`;
@@ -230,6 +345,237 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
               />
           </div>
 
+          {/* --- CLIPBOARD HISTORY --- */}
+          <h3 className={sectionTitleClass}>Clipboard History</h3>
+          <div className={cardClass}>
+              <SettingToggle 
+                label="Skip Sensitive Content" 
+                icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>}
+                isOn={skipSensitiveCaptures} 
+                onToggle={() => setSkipSensitiveCaptures(!skipSensitiveCaptures)} 
+                accentColor={accentColor} 
+                isDarkTheme={isDarkTheme}
+                className="rounded-t-2xl"
+              />
+              {RETENTION_FIELDS.map(({ field, label, options, format }, index) => (
+                  <React.Fragment key={field}>
+                      <div className={dividerClass}></div>
+                      <SettingDropdown
+                          label={label}
+                          valueLabel={format(clipboardRetention[field])}
+                          options={options.map(opt => ({ key: String(opt), label: format(opt), selected: clipboardRetention[field] === opt }))}
+                          isOpen={openRetentionField === field}
+                          onToggle={() => setOpenRetentionField(openRetentionField === field ? null : field)}
+                          onSelect={(optIndex) => {
+                              setClipboardRetention({ ...clipboardRetention, [field]: options[optIndex] });
+                              setOpenRetentionField(null);
+                          }}
+                          isDarkTheme={isDarkTheme}
+                          className={index === RETENTION_FIELDS.length - 1 ? 'rounded-b-2xl' : ''}
+                      />
+                  </React.Fragment>
+              ))}
+          </div>
+          <p className="text-xs opacity-50 px-6 mt-2">Card numbers, keys and passwords are always stored as secure items; skipping them keeps them out of the history altogether. Limits apply to the clipboard tab. Pinned, favorite and tagged items are always kept.</p>
+
+          {/* --- DUPLICATES --- */}
+          <h3 className={sectionTitleClass}>Duplicates</h3>
+          <div className={cardClass}>
+              <SettingDropdown
+                  label="Treat As Duplicate"
+                  valueLabel={thresholdLabel(duplicateDetection.threshold)}
+                  options={SIMILARITY_THRESHOLD_OPTIONS.map(opt => ({ key: String(opt), label: thresholdLabel(opt), selected: duplicateDetection.threshold === opt }))}
+                  isOpen={showThreshold}
+                  onToggle={() => setShowThreshold(!showThreshold)}
+                  onSelect={(index) => {
+                      setDuplicateDetection({ ...duplicateDetection, threshold: SIMILARITY_THRESHOLD_OPTIONS[index] });
+                      setShowThreshold(false);
+                  }}
+                  isDarkTheme={isDarkTheme}
+                  className="rounded-t-2xl"
+              />
+              {([
+                  ['ignoreCase', 'Ignore Case', 'M4 6h16M4 12h8m-8 6h16'],
+                  ['collapseWhitespace', 'Ignore Spacing', 'M4 8h16M4 16h16'],
+                  ['canonicalizeUrls', 'Ignore Link Tracking', 'M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1']
+              ] as [keyof NearDuplicateOptions, string, string][]).map(([key, label, icon], index, rows) => (
+                  <React.Fragment key={key}>
+                      <div className={dividerClass}></div>
+                      <SettingToggle 
+                        label={label} 
+                        icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d={icon} /></svg>}
+                        isOn={!!duplicateDetection[key]} 
+                        onToggle={() => setDuplicateDetection({ ...duplicateDetection, [key]: !duplicateDetection[key] })} 
+                        accentColor={accentColor} 
+                        isDarkTheme={isDarkTheme}
+                        className={index === rows.length - 1 ? 'rounded-b-2xl' : ''}
+                      />
+                  </React.Fragment>
+              ))}
+          </div>
+          <p className="text-xs opacity-50 px-6 mt-2">A captured clip that matches an existing one moves it to the top instead of adding a copy. Use Duplicates in the menu to clean up existing ones.</p>
+
+          {/* --- AUTO-TAG RULES --- */}
+          <h3 className={sectionTitleClass}>Auto-Tag Rules</h3>
+          <div className={cardClass}>
+              {autoTagRules.map((rule, index) => (
+                  <React.Fragment key={rule.id}>
+                      {index > 0 && <div className={dividerClass}></div>}
+                      <div className={`${itemClass} ${index === 0 ? 'rounded-t-2xl' : ''}`}>
+                          <button onClick={() => setEditingRule(rule)} className="flex-1 min-w-0 text-left mr-4">
+                              <div className={`text-base font-medium truncate ${rule.enabled ? '' : 'opacity-50'}`}>{rule.name}</div>
+                              <div className="text-xs opacity-50 truncate">{describeRule(rule)}</div>
+                          </button>
+                          <button
+                              onClick={() => setAutoTagRules(autoTagRules.map(r => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)))}
+                              className="w-11 h-6 rounded-full relative transition-colors duration-200 focus:outline-none flex-shrink-0"
+                              style={{ backgroundColor: rule.enabled ? accentColor : (isDarkTheme ? '#333' : '#e5e7eb') }}
+                          >
+                              <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-all duration-200 shadow-sm ${rule.enabled ? 'left-6' : 'left-1'}`} />
+                          </button>
+                      </div>
+                  </React.Fragment>
+              ))}
+              {autoTagRules.length > 0 && <div className={dividerClass}></div>}
+              <div className={`flex items-center p-2 rounded-b-2xl ${autoTagRules.length === 0 ? 'rounded-t-2xl' : ''}`}>
+                  <button
+                      onClick={() => setEditingRule(createAutoTagRule(''))}
+                      className={`flex-1 py-3 text-sm font-medium rounded-xl transition-all ${isDarkTheme ? 'hover:bg-zinc-800 active:bg-zinc-700' : 'hover:bg-gray-100 active:bg-gray-200'}`}
+                      style={{ color: accentColor }}
+                  >
+                      Add Rule
+                  </button>
+                  <div className={`w-[1px] h-6 ${isDarkTheme ? 'bg-zinc-800' : 'bg-gray-200'}`}></div>
+                  <button
+                      onClick={handleApplyRules}
+                      disabled={isApplyingRules || !autoTagRules.some(r => r.enabled)}
+                      className={`flex-1 py-3 text-sm font-medium rounded-xl transition-all disabled:opacity-40 ${isDarkTheme ? 'hover:bg-zinc-800 active:bg-zinc-700' : 'hover:bg-gray-100 active:bg-gray-200'}`}
+                      style={{ color: accentColor }}
+                  >
+                      {isApplyingRules ? 'Applying...' : 'Apply to Existing'}
+                  </button>
+              </div>
+          </div>
+          <p className="text-xs opacity-50 px-6 mt-2">Enabled rules run on every new clip and note. A rule applies when all of its conditions match.</p>
+
+          {/* --- APP LOCK --- */}
+          <h3 className={sectionTitleClass}>App Lock</h3>
+          <div className={cardClass}>
+              {!appLockState.isEnabled ? (
+                  <SettingsRow
+                     label="Set Up App Lock"
+                     icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>}
+                     isDarkTheme={isDarkTheme}
+                     onClick={() => setAppLockPinMode('setup')}
+                     className="rounded-2xl"
+                  />
+              ) : (
+                  <>
+                  <SettingsRow
+                     label="Change PIN"
+                     icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" /></svg>}
+                     isDarkTheme={isDarkTheme}
+                     onClick={() => setAppLockPinMode('change')}
+                     className="rounded-t-2xl"
+                  />
+                  <div className={dividerClass}></div>
+                  <SettingDropdown
+                      label="Lock After"
+                      valueLabel={appLockDelayLabel(appLockDelayMinutes)}
+                      options={APP_LOCK_DELAY_OPTIONS.map(opt => ({ key: String(opt), label: appLockDelayLabel(opt), selected: appLockDelayMinutes === opt }))}
+                      isOpen={showAppLockDelay}
+                      onToggle={() => setShowAppLockDelay(!showAppLockDelay)}
+                      onSelect={(index) => {
+                          setAppLockDelayMinutes(APP_LOCK_DELAY_OPTIONS[index]);
+                          setShowAppLockDelay(false);
+                      }}
+                      isDarkTheme={isDarkTheme}
+                  />
+                  <div className={dividerClass}></div>
+                  <SettingDropdown
+                      label="Erase Data After"
+                      valueLabel={wipeAfterLabel(appLockWipeAfter)}
+                      options={APP_LOCK_WIPE_OPTIONS.map(opt => ({ key: String(opt), label: wipeAfterLabel(opt), selected: appLockWipeAfter === opt }))}
+                      isOpen={showWipeAfter}
+                      onToggle={() => setShowWipeAfter(!showWipeAfter)}
+                      onSelect={(index) => {
+                          setAppLockWipeAfter(APP_LOCK_WIPE_OPTIONS[index]);
+                          setShowWipeAfter(false);
+                      }}
+                      isDarkTheme={isDarkTheme}
+                  />
+                  <div className={dividerClass}></div>
+                  <SettingsRow
+                     label="Turn Off App Lock"
+                     icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" /></svg>}
+                     isDarkTheme={isDarkTheme}
+                     onClick={() => setAppLockPinMode('disable')}
+                     className="rounded-b-2xl"
+                  />
+                  </>
+              )}
+          </div>
+          <p className="text-xs opacity-50 px-6 mt-2">Asks for your PIN whenever the app opens or returns from the background. Wrong attempts lock input out for longer each time; erasing deletes every item for good.</p>
+
+          {/* --- VAULT --- */}
+          <h3 className={sectionTitleClass}>Vault</h3>
+          <div className={cardClass}>
+              {!vault.isSetUp ? (
+                  <SettingsRow
+                     label="Set Up Vault"
+                     icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>}
+                     isDarkTheme={isDarkTheme}
+                     onClick={() => setVaultPinMode('setup')}
+                     className="rounded-t-2xl"
+                  />
+              ) : (
+                  <>
+                  <SettingsRow
+                     label={vault.isUnlocked ? 'Lock Now' : 'Unlock'}
+                     icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>}
+                     isDarkTheme={isDarkTheme}
+                     onClick={() => (vault.isUnlocked ? clipboardRepository.vault.lock() : setVaultPinMode('unlock'))}
+                     className="rounded-t-2xl"
+                  />
+                  <div className={dividerClass}></div>
+                  <SettingsRow
+                     label="Change PIN"
+                     icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" /></svg>}
+                     isDarkTheme={isDarkTheme}
+                     onClick={() => setVaultPinMode('change')}
+                  />
+                  <div className={dividerClass}></div>
+                  <SettingDropdown
+                      label="Auto-Lock After"
+                      valueLabel={autoLockLabel(vaultAutoLockMinutes)}
+                      options={VAULT_AUTO_LOCK_OPTIONS.map(opt => ({ key: String(opt), label: autoLockLabel(opt), selected: vaultAutoLockMinutes === opt }))}
+                      isOpen={showAutoLock}
+                      onToggle={() => setShowAutoLock(!showAutoLock)}
+                      onSelect={(index) => {
+                          setVaultAutoLockMinutes(VAULT_AUTO_LOCK_OPTIONS[index]);
+                          setShowAutoLock(false);
+                      }}
+                      isDarkTheme={isDarkTheme}
+                  />
+                  </>
+              )}
+              <div className={dividerClass}></div>
+              <SettingDropdown
+                  label="Clear Copied Secrets"
+                  valueLabel={clipboardClearLabel(clipboardClearSeconds)}
+                  options={CLIPBOARD_CLEAR_OPTIONS.map(opt => ({ key: String(opt), label: clipboardClearLabel(opt), selected: clipboardClearSeconds === opt }))}
+                  isOpen={showClipboardClear}
+                  onToggle={() => setShowClipboardClear(!showClipboardClear)}
+                  onSelect={(index) => {
+                      setClipboardClearSeconds(CLIPBOARD_CLEAR_OPTIONS[index]);
+                      setShowClipboardClear(false);
+                  }}
+                  isDarkTheme={isDarkTheme}
+                  className="rounded-b-2xl"
+              />
+          </div>
+          <p className="text-xs opacity-50 px-6 mt-2">Secure items are encrypted on this device and stay masked until the vault is unlocked with your PIN. A copied secure item is wiped from the system clipboard after the set time, unless something else was copied since.</p>
+
           {/* --- BACKUP & DATA --- */}
           <h3 className={sectionTitleClass}>Backup & Data</h3>
           <div className={cardClass}>
@@ -256,7 +602,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
                <div className={dividerClass}></div>
 
                {/* Combined Auto Backup & Destination Row */}
-               <div className={`${itemClass} rounded-b-2xl`}>
+               <div className={itemClass}>
                    <div className="flex items-center space-x-3">
                        <div className={`p-1.5 rounded-lg ${isDarkTheme ? 'bg-zinc-800 text-white' : 'bg-gray-100 text-black'}`}>
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
@@ -308,6 +654,74 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
                        </div>
                    </div>
                </div>
+
+               <div className={dividerClass}></div>
+
+               {/* Trash Retention Row */}
+               <div className={itemClass}>
+                   <div className="flex items-center space-x-3">
+                       <div className={`p-1.5 rounded-lg ${isDarkTheme ? 'bg-zinc-800 text-white' : 'bg-gray-100 text-black'}`}>
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                       </div>
+                       <span className="text-base font-medium">Empty Trash After</span>
+                   </div>
+
+                   <div className="relative">
+                       <button 
+                            onClick={(e) => { e.stopPropagation(); setShowTrashRetention(!showTrashRetention); setShowRevisionDepth(false); setShowBackupFreq(false); setShowBackupDest(false); }}
+                            className={`text-xs font-medium px-3 py-1.5 rounded-md transition-colors ${isDarkTheme ? 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                       >
+                           {retentionLabel(trashRetentionDays)}
+                       </button>
+                       {showTrashRetention && (
+                            <div className={`absolute bottom-full right-0 mb-2 z-30 w-40 rounded-xl shadow-xl border overflow-hidden ${isDarkTheme ? 'bg-zinc-900 border-zinc-700' : 'bg-white border-zinc-400'}`}>
+                                {TRASH_RETENTION_OPTIONS.map(opt => (
+                                    <button 
+                                        key={String(opt)}
+                                        onClick={(e) => { e.stopPropagation(); setTrashRetentionDays(opt); setShowTrashRetention(false); }}
+                                        className={`w-full text-left px-4 py-3 text-sm hover:opacity-80 ${isDarkTheme ? 'text-white hover:bg-zinc-800' : 'text-black hover:bg-gray-100'} ${trashRetentionDays === opt ? (isDarkTheme ? 'bg-zinc-800' : 'bg-gray-100') : ''}`}
+                                    >
+                                        {retentionLabel(opt)}
+                                    </button>
+                                ))}
+                            </div>
+                       )}
+                   </div>
+               </div>
+
+               <div className={dividerClass}></div>
+
+               {/* Revision History Row */}
+               <div className={`${itemClass} rounded-b-2xl`}>
+                   <div className="flex items-center space-x-3">
+                       <div className={`p-1.5 rounded-lg ${isDarkTheme ? 'bg-zinc-800 text-white' : 'bg-gray-100 text-black'}`}>
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                       </div>
+                       <span className="text-base font-medium">Edit History</span>
+                   </div>
+
+                   <div className="relative">
+                       <button 
+                            onClick={(e) => { e.stopPropagation(); setShowRevisionDepth(!showRevisionDepth); setShowTrashRetention(false); setShowBackupFreq(false); setShowBackupDest(false); }}
+                            className={`text-xs font-medium px-3 py-1.5 rounded-md transition-colors ${isDarkTheme ? 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                       >
+                           {revisionDepthLabel(revisionHistoryDepth)}
+                       </button>
+                       {showRevisionDepth && (
+                            <div className={`absolute bottom-full right-0 mb-2 z-30 w-40 rounded-xl shadow-xl border overflow-hidden ${isDarkTheme ? 'bg-zinc-900 border-zinc-700' : 'bg-white border-zinc-400'}`}>
+                                {REVISION_DEPTH_OPTIONS.map(opt => (
+                                    <button 
+                                        key={opt}
+                                        onClick={(e) => { e.stopPropagation(); setRevisionHistoryDepth(opt); setShowRevisionDepth(false); }}
+                                        className={`w-full text-left px-4 py-3 text-sm hover:opacity-80 ${isDarkTheme ? 'text-white hover:bg-zinc-800' : 'text-black hover:bg-gray-100'} ${revisionHistoryDepth === opt ? (isDarkTheme ? 'bg-zinc-800' : 'bg-gray-100') : ''}`}
+                                    >
+                                        {revisionDepthLabel(opt)}
+                                    </button>
+                                ))}
+                            </div>
+                       )}
+                   </div>
+               </div>
           </div>
 
           {/* --- SUPPORT --- */}
@@ -389,6 +803,59 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
           </div>
       )}
 
+      {/* --- AUTO-TAG RULE EDITOR --- */}
+      {editingRule && (
+          <AutoTagRuleDialog
+              rule={editingRule}
+              isNew={isNewRule}
+              onSave={handleRuleSave}
+              onDelete={handleRuleDelete}
+              onCancel={() => setEditingRule(null)}
+              isDarkTheme={isDarkTheme}
+              accentColor={accentColor}
+          />
+      )}
+
+      {backupPassphraseMode && (
+          <BackupPassphraseDialog
+              mode={backupPassphraseMode}
+              onSubmit={async (passphrase) => {
+                  if (backupPassphraseMode === 'backup') await downloadBackup(passphrase);
+                  else if (pendingRestore !== null) await restoreBackup(pendingRestore, passphrase);
+                  closeBackupPassphrase();
+              }}
+              onCancel={closeBackupPassphrase}
+              isDarkTheme={isDarkTheme}
+              accentColor={accentColor}
+          />
+      )}
+
+      {appLockPinMode && (
+          <AppLockPinDialog
+              mode={appLockPinMode}
+              onDone={() => {
+                  showToast(appLockPinMode === 'setup' ? 'App lock on' : appLockPinMode === 'change' ? 'PIN changed' : 'App lock off');
+                  setAppLockPinMode(null);
+              }}
+              onCancel={() => setAppLockPinMode(null)}
+              isDarkTheme={isDarkTheme}
+              accentColor={accentColor}
+          />
+      )}
+
+      {vaultPinMode && (
+          <VaultPinDialog
+              mode={vaultPinMode}
+              onDone={() => {
+                  showToast(vaultPinMode === 'setup' ? 'Vault set up' : vaultPinMode === 'change' ? 'PIN changed' : 'Vault unlocked');
+                  setVaultPinMode(null);
+              }}
+              onCancel={() => setVaultPinMode(null)}
+              isDarkTheme={isDarkTheme}
+              accentColor={accentColor}
+          />
+      )}
+
       {/* --- FEEDBACK MODAL --- */}
       {showFeedbackModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
@@ -444,6 +911,42 @@ const SettingToggle: React.FC<{ label: string; icon: React.ReactNode; isOn: bool
     </div>
 );
 
+const SettingDropdown: React.FC<{
+    label: string;
+    valueLabel: string;
+    options: { key: string; label: string; selected: boolean }[];
+    isOpen: boolean;
+    onToggle: () => void;
+    onSelect: (index: number) => void;
+    isDarkTheme: boolean;
+    className?: string;
+}> = ({ label, valueLabel, options, isOpen, onToggle, onSelect, isDarkTheme, className }) => (
+    <div className={`flex items-center justify-between p-4 ${isDarkTheme ? 'hover:bg-zinc-800/50' : 'hover:bg-gray-50'} ${className}`}>
+        <span className="text-base font-medium">{label}</span>
+        <div className="relative">
+            <button 
+                onClick={(e) => { e.stopPropagation(); onToggle(); }}
+                className={`text-xs font-medium px-3 py-1.5 rounded-md transition-colors ${isDarkTheme ? 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+                {valueLabel}
+            </button>
+            {isOpen && (
+                <div className={`absolute top-full right-0 mt-2 z-30 w-40 rounded-xl shadow-xl border overflow-hidden ${isDarkTheme ? 'bg-zinc-900 border-zinc-700' : 'bg-white border-zinc-400'}`}>
+                    {options.map((opt, index) => (
+                        <button 
+                            key={opt.key}
+                            onClick={(e) => { e.stopPropagation(); onSelect(index); }}
+                            className={`w-full text-left px-4 py-3 text-sm hover:opacity-80 ${isDarkTheme ? 'text-white hover:bg-zinc-800' : 'text-black hover:bg-gray-100'} ${opt.selected ? (isDarkTheme ? 'bg-zinc-800' : 'bg-gray-100') : ''}`}
+                        >
+                            {opt.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    </div>
+);
+
 const SettingsRow: React.FC<{ label: string; icon: React.ReactNode; isDarkTheme: boolean; onClick: () => void; className?: string }> = ({ label, icon, isDarkTheme, onClick, className }) => (
     <button onClick={onClick} className={`w-full flex items-center justify-between p-4 transition-colors ${isDarkTheme ? 'hover:bg-zinc-800/50' : 'hover:bg-gray-50'} ${className}`}>
         <div className="flex items-center space-x-3">
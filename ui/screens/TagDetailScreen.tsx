@@ -1,7 +1,10 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { useSearchResults, useTagMetadata } from '../hooks/useRepositoryItems';
+import { SearchNode } from '../../data/search/SearchQuery';
 import { ClipboardItem } from '../../types';
 import GoldCard from '../components/GoldCard';
+import SearchBar from '../components/SearchBar';
 import { useSettings } from '../context/SettingsContext';
 
 interface TagDetailScreenProps {
@@ -12,8 +15,11 @@ interface TagDetailScreenProps {
 
 const TagDetailScreen: React.FC<TagDetailScreenProps> = ({ tag, onBack, onRead }) => {
   const { accentColor, isDarkTheme } = useSettings();
-  const [items, setItems] = useState<ClipboardItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const tagFilter = useMemo<SearchNode>(() => ({ kind: 'tag', tag }), [tag]);
+  // Includes the items of nested tags
+  const { items, loading } = useSearchResults(searchQuery, 'live', tagFilter);
+  const details = useTagMetadata()[tag];
 
   // Selection Mode
   const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -23,17 +29,6 @@ const TagDetailScreen: React.FC<TagDetailScreenProps> = ({ tag, onBack, onRead }
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showMoreOptions, setShowMoreOptions] = useState(false);
 
-  useEffect(() => {
-    fetchItems();
-  }, [tag]);
-
-  const fetchItems = async () => {
-    setLoading(true);
-    const data = await clipboardRepository.getItemsByTag(tag);
-    setItems(data);
-    setLoading(false);
-  };
-
   // --- Handlers ---
   const handleLongPress = (item: ClipboardItem) => {
       if (!isSelectionMode) {
@@ -72,7 +67,6 @@ const TagDetailScreen: React.FC<TagDetailScreenProps> = ({ tag, onBack, onRead }
       setShowDeleteConfirm(false);
       setIsSelectionMode(false);
       setSelectedIds(new Set());
-      fetchItems();
   };
 
   const handleFavoriteToggle = async () => {
@@ -83,7 +77,6 @@ const TagDetailScreen: React.FC<TagDetailScreenProps> = ({ tag, onBack, onRead }
       
       setIsSelectionMode(false);
       setSelectedIds(new Set());
-      fetchItems();
   };
 
   const textColor = isDarkTheme ? 'text-white' : 'text-black';
@@ -145,8 +138,9 @@ const TagDetailScreen: React.FC<TagDetailScreenProps> = ({ tag, onBack, onRead }
                     </div>
                 </div>
             ) : (
-                <div className="flex items-center">
-                    <span className="text-2xl tracking-wider font-normal" style={{ color: accentColor }}>{tag}</span>
+                <div className="flex flex-col min-w-0">
+                    <span className="text-2xl tracking-wider font-normal truncate" style={{ color: details?.color ?? accentColor }}>{details?.icon} {tag}</span>
+                    {details?.description && <span className="text-xs text-zinc-500 truncate">{details.description}</span>}
                 </div>
             )}
         </div>
@@ -154,10 +148,11 @@ const TagDetailScreen: React.FC<TagDetailScreenProps> = ({ tag, onBack, onRead }
 
       {/* --- CONTENT --- */}
       <main className="flex-1 p-4 overflow-y-auto">
+          <SearchBar query={searchQuery} onQueryChange={setSearchQuery} isDarkTheme={isDarkTheme} accentColor={accentColor} />
           {loading ? (
              <div className="text-center text-zinc-500 mt-10">Loading items...</div>
           ) : items.length === 0 ? (
-             <div className="text-center text-zinc-500 mt-10">No items with this tag.</div>
+             <div className="text-center text-zinc-500 mt-10">{searchQuery ? 'No matching items.' : 'No items with this tag.'}</div>
           ) : (
              items.map(item => {
                  const isSelected = selectedIds.has(item.id);
@@ -168,7 +163,7 @@ const TagDetailScreen: React.FC<TagDetailScreenProps> = ({ tag, onBack, onRead }
                         onContextMenu={(e) => { e.preventDefault(); handleLongPress(item); }}
                         className="relative"
                      >
-                         <GoldCard item={item} />
+                         <GoldCard item={item} searchQuery={searchQuery} />
                          {isSelectionMode && (
                              <div className={`absolute inset-0 z-10 flex items-center justify-end pr-4 rounded-3xl transition-colors ${isSelected ? 'bg-gold/10 ring-2 ring-gold' : 'bg-black/40'}`}>
                                 {isSelected ? (
@@ -1,6 +1,14 @@
-import React, { useEffect, useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { TagNode, buildTagTree, flattenTagTree } from '../../data/tags/TagHierarchy';
+import { TAG_COLORS, TagMetadata } from '../../data/tags/TagMetadata';
+import { TagSortOption, sortTagStats } from '../../data/tags/TagStats';
+import { normalizeTag } from '../../data/tags/TagNormalization';
+import { useTagMetadata, useTagStats } from '../hooks/useRepositoryItems';
+import { formatTimestamp } from '../../util/DateFormat';
 import { useSettings } from '../context/SettingsContext';
+import { useToast } from '../hooks/useToast';
+import Toast from '../components/Toast';
 
 interface TagsScreenProps {
   onBack: () => void;
@@ -9,8 +17,10 @@ interface TagsScreenProps {
 
 const TagsScreen: React.FC<TagsScreenProps> = ({ onBack, onSelectTag }) => {
   const { accentColor, isDarkTheme } = useSettings();
-  const [tags, setTags] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { stats, loading } = useTagStats();
+  const tags = useMemo(() => stats.map(s => s.tag), [stats]);
+  const statsByTag = useMemo(() => new Map(stats.map(s => [s.tag, s])), [stats]);
+  const [sortOption, setSortOption] = useState<TagSortOption>('name');
   
   // Selection Mode
   const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -22,17 +32,21 @@ const TagsScreen: React.FC<TagsScreenProps> = ({ onBack, onSelectTag }) => {
   const [showRemoveConfirm, setShowRemoveConfirm] = useState(false);
   const [showMergeInput, setShowMergeInput] = useState(false);
   const [mergeNameInput, setMergeNameInput] = useState('');
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<TagMetadata>({});
+  const [renamingTag, setRenamingTag] = useState<string | null>(null);
+  const [renameInput, setRenameInput] = useState('');
 
-  useEffect(() => {
-    fetchTags();
-  }, []);
+  const metadata = useTagMetadata();
+  // By name: the tag tree, parents first with children indented below them.
+  // By count or recency: a flat ranking of full tag names.
+  const tagRows = useMemo<TagNode[]>(() => (
+    sortOption === 'name'
+      ? flattenTagTree(buildTagTree(tags, metadata))
+      : sortTagStats(stats, sortOption).map(({ tag }) => ({ tag, name: tag, depth: 0, children: [] }))
+  ), [sortOption, tags, stats, metadata]);
 
-  const fetchTags = async () => {
-    setLoading(true);
-    const data = await clipboardRepository.getUniqueTags();
-    setTags(data);
-    setLoading(false);
-  };
+  const { toast, showToast, undo } = useToast();
 
   // --- Handlers ---
   const handleTagClick = (tag: string) => {
@@ -69,11 +83,12 @@ const TagsScreen: React.FC<TagsScreenProps> = ({ onBack, onSelectTag }) => {
   };
 
   const confirmRemove = async () => {
+      const mark = clipboardRepository.getOperationMark();
       await clipboardRepository.removeTags(Array.from(selectedTags));
+      showToast(`Removed ${selectedTags.size} tags`, clipboardRepository.operationSince(mark));
       setShowRemoveConfirm(false);
       setIsSelectionMode(false);
       setSelectedTags(new Set());
-      fetchTags();
   };
 
   const handleMerge = () => {
@@ -87,25 +102,75 @@ const TagsScreen: React.FC<TagsScreenProps> = ({ onBack, onSelectTag }) => {
 
   const confirmMerge = async () => {
       if (!mergeNameInput.trim()) return;
-      let finalName = mergeNameInput.trim();
-      if (!finalName.startsWith('#')) finalName = '#' + finalName;
+      const finalName = normalizeTag(mergeNameInput);
+      if (!finalName) {
+          showToast("Tags may only use letters, digits, - and _");
+          return;
+      }
 
+      const mark = clipboardRepository.getOperationMark();
       await clipboardRepository.mergeTags(Array.from(selectedTags), finalName);
+      showToast(`Merged into ${finalName}`, clipboardRepository.operationSince(mark));
       setShowMergeInput(false);
       setIsSelectionMode(false);
       setSelectedTags(new Set());
-      fetchTags();
+  };
+
+  const handleEdit = () => {
+      if (selectedTags.size !== 1) return;
+      const [tag] = Array.from(selectedTags);
+      setEditDraft(metadata[tag] ?? {});
+      setEditingTag(tag);
+  };
+
+  const confirmEdit = async () => {
+      if (!editingTag) return;
+      await clipboardRepository.setTagMetadata(editingTag, editDraft);
+      showToast(`Updated ${editingTag}`);
+      setEditingTag(null);
+      setIsSelectionMode(false);
+      setSelectedTags(new Set());
+  };
+
+  const handleRename = () => {
+      if (selectedTags.size !== 1) return;
+      const [tag] = Array.from(selectedTags);
+      setRenameInput(tag);
+      setRenamingTag(tag);
+  };
+
+  const confirmRename = async () => {
+      if (!renamingTag || !renameInput.trim()) return;
+      const newName = normalizeTag(renameInput);
+      if (!newName) {
+          showToast("Tags may only use letters, digits, - and _");
+          return;
+      }
+
+      const mark = clipboardRepository.getOperationMark();
+      await clipboardRepository.renameTag(renamingTag, newName);
+      showToast(`Renamed to ${newName}`, clipboardRepository.operationSince(mark));
+      setRenamingTag(null);
+      setIsSelectionMode(false);
+      setSelectedTags(new Set());
+  };
+
+  const handleCleanUp = async () => {
+      const mark = clipboardRepository.getOperationMark();
+      const removed = await clipboardRepository.removeUnusedTags();
+      if (removed.length === 0) showToast("No unused tags");
+      else showToast(`Removed ${removed.length} unused ${removed.length === 1 ? 'tag' : 'tags'}`, clipboardRepository.operationSince(mark));
   };
 
   const handleAddTag = async () => {
       if (!newTagInput.trim()) return;
-      let newTag = newTagInput.trim();
-      if (!newTag.startsWith('#')) newTag = '#' + newTag;
-      
-      await clipboardRepository.addNewTag(newTag);
+      const added = await clipboardRepository.addNewTag(newTagInput);
+      if (!added) {
+          showToast("Tags may only use letters, digits, - and _");
+          return;
+      }
       setShowAddOverlay(false);
       setNewTagInput('');
-      fetchTags();
   };
 
   const textColor = isDarkTheme ? 'text-white' : 'text-black';
@@ -137,6 +202,16 @@ const TagsScreen: React.FC<TagsScreenProps> = ({ onBack, onSelectTag }) => {
                         <button onClick={handleMerge} className="text-zinc-500 hover:text-yellow-500 uppercase tracking-wider text-xs">
                              Merge
                         </button>
+                        {selectedTags.size === 1 && (
+                            <button onClick={handleRename} className="text-zinc-500 hover:opacity-80 uppercase tracking-wider text-xs">
+                                 Rename
+                            </button>
+                        )}
+                        {selectedTags.size === 1 && (
+                            <button onClick={handleEdit} className="hover:opacity-80 uppercase tracking-wider text-xs" style={{ color: accentColor }}>
+                                 Edit
+                            </button>
+                        )}
                     </div>
                 </div>
             ) : (
@@ -152,28 +227,53 @@ const TagsScreen: React.FC<TagsScreenProps> = ({ onBack, onSelectTag }) => {
 
       {/* --- LIST --- */}
       <main className="flex-1 p-6 overflow-y-auto">
+          <div className="flex items-center space-x-2 mb-6 text-xs font-bold uppercase tracking-widest">
+              <span className="text-zinc-500 mr-2">Sort</span>
+              {(['name', 'count', 'recent'] as TagSortOption[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setSortOption(option)}
+                    className={`px-3 py-1 rounded-full border transition-colors ${sortOption === option ? '' : 'border-transparent text-zinc-500'}`}
+                    style={sortOption === option ? { color: accentColor, borderColor: accentColor } : undefined}
+                  >
+                      {option}
+                  </button>
+              ))}
+          </div>
           {loading ? (
               <div className="text-zinc-500 text-center mt-10 font-mono tracking-widest text-sm animate-pulse">LOADING TAGS...</div>
           ) : (
               <ul className="space-y-6">
-                  {tags.map((tag, index) => {
+                  {tagRows.map(({ tag, name, depth }) => {
                       const isSelected = selectedTags.has(tag);
+                      const details = metadata[tag];
+                      const usage = statsByTag.get(tag);
                       return (
                           <li 
                             key={tag}
                             onClick={() => handleTagClick(tag)}
                             onContextMenu={(e) => { e.preventDefault(); handleLongPress(tag); }}
                             className="flex items-center cursor-pointer group"
+                            style={{ paddingLeft: `${depth * 1.5}rem` }}
                           >
                               {isSelectionMode && (
-                                  <div className={`w-5 h-5 rounded border mr-4 flex items-center justify-center ${isSelected ? 'border-transparent' : 'border-zinc-600'}`} style={{ backgroundColor: isSelected ? accentColor : 'transparent' }}>
+                                  <div className={`w-5 h-5 rounded border mr-4 flex-shrink-0 flex items-center justify-center ${isSelected ? 'border-transparent' : 'border-zinc-600'}`} style={{ backgroundColor: isSelected ? accentColor : 'transparent' }}>
                                       {isSelected && <svg className="w-3 h-3 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>}
                                   </div>
                               )}
-                              <span className={`text-xl font-light tracking-wide transition-colors`} style={{ color: isSelectionMode && isSelected ? accentColor : (isDarkTheme ? 'white' : 'black') }}>
-                                  <span className="text-zinc-500 mr-4 font-mono text-base">{index + 1}.</span> 
-                                  {tag}
+                              <span className="mr-4 w-6 flex-shrink-0 text-center text-base" style={{ color: details?.color ?? '#71717a' }}>
+                                  {details?.icon ?? (depth > 0 ? '↳' : '#')}
                               </span>
+                              <div className="flex flex-col min-w-0">
+                                  <span className={`${depth > 0 ? 'text-lg' : 'text-xl'} font-light tracking-wide transition-colors truncate`} style={{ color: isSelectionMode && isSelected ? accentColor : (details?.color ?? (isDarkTheme ? 'white' : 'black')) }}>
+                                      {depth > 0 ? name : tag}
+                                  </span>
+                                  {details?.description && <span className="text-xs text-zinc-500 truncate">{details.description}</span>}
+                              </div>
+                              <div className="ml-auto pl-4 flex flex-col items-end flex-shrink-0 text-xs text-zinc-500">
+                                  <span className="font-mono">{usage?.count ?? 0}</span>
+                                  <span className="text-[10px] opacity-70">{usage?.lastUsed ? formatTimestamp(usage.lastUsed) : 'Unused'}</span>
+                              </div>
                           </li>
                       );
                   })}
@@ -189,6 +289,15 @@ const TagsScreen: React.FC<TagsScreenProps> = ({ onBack, onSelectTag }) => {
                   <span className="mr-2 text-lg" style={{ color: accentColor }}>+</span> Add New Tag
               </button>
           )}
+
+          {!isSelectionMode && tags.length > 0 && (
+              <button
+                onClick={handleCleanUp}
+                className="mt-4 block text-sm text-zinc-500 hover:opacity-80"
+              >
+                  Clean up unused tags
+              </button>
+          )}
       </main>
 
       {/* --- ADD OVERLAY --- */}
@@ -257,6 +366,89 @@ const TagsScreen: React.FC<TagsScreenProps> = ({ onBack, onSelectTag }) => {
           </div>
       )}
 
+      {/* --- RENAME INPUT --- */}
+      {renamingTag && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+              <div className={`border rounded-2xl p-6 w-full max-w-sm ${isDarkTheme ? 'bg-black border-zinc-700' : 'bg-white border-zinc-400'}`} style={{ borderColor: accentColor }}>
+                  <h3 className="text-lg mb-4 text-center" style={{ color: accentColor }}>Rename {renamingTag}</h3>
+                  <input 
+                    type="text" 
+                    autoFocus
+                    value={renameInput}
+                    onChange={(e) => setRenameInput(e.target.value)}
+                    placeholder="New tag name (e.g. #work/clientA)"
+                    className={`w-full border rounded-lg p-3 focus:outline-none mb-6 ${isDarkTheme ? 'bg-zinc-900 border-zinc-700 text-white' : 'bg-zinc-200 border-zinc-400 text-black'}`}
+                  />
+                  <div className="flex justify-between items-center px-2 text-lg">
+                      <button onClick={() => setRenamingTag(null)} className="text-zinc-400 hover:opacity-80">Cancel</button>
+                      <button onClick={confirmRename} className="hover:opacity-80" style={{ color: accentColor }}>Rename</button>
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {/* --- EDIT TAG DETAILS --- */}
+      {editingTag && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+              <div className={`border rounded-2xl p-6 w-full max-w-sm ${isDarkTheme ? 'bg-black border-zinc-700' : 'bg-white border-zinc-400'}`} style={{ borderColor: accentColor }}>
+                  <h3 className="text-lg mb-4 text-center truncate" style={{ color: editDraft.color ?? accentColor }}>{editDraft.icon} {editingTag}</h3>
+                  <div className="flex flex-wrap gap-2 mb-4 justify-center">
+                      <button
+                        onClick={() => setEditDraft(d => ({ ...d, color: undefined }))}
+                        className={`w-7 h-7 rounded-full border-2 ${editDraft.color ? 'border-zinc-600' : ''}`}
+                        style={{ borderColor: editDraft.color ? undefined : accentColor }}
+                        aria-label="No color"
+                      />
+                      {TAG_COLORS.map(color => (
+                          <button
+                            key={color}
+                            onClick={() => setEditDraft(d => ({ ...d, color }))}
+                            className={`w-7 h-7 rounded-full border-2 ${editDraft.color === color ? (isDarkTheme ? 'border-white' : 'border-black') : 'border-transparent'}`}
+                            style={{ backgroundColor: color }}
+                            aria-label={color}
+                          />
+                      ))}
+                  </div>
+                  <div className="flex gap-2 mb-3">
+                      <input
+                        type="text"
+                        value={editDraft.icon ?? ''}
+                        onChange={(e) => setEditDraft(d => ({ ...d, icon: e.target.value }))}
+                        placeholder="Icon"
+                        className={`w-20 border rounded-lg p-3 text-center focus:outline-none ${isDarkTheme ? 'bg-zinc-900 border-zinc-700 text-white' : 'bg-zinc-200 border-zinc-400 text-black'}`}
+                      />
+                      <input
+                        type="number"
+                        value={editDraft.sortOrder ?? ''}
+                        onChange={(e) => setEditDraft(d => ({ ...d, sortOrder: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                        placeholder="Sort order"
+                        className={`flex-1 min-w-0 border rounded-lg p-3 focus:outline-none ${isDarkTheme ? 'bg-zinc-900 border-zinc-700 text-white' : 'bg-zinc-200 border-zinc-400 text-black'}`}
+                      />
+                  </div>
+                  <input
+                    type="text"
+                    value={editDraft.description ?? ''}
+                    onChange={(e) => setEditDraft(d => ({ ...d, description: e.target.value }))}
+                    placeholder="Description"
+                    className={`w-full border rounded-lg p-3 focus:outline-none mb-6 ${isDarkTheme ? 'bg-zinc-900 border-zinc-700 text-white' : 'bg-zinc-200 border-zinc-400 text-black'}`}
+                  />
+                  <div className="flex justify-between items-center px-2 text-lg">
+                      <button onClick={() => setEditingTag(null)} className="text-zinc-400 hover:opacity-80">Cancel</button>
+                      <button onClick={confirmEdit} className="hover:opacity-80" style={{ color: accentColor }}>Save</button>
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {toast && (
+          <Toast
+              message={toast.message}
+              actionLabel={toast.operationId ? 'Undo' : undefined}
+              onAction={undo}
+              accentColor={accentColor}
+          />
+      )}
+
     </div>
   );
 };
@@ -1,70 +1,43 @@
-import React, { useEffect, useState, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { clipboardRepository } from '../../data/repository/ClipboardRepository';
+import { useSearchResults, useRepositoryTags } from '../hooks/useRepositoryItems';
 import { ClipboardItem, ClipboardType } from '../../types';
 import GoldCard from '../components/GoldCard';
+import SearchBar from '../components/SearchBar';
+import DateRangeFilter from '../components/DateRangeFilter';
+import TagMatchToggle from '../components/TagMatchToggle';
+import { EMPTY_LIST_FILTER, ListFilter, listFilterNode, toggleValue } from '../../data/search/ListFilter';
+import { matchesSearch } from '../../data/search/SearchFilter';
 import { useSettings } from '../context/SettingsContext';
+import { useToast } from '../hooks/useToast';
+import Toast from '../components/Toast';
+import { describeTrashAge } from '../../data/retention/TrashRetention';
 
 interface TrashScreenProps {
   onBack: () => void;
 }
 
-type FilterType = 'ALL' | ClipboardType;
-type CategoryType = 'ALL' | 'clipboard' | 'notes';
-
-interface FilterState {
-  type: FilterType;
-  tag: string;
-  category: CategoryType;
-}
-
 const TrashScreen: React.FC<TrashScreenProps> = ({ onBack }) => {
-  const { accentColor, isDarkTheme } = useSettings();
-  const [items, setItems] = useState<ClipboardItem[]>([]);
-  const [availableTags, setAvailableTags] = useState<string[]>(['All']);
-  const [loading, setLoading] = useState(true);
+  const { accentColor, isDarkTheme, trashRetentionDays } = useSettings();
+  const [searchQuery, setSearchQuery] = useState('');
+  const { items, loading } = useSearchResults(searchQuery, 'trash');
+  const repositoryTags = useRepositoryTags();
+  const availableTags = useMemo(() => ['All', ...repositoryTags], [repositoryTags]);
   
   // Selection Mode State
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const { toast, showToast, undo } = useToast();
 
   // Filter State
   const [isFilterOpen, setIsFilterOpen] = useState(false);
-  const [filter, setFilter] = useState<FilterState>({
-    type: 'ALL',
-    tag: 'All',
-    category: 'ALL'
-  });
-
-  useEffect(() => {
-    fetchTrash();
-  }, []);
-
-  const fetchTrash = async () => {
-    setLoading(true);
-    const data = await clipboardRepository.getTrashItems();
-    setItems(data);
-    
-    const tags = await clipboardRepository.getUniqueTags();
-    setAvailableTags(['All', ...tags]);
-    
-    setLoading(false);
-  };
+  const [filter, setFilter] = useState<ListFilter>(EMPTY_LIST_FILTER);
 
   // --- Filtering Logic ---
   const filteredItems = useMemo(() => {
-    return items.filter(item => {
-      // 0. Filter by Category
-      if (filter.category !== 'ALL' && item.category !== filter.category) return false;
-
-      // 1. Filter by Type
-      if (filter.type !== 'ALL' && item.type !== filter.type) return false;
-
-      // 2. Filter by Tag
-      if (filter.tag !== 'All' && !item.tags.includes(filter.tag)) return false;
-
-      return true;
-    });
+    const node = listFilterNode(filter);
+    return items.filter(item => matchesSearch(item, node));
   }, [items, filter]);
 
 
@@ -105,10 +78,11 @@ const TrashScreen: React.FC<TrashScreenProps> = ({ onBack }) => {
 
   const handleRestoreSelected = async () => {
     if (selectedIds.size === 0) return;
+    const mark = clipboardRepository.getOperationMark();
     await clipboardRepository.restoreItems(Array.from(selectedIds));
+    showToast(`${selectedIds.size} items restored`, clipboardRepository.operationSince(mark));
     setSelectedIds(new Set());
     setIsSelectionMode(false);
-    fetchTrash();
   };
 
   const handleDeleteSelected = () => {
@@ -117,11 +91,12 @@ const TrashScreen: React.FC<TrashScreenProps> = ({ onBack }) => {
   };
 
   const confirmDelete = async () => {
+    const mark = clipboardRepository.getOperationMark();
     await clipboardRepository.deleteItemsForever(Array.from(selectedIds));
+    showToast(`${selectedIds.size} items deleted`, clipboardRepository.operationSince(mark));
     setShowDeleteConfirm(false);
     setSelectedIds(new Set());
     setIsSelectionMode(false);
-    fetchTrash();
   };
 
   // --- Render Helpers ---
@@ -192,8 +167,8 @@ const TrashScreen: React.FC<TrashScreenProps> = ({ onBack }) => {
                 <div className="flex justify-center space-x-6 mb-6 border-b pb-4" style={{ borderColor: isDarkTheme ? '#333' : '#eee' }}>
                     <FilterItem 
                         label="All" 
-                        active={filter.category === 'ALL'} 
-                        onClick={() => setFilter(f => ({...f, category: 'ALL'}))} 
+                        active={filter.category === null} 
+                        onClick={() => setFilter(f => ({...f, category: null}))} 
                         accentColor={accentColor} 
                         textColor={textColor}
                         underline
@@ -220,8 +195,8 @@ const TrashScreen: React.FC<TrashScreenProps> = ({ onBack }) => {
                 <div className="grid grid-cols-3 gap-y-4 gap-x-2 mb-6 border-b pb-4" style={{ borderColor: isDarkTheme ? '#333' : '#eee' }}>
                     <FilterItem 
                         label="All" 
-                        active={filter.type === 'ALL'} 
-                        onClick={() => setFilter(f => ({...f, type: 'ALL'}))} 
+                        active={filter.types.length === 0} 
+                        onClick={() => setFilter(f => ({...f, types: []}))} 
                         accentColor={accentColor} 
                         textColor={textColor}
                         underline
@@ -229,71 +204,80 @@ const TrashScreen: React.FC<TrashScreenProps> = ({ onBack }) => {
                      <FilterItem 
                         label="Phone" 
                         icon={<svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M20 15.5c-1.25 0-2.45-.2-3.57-.57-.35-.11-.74-.03-1.02.24l-2.2 2.2a15.045 15.045 0 01-6.59-6.59l2.2-2.21c.28-.26.36-.65.25-1C8.7 6.45 8.5 5.25 8.5 4c0-.55-.45-1-1-1H4c-.55 0-1 .45-1 1 0 9.39 7.61 17 17 17 .55 0 1-.45 1-1v-3.5c0-.55-.45-1-1-1z"/></svg>}
-                        active={filter.type === ClipboardType.PHONE} 
-                        onClick={() => setFilter(f => ({...f, type: ClipboardType.PHONE}))} 
+                        active={filter.types.includes(ClipboardType.PHONE)} 
+                        onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.PHONE)}))} 
                         accentColor={accentColor} 
                         textColor={textColor}
                     />
                      <FilterItem 
                         label="Email" 
                         icon={<svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" /></svg>}
-                        active={filter.type === ClipboardType.EMAIL} 
-                        onClick={() => setFilter(f => ({...f, type: ClipboardType.EMAIL}))} 
+                        active={filter.types.includes(ClipboardType.EMAIL)} 
+                        onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.EMAIL)}))} 
                         accentColor={accentColor} 
                         textColor={textColor}
                     />
                      <FilterItem 
                         label="Link" 
                         icon={<svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>}
-                        active={filter.type === ClipboardType.LINK} 
-                        onClick={() => setFilter(f => ({...f, type: ClipboardType.LINK}))} 
+                        active={filter.types.includes(ClipboardType.LINK)} 
+                        onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.LINK)}))} 
                         accentColor={accentColor} 
                         textColor={textColor}
                     />
                      <FilterItem 
                         label="Location" 
                         icon={<svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"/><path strokeLinecap="round" strokeLinejoin="round" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"/></svg>}
-                        active={filter.type === ClipboardType.LOCATION} 
-                        onClick={() => setFilter(f => ({...f, type: ClipboardType.LOCATION}))} 
+                        active={filter.types.includes(ClipboardType.LOCATION)} 
+                        onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.LOCATION)}))} 
                         accentColor={accentColor} 
                         textColor={textColor}
                     />
                      <FilterItem 
                         label="Secure" 
                         icon={<svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M12 17a2 2 0 100-4 2 2 0 000 4zm6-9h-1V6a5 5 0 00-10 0v2H6a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V10a2 2 0 00-2-2zM9 6a3 3 0 116 0v2H9V6z"/></svg>}
-                        active={filter.type === ClipboardType.SECURE} 
-                        onClick={() => setFilter(f => ({...f, type: ClipboardType.SECURE}))} 
+                        active={filter.types.includes(ClipboardType.SECURE)} 
+                        onClick={() => setFilter(f => ({...f, types: toggleValue(f.types, ClipboardType.SECURE)}))} 
                         accentColor={accentColor} 
                         textColor={textColor}
                     />
                 </div>
 
                 {/* Tags Grid */}
-                <div className="grid grid-cols-3 gap-y-4 gap-x-2">
+                {filter.tags.length > 1 && (
+                    <div className="flex justify-end mb-3">
+                        <TagMatchToggle mode={filter.tagMode} onChange={(tagMode) => setFilter(f => ({...f, tagMode}))} accentColor={accentColor} />
+                    </div>
+                )}
+                <div className="grid grid-cols-3 gap-y-4 gap-x-2 mb-6 border-b pb-4" style={{ borderColor: isDarkTheme ? '#333' : '#eee' }}>
                     {availableTags.map(tag => (
                         <FilterItem 
                             key={tag}
                             label={tag} 
-                            active={filter.tag === tag} 
-                            onClick={() => setFilter(f => ({...f, tag: tag}))}
+                            active={tag === 'All' ? filter.tags.length === 0 : filter.tags.includes(tag)} 
+                            onClick={() => setFilter(f => ({...f, tags: tag === 'All' ? [] : toggleValue(f.tags, tag)}))}
                             underline={tag === 'All'}
                             accentColor={accentColor}
                             textColor={textColor}
                         />
                     ))}
                 </div>
+
+                {/* Date Range */}
+                <DateRangeFilter filter={filter} onChange={setFilter} isDarkTheme={isDarkTheme} accentColor={accentColor} />
              </div>
         </div>
       )}
 
       {/* --- MAIN CONTENT --- */}
       <main className="flex-1 px-4 py-6 overflow-y-auto no-scrollbar relative z-0">
+          <SearchBar query={searchQuery} onQueryChange={setSearchQuery} isDarkTheme={isDarkTheme} accentColor={accentColor} />
           {loading ? (
              <div className="text-center mt-20 font-mono text-sm tracking-widest opacity-60 animate-pulse" style={{ color: accentColor }}>LOADING TRASH...</div>
           ) : filteredItems.length === 0 ? (
              <div className={`flex flex-col items-center justify-center mt-32 ${isDarkTheme ? "text-zinc-600" : "text-gray-400"}`}>
                  <svg className="w-16 h-16 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-                 <span className="font-light tracking-wide">Trash is empty</span>
+                 <span className="font-light tracking-wide">{searchQuery ? 'No matching items in Trash' : 'Trash is empty'}</span>
              </div>
           ) : (
             filteredItems.map(item => {
@@ -308,7 +292,12 @@ const TrashScreen: React.FC<TrashScreenProps> = ({ onBack }) => {
                         }}
                         className={`relative transition-all duration-200 ${isSelectionMode ? 'cursor-pointer' : ''}`}
                     >
-                        <GoldCard item={item} />
+                        <GoldCard item={item} searchQuery={searchQuery} />
+                        {describeTrashAge(item, trashRetentionDays) && (
+                            <p className={`text-[10px] font-medium tracking-wide uppercase px-4 mt-1 ${isDarkTheme ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                                {describeTrashAge(item, trashRetentionDays)}
+                            </p>
+                        )}
                         
                         {/* Selection Checkmark Overlay */}
                         {isSelectionMode && (
@@ -353,6 +342,15 @@ const TrashScreen: React.FC<TrashScreenProps> = ({ onBack }) => {
           </div>
       )}
 
+      {toast && (
+          <Toast
+              message={toast.message}
+              actionLabel={toast.operationId ? 'Undo' : undefined}
+              onAction={undo}
+              accentColor={accentColor}
+          />
+      )}
+
     </div>
   );
 };
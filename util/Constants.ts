@@ -1,4 +1,5 @@
 import { ClipboardItem, ClipboardType } from '../types';
+import { maskSensitiveContent } from './SensitiveContent';
 
 // --- Colors ---
 export const THEME_COLORS = {
@@ -23,8 +24,8 @@ export const INITIAL_CLIPBOARD_DATA: ClipboardItem[] = [
   },
   {
     id: '2',
-    content: 'my credit card no is *******1234 with pin *****abc',
-    displayContent: 'my credit card no is *******1234\nwith pin *****abc',
+    content: 'my credit card no is 4111 1111 1111 1111\npin: 4821',
+    displayContent: maskSensitiveContent('my credit card no is 4111 1111 1111 1111\npin: 4821'),
     type: ClipboardType.SECURE,
     category: 'clipboard',
     timestamp: '10:43 PM • 23 Dec',
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseLegacyTimestamp, formatTimestamp, isIsoTimestamp } from './DateFormat';
+
+describe('DateFormat', () => {
+
+  describe('parseLegacyTimestamp', () => {
+    const now = new Date(2025, 5, 15, 12, 0);
+
+    it('should keep ISO timestamps', () => {
+      const iso = '2024-12-20T22:44:00.000Z';
+      expect(parseLegacyTimestamp(iso, now)).toBe(iso);
+    });
+
+    it('should parse the card format using the most recent past year', () => {
+      const parsed = new Date(parseLegacyTimestamp('10:44 PM • 20 Dec', now)!);
+      expect(parsed.getFullYear()).toBe(2024);
+      expect(parsed.getMonth()).toBe(11);
+      expect(parsed.getDate()).toBe(20);
+      expect(parsed.getHours()).toBe(22);
+      expect(parsed.getMinutes()).toBe(44);
+    });
+
+    it('should resolve 12 AM to midnight in the current year', () => {
+      const parsed = new Date(parseLegacyTimestamp('12:05 AM • 3 Jan', now)!);
+      expect(parsed.getFullYear()).toBe(2025);
+      expect(parsed.getHours()).toBe(0);
+    });
+
+    it('should parse locale strings produced by toLocaleString', () => {
+      const parsed = parseLegacyTimestamp('12/20/2024, 10:44:00 PM', now);
+      expect(parsed).not.toBeNull();
+      expect(new Date(parsed!).getDate()).toBe(20);
+    });
+
+    it('should return null for unparseable values', () => {
+      expect(parseLegacyTimestamp('yesterday-ish', now)).toBeNull();
+      expect(parseLegacyTimestamp('', now)).toBeNull();
+    });
+  });
+
+  describe('formatTimestamp', () => {
+    it('should format ISO values in the card style', () => {
+      const iso = new Date(2024, 11, 20, 22, 44).toISOString();
+      expect(formatTimestamp(iso)).toBe('10:44 PM • 20 Dec');
+    });
+
+    it('should show non-ISO values unchanged', () => {
+      expect(formatTimestamp('10:44 PM • 20 Dec')).toBe('10:44 PM • 20 Dec');
+      expect(isIsoTimestamp('10:44 PM • 20 Dec')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Date Format Utilities
+ * Items store their timestamp as an ISO string; these helpers turn older
+ * free-form values into ISO and render ISO values for display.
+ */
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// e.g. '10:44 PM • 20 Dec' (the format used by the original seed data)
+const CARD_TIME_PATTERN = /^(\d{1,2}):(\d{2})\s*(AM|PM)\s*•\s*(\d{1,2})\s+([A-Za-z]{3})/i;
+
+const ISO_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+/** True if the value is already an ISO 8601 date-time string */
+export const isIsoTimestamp = (value: string): boolean =>
+  ISO_PATTERN.test(value) && !isNaN(Date.parse(value));
+
+/**
+ * Convert a stored timestamp of any historical format into an ISO string.
+ * The card format carries no year, so it is resolved to the most recent
+ * matching date that is not in the future relative to `now`.
+ * @returns the ISO string, or null if the value could not be understood
+ */
+export const parseLegacyTimestamp = (value: string, now: Date = new Date()): string | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  if (isIsoTimestamp(trimmed)) return new Date(trimmed).toISOString();
+
+  const match = trimmed.match(CARD_TIME_PATTERN);
+  if (match) {
+    const [, hh, mm, meridiem, day, monthName] = match;
+    const month = MONTHS.findIndex(m => m.toLowerCase() === monthName.toLowerCase());
+    if (month === -1) return null;
+
+    let hours = parseInt(hh, 10) % 12;
+    if (meridiem.toUpperCase() === 'PM') hours += 12;
+
+    const date = new Date(now.getFullYear(), month, parseInt(day, 10), hours, parseInt(mm, 10));
+    if (date.getTime() > now.getTime()) date.setFullYear(date.getFullYear() - 1);
+    return date.toISOString();
+  }
+
+  // Values produced by Date#toLocaleString() in the browser's locale
+  const parsed = Date.parse(trimmed);
+  if (!isNaN(parsed)) return new Date(parsed).toISOString();
+
+  return null;
+};
+
+/**
+ * Format a stored timestamp for cards and the reader, e.g. '10:44 PM • 20 Dec'.
+ * Values that are not valid dates are shown as-is.
+ */
+export const formatTimestamp = (value: string): string => {
+  const time = Date.parse(value);
+  if (!isIsoTimestamp(value) || isNaN(time)) return value;
+
+  const date = new Date(time);
+  const hours = date.getHours();
+  const hh = String(hours % 12 === 0 ? 12 : hours % 12).padStart(2, '0');
+  const mm = String(date.getMinutes()).padStart(2, '0');
+  const meridiem = hours >= 12 ? 'PM' : 'AM';
+  return `${hh}:${mm} ${meridiem} • ${date.getDate()} ${MONTHS[date.getMonth()]}`;
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_NEAR_DUPLICATE_OPTIONS,
+  NearDuplicateOptions,
+  canonicalizeUrl,
+  findNearDuplicate,
+  groupNearDuplicates,
+  isNearDuplicate,
+  normalizeForComparison,
+  parseNearDuplicateOptions,
+  similarity
+} from './NearDuplicate';
+import { makeItem } from '../__tests__/fixtures';
+
+const exactOnly: NearDuplicateOptions = { ...DEFAULT_NEAR_DUPLICATE_OPTIONS, threshold: 1 };
+
+describe('NearDuplicate', () => {
+
+  describe('canonicalizeUrl', () => {
+    it('should drop tracking parameters and sort the rest', () => {
+      expect(canonicalizeUrl('https://Example.com/a/?utm_source=x&b=2&fbclid=abc&a=1'))
+        .toBe('https://example.com/a?a=1&b=2');
+    });
+
+    it('should leave unparseable input alone', () => {
+      expect(canonicalizeUrl('https://')).toBe('https://');
+    });
+  });
+
+  describe('normalizeForComparison', () => {
+    it('should apply only the enabled normalizations', () => {
+      const text = '  Hello\n\n  World  ';
+      expect(normalizeForComparison(text, DEFAULT_NEAR_DUPLICATE_OPTIONS)).toBe('hello world');
+      expect(normalizeForComparison(text, { ...DEFAULT_NEAR_DUPLICATE_OPTIONS, ignoreCase: false })).toBe('Hello World');
+      expect(normalizeForComparison(text, { ...DEFAULT_NEAR_DUPLICATE_OPTIONS, collapseWhitespace: false })).toBe(text.toLowerCase());
+    });
+  });
+
+  describe('isNearDuplicate', () => {
+    it('should match the same link shared with different tracking parameters', () => {
+      expect(isNearDuplicate(
+        'https://news.site/story?id=7&utm_campaign=a',
+        'https://news.site/story/?id=7&utm_campaign=b&gclid=z',
+        exactOnly
+      )).toBe(true);
+      expect(isNearDuplicate('https://news.site/story?id=7', 'https://news.site/story?id=8', exactOnly)).toBe(false);
+    });
+
+    it('should match a paragraph that only differs in spacing', () => {
+      expect(isNearDuplicate('First line.\nSecond  line.', 'First line. Second line.', exactOnly)).toBe(true);
+    });
+
+    it('should use the similarity threshold for small edits', () => {
+      const a = 'Meeting moved to Thursday at 3pm in room 4B, bring the quarterly report';
+      const b = 'Meeting moved to Thursday at 3pm in room 4C, bring the quarterly report';
+      expect(isNearDuplicate(a, b, exactOnly)).toBe(false);
+      expect(isNearDuplicate(a, b, { ...DEFAULT_NEAR_DUPLICATE_OPTIONS, threshold: 0.9 })).toBe(true);
+      expect(isNearDuplicate(a, 'Completely different text', { ...DEFAULT_NEAR_DUPLICATE_OPTIONS, threshold: 0.8 })).toBe(false);
+    });
+  });
+
+  describe('similarity', () => {
+    it('should be 1 for identical texts and 0 for disjoint ones', () => {
+      expect(similarity('abc', 'abc')).toBe(1);
+      expect(similarity('abc', 'xyz')).toBe(0);
+      expect(similarity('night', 'nacht')).toBeCloseTo(0.25);
+    });
+  });
+
+  describe('findNearDuplicate', () => {
+    it('should return the first matching candidate', () => {
+      const items = [makeItem('1', { content: 'other' }), makeItem('2', { content: 'Hello  World' }), makeItem('3', { content: 'hello world' })];
+      expect(findNearDuplicate('hello world', items, exactOnly)?.id).toBe('2');
+      expect(findNearDuplicate('nothing like it', items, exactOnly)).toBeUndefined();
+    });
+  });
+
+  describe('groupNearDuplicates', () => {
+    it('should group matches per category and skip singletons', () => {
+      const items = [
+        makeItem('1', { content: 'https://a.com/x?utm_source=1' }),
+        makeItem('2', { content: 'unique text' }),
+        makeItem('3', { content: 'https://a.com/x' }),
+        makeItem('4', { content: 'https://a.com/x', category: 'notes' }),
+        makeItem('5', { content: 'HTTPS://A.COM/X/' })
+      ];
+      expect(groupNearDuplicates(items, exactOnly).map(g => g.map(i => i.id))).toEqual([['1', '3', '5']]);
+    });
+  });
+
+  describe('parseNearDuplicateOptions', () => {
+    it('should read stored options and fall back per field', () => {
+      expect(parseNearDuplicateOptions(null)).toEqual(DEFAULT_NEAR_DUPLICATE_OPTIONS);
+      expect(parseNearDuplicateOptions('{')).toEqual(DEFAULT_NEAR_DUPLICATE_OPTIONS);
+      expect(parseNearDuplicateOptions(JSON.stringify({ ignoreCase: false, threshold: 0.42 }))).toEqual({
+        ...DEFAULT_NEAR_DUPLICATE_OPTIONS,
+        ignoreCase: false
+      });
+    });
+  });
+});
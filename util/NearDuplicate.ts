@@ -0,0 +1,157 @@
+import { ClipboardItem } from '../types';
+
+/**
+ * Near-Duplicate Detection
+ * Decides whether two clipboard texts are "the same thing" even when they
+ * differ in whitespace, case, URL tracking parameters or a few characters.
+ */
+
+export interface NearDuplicateOptions {
+  ignoreCase: boolean;
+  collapseWhitespace: boolean;
+  /** Strip tracking parameters, sort the query and drop trailing slashes in URLs */
+  canonicalizeUrls: boolean;
+  /** Minimum similarity (0..1) of the normalized texts; 1 requires them to be identical */
+  threshold: number;
+}
+
+export const SIMILARITY_THRESHOLD_OPTIONS = [1, 0.95, 0.9, 0.8];
+
+export const DEFAULT_NEAR_DUPLICATE_OPTIONS: NearDuplicateOptions = {
+  ignoreCase: true,
+  collapseWhitespace: true,
+  canonicalizeUrls: true,
+  threshold: 0.95
+};
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/gi;
+
+// Parameters that only identify where a link was shared from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid', 'si',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'ref_src'
+]);
+
+const isTrackingParam = (name: string) => name.toLowerCase().startsWith('utm_') || TRACKING_PARAMS.has(name.toLowerCase());
+
+/** Canonical form of a single URL; unparseable input is returned unchanged */
+export const canonicalizeUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([name]) => !isTrackingParam(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${parsed.host}${path}${query}${parsed.hash}`;
+  } catch (e) {
+    return url;
+  }
+};
+
+/** Apply the enabled normalizations to a text before comparing it */
+export const normalizeForComparison = (text: string, options: NearDuplicateOptions): string => {
+  let normalized = text;
+  if (options.canonicalizeUrls) normalized = normalized.replace(URL_PATTERN, canonicalizeUrl);
+  if (options.collapseWhitespace) normalized = normalized.replace(/\s+/g, ' ').trim();
+  if (options.ignoreCase) normalized = normalized.toLowerCase();
+  return normalized;
+};
+
+const bigramCounts = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) || 0) + 1);
+  }
+  return counts;
+};
+
+/** Dice coefficient over character bigrams: 1 for identical texts, 0 for nothing in common */
+export const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const countsA = bigramCounts(a);
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const remaining = countsA.get(bigram);
+    if (remaining) {
+      shared++;
+      countsA.set(bigram, remaining - 1);
+    }
+  }
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+};
+
+/** Compare two already normalized texts against the threshold */
+const matches = (a: string, b: string, threshold: number): boolean => {
+  if (a === b) return true;
+  if (threshold >= 1) return false;
+  // Texts of very different length can never reach the threshold, so skip the bigram work
+  const shorter = Math.min(a.length, b.length) - 1;
+  const total = a.length + b.length - 2;
+  if (total <= 0 || (2 * shorter) / total < threshold) return false;
+  return similarity(a, b) >= threshold;
+};
+
+/** True if the two texts count as duplicates under the options */
+export const isNearDuplicate = (a: string, b: string, options: NearDuplicateOptions): boolean =>
+  matches(normalizeForComparison(a, options), normalizeForComparison(b, options), options.threshold);
+
+/** First candidate whose content is a near-duplicate of `content` */
+export const findNearDuplicate = <T extends Pick<ClipboardItem, 'content'>>(
+  content: string,
+  candidates: T[],
+  options: NearDuplicateOptions
+): T | undefined => {
+  const normalized = normalizeForComparison(content, options);
+  return candidates.find(c => matches(normalized, normalizeForComparison(c.content, options), options.threshold));
+};
+
+/**
+ * Group items that are near-duplicates of each other, per category. Every
+ * group is led by its first item in the given order and only holds items
+ * matching that leader. Items without a duplicate are left out.
+ */
+export const groupNearDuplicates = (items: ClipboardItem[], options: NearDuplicateOptions): ClipboardItem[][] => {
+  const normalized = items.map(item => normalizeForComparison(item.content, options));
+  const grouped = new Set<number>();
+  const groups: ClipboardItem[][] = [];
+
+  items.forEach((leader, i) => {
+    if (grouped.has(i)) return;
+    const group = [leader];
+    for (let j = i + 1; j < items.length; j++) {
+      if (grouped.has(j) || items[j].category !== leader.category) continue;
+      if (matches(normalized[i], normalized[j], options.threshold)) {
+        group.push(items[j]);
+        grouped.add(j);
+      }
+    }
+    if (group.length > 1) groups.push(group);
+  });
+  return groups;
+};
+
+/** Validate stored options, falling back to the defaults for anything unknown */
+export const parseNearDuplicateOptions = (raw: string | null): NearDuplicateOptions => {
+  if (!raw) return DEFAULT_NEAR_DUPLICATE_OPTIONS;
+  try {
+    const parsed = JSON.parse(raw);
+    const flag = (key: 'ignoreCase' | 'collapseWhitespace' | 'canonicalizeUrls') =>
+      typeof parsed[key] === 'boolean' ? parsed[key] : DEFAULT_NEAR_DUPLICATE_OPTIONS[key];
+    return {
+      ignoreCase: flag('ignoreCase'),
+      collapseWhitespace: flag('collapseWhitespace'),
+      canonicalizeUrls: flag('canonicalizeUrls'),
+      threshold: SIMILARITY_THRESHOLD_OPTIONS.includes(parsed.threshold)
+        ? parsed.threshold
+        : DEFAULT_NEAR_DUPLICATE_OPTIONS.threshold
+    };
+  } catch (e) {
+    console.warn("Invalid duplicate detection setting", e);
+    return DEFAULT_NEAR_DUPLICATE_OPTIONS;
+  }
+};
@@ -0,0 +1,175 @@
+/**
+ * Sensitive Content Detection
+ * Finds secrets in copied text (card numbers, IBANs, API keys, JWTs, private
+ * keys and passwords) so they can be classified as SECURE and shown masked.
+ * Card numbers and IBANs are checksum-validated to keep order numbers and
+ * the like from being flagged.
+ */
+
+export type SensitiveKind = 'CARD' | 'IBAN' | 'API_KEY' | 'JWT' | 'PRIVATE_KEY' | 'PASSWORD';
+
+export interface SensitiveMatch {
+  kind: SensitiveKind;
+  /** Offsets of the secret itself in the text, end exclusive */
+  start: number;
+  end: number;
+}
+
+const MASK_CHAR = '•';
+const MASK = MASK_CHAR.repeat(8);
+
+const PRIVATE_KEY_PATTERN = /-----BEGIN ((?:[A-Z0-9]+ )*PRIVATE KEY)-----[\s\S]*?-----END \1-----/g;
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g;
+
+/** Well-known key formats; each is distinctive enough to flag on its own */
+const API_KEY_PATTERNS = [
+  /\bAKIA[0-9A-Z]{16}\b/g, // AWS access key id
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, // GitHub
+  /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g, // Stripe
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g, // Slack
+  /\bAIza[0-9A-Za-z_-]{35}/g, // Google
+  /\bsk-[A-Za-z0-9_-]{20,}/g // OpenAI-style
+];
+
+/** `api_key = …`, `Authorization: Bearer …`: the value group is the secret */
+const LABELLED_KEY_PATTERN = /\b(?:(?:api[_-]?key|secret(?:[_-]?key)?|access[_-]?token|auth[_-]?token|token)["']?\s*[:=]|bearer\s)\s*["']?([A-Za-z0-9_\-./+=]{16,})/gi;
+const LABELLED_PASSWORD_PATTERN = /\b(?:password|passwd|passcode|pwd|pin)\s*[:=]\s*["']?([^\s"']{4,})/gi;
+
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}/g;
+
+/** Luhn checksum over the digits of a candidate card number */
+export const isLuhnValid = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+};
+
+/** ISO 13616 check: move the first four characters to the end, read letters as numbers, mod 97 must be 1 */
+export const isValidIban = (iban: string): boolean => {
+  const compact = iban.replace(/ /g, '').toUpperCase();
+  if (compact.length < 15 || compact.length > 34 || !/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(compact)) return false;
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of value) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+/**
+ * A lone token that looks like a generated password: no spaces, 8 to 64
+ * characters, letters and digits, and at least three of lower case, upper
+ * case, digits and symbols. Tokens under 10 characters also need a symbol,
+ * so names like `Version2` pass. Emails and paths never count.
+ */
+export const isPasswordLike = (text: string): boolean => {
+  const token = text.trim();
+  if (token.length < 8 || token.length > 64 || /[\s/\\]/.test(token)) return false;
+  if (/^[^@]+@[^@]+\.[a-z]{2,}$/i.test(token)) return false;
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(re => re.test(token)).length;
+  const hasSymbol = /[^A-Za-z0-9]/.test(token);
+  return classes >= 3 && /\d/.test(token) && /[A-Za-z]/.test(token) && (token.length >= 10 || hasSymbol);
+};
+
+/** The longest start of an IBAN-looking run that passes the checksum; the run may have swallowed the next word */
+const validIbanPrefix = (value: string): string | null => {
+  for (let end = value.length; end >= 15; end--) {
+    const candidate = value.slice(0, end).trimEnd();
+    if (isValidIban(candidate)) return candidate;
+  }
+  return null;
+};
+
+const collect = (text: string, pattern: RegExp, kind: SensitiveKind, group = 0, accept: (value: string) => boolean = () => true) => {
+  const matches: SensitiveMatch[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const value = match[group];
+    if (!value || !accept(value)) continue;
+    const start = match.index! + (group === 0 ? 0 : match[0].indexOf(value));
+    matches.push({ kind, start, end: start + value.length });
+  }
+  return matches;
+};
+
+/**
+ * Every secret in the text, in order of appearance. Where detections
+ * overlap the more specific one (listed first below) wins.
+ */
+export const detectSensitiveContent = (text: string): SensitiveMatch[] => {
+  const candidates = [
+    ...collect(text, PRIVATE_KEY_PATTERN, 'PRIVATE_KEY'),
+    ...collect(text, JWT_PATTERN, 'JWT'),
+    ...API_KEY_PATTERNS.flatMap(pattern => collect(text, pattern, 'API_KEY')),
+    ...collect(text, CARD_PATTERN, 'CARD', 0, value => {
+      const digits = value.replace(/\D/g, '');
+      return digits.length >= 13 && digits.length <= 19 && isLuhnValid(digits);
+    }),
+    ...Array.from(text.matchAll(IBAN_PATTERN)).flatMap(match => {
+      const iban = validIbanPrefix(match[0]);
+      return iban ? [{ kind: 'IBAN' as const, start: match.index!, end: match.index! + iban.length }] : [];
+    }),
+    ...collect(text, LABELLED_KEY_PATTERN, 'API_KEY', 1),
+    ...collect(text, LABELLED_PASSWORD_PATTERN, 'PASSWORD', 1)
+  ];
+  if (candidates.length === 0 && isPasswordLike(text)) {
+    const start = text.indexOf(text.trim());
+    candidates.push({ kind: 'PASSWORD', start, end: start + text.trim().length });
+  }
+
+  const kept: SensitiveMatch[] = [];
+  candidates.forEach(candidate => {
+    if (!kept.some(k => candidate.start < k.end && k.start < candidate.end)) kept.push(candidate);
+  });
+  return kept.sort((a, b) => a.start - b.start);
+};
+
+export const containsSensitiveContent = (text: string): boolean => detectSensitiveContent(text).length > 0;
+
+/** Keep the last `visible` letters and digits, masking the others but not the spacing */
+const maskAllButLast = (value: string, visible: number): string => {
+  let remaining = value.replace(/[^A-Za-z0-9]/g, '').length - visible;
+  return value.replace(/[A-Za-z0-9]/g, char => (remaining-- > 0 ? MASK_CHAR : char));
+};
+
+const maskValue = (kind: SensitiveKind, value: string): string => {
+  switch (kind) {
+    case 'CARD':
+    case 'IBAN':
+      return maskAllButLast(value, 4);
+    case 'PRIVATE_KEY': {
+      const label = value.match(/^-----BEGIN (.+?)-----/)?.[1] ?? 'PRIVATE KEY';
+      return `-----BEGIN ${label}-----\n${MASK}\n-----END ${label}-----`;
+    }
+    case 'API_KEY':
+    case 'JWT':
+      return value.slice(0, 4) + MASK;
+    default:
+      return MASK;
+  }
+};
+
+/**
+ * Display text for a SECURE item: detected secrets are masked in place and
+ * the rest stays readable. Text without recognizable secrets (marked secure
+ * by hand) is masked completely.
+ */
+export const maskSensitiveContent = (text: string): string => {
+  const matches = detectSensitiveContent(text);
+  if (matches.length === 0) return MASK;
+  let masked = '';
+  let position = 0;
+  matches.forEach(({ kind, start, end }) => {
+    masked += text.slice(position, start) + maskValue(kind, text.slice(start, end));
+    position = end;
+  });
+  return masked + text.slice(position);
+};
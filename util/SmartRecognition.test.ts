@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { detectSmartItems, SmartItem } from './SmartRecognition';
+import { detectPrimaryType, detectSmartItems, SmartItem } from './SmartRecognition';
 import { ClipboardType } from '../types';
 
 describe('SmartRecognition', () => {
@@ -220,6 +220,13 @@ describe('SmartRecognition', () => {
     });
   });
 
+  describe('Primary Type Detection', () => {
+    it('should classify secrets as secure before anything else', () => {
+      expect(detectPrimaryType('Card for https://shop.example.com: 4111 1111 1111 1111')).toBe(ClipboardType.SECURE);
+      expect(detectPrimaryType('https://shop.example.com')).toBe(ClipboardType.LINK);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle empty text', () => {
       const text = '';
@@ -1,4 +1,5 @@
 import { ClipboardType } from '../types';
+import { containsSensitiveContent } from './SensitiveContent';
 
 /**
  * Smart Recognition Utilities
@@ -114,13 +115,17 @@ export const detectSmartItems = (text: string, itemType?: ClipboardType): SmartI
 /**
  * Detect the primary clipboard type from content using smart recognition
  * @param text - The text to analyze
- * @returns The detected ClipboardType (first detected type, or TEXT as default)
+ * @param fallback - Type to use when nothing is recognized (e.g. an item's current type)
+ * @returns The detected ClipboardType (first detected type, or the fallback)
  */
-export const detectPrimaryType = (text: string): ClipboardType => {
+export const detectPrimaryType = (text: string, fallback: ClipboardType = ClipboardType.TEXT): ClipboardType => {
+  // Secrets win over whatever else the text contains
+  if (containsSensitiveContent(text)) return ClipboardType.SECURE;
+
   const smartItems = detectSmartItems(text);
   
   if (smartItems.length === 0) {
-    return ClipboardType.TEXT;
+    return fallback;
   }
 
   // Map first detected smart item type to ClipboardType
@@ -135,6 +140,6 @@ export const detectPrimaryType = (text: string): ClipboardType => {
     case 'LOCATION':
       return ClipboardType.LOCATION;
     default:
-      return ClipboardType.TEXT;
+      return fallback;
   }
 };
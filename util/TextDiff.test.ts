@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { diffText, summarizeDiff, DiffSegment } from './TextDiff';
+
+const side = (segments: DiffSegment[], skip: 'insert' | 'delete') =>
+  segments.filter(s => s.kind !== skip).map(s => s.text).join('');
+
+describe('TextDiff', () => {
+
+  describe('diffText', () => {
+    it('should return a single equal segment for identical texts', () => {
+      expect(diffText('same text', 'same text')).toEqual([{ kind: 'equal', text: 'same text' }]);
+      expect(diffText('', '')).toEqual([]);
+    });
+
+    it('should mark a replaced word', () => {
+      expect(diffText('buy milk today', 'buy bread today')).toEqual([
+        { kind: 'equal', text: 'buy ' },
+        { kind: 'delete', text: 'milk' },
+        { kind: 'insert', text: 'bread' },
+        { kind: 'equal', text: ' today' }
+      ]);
+    });
+
+    it('should mark appended and removed text', () => {
+      expect(diffText('hello', 'hello world')).toEqual([
+        { kind: 'equal', text: 'hello' },
+        { kind: 'insert', text: ' world' }
+      ]);
+      expect(diffText('hello world', '')).toEqual([{ kind: 'delete', text: 'hello world' }]);
+    });
+
+    it('should rebuild both texts from the segments', () => {
+      const before = 'The quick brown fox\njumps over\nthe lazy dog';
+      const after = 'A quick red fox\njumps over\nthe sleeping lazy dog!';
+      const segments = diffText(before, after);
+      expect(side(segments, 'insert')).toBe(before);
+      expect(side(segments, 'delete')).toBe(after);
+    });
+
+    it('should fall back to lines for very long texts', () => {
+      const before = Array.from({ length: 1500 }, (_, i) => `word${i}`).join(' ') + '\nlast line';
+      const after = Array.from({ length: 1500 }, (_, i) => `word${i}`).join(' ') + '\nchanged line';
+      const segments = diffText(before, after);
+      expect(side(segments, 'insert')).toBe(before);
+      expect(side(segments, 'delete')).toBe(after);
+      expect(segments.find(s => s.kind === 'delete')?.text).toBe('last line');
+    });
+  });
+
+  describe('summarizeDiff', () => {
+    it('should count inserted and deleted words', () => {
+      expect(summarizeDiff(diffText('one two three', 'one 2 three four'))).toEqual({ added: 2, removed: 1 });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Text Diff
+ * Word-level diff between two versions of a text, used by the revision
+ * history viewer. Very long texts fall back to comparing whole lines so the
+ * LCS table stays small.
+ */
+
+export type DiffKind = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  kind: DiffKind;
+  text: string;
+}
+
+// Above this many table cells (tokens × tokens) the diff switches to lines
+const MAX_WORD_CELLS = 1_000_000;
+const MAX_LINE_CELLS = 4_000_000;
+
+/** Split into words and the whitespace between them, keeping every character */
+const splitWords = (text: string): string[] => text.split(/(\s+)/).filter(token => token !== '');
+
+/** Split into lines, each keeping its trailing newline */
+const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+const pushSegment = (segments: DiffSegment[], kind: DiffKind, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.kind === kind) last.text += text;
+  else segments.push({ kind, text });
+};
+
+/** Longest-common-subsequence diff over two token lists */
+const diffTokens = (before: string[], after: string[]): DiffSegment[] => {
+  // Common prefix and suffix are cheap to peel off and are the usual case for edits
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const width = b.length + 1;
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  if (start > 0) pushSegment(segments, 'equal', before.slice(0, start).join(''));
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushSegment(segments, 'delete', a[i++]);
+    } else {
+      pushSegment(segments, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'delete', a[i++]);
+  while (j < b.length) pushSegment(segments, 'insert', b[j++]);
+  if (endBefore < before.length) pushSegment(segments, 'equal', before.slice(endBefore).join(''));
+  return segments;
+};
+
+/**
+ * Diff two texts. Concatenating the 'equal' and 'delete' segments gives
+ * `before`; 'equal' and 'insert' give `after`.
+ */
+export const diffText = (before: string, after: string): DiffSegment[] => {
+  if (before === after) return before ? [{ kind: 'equal', text: before }] : [];
+
+  const words = [splitWords(before), splitWords(after)];
+  if (words[0].length * words[1].length <= MAX_WORD_CELLS) return diffTokens(words[0], words[1]);
+
+  const lines = [splitLines(before), splitLines(after)];
+  if (lines[0].length * lines[1].length <= MAX_LINE_CELLS) return diffTokens(lines[0], lines[1]);
+
+  // Too big to compare meaningfully: show it as a full replacement
+  return [
+    ...(before ? [{ kind: 'delete' as const, text: before }] : []),
+    ...(after ? [{ kind: 'insert' as const, text: after }] : [])
+  ];
+};
+
+/** Count of inserted and deleted words, for one-line summaries */
+export const summarizeDiff = (segments: DiffSegment[]): { added: number; removed: number } => {
+  const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  return segments.reduce(
+    (sum, segment) => {
+      if (segment.kind === 'insert') sum.added += countWords(segment.text);
+      if (segment.kind === 'delete') sum.removed += countWords(segment.text);
+      return sum;
+    },
+    { added: 0, removed: 0 }
+  );
+};
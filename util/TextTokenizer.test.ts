@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { editDistance, foldText, stripHtml, tokenize } from './TextTokenizer';
+
+describe('TextTokenizer', () => {
+  describe('foldText', () => {
+    it('should lower case and strip diacritics', () => {
+      expect(foldText('Crème Brûlée à São Paulo')).toBe('creme brulee a sao paulo');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should split on anything that is not a letter or digit', () => {
+      expect(tokenize('Call +1 (555) 010-99, ask for Zoë!')).toEqual(['call', '1', '555', '010', '99', 'ask', 'for', 'zoe']);
+      expect(tokenize('https://example.com/a_b')).toEqual(['https', 'example', 'com', 'a', 'b']);
+      expect(tokenize('  ')).toEqual([]);
+    });
+
+    it('should keep non-latin words', () => {
+      expect(tokenize('Привет мир 東京')).toEqual(['привет', 'мир', '東京']);
+    });
+  });
+
+  describe('stripHtml', () => {
+    it('should drop tags, scripts and common entities', () => {
+      expect(stripHtml('<p>Fish&nbsp;&amp;&nbsp;<b>chips</b></p><script>var x = 1;</script>').replace(/\s+/g, ' ').trim())
+        .toBe('Fish & chips');
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('meeting', 'meetng')).toBe(1);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+
+    it('should stop at the limit', () => {
+      expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+      expect(editDistance('a', 'abcdef', 2)).toBe(3);
+    });
+  });
+});
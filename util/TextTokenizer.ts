@@ -0,0 +1,52 @@
+/**
+ * Text Tokenizer
+ * Turns free text into comparable search terms: lower case, without
+ * diacritics, split into runs of letters and digits.
+ */
+
+const COMBINING_MARKS = /\p{M}+/gu;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'"
+};
+
+/** Lower case and strip accents, so "Café" and "cafe" compare equal */
+export const foldText = (text: string): string =>
+  text.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+
+/** Search terms of a text, in order of appearance (duplicates kept) */
+export const tokenize = (text: string): string[] => foldText(text).match(WORD_PATTERN) || [];
+
+/** Visible text of an HTML fragment; good enough for indexing, no DOM needed */
+export const stripHtml = (html: string): string =>
+  html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, entity => HTML_ENTITIES[entity]);
+
+/**
+ * Levenshtein distance between two terms, giving up early: any distance
+ * above `max` is reported as `max + 1`.
+ */
+export const editDistance = (a: string, b: string, max: number = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return Math.min(previous[b.length], max + 1);
+};